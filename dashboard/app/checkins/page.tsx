@@ -241,6 +241,21 @@ export default async function CheckinsPage() {
 													</ul>
 												</div>
 											)}
+											{checkin.priorityStatus && checkin.priorityStatus.length > 0 && (
+												<div className="mt-3">
+													<p className="text-xs text-foreground-dimmed mb-1">Morning priorities:</p>
+													<ul className="text-sm text-foreground space-y-1">
+														{checkin.priorityStatus.map((o, oIdx) => (
+															<li key={oIdx} className="flex items-start gap-2">
+																<span className="text-foreground-dimmed w-4 shrink-0">
+																	{{ done: '✓', partial: '~', dropped: '✗' }[o.status]}
+																</span>
+																{o.priority}
+															</li>
+														))}
+													</ul>
+												</div>
+											)}
 											{checkin.accomplishments && checkin.accomplishments.length > 0 && (
 												<div className="mt-3">
 													<p className="text-xs text-foreground-dimmed mb-1">Accomplishments:</p>
@@ -267,6 +282,14 @@ export default async function CheckinsPage() {
 													</ul>
 												</div>
 											)}
+											{checkin.reflection && (
+												<div className="mt-3">
+													<p className="text-xs text-foreground-dimmed mb-1">Coach:</p>
+													<p className="text-sm text-foreground-muted italic">
+														{checkin.reflection}
+													</p>
+												</div>
+											)}
 										</div>
 										<span className="text-xs text-foreground-dimmed">
 											{formatRelativeTime(checkin.timestamp)}
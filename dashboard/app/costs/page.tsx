@@ -4,7 +4,15 @@ import { EmptyState } from '@/components/ui/EmptyState';
 import { StatCard } from '@/components/ui/StatCard';
 import { getCostData, isInitialized } from '@/lib/data';
 import { formatCurrency } from '@/lib/utils';
-import { BarChart3, Calculator, DollarSign, PieChart, Sparkles, TrendingUp } from 'lucide-react';
+import {
+	BarChart3,
+	Calculator,
+	DollarSign,
+	PieChart,
+	Receipt,
+	Sparkles,
+	TrendingUp,
+} from 'lucide-react';
 import { CostChart } from './CostChart';
 
 export const dynamic = 'force-dynamic';
@@ -285,6 +293,83 @@ export default async function CostsPage() {
 							</CardContent>
 						</Card>
 					)}
+
+					{/* Most Expensive Calls */}
+					{costData.topCalls.length > 0 && (
+						<Card>
+							<CardHeader>
+								<CardTitle className="flex items-center gap-2">
+									<Receipt className="w-5 h-5 text-primary" />
+									Most Expensive Calls
+								</CardTitle>
+								<Badge variant="default">
+									{new Date().toLocaleDateString('en-US', { month: 'long' })}
+								</Badge>
+							</CardHeader>
+							<CardContent>
+								<div className="overflow-x-auto">
+									<table className="w-full">
+										<thead>
+											<tr className="border-b border-border">
+												<th className="text-left py-3 px-4 text-sm font-medium text-foreground-muted">
+													When
+												</th>
+												<th className="text-left py-3 px-4 text-sm font-medium text-foreground-muted">
+													Source
+												</th>
+												<th className="text-left py-3 px-4 text-sm font-medium text-foreground-muted">
+													Model
+												</th>
+												<th className="text-right py-3 px-4 text-sm font-medium text-foreground-muted">
+													Tokens
+												</th>
+												<th className="text-right py-3 px-4 text-sm font-medium text-foreground-muted">
+													Latency
+												</th>
+												<th className="text-right py-3 px-4 text-sm font-medium text-foreground-muted">
+													Cost
+												</th>
+											</tr>
+										</thead>
+										<tbody>
+											{costData.topCalls.map((call) => (
+												<tr
+													key={`${call.timestamp}-${call.model}`}
+													className="border-b border-border/50 hover:bg-background-light/50"
+												>
+													<td className="py-3 px-4 text-sm text-foreground">
+														{new Date(call.timestamp).toLocaleString('en-US', {
+															month: 'short',
+															day: 'numeric',
+															hour: 'numeric',
+															minute: '2-digit',
+														})}
+													</td>
+													<td className="py-3 px-4 text-sm text-foreground-muted">
+														{call.skill ? `skill: ${call.skill}` : call.command || '-'}
+													</td>
+													<td className="py-3 px-4 text-sm text-foreground-muted">
+														{getModelInfo(call.model).name === 'Other'
+															? call.model
+															: getModelInfo(call.model).name}
+													</td>
+													<td className="py-3 px-4 text-sm text-right text-foreground-muted">
+														{call.input_tokens.toLocaleString()} / {call.output_tokens.toLocaleString()}
+													</td>
+													<td className="py-3 px-4 text-sm text-right text-foreground-muted">
+														{(call.latency_ms / 1000).toFixed(1)}s
+													</td>
+													<td className="py-3 px-4 text-sm text-right font-medium text-foreground">
+														{formatCurrency(call.cost_usd)}
+													</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+								</div>
+							</CardContent>
+						</Card>
+					)}
 				</>
 			)}
 
@@ -302,6 +387,9 @@ export default async function CostsPage() {
 						<code className="px-2 py-1 rounded bg-background-lighter text-accent-cyan font-mono text-xs">
 							yxhyx cost -d
 						</code>
+						<code className="px-2 py-1 rounded bg-background-lighter text-accent-cyan font-mono text-xs">
+							yxhyx cost -t 10
+						</code>
 					</div>
 				</div>
 			</div>
@@ -3,15 +3,33 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { ProgressBar } from '@/components/ui/ProgressBar';
 import { StatCard } from '@/components/ui/StatCard';
-import { getGoalStats, isInitialized, loadIdentity } from '@/lib/data';
+import {
+	getGoalRisk,
+	getGoalStats,
+	getMilestoneProgress,
+	isInitialized,
+	loadIdentity,
+} from '@/lib/data';
 import type { Goal } from '@/lib/data';
 import { formatDate, formatPercentage } from '@/lib/utils';
-import { ArrowRight, CheckCircle2, Circle, Clock, Sparkles, Target } from 'lucide-react';
+import {
+	AlertTriangle,
+	ArrowRight,
+	CheckCircle2,
+	Circle,
+	Clock,
+	Sparkles,
+	Target,
+} from 'lucide-react';
 
 export const dynamic = 'force-dynamic';
 
-function GoalCard({ goal, term }: { goal: Goal; term: string }) {
+function GoalCard({ goal, term, allGoals }: { goal: Goal; term: string; allGoals: Goal[] }) {
 	const isCompleted = goal.progress >= 1;
+	const risk = getGoalRisk(goal);
+	const milestones = goal.milestones ?? [];
+	const parent = goal.parent ? allGoals.find((g) => g.id === goal.parent) : undefined;
+	const subGoals = allGoals.filter((g) => g.parent === goal.id);
 	const termColors = {
 		short: 'border-l-accent-orange',
 		medium: 'border-l-accent-cyan',
@@ -43,7 +61,18 @@ function GoalCard({ goal, term }: { goal: Goal; term: string }) {
 					</div>
 				</div>
 				{goal.deadline && (
-					<Badge variant={isCompleted ? 'success' : 'info'} size="sm">
+					<Badge
+						variant={
+							isCompleted
+								? 'success'
+								: risk.status === 'overdue'
+									? 'error'
+									: risk.status === 'at_risk'
+										? 'warning'
+										: 'info'
+						}
+						size="sm"
+					>
 						<Clock className="w-3 h-3 mr-1" />
 						{new Date(goal.deadline).toLocaleDateString('en-US', {
 							month: 'short',
@@ -53,10 +82,66 @@ function GoalCard({ goal, term }: { goal: Goal; term: string }) {
 				)}
 			</div>
 
+			{risk.status !== 'on_track' && (
+				<div
+					className={`flex items-center gap-2 text-xs mb-3 ${
+						risk.status === 'overdue' ? 'text-accent-red' : 'text-accent-yellow'
+					}`}
+				>
+					<AlertTriangle className="w-3.5 h-3.5" />
+					<span>
+						{risk.status === 'overdue' ? 'Overdue' : 'At risk'}: {risk.reason}
+					</span>
+				</div>
+			)}
+
+			{parent && <p className="text-xs text-foreground-dimmed mb-3">Part of: {parent.title}</p>}
+
 			<div className="mt-4">
 				<ProgressBar progress={goal.progress} showLabel size="md" />
 			</div>
 
+			{milestones.length > 0 && (
+				<div className="mt-4 space-y-2">
+					<p className="text-xs text-foreground-dimmed">Milestones:</p>
+					{milestones.map((milestone) => {
+						const done = getMilestoneProgress(milestone) >= 1;
+						return (
+							<div key={milestone.id} className="flex items-center gap-2 text-sm">
+								{done ? (
+									<CheckCircle2 className="w-4 h-4 text-accent-green" />
+								) : (
+									<Circle className="w-4 h-4 text-foreground-muted" />
+								)}
+								<span className={done ? 'text-foreground-muted line-through' : 'text-foreground'}>
+									{milestone.title}
+								</span>
+								{milestone.target && (
+									<span className="text-xs text-foreground-dimmed">
+										{milestone.current}/{milestone.target}
+										{milestone.unit ? ` ${milestone.unit}` : ''}
+									</span>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{subGoals.length > 0 && (
+				<div className="mt-4 space-y-2">
+					<p className="text-xs text-foreground-dimmed">Sub-goals:</p>
+					{subGoals.map((subGoal) => (
+						<div key={subGoal.id} className="flex items-center justify-between gap-2 text-sm">
+							<span className="text-foreground">{subGoal.title}</span>
+							<span className="text-xs text-foreground-dimmed">
+								{formatPercentage(subGoal.progress)}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+
 			{goal.related_projects.length > 0 && (
 				<div className="mt-4 pt-4 border-t border-border/50">
 					<p className="text-xs text-foreground-dimmed mb-2">Related Projects:</p>
@@ -129,7 +214,7 @@ export default async function GoalsPage() {
 				<StatCard
 					title="Total Goals"
 					value={stats.total}
-					subtitle={`${stats.inProgress} in progress`}
+					subtitle={`${stats.inProgress} in progress, ${stats.atRisk} at risk`}
 					icon={Target}
 					variant="blue"
 				/>
@@ -183,7 +268,7 @@ export default async function GoalsPage() {
 							<CardContent>
 								<div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
 									{identity.goals.short_term.map((goal) => (
-										<GoalCard key={goal.id} goal={goal} term="short" />
+										<GoalCard key={goal.id} goal={goal} term="short" allGoals={allGoals} />
 									))}
 								</div>
 							</CardContent>
@@ -205,7 +290,7 @@ export default async function GoalsPage() {
 							<CardContent>
 								<div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
 									{identity.goals.medium_term.map((goal) => (
-										<GoalCard key={goal.id} goal={goal} term="medium" />
+										<GoalCard key={goal.id} goal={goal} term="medium" allGoals={allGoals} />
 									))}
 								</div>
 							</CardContent>
@@ -227,7 +312,7 @@ export default async function GoalsPage() {
 							<CardContent>
 								<div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
 									{identity.goals.long_term.map((goal) => (
-										<GoalCard key={goal.id} goal={goal} term="long" />
+										<GoalCard key={goal.id} goal={goal} term="long" allGoals={allGoals} />
 									))}
 								</div>
 							</CardContent>
@@ -250,6 +335,9 @@ export default async function GoalsPage() {
 						<code className="px-2 py-1 rounded bg-background-lighter text-accent-cyan font-mono text-xs">
 							yxhyx identity progress goal-id 50
 						</code>
+						<code className="px-2 py-1 rounded bg-background-lighter text-accent-cyan font-mono text-xs">
+							yxhyx identity milestone add goal-id "Milestone" -t 10
+						</code>
 					</div>
 				</div>
 			</div>
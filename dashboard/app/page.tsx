@@ -7,6 +7,8 @@ import {
 	getCheckinStats,
 	getCostData,
 	getGoalStats,
+	getHabitLog,
+	getHabitStats,
 	getRatingStats,
 	isInitialized,
 	loadIdentity,
@@ -17,6 +19,7 @@ import {
 	CheckCircle,
 	Clock,
 	DollarSign,
+	Repeat,
 	Sparkles,
 	Star,
 	Target,
@@ -44,12 +47,13 @@ export default async function DashboardPage() {
 		);
 	}
 
-	const [identity, checkinStats, ratingStats, costData, goalStats] = await Promise.all([
+	const [identity, checkinStats, ratingStats, costData, goalStats, habitLog] = await Promise.all([
 		loadIdentity(),
 		getCheckinStats(),
 		getRatingStats(7),
 		getCostData(),
 		getGoalStats(),
+		getHabitLog(),
 	]);
 
 	const activeGoals = identity
@@ -58,6 +62,11 @@ export default async function DashboardPage() {
 				.slice(0, 5)
 		: [];
 
+	const habits = getHabitStats(
+		(identity?.habits ?? []).filter((h) => h.status === 'active'),
+		habitLog
+	);
+
 	const activeProjects = identity?.projects.filter((p) => p.status === 'active').slice(0, 3) || [];
 
 	return (
@@ -203,6 +212,59 @@ export default async function DashboardPage() {
 				</Card>
 			</div>
 
+			{/* Habits */}
+			<Card>
+				<CardHeader>
+					<CardTitle>Habits</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{habits.length > 0 ? (
+						<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+							{habits.map((habit) => (
+								<div
+									key={habit.id}
+									className="p-4 rounded-xl bg-background-light/50 border border-border/50"
+								>
+									<div className="flex items-start justify-between mb-3">
+										<div className="flex items-center gap-2">
+											<Repeat className="w-4 h-4 text-accent-cyan" />
+											<h4 className="font-medium text-foreground">{habit.title}</h4>
+										</div>
+										<Badge variant={habit.streak > 0 ? 'success' : 'default'} size="sm">
+											{habit.streak > 0
+												? `${habit.streak}-${habit.frequency.per} streak`
+												: 'No streak'}
+										</Badge>
+									</div>
+									<ProgressBar
+										progress={Math.min(1, habit.current / habit.frequency.times)}
+										size="sm"
+									/>
+									<div className="flex items-center justify-between mt-2 text-xs text-foreground-muted">
+										<span>
+											{habit.current}/{habit.frequency.times}{' '}
+											{habit.frequency.per === 'day' ? 'today' : 'this week'}
+										</span>
+										<span>
+											{habit.periods > 0
+												? `${Math.round(habit.adherence * 100)}% adherence (4 wk)`
+												: 'New'}
+										</span>
+									</div>
+								</div>
+							))}
+						</div>
+					) : (
+						<div className="text-center py-8">
+							<p className="text-foreground-muted">No active habits</p>
+							<p className="text-sm text-foreground-dimmed mt-1">
+								Add one using 'yxhyx habit add "Exercise" -f 3/week'
+							</p>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
 			{/* Projects & Quick Stats */}
 			<div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
 				{/* Active Projects */}
@@ -0,0 +1,152 @@
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { getReviews, isInitialized } from '@/lib/data';
+import { cn } from '@/lib/utils';
+import { FileText, Sparkles } from 'lucide-react';
+import type { ReactNode } from 'react';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Render the Markdown that `yxhyx review` writes: headings, bullet lists,
+ * italic notes and paragraphs
+ */
+function ReviewMarkdown({ content }: { content: string }) {
+	const blocks: ReactNode[] = [];
+	let items: string[] = [];
+
+	const flush = () => {
+		if (items.length === 0) return;
+		blocks.push(
+			<ul key={blocks.length} className="text-sm text-foreground space-y-1 list-disc pl-5">
+				{items.map((item, idx) => (
+					<li key={idx}>{item}</li>
+				))}
+			</ul>
+		);
+		items = [];
+	};
+
+	for (const line of content.split('\n')) {
+		if (line.startsWith('- ')) {
+			items.push(line.slice(2));
+			continue;
+		}
+		flush();
+		if (!line.trim()) continue;
+
+		if (line.startsWith('# ')) {
+			blocks.push(
+				<h2 key={blocks.length} className="text-2xl font-bold text-foreground">
+					{line.slice(2)}
+				</h2>
+			);
+		} else if (line.startsWith('## ')) {
+			blocks.push(
+				<h3 key={blocks.length} className="text-lg font-semibold text-foreground pt-4">
+					{line.slice(3)}
+				</h3>
+			);
+		} else if (/^_.*_$/.test(line)) {
+			blocks.push(
+				<p key={blocks.length} className="text-sm text-foreground-dimmed italic">
+					{line.slice(1, -1)}
+				</p>
+			);
+		} else {
+			blocks.push(
+				<p key={blocks.length} className="text-sm text-foreground-muted">
+					{line}
+				</p>
+			);
+		}
+	}
+	flush();
+
+	return <div className="space-y-3">{blocks}</div>;
+}
+
+export default async function ReviewsPage({
+	searchParams,
+}: {
+	searchParams: { name?: string };
+}) {
+	const initialized = await isInitialized();
+
+	if (!initialized) {
+		return (
+			<div className="min-h-[80vh] flex items-center justify-center">
+				<EmptyState
+					icon={Sparkles}
+					title="Reviews Not Available"
+					description="Yxhyx hasn't been initialized yet. Run 'yxhyx init' in your terminal to get started."
+				/>
+			</div>
+		);
+	}
+
+	const reviews = await getReviews();
+	const selected = reviews.find((r) => r.name === searchParams.name) ?? reviews[0];
+
+	return (
+		<div className="space-y-8 animate-fade-in">
+			{/* Header */}
+			<div>
+				<h1 className="text-3xl font-bold text-foreground">Reviews</h1>
+				<p className="text-foreground-muted mt-2">
+					Weekly and monthly reports compiled from your check-ins, goals, work and spend
+				</p>
+			</div>
+
+			{reviews.length > 0 && selected ? (
+				<div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+					{/* Report List */}
+					<Card>
+						<CardHeader>
+							<CardTitle>Reports</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<div className="space-y-2">
+								{reviews.map((review) => (
+									<a
+										key={review.name}
+										href={`/reviews?name=${review.name}`}
+										className={cn(
+											'flex items-center justify-between p-3 rounded-xl transition-colors',
+											review.name === selected.name
+												? 'bg-primary/10 text-foreground'
+												: 'bg-background-light/50 text-foreground-muted hover:text-foreground'
+										)}
+									>
+										<span className="text-sm font-medium">{review.label}</span>
+										<Badge variant={review.period === 'weekly' ? 'info' : 'success'} size="sm">
+											{review.period}
+										</Badge>
+									</a>
+								))}
+							</div>
+						</CardContent>
+					</Card>
+
+					{/* Selected Report */}
+					<Card className="lg:col-span-3">
+						<CardContent>
+							<ReviewMarkdown content={selected.content} />
+						</CardContent>
+					</Card>
+				</div>
+			) : (
+				<Card>
+					<CardContent>
+						<EmptyState
+							icon={FileText}
+							title="No Reviews Yet"
+							description="Compile one with 'yxhyx review weekly' or 'yxhyx review monthly' in your terminal."
+						/>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,17 @@
 'use client';
 
 import { cn } from '@/lib/utils';
-import { Brain, Calendar, DollarSign, Home, Settings, Sparkles, Target, User } from 'lucide-react';
+import {
+	Brain,
+	Calendar,
+	DollarSign,
+	FileText,
+	Home,
+	Settings,
+	Sparkles,
+	Target,
+	User,
+} from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 
@@ -10,6 +20,7 @@ const navigation = [
 	{ name: 'Identity', href: '/identity', icon: User },
 	{ name: 'Goals', href: '/goals', icon: Target },
 	{ name: 'Check-ins', href: '/checkins', icon: Calendar },
+	{ name: 'Reviews', href: '/reviews', icon: FileText },
 	{ name: 'Learnings', href: '/learnings', icon: Brain },
 	{ name: 'Costs', href: '/costs', icon: DollarSign },
 ];
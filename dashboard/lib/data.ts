@@ -21,11 +21,23 @@ const LEARNING_DIR = join(YXHYX_DIR, 'memory', 'learning');
 const SIGNALS_DIR = join(LEARNING_DIR, 'signals');
 const PATTERNS_DIR = join(LEARNING_DIR, 'patterns');
 const POSITIVE_DIR = join(LEARNING_DIR, 'positive');
+const REVIEWS_DIR = join(YXHYX_DIR, 'memory', 'reviews');
 
 // ============================================
 // Types
 // ============================================
 
+export interface Milestone {
+	id: string;
+	title: string;
+	done: boolean;
+	target?: number;
+	current: number;
+	unit?: string;
+	deadline?: string;
+	created?: string;
+}
+
 export interface Goal {
 	id: string;
 	title: string;
@@ -33,9 +45,17 @@ export interface Goal {
 	deadline?: string;
 	progress: number;
 	related_projects: string[];
+	/** Missing in identity files older than v1.2 */
+	milestones?: Milestone[];
+	parent?: string;
 	created?: string;
 }
 
+export interface GoalRisk {
+	status: 'on_track' | 'at_risk' | 'overdue';
+	reason?: string;
+}
+
 export interface Project {
 	id: string;
 	name: string;
@@ -47,12 +67,41 @@ export interface Project {
 	created?: string;
 }
 
+export interface Habit {
+	id: string;
+	title: string;
+	description?: string;
+	frequency: { times: number; per: 'day' | 'week' };
+	status: 'active' | 'paused' | 'retired';
+	related_goals: string[];
+	created?: string;
+}
+
+export interface HabitLogEntry {
+	habitId: string;
+	timestamp: string;
+	note?: string;
+	checkin?: boolean;
+}
+
+export interface HabitSummary extends Habit {
+	/** Periods in a row the target was met */
+	streak: number;
+	/** Average share of the target met over the last four weeks (0-1) */
+	adherence: number;
+	/** Periods that went into adherence */
+	periods: number;
+	/** Times done in the current day or week */
+	current: number;
+}
+
 export interface Interest {
 	topic: string;
 	subtopics: string[];
 }
 
 export interface Belief {
+	id?: string;
 	statement: string;
 	confidence: number;
 	added: string;
@@ -97,6 +146,8 @@ export interface Identity {
 		low_priority: Interest[];
 	};
 	challenges: Challenge[];
+	/** Missing in identity files older than v1.3 */
+	habits?: Habit[];
 	preferences: {
 		communication: {
 			style: 'direct' | 'diplomatic' | 'socratic';
@@ -126,6 +177,8 @@ export interface CheckinEntry {
 	learnings?: string[];
 	goalUpdates?: Array<{ goalId: string; progress: number }>;
 	responses?: Record<string, string>;
+	priorityStatus?: Array<{ priority: string; status: 'done' | 'partial' | 'dropped' }>;
+	reflection?: string;
 	quick?: boolean;
 }
 
@@ -154,6 +207,15 @@ export interface Learning {
 	tags: string[];
 }
 
+export interface Review {
+	/** File name without .md (e.g. weekly-2026-03-09) */
+	name: string;
+	period: 'weekly' | 'monthly';
+	/** Week start date (YYYY-MM-DD) or month (YYYY-MM) */
+	label: string;
+	content: string;
+}
+
 // ============================================
 // Identity Data
 // ============================================
@@ -367,92 +429,163 @@ export async function getAllLearnings(): Promise<Learning[]> {
 // Cost Data
 // ============================================
 
+export interface UsageRecord {
+	timestamp: string;
+	command?: string;
+	skill?: string;
+	work_id?: string;
+	model: string;
+	provider: string;
+	input_tokens: number;
+	output_tokens: number;
+	cost_usd: number;
+	latency_ms: number;
+	success: boolean;
+	error?: string;
+	legacy?: boolean;
+}
+
+async function readUsageLog(): Promise<UsageRecord[]> {
+	const usageFile = join(STATE_DIR, 'usage.jsonl');
+
+	if (!existsSync(usageFile)) {
+		return [];
+	}
+
+	try {
+		const content = await readFile(usageFile, 'utf-8');
+		const records: UsageRecord[] = [];
+
+		for (const line of content.split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				records.push(JSON.parse(line) as UsageRecord);
+			} catch {
+				// Skip corrupted lines
+			}
+		}
+
+		return records;
+	} catch {
+		return [];
+	}
+}
+
 export async function getCostData(): Promise<{
 	monthlyTotal: number;
 	breakdown: Record<string, number>;
 	projected: number;
 	history: Array<{ month: string; total: number; breakdown: Record<string, number> }>;
+	topCalls: UsageRecord[];
 }> {
-	const costFile = join(STATE_DIR, 'cost-tracking.json');
-
-	if (!existsSync(costFile)) {
-		return {
-			monthlyTotal: 0,
-			breakdown: {},
-			projected: 0,
-			history: [],
-		};
+	const records = await readUsageLog();
+	const currentMonth = new Date().toISOString().substring(0, 7);
+
+	// Group by month, then model
+	const byMonth = new Map<string, { total: number; breakdown: Record<string, number> }>();
+	for (const record of records) {
+		const month = record.timestamp.substring(0, 7);
+		const entry = byMonth.get(month) || { total: 0, breakdown: {} };
+		entry.total += record.cost_usd;
+		entry.breakdown[record.model] = (entry.breakdown[record.model] || 0) + record.cost_usd;
+		byMonth.set(month, entry);
 	}
 
-	try {
-		const content = await readFile(costFile, 'utf-8');
-		const tracking = JSON.parse(content) as Record<string, number>;
-
-		const currentMonth = new Date().toISOString().substring(0, 7);
-		const monthlyTotal = tracking[`${currentMonth}:total`] || 0;
-
-		// Build current month breakdown
-		const breakdown: Record<string, number> = {};
-		for (const [key, cost] of Object.entries(tracking)) {
-			if (key.startsWith(currentMonth) && !key.includes(':total')) {
-				const model = key.split(':')[1];
-				breakdown[model] = cost;
-			}
+	const current = byMonth.get(currentMonth) || { total: 0, breakdown: {} };
+
+	// Calculate projected cost
+	const today = new Date();
+	const dayOfMonth = today.getDate();
+	const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+	const projected = (current.total / dayOfMonth) * daysInMonth;
+
+	// Build history (last 6 months)
+	const history: Array<{ month: string; total: number; breakdown: Record<string, number> }> = [];
+	for (const month of Array.from(byMonth.keys()).sort().slice(-6)) {
+		const entry = byMonth.get(month);
+		if (entry) {
+			history.push({ month, ...entry });
 		}
+	}
 
-		// Calculate projected cost
-		const today = new Date();
-		const dayOfMonth = today.getDate();
-		const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
-		const projected = (monthlyTotal / dayOfMonth) * daysInMonth;
+	// Most expensive individual calls this month
+	const topCalls = records
+		.filter((r) => !r.legacy && r.timestamp.startsWith(currentMonth))
+		.sort((a, b) => b.cost_usd - a.cost_usd)
+		.slice(0, 10);
 
-		// Build history (last 6 months)
-		const history: Array<{ month: string; total: number; breakdown: Record<string, number> }> = [];
-		const months = new Set<string>();
+	return {
+		monthlyTotal: current.total,
+		breakdown: current.breakdown,
+		projected,
+		history,
+		topCalls,
+	};
+}
 
-		for (const key of Object.keys(tracking)) {
-			const month = key.split(':')[0];
-			months.add(month);
-		}
+// ============================================
+// Goals & Projects Aggregation
+// ============================================
 
-		for (const month of Array.from(months).sort().slice(-6)) {
-			const total = tracking[`${month}:total`] || 0;
-			const monthBreakdown: Record<string, number> = {};
+/**
+ * Progress of a milestone: current / target for key results, else done or not
+ */
+export function getMilestoneProgress(milestone: Milestone): number {
+	if (milestone.done) return 1;
+	if (milestone.target) return Math.min(1, milestone.current / milestone.target);
+	return 0;
+}
 
-			for (const [key, cost] of Object.entries(tracking)) {
-				if (key.startsWith(month) && !key.includes(':total')) {
-					const model = key.split(':')[1];
-					monthBreakdown[model] = cost;
-				}
-			}
+function daysUntil(date: string, now: Date): number {
+	const day = (d: Date) => Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+	return Math.round((day(new Date(date)) - day(now)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Whether a goal is on track for its deadline (mirrors `yxhyx identity goals`)
+ */
+export function getGoalRisk(goal: Goal, now = new Date()): GoalRisk {
+	if (goal.progress >= 1) return { status: 'on_track' };
+
+	const percent = `${Math.round(goal.progress * 100)}%`;
+	const lateMilestones = (goal.milestones ?? []).filter(
+		(m) => m.deadline && getMilestoneProgress(m) < 1 && daysUntil(m.deadline, now) < 0
+	);
 
-			history.push({ month, total, breakdown: monthBreakdown });
+	if (goal.deadline) {
+		const days = daysUntil(goal.deadline, now);
+		if (days < 0) {
+			return { status: 'overdue', reason: `${-days}d past the deadline at ${percent}` };
 		}
 
-		return {
-			monthlyTotal,
-			breakdown,
-			projected,
-			history,
-		};
-	} catch {
-		return {
-			monthlyTotal: 0,
-			breakdown: {},
-			projected: 0,
-			history: [],
-		};
+		const start = goal.created ? new Date(goal.created).getTime() : undefined;
+		const end = new Date(goal.deadline).getTime();
+		if (start !== undefined && end > start) {
+			const used = Math.min(1, Math.max(0, (now.getTime() - start) / (end - start)));
+			if (goal.progress + 0.2 < used) {
+				return {
+					status: 'at_risk',
+					reason: `${percent} done with ${Math.round(used * 100)}% of the time used`,
+				};
+			}
+		}
+		if (days <= 7 && goal.progress < 0.75) {
+			return { status: 'at_risk', reason: `due in ${days}d at ${percent}` };
+		}
 	}
-}
 
-// ============================================
-// Goals & Projects Aggregation
-// ============================================
+	if (lateMilestones.length > 0) {
+		return { status: 'at_risk', reason: `${lateMilestones.length} milestone(s) past the deadline` };
+	}
+
+	return { status: 'on_track' };
+}
 
 export async function getGoalStats(): Promise<{
 	total: number;
 	completed: number;
 	inProgress: number;
+	atRisk: number;
 	byTerm: {
 		short: { total: number; avgProgress: number };
 		medium: { total: number; avgProgress: number };
@@ -466,6 +599,7 @@ export async function getGoalStats(): Promise<{
 			total: 0,
 			completed: 0,
 			inProgress: 0,
+			atRisk: 0,
 			byTerm: {
 				short: { total: 0, avgProgress: 0 },
 				medium: { total: 0, avgProgress: 0 },
@@ -487,6 +621,7 @@ export async function getGoalStats(): Promise<{
 		total: allGoals.length,
 		completed: allGoals.filter((g) => g.progress >= 1).length,
 		inProgress: allGoals.filter((g) => g.progress > 0 && g.progress < 1).length,
+		atRisk: allGoals.filter((g) => getGoalRisk(g).status !== 'on_track').length,
 		byTerm: {
 			short: {
 				total: identity.goals.short_term.length,
@@ -523,3 +658,134 @@ export async function getProjectStats(): Promise<{
 		completed: identity.projects.filter((p) => p.status === 'completed').length,
 	};
 }
+
+// ============================================
+// Reviews
+// ============================================
+
+/**
+ * Reports saved by `yxhyx review weekly|monthly`, newest period first
+ */
+export async function getReviews(): Promise<Review[]> {
+	if (!existsSync(REVIEWS_DIR)) {
+		return [];
+	}
+
+	const reviews: Review[] = [];
+
+	try {
+		for (const file of await readdir(REVIEWS_DIR)) {
+			const match = file.match(/^(weekly|monthly)-([\d-]+)\.md$/);
+			if (!match) continue;
+
+			try {
+				reviews.push({
+					name: file.replace(/\.md$/, ''),
+					period: match[1] as Review['period'],
+					label: match[2],
+					content: await readFile(join(REVIEWS_DIR, file), 'utf-8'),
+				});
+			} catch {
+				// Skip unreadable files
+			}
+		}
+	} catch {
+		return [];
+	}
+
+	return reviews.sort((a, b) => b.label.localeCompare(a.label) || a.period.localeCompare(b.period));
+}
+
+// ============================================
+// Habits
+// ============================================
+
+export async function getHabitLog(): Promise<HabitLogEntry[]> {
+	const logFile = join(STATE_DIR, 'habit-log.jsonl');
+
+	if (!existsSync(logFile)) {
+		return [];
+	}
+
+	try {
+		const content = await readFile(logFile, 'utf-8');
+		const entries: HabitLogEntry[] = [];
+
+		for (const line of content.split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				entries.push(JSON.parse(line) as HabitLogEntry);
+			} catch {
+				// Skip corrupted lines
+			}
+		}
+
+		return entries;
+	} catch {
+		return [];
+	}
+}
+
+function habitPeriodStart(date: Date, per: Habit['frequency']['per']): Date {
+	const offset = per === 'week' ? (date.getDay() + 6) % 7 : 0; // Monday start
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function previousHabitPeriod(start: Date, per: Habit['frequency']['per']): Date {
+	return new Date(
+		start.getFullYear(),
+		start.getMonth(),
+		start.getDate() - (per === 'week' ? 7 : 1)
+	);
+}
+
+/**
+ * Streak and adherence for each habit (mirrors `yxhyx habit`)
+ */
+export function getHabitStats(
+	habits: Habit[],
+	log: HabitLogEntry[],
+	now = new Date()
+): HabitSummary[] {
+	return habits.map((habit) => {
+		const { times, per } = habit.frequency;
+		const entries = log.filter((e) => e.habitId === habit.id && new Date(e.timestamp) <= now);
+
+		const counts = new Map<number, number>();
+		for (const entry of entries) {
+			const key = habitPeriodStart(new Date(entry.timestamp), per).getTime();
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+		const countAt = (start: Date) => counts.get(start.getTime()) ?? 0;
+
+		const thisPeriod = habitPeriodStart(now, per);
+		const current = countAt(thisPeriod);
+		const met = current >= times;
+
+		let streak = 0;
+		let cursor = met ? thisPeriod : previousHabitPeriod(thisPeriod, per);
+		while (countAt(cursor) >= times) {
+			streak++;
+			cursor = previousHabitPeriod(cursor, per);
+		}
+
+		const began = habit.created ?? entries[0]?.timestamp;
+		const first = began ? habitPeriodStart(new Date(began), per) : thisPeriod;
+		const windowPeriods = per === 'week' ? 4 : 28;
+
+		const shares: number[] = [];
+		cursor = met ? thisPeriod : previousHabitPeriod(thisPeriod, per);
+		for (let i = met ? 0 : 1; i < windowPeriods && cursor >= first; i++) {
+			shares.push(Math.min(1, countAt(cursor) / times));
+			cursor = previousHabitPeriod(cursor, per);
+		}
+
+		return {
+			...habit,
+			streak,
+			adherence: shares.length > 0 ? shares.reduce((a, b) => a + b, 0) / shares.length : 0,
+			periods: shares.length,
+			current,
+		};
+	});
+}
@@ -10,13 +10,18 @@
 import { Command } from 'commander';
 import { colors } from '../lib/cli/formatting';
 
-import { chat } from '../commands/chat';
+import { cacheCommand } from '../commands/cache';
+import { chat, chatCommand } from '../commands/chat';
 import { checkinCommand } from '../commands/checkin';
+import { habitCommand } from '../commands/habit';
 import { identityCommand } from '../commands/identity';
 // Import commands
 import { initCommand } from '../commands/init';
 import { memoryCommand } from '../commands/memory';
 import { newsCommand } from '../commands/news';
+import { reviewCommand } from '../commands/review';
+import { routerCommand } from '../commands/router';
+import { daemonCommand, scheduleCommand } from '../commands/schedule';
 import { skillsCommand } from '../commands/skills';
 import { syncCommand } from '../commands/sync';
 import { verifyCommand } from '../commands/verify';
@@ -51,26 +56,19 @@ program.addCommand(skillsCommand);
 
 // Phase 3: Check-ins
 program.addCommand(checkinCommand);
+program.addCommand(scheduleCommand);
+program.addCommand(daemonCommand);
+program.addCommand(reviewCommand);
+program.addCommand(habitCommand);
 
 // Utility commands
 program.addCommand(verifyCommand);
 program.addCommand(syncCommand);
+program.addCommand(cacheCommand);
+program.addCommand(routerCommand);
 
-// Chat command
-program
-	.command('chat [message...]')
-	.description('Chat with Yxhyx')
-	.option('-m, --model <model>', 'Force specific model')
-	.option('-i, --interactive', 'Start interactive session')
-	.action(async (message, _options) => {
-		if (!message || message.length === 0) {
-			console.log(`\n${colors.cyan}Chat with Yxhyx${colors.reset}`);
-			console.log('Usage: yxhyx chat "your message"');
-			console.log('   or: yxhyx "your message" (shorthand)\n');
-			return;
-		}
-		await chat(message.join(' '));
-	});
+// Chat command (with saved sessions)
+program.addCommand(chatCommand);
 
 // Phase 4: News & Research (Coming Soon)
 program
@@ -78,9 +76,10 @@ program
 	.description('Quick status overview')
 	.action(async () => {
 		try {
-			const { loadIdentity, getActiveGoals, getActiveProjects } = await import(
+			const { loadIdentity, getActiveGoals, getActiveHabits, getActiveProjects } = await import(
 				'../lib/context-loader'
 			);
+			const { formatHabit } = await import('../lib/habits');
 			const { workManager } = await import('../lib/memory/work-manager');
 			const { learningManager } = await import('../lib/memory/learning-manager');
 			const { stateManager } = await import('../lib/memory/state-manager');
@@ -88,6 +87,7 @@ program
 			const identity = await loadIdentity();
 			const activeGoals = await getActiveGoals();
 			const activeProjects = await getActiveProjects();
+			const activeHabits = await getActiveHabits();
 			const currentWork = await workManager.getCurrentWork();
 			const ratingStats = await learningManager.getRatingStats(7);
 			const monthlyCost = await stateManager.getMonthlyCost();
@@ -102,7 +102,10 @@ ${colors.cyan}📋 GOALS${colors.reset}
   Active: ${activeGoals.length}
 ${activeGoals
 	.slice(0, 3)
-	.map((g) => `  • ${g.title} (${Math.round(g.progress * 100)}%)`)
+	.map(
+		(g) =>
+			`  • ${g.title} (${Math.round(g.progress * 100)}%)${g.risk.status !== 'on_track' ? ` ${colors.yellow}⚠ ${g.risk.reason}${colors.reset}` : ''}`
+	)
 	.join('\n')}
 ${activeGoals.length > 3 ? `  ... and ${activeGoals.length - 3} more` : ''}
 
@@ -110,6 +113,10 @@ ${colors.cyan}🚀 PROJECTS${colors.reset}
   Active: ${activeProjects.length}
 ${activeProjects.map((p) => `  • ${p.name}`).join('\n') || '  None'}
 
+${colors.cyan}🔁 HABITS${colors.reset}
+  Active: ${activeHabits.length}
+${activeHabits.map((h) => `  ${h.stats.current >= h.frequency.times ? '✓' : '•'} ${formatHabit(h)}`).join('\n') || '  None'}
+
 ${colors.cyan}🧠 MEMORY (7 days)${colors.reset}
   Ratings: ${ratingStats.total} (avg: ${ratingStats.average.toFixed(1)}/10)
   Current work: ${currentWork ? `${currentWork.id.substring(0, 30)}...` : 'None'}
@@ -140,11 +147,11 @@ program
 	.description('View API costs')
 	.option('-m, --month <YYYY-MM>', 'Specific month')
 	.option('-d, --detailed', 'Show breakdown by model')
+	.option('-t, --top <n>', 'Show the N most expensive calls')
 	.action(async (options) => {
 		// Delegate to memory cost subcommand
-		const { getMonthlyCost, getCostBreakdown, getProjectedMonthlyCost } = await import(
-			'../lib/memory/state-manager'
-		);
+		const { getMonthlyCost, getCostBreakdown, getProjectedMonthlyCost, getUsageRecords } =
+			await import('../lib/memory/state-manager');
 
 		const month = options.month || new Date().toISOString().substring(0, 7);
 		const total = await getMonthlyCost(month);
@@ -165,8 +172,49 @@ program
 			}
 		}
 
+		if (options.top) {
+			const calls = (await getUsageRecords(month))
+				.filter((r) => !r.legacy)
+				.sort((a, b) => b.cost_usd - a.cost_usd)
+				.slice(0, Number.parseInt(options.top, 10) || 10);
+
+			if (calls.length > 0) {
+				console.log('\nMost expensive calls:');
+				for (const call of calls) {
+					const source = call.skill ? `skill:${call.skill}` : call.command || 'other';
+					console.log(
+						`  $${call.cost_usd.toFixed(4)}  ${call.timestamp.substring(0, 16).replace('T', ' ')}  ${call.model}  ${source}  ${colors.dim}${call.input_tokens}+${call.output_tokens} tok, ${(call.latency_ms / 1000).toFixed(1)}s${call.work_id ? `, ${call.work_id}` : ''}${colors.reset}`
+					);
+				}
+			}
+		}
+
 		const projected = await getProjectedMonthlyCost();
 		console.log(`\nProjected monthly: $${projected.toFixed(2)}`);
+
+		// Remaining budget (only meaningful for the current month)
+		if (month === new Date().toISOString().substring(0, 7)) {
+			const { modelRouter, getBudgetStatus, DEFAULT_DOWNGRADE_AT } = await import(
+				'../lib/model-router'
+			);
+			const config = await modelRouter.loadConfig();
+			const budgets = await getBudgetStatus(config.budget);
+
+			if (budgets.length > 0) {
+				console.log(`\n${colors.bold}Budget remaining${colors.reset}`);
+				for (const budget of budgets) {
+					const color =
+						budget.spent >= budget.limit
+							? colors.red
+							: budget.used >= (config.budget?.downgradeAt ?? DEFAULT_DOWNGRADE_AT)
+								? colors.yellow
+								: colors.green;
+					console.log(
+						`  ${budget.scope.padEnd(9)} ${color}$${budget.remaining.toFixed(2)}${colors.reset} of $${budget.limit.toFixed(2)} (${Math.round(budget.used * 100)}% used)`
+					);
+				}
+			}
+		}
 		console.log('');
 	});
 
@@ -201,10 +249,11 @@ program.arguments('[message...]').action(async (message: string[] | undefined) =
 				console.log(
 					`${colors.dim}Using ${skillMatch.skill.definition.name} skill (${skillMatch.workflow} workflow)${colors.reset}\n`
 				);
-				const result = await executeSkill(fullMessage);
+				const result = await executeSkill(fullMessage, {
+					onToken: (token) => process.stdout.write(token),
+				});
 				if (result.success) {
-					console.log(result.output);
-					console.log();
+					console.log('\n');
 					console.log(
 						`${colors.dim}---\nSkill: ${result.skill} | Workflow: ${result.workflow} | Model: ${result.model} | Cost: $${result.cost.toFixed(4)}${colors.reset}`
 					);
@@ -0,0 +1,57 @@
+/**
+ * Cache Command - Inspect and clear the completion cache
+ *
+ * Usage:
+ *   yxhyx cache stats            - Show cache size and hit counts
+ *   yxhyx cache clear            - Remove every cached completion
+ *   yxhyx cache clear --expired  - Remove only expired entries
+ */
+
+import { Command } from 'commander';
+import { colors } from '../lib/cli/formatting';
+import { getUsageRecords } from '../lib/memory/state-manager';
+import { clearCache, getCacheStats } from '../lib/model-router/cache';
+
+// ============================================
+// Cache Command
+// ============================================
+
+export const cacheCommand = new Command('cache').description('Manage the completion cache');
+
+// ============================================
+// Stats Subcommand
+// ============================================
+
+cacheCommand
+	.command('stats')
+	.description('Show completion cache statistics')
+	.action(async () => {
+		const stats = await getCacheStats();
+		const month = new Date().toISOString().substring(0, 7);
+		const hits = (await getUsageRecords(month)).filter((r) => r.cached).length;
+
+		console.log(`\n${colors.bold}Completion Cache${colors.reset}`);
+		console.log('='.repeat(30));
+		console.log(`Entries:  ${stats.entries} (${stats.expired} expired)`);
+		console.log(`Size:     ${(stats.sizeBytes / 1024).toFixed(1)} KB`);
+		console.log(`Hits:     ${hits} this month`);
+		console.log(
+			`${colors.dim}Cached responses originally cost $${stats.cachedCost.toFixed(4)}${colors.reset}`
+		);
+		console.log('');
+	});
+
+// ============================================
+// Clear Subcommand
+// ============================================
+
+cacheCommand
+	.command('clear')
+	.description('Remove cached completions')
+	.option('-e, --expired', 'Only remove expired entries')
+	.action(async (options: { expired?: boolean }) => {
+		const removed = await clearCache({ expiredOnly: options.expired });
+		console.log(
+			`${colors.green}Removed ${removed} ${options.expired ? 'expired ' : ''}cache ${removed === 1 ? 'entry' : 'entries'}${colors.reset}`
+		);
+	});
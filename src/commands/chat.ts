@@ -4,16 +4,44 @@
  * Supports:
  * - Single message mode: yxhyx chat "Hello"
  * - Interactive mode: yxhyx chat -i
- * - Rating integration: Just type a number (1-10) to rate
+ * - Rating integration: Just type a number (1-10) to rate, or reply naturally
+ *   ("perfect, thanks", "that's wrong") and the previous response is rated
+ * - Streaming: responses print token by token as they arrive
+ * - Tools: the model can update identity, feeds and memory once you confirm
+ * - Slash commands: /model, /cost, /goal, /progress, /lesson, /skill, /save,
+ *   /clear, /context and /help inside interactive mode
+ * - Sessions: every chat is saved as a transcript; resume one with
+ *   `--resume [id]` or `--continue`, manage them with `chat sessions`
  */
 
+import { writeFile } from 'node:fs/promises';
 import * as readline from 'node:readline';
 import { Command } from 'commander';
-import { Spinner, colors } from '../lib/cli/formatting';
+import { Spinner, colors, error as errorText, success } from '../lib/cli/formatting';
+import { YxhyxError } from '../lib/errors';
+import {
+	type ChatSessionSummary,
+	type TranscriptFormat,
+	chatSessions,
+} from '../lib/memory/chat-sessions';
 import { buildEnhancedContext } from '../lib/memory/context-injection';
 import { learningManager } from '../lib/memory/learning-manager';
+import { setState } from '../lib/memory/state-manager';
 import { workManager } from '../lib/memory/work-manager';
-import { modelRouter } from '../lib/model-router';
+import {
+	type ChatMessage,
+	type CompletionOptions,
+	type CompletionResult,
+	type ToolCall,
+	fitConversation,
+	modelRouter,
+} from '../lib/model-router';
+import type { Rating } from '../lib/schemas/learning';
+import { type ToolCallOutcome, runAgent } from '../lib/tools';
+import { type ChatSessionState, runSlashCommand } from './slash-commands';
+
+/** Response text kept on work items for lesson distillation */
+const RESPONSE_SUMMARY_CHARS = 1000;
 
 // ============================================
 // Chat Command
@@ -25,19 +53,230 @@ export const chatCommand = new Command('chat')
 	.option('-m, --model <model>', 'Force specific model')
 	.option('-i, --interactive', 'Start interactive session')
 	.option('-v, --verbose', 'Show detailed response metadata')
+	.option('--no-tools', "Don't let the model call tools")
+	.option('-r, --resume [id]', 'Resume a chat session (choose from recent ones without an ID)')
+	.option('-c, --continue', 'Continue the most recent chat session')
 	.action(
 		async (
 			message: string[] | undefined,
-			options: { model?: string; interactive?: boolean; verbose?: boolean }
+			options: {
+				model?: string;
+				interactive?: boolean;
+				verbose?: boolean;
+				tools?: boolean;
+				resume?: string | boolean;
+				continue?: boolean;
+			}
 		) => {
+			let sessionId: string | undefined;
+			if (options.resume || options.continue) {
+				sessionId = await resolveSession(options);
+				if (!sessionId) return;
+			}
+
 			if (options.interactive || !message || message.length === 0) {
-				await interactiveChat(options);
+				await interactiveChat({ ...options, sessionId });
 			} else {
-				await singleChat(message.join(' '), options);
+				await singleChat(message.join(' '), { ...options, sessionId });
 			}
 		}
 	);
 
+// ============================================
+// Streaming Output
+// ============================================
+
+/**
+ * Stream a completion to stdout
+ *
+ * The spinner keeps running until the first token arrives, then tokens are
+ * written as they stream in.
+ *
+ * @returns The final completion result (usage and cost)
+ */
+async function streamToConsole(
+	options: CompletionOptions,
+	spinner: Spinner,
+	prefix = ''
+): Promise<CompletionResult> {
+	let started = false;
+	let result: CompletionResult | null = null;
+
+	try {
+		for await (const event of modelRouter.stream(options)) {
+			if (event.type === 'token') {
+				if (!started) {
+					spinner.stop();
+					process.stdout.write(`\n${prefix}`);
+					started = true;
+				}
+				process.stdout.write(event.content);
+			} else {
+				result = event.result;
+			}
+		}
+	} catch (error) {
+		// Don't leave the spinner running over the error message
+		if (!started) spinner.stop();
+		else process.stdout.write('\n');
+		throw error;
+	}
+
+	if (started) {
+		process.stdout.write('\n');
+	} else {
+		// Nothing streamed (e.g. the model only called tools)
+		spinner.stop();
+	}
+
+	if (!result) {
+		throw new Error('Stream ended without a completion result');
+	}
+
+	return result;
+}
+
+/**
+ * Remember the last response so a follow-up rating knows what it rated
+ *
+ * The response is also kept on the work item, where rated interactions are
+ * distilled into lessons.
+ */
+async function rememberInteraction(
+	prompt: string,
+	response: CompletionResult,
+	workId?: string,
+	duration?: number,
+	turnId?: string
+): Promise<void> {
+	if (workId) {
+		await workManager.recordResponse(workId, prompt, {
+			response_summary: response.content.substring(0, RESPONSE_SUMMARY_CHARS),
+			model_used: response.model,
+			cost_usd: response.cost,
+			duration_seconds: duration,
+		});
+	}
+
+	await setState({
+		lastInteraction: {
+			timestamp: new Date().toISOString(),
+			model: response.model,
+			complexity: response.complexity,
+			prompt_snippet: prompt.substring(0, 200),
+			response_snippet: response.content.substring(0, 200),
+			cost: response.cost,
+			work_id: workId,
+			turn_id: turnId,
+		},
+	});
+}
+
+/**
+ * Save a turn to the session transcript
+ *
+ * @returns The ID of the assistant turn, for ratings
+ */
+async function saveTurn(
+	sessionId: string,
+	messages: ChatMessage[],
+	response: CompletionResult
+): Promise<string | undefined> {
+	const entries = await chatSessions.appendMessages(sessionId, messages, {
+		model: response.model,
+		cost: response.cost,
+	});
+	return entries.filter((entry) => entry.role === 'assistant').pop()?.id;
+}
+
+/**
+ * Tell the user a follow-up was taken as a rating of the previous response
+ */
+function printImplicitRating(rating: Rating | null): void {
+	if (rating) {
+		console.log(
+			`${colors.dim}(Rated the previous response ${rating.rating}/10 from your reply)${colors.reset}`
+		);
+	}
+}
+
+// ============================================
+// Tool Calls
+// ============================================
+
+/**
+ * Ask the user whether a tool call may run
+ *
+ * @param rl - The interactive session's readline, or undefined to open one
+ */
+async function confirmToolCall(call: ToolCall, rl?: readline.Interface): Promise<boolean> {
+	const prompt = rl ?? readline.createInterface({ input: process.stdin, output: process.stdout });
+	const args = JSON.stringify(call.arguments);
+
+	const answer = await new Promise<string>((resolve) => {
+		prompt.question(
+			`${colors.yellow}Run ${call.name}${colors.reset} ${colors.dim}${args}${colors.reset}? [y/N] `,
+			resolve
+		);
+	});
+	if (!rl) prompt.close();
+
+	return /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Print what happened to a tool call
+ */
+function printToolOutcome(outcome: ToolCallOutcome): void {
+	const { call, status, output } = outcome;
+	if (status === 'ran') {
+		console.log(
+			`${colors.green}✓ ${call.name}${colors.reset} ${colors.dim}${output}${colors.reset}`
+		);
+	} else if (status === 'declined') {
+		console.log(`${colors.dim}- ${call.name} skipped${colors.reset}`);
+	} else {
+		console.log(`${colors.red}✗ ${call.name}: ${output}${colors.reset}`);
+	}
+}
+
+/**
+ * Stream a response, letting the model call tools when enabled
+ *
+ * @returns The final response (cost covers every step) and the messages to
+ *          append to the conversation
+ */
+async function respond(
+	completion: CompletionOptions,
+	spinner: Spinner,
+	options: { tools?: boolean; prefix?: string; rl?: readline.Interface }
+): Promise<{ response: CompletionResult; messages: ChatMessage[] }> {
+	if (options.tools === false) {
+		const response = await streamToConsole(completion, spinner, options.prefix);
+		return { response, messages: [{ role: 'assistant', content: response.content }] };
+	}
+
+	let firstStep = true;
+	const agent = await runAgent({
+		completion,
+		context: { workId: completion.workId },
+		confirm: (call) => confirmToolCall(call, options.rl),
+		onToolCall: printToolOutcome,
+		complete: (stepOptions) => {
+			// The caller's spinner covers the first step; later steps get their own
+			let stepSpinner = spinner;
+			if (!firstStep) {
+				stepSpinner = new Spinner('Thinking...');
+				stepSpinner.start();
+			}
+			firstStep = false;
+			return streamToConsole(stepOptions, stepSpinner, options.prefix);
+		},
+	});
+
+	return { response: { ...agent.result, cost: agent.cost }, messages: agent.messages };
+}
+
 // ============================================
 // Single Message Chat
 // ============================================
@@ -47,7 +286,7 @@ export const chatCommand = new Command('chat')
  */
 export async function singleChat(
 	message: string,
-	options: { model?: string; verbose?: boolean } = {}
+	options: { model?: string; verbose?: boolean; tools?: boolean; sessionId?: string } = {}
 ): Promise<string | null> {
 	// Check for explicit rating
 	const rating = learningManager.parseExplicitRating(message);
@@ -65,31 +304,46 @@ export async function singleChat(
 		return null;
 	}
 
+	// The message may also say how the previous response landed
+	printImplicitRating(await learningManager.captureImplicitRating(message).catch(() => null));
+
 	// Build context
 	const spinner = new Spinner('Thinking...');
 	spinner.start();
 
 	try {
-		const context = await buildEnhancedContext(message, 'chat');
-
-		// Create work item
-		const workId = await workManager.createWork(message, 'QUICK');
+		// Start a session, or pick up a resumed one where it left off
+		let workId: string;
+		let history: ChatMessage[];
+		if (options.sessionId) {
+			workId = options.sessionId;
+			history = await chatSessions.resumeSession(workId);
+		} else {
+			const context = await buildEnhancedContext(message, 'chat');
+			workId = await chatSessions.startSession(message);
+			history = [{ role: 'system', content: context }];
+		}
 
-		// Get response
-		const startTime = Date.now();
-		const response = await modelRouter.complete({
+		const userMessage: ChatMessage = { role: 'user', content: message };
+		const packed = await fitConversation([...history, userMessage], {
 			model: options.model,
-			messages: [
-				{ role: 'system', content: context },
-				{ role: 'user', content: message },
-			],
+			command: 'chat',
 		});
-		const duration = (Date.now() - startTime) / 1000;
 
-		spinner.succeed('Done');
-
-		// Display response
-		console.log(`\n${response.content}\n`);
+		// Stream response
+		const startTime = Date.now();
+		const { response, messages } = await respond(
+			{
+				model: options.model,
+				command: 'chat',
+				workId,
+				messages: packed.messages,
+			},
+			spinner,
+			{ tools: options.tools }
+		);
+		const duration = (Date.now() - startTime) / 1000;
+		console.log('');
 
 		// Show metadata
 		if (options.verbose) {
@@ -102,7 +356,12 @@ export async function singleChat(
 			);
 		}
 
-		// Complete work
+		// Save the turn and complete work
+		const newMessages = options.sessionId
+			? [userMessage, ...messages]
+			: [...history, userMessage, ...messages];
+		const turnId = await saveTurn(workId, newMessages, response);
+		await rememberInteraction(message, response, workId, duration, turnId);
 		await workManager.completeWork(workId);
 
 		return response.content;
@@ -110,6 +369,9 @@ export async function singleChat(
 		spinner.fail('Error');
 		if (error instanceof Error) {
 			console.error(`\n${colors.red}Error: ${error.message}${colors.reset}\n`);
+			if (error instanceof YxhyxError && error.suggestion) {
+				console.log(`${colors.dim}${error.suggestion}${colors.reset}\n`);
+			}
 
 			// Check for missing API keys
 			if (error.message.includes('No models available')) {
@@ -130,17 +392,37 @@ export async function singleChat(
 /**
  * Start an interactive chat session
  */
-async function interactiveChat(options: { model?: string; verbose?: boolean }): Promise<void> {
+async function interactiveChat(options: {
+	model?: string;
+	verbose?: boolean;
+	tools?: boolean;
+	sessionId?: string;
+}): Promise<void> {
 	const rl = readline.createInterface({
 		input: process.stdin,
 		output: process.stdout,
 	});
 
 	console.log(`\n${colors.cyan}Yxhyx Interactive Mode${colors.reset}`);
-	console.log('Type your message, "exit" to quit, or a number (1-10) to rate.\n');
+	console.log(
+		'Type your message, "exit" to quit, /help for commands, or a number (1-10) to rate.\n'
+	);
+
+	const session: ChatSessionState = {
+		model: options.model,
+		history: [],
+		workId: null,
+		unsaved: [],
+		cost: 0,
+	};
 
-	const conversationHistory: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
-	let workId: string | null = null;
+	if (options.sessionId) {
+		session.workId = options.sessionId;
+		session.history.push(...(await chatSessions.resumeSession(session.workId)));
+		const summary = await chatSessions.getSession(session.workId);
+		session.cost = summary.cost_usd;
+		printResumedSession(summary, session.history);
+	}
 
 	const prompt = (): void => {
 		rl.question(`${colors.green}You:${colors.reset} `, async (input) => {
@@ -149,13 +431,19 @@ async function interactiveChat(options: { model?: string; verbose?: boolean }):
 			// Exit commands
 			if (['exit', 'quit', 'bye', '/q'].includes(trimmed.toLowerCase())) {
 				console.log('\nGoodbye!\n');
-				if (workId) {
-					await workManager.completeWork(workId);
+				if (session.workId) {
+					await workManager.completeWork(session.workId);
 				}
 				rl.close();
 				return;
 			}
 
+			// In-session commands
+			if (await runSlashCommand(trimmed, session)) {
+				prompt();
+				return;
+			}
+
 			// Empty input
 			if (trimmed === '') {
 				prompt();
@@ -171,7 +459,7 @@ async function interactiveChat(options: { model?: string; verbose?: boolean }):
 					rating: rating.rating,
 					source: 'explicit',
 					comment: rating.comment,
-					work_id: workId || undefined,
+					work_id: session.workId || undefined,
 				});
 				console.log(
 					`${colors.green}Rated: ${rating.rating}/10${rating.comment ? ` - ${rating.comment}` : ''}${colors.reset}\n`
@@ -180,39 +468,75 @@ async function interactiveChat(options: { model?: string; verbose?: boolean }):
 				return;
 			}
 
+			// The message may also say how the previous response landed
+			printImplicitRating(await learningManager.captureImplicitRating(trimmed).catch(() => null));
+
 			try {
 				// Build context for first message
-				if (conversationHistory.length === 0) {
+				if (session.history.length === 0) {
 					const context = await buildEnhancedContext(trimmed, 'chat');
-					conversationHistory.push({ role: 'system', content: context });
+					const system: ChatMessage = { role: 'system', content: context };
+					session.history.push(system);
+					session.unsaved.push(system);
 
-					// Create work session
-					workId = await workManager.createWork(trimmed, 'STANDARD');
+					// Create the session
+					session.workId = await chatSessions.startSession(trimmed);
 				}
 
-				conversationHistory.push({ role: 'user', content: trimmed });
+				const userMessage: ChatMessage = { role: 'user', content: trimmed };
+				session.history.push(userMessage);
 
 				const spinner = new Spinner('Thinking...');
 				spinner.start();
 
-				const startTime = Date.now();
-				const response = await modelRouter.complete({
-					model: options.model,
-					messages: conversationHistory,
+				// Summarize older turns before the conversation outgrows the model
+				const packed = await fitConversation(session.history, {
+					model: session.model,
+					command: 'chat',
+				}).catch((error) => {
+					spinner.stop();
+					throw error;
 				});
-				const duration = (Date.now() - startTime) / 1000;
+				if (packed.summarized > 0) {
+					session.history.splice(0, session.history.length, ...packed.messages);
+					spinner.update(`Summarized ${packed.summarized} earlier messages...`);
+				}
 
-				spinner.succeed('');
+				const startTime = Date.now();
+				const { response, messages } = await respond(
+					{
+						model: session.model,
+						command: 'chat',
+						workId: session.workId || undefined,
+						messages: session.history,
+					},
+					spinner,
+					{ tools: options.tools, prefix: `${colors.cyan}Yxhyx:${colors.reset} `, rl }
+				);
+				const duration = (Date.now() - startTime) / 1000;
 
-				conversationHistory.push({ role: 'assistant', content: response.content });
+				session.history.push(...messages);
+				session.cost += response.cost;
+				let turnId: string | undefined;
+				if (session.workId) {
+					turnId = await saveTurn(
+						session.workId,
+						[...session.unsaved, userMessage, ...messages],
+						response
+					);
+					session.unsaved.length = 0;
+				}
+				await rememberInteraction(trimmed, response, session.workId || undefined, duration, turnId);
 
-				console.log(`\n${colors.cyan}Yxhyx:${colors.reset} ${response.content}`);
 				console.log(
 					`${colors.dim}[${response.model} | $${response.cost.toFixed(4)} | ${duration.toFixed(1)}s]${colors.reset}\n`
 				);
 			} catch (error) {
 				if (error instanceof Error) {
 					console.error(`\n${colors.red}Error: ${error.message}${colors.reset}\n`);
+					if (error instanceof YxhyxError && error.suggestion) {
+						console.log(`${colors.dim}${error.suggestion}${colors.reset}\n`);
+					}
 				}
 			}
 
@@ -223,6 +547,200 @@ async function interactiveChat(options: { model?: string; verbose?: boolean }):
 	prompt();
 }
 
+// ============================================
+// Sessions
+// ============================================
+
+/**
+ * Work out which session `--resume` / `--continue` means
+ *
+ * @returns The session ID, or undefined (after saying why) if there is none
+ */
+async function resolveSession(options: {
+	resume?: string | boolean;
+	continue?: boolean;
+}): Promise<string | undefined> {
+	try {
+		if (typeof options.resume === 'string') {
+			return (await chatSessions.getSession(options.resume)).id;
+		}
+
+		const sessions = await chatSessions.listSessions(options.continue ? 1 : 10);
+		if (sessions.length === 0) {
+			console.log(`\n${colors.yellow}No chat sessions to resume yet.${colors.reset}\n`);
+			return undefined;
+		}
+		if (options.continue) {
+			return sessions[0].id;
+		}
+
+		// Choose from recent sessions
+		console.log(`\n${colors.bold}Recent Chat Sessions${colors.reset}`);
+		sessions.forEach((session, i) => {
+			console.log(
+				`  ${i + 1}. ${session.title} ${colors.dim}(${formatSessionDate(session.updated)}, ${session.turns} responses)${colors.reset}`
+			);
+		});
+
+		const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+		const answer = await new Promise<string>((resolve) => {
+			rl.question('\nResume which session? [1] ', resolve);
+		});
+		rl.close();
+
+		const index = answer.trim() === '' ? 0 : Number.parseInt(answer, 10) - 1;
+		if (!sessions[index]) {
+			console.log(`${colors.red}No session ${answer.trim()}${colors.reset}\n`);
+			return undefined;
+		}
+		return sessions[index].id;
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(`\n${colors.red}Error: ${error.message}${colors.reset}`);
+			if (error instanceof YxhyxError && error.suggestion) {
+				console.log(`${colors.dim}${error.suggestion}${colors.reset}`);
+			}
+			console.log('');
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Remind the user where a resumed session left off
+ */
+function printResumedSession(session: ChatSessionSummary, history: ChatMessage[]): void {
+	console.log(
+		`${colors.dim}Resumed "${session.title}" (${session.turns} responses, last ${formatSessionDate(session.updated)})${colors.reset}`
+	);
+
+	const lastReply = history.filter((m) => m.role === 'assistant' && m.content).pop();
+	if (lastReply) {
+		const preview =
+			lastReply.content.length > 300
+				? `${lastReply.content.substring(0, 300)}...`
+				: lastReply.content;
+		console.log(`${colors.cyan}Yxhyx:${colors.reset} ${colors.dim}${preview}${colors.reset}`);
+	}
+	console.log('');
+}
+
+function formatSessionDate(timestamp: string): string {
+	const date = new Date(timestamp);
+	return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Print a failed sessions subcommand and exit
+ */
+function failSessionAction(err: unknown): never {
+	console.error(errorText(`\nError: ${err instanceof Error ? err.message : err}\n`));
+	if (err instanceof YxhyxError && err.suggestion) {
+		console.log(`${colors.dim}${err.suggestion}${colors.reset}\n`);
+	}
+	process.exit(1);
+}
+
+const sessionsCommand = chatCommand
+	.command('sessions')
+	.description('List, show, export or delete saved chat sessions');
+
+sessionsCommand
+	.command('list')
+	.description('List recent chat sessions')
+	.option('-n, --limit <count>', 'Number to show', '10')
+	.action(async (options: { limit: string }) => {
+		const sessions = await chatSessions.listSessions(Number.parseInt(options.limit, 10) || 10);
+
+		if (sessions.length === 0) {
+			console.log(`\n${colors.yellow}No chat sessions saved yet.${colors.reset}\n`);
+			return;
+		}
+
+		console.log(`\n${colors.bold}Chat Sessions${colors.reset}`);
+		console.log('='.repeat(50));
+
+		for (const session of sessions) {
+			console.log(`\n${colors.cyan}${formatSessionDate(session.updated)}${colors.reset}`);
+			console.log(`  ${session.title}`);
+			console.log(
+				`  ${colors.dim}ID: ${session.id} | ${session.turns} responses | $${session.cost_usd.toFixed(4)}${colors.reset}`
+			);
+		}
+
+		console.log(`\n${colors.dim}Resume with: yxhyx chat --resume <id>${colors.reset}\n`);
+	});
+
+sessionsCommand
+	.command('show <id>')
+	.description('Show a chat transcript')
+	.action(async (id: string) => {
+		try {
+			const session = await chatSessions.getSession(id);
+			const transcript = await chatSessions.getTranscript(id);
+
+			console.log(`\n${colors.bold}${session.title}${colors.reset}`);
+			console.log(
+				`${colors.dim}${session.id} | ${formatSessionDate(session.created)}${colors.reset}`
+			);
+
+			for (const entry of transcript) {
+				if (entry.role === 'user') {
+					console.log(`\n${colors.green}You:${colors.reset} ${entry.content}`);
+				} else if (entry.role === 'assistant') {
+					if (entry.content) {
+						console.log(`\n${colors.cyan}Yxhyx:${colors.reset} ${entry.content}`);
+					}
+					for (const call of entry.tool_calls ?? []) {
+						console.log(`${colors.dim}(called ${call.name})${colors.reset}`);
+					}
+					const rating = entry.rating !== undefined ? ` | rated ${entry.rating}/10` : '';
+					console.log(
+						`${colors.dim}[${entry.id}${entry.model_used ? ` | ${entry.model_used}` : ''}${rating}]${colors.reset}`
+					);
+				}
+			}
+			console.log('');
+		} catch (err) {
+			failSessionAction(err);
+		}
+	});
+
+sessionsCommand
+	.command('export <id>')
+	.description('Export a chat transcript as Markdown or JSON')
+	.option('-f, --format <format>', 'markdown or json', 'markdown')
+	.option('-o, --output <file>', 'Write to a file instead of stdout')
+	.action(async (id: string, options: { format: string; output?: string }) => {
+		try {
+			if (options.format !== 'markdown' && options.format !== 'json') {
+				throw new Error(`Unknown format: ${options.format} (use markdown or json)`);
+			}
+
+			const content = await chatSessions.exportSession(id, options.format as TranscriptFormat);
+			if (options.output) {
+				await writeFile(options.output, content);
+				console.log(success(`\nExported ${id} to ${options.output}\n`));
+			} else {
+				process.stdout.write(content);
+			}
+		} catch (err) {
+			failSessionAction(err);
+		}
+	});
+
+sessionsCommand
+	.command('delete <id>')
+	.description('Delete a chat session and its transcript')
+	.action(async (id: string) => {
+		try {
+			await chatSessions.deleteSession(id);
+			console.log(success(`\nDeleted chat session ${id}\n`));
+		} catch (err) {
+			failSessionAction(err);
+		}
+	});
+
 // ============================================
 // Helper for default action
 // ============================================
@@ -230,6 +748,9 @@ async function interactiveChat(options: { model?: string; verbose?: boolean }):
 /**
  * Chat helper for use as default action
  */
-export async function chat(message: string, options: { model?: string } = {}): Promise<void> {
+export async function chat(
+	message: string,
+	options: { model?: string; tools?: boolean } = {}
+): Promise<void> {
 	await singleChat(message, options);
 }
@@ -7,11 +7,17 @@
  *   yxhyx checkin evening   - Evening check-in
  *   yxhyx checkin weekly    - Weekly review
  *   yxhyx checkin -q        - Quick mode
+ *   yxhyx checkin -a        - Adaptive mode (AI follow-ups and a coaching reflection)
  *   yxhyx checkin history   - View check-in history
- *   yxhyx checkin streak    - View check-in streak
+ *   yxhyx checkin streak    - View check-in streak and priority completion
  */
 
 import { Command } from 'commander';
+import {
+	PRIORITY_STATUS_ICONS,
+	formatCompletion,
+	priorityCompletion,
+} from '../lib/checkin/priorities';
 import { quickEvening, quickMorning } from '../lib/checkin/quick';
 import { checkinRunner } from '../lib/checkin/runner';
 import { colors } from '../lib/cli/formatting';
@@ -25,41 +31,44 @@ export const checkinCommand = new Command('checkin')
 	.description('Accountability check-ins')
 	.argument('[type]', 'Check-in type: morning, evening, weekly')
 	.option('-q, --quick', 'Quick check-in mode')
-	.action(async (inputType: string | undefined, options: { quick?: boolean }) => {
-		// Default to morning if AM, evening if PM
-		const type = inputType ?? (new Date().getHours() < 12 ? 'morning' : 'evening');
-
-		// Handle quick mode
-		if (options.quick) {
-			if (type === 'morning') {
-				await quickMorning();
-			} else if (type === 'evening') {
-				await quickEvening();
-			} else {
-				console.log(
-					`${colors.yellow}Quick mode not available for weekly reviews. Running full weekly review...${colors.reset}\n`
-				);
-				await checkinRunner.runWeekly();
+	.option('-a, --adaptive', 'Ask AI follow-up questions and end with a coaching reflection')
+	.action(
+		async (inputType: string | undefined, options: { quick?: boolean; adaptive?: boolean }) => {
+			// Default to morning if AM, evening if PM
+			const type = inputType ?? (new Date().getHours() < 12 ? 'morning' : 'evening');
+
+			// Handle quick mode
+			if (options.quick) {
+				if (type === 'morning') {
+					await quickMorning();
+				} else if (type === 'evening') {
+					await quickEvening();
+				} else {
+					console.log(
+						`${colors.yellow}Quick mode not available for weekly reviews. Running full weekly review...${colors.reset}\n`
+					);
+					await checkinRunner.runWeekly({ adaptive: options.adaptive });
+				}
+				return;
 			}
-			return;
-		}
 
-		// Run appropriate check-in
-		switch (type) {
-			case 'morning':
-				await checkinRunner.runMorning();
-				break;
-			case 'evening':
-				await checkinRunner.runEvening();
-				break;
-			case 'weekly':
-				await checkinRunner.runWeekly();
-				break;
-			default:
-				console.log(`${colors.yellow}Unknown check-in type: ${type}${colors.reset}`);
-				console.log('Available types: morning, evening, weekly');
+			// Run appropriate check-in
+			switch (type) {
+				case 'morning':
+					await checkinRunner.runMorning({ adaptive: options.adaptive });
+					break;
+				case 'evening':
+					await checkinRunner.runEvening({ adaptive: options.adaptive });
+					break;
+				case 'weekly':
+					await checkinRunner.runWeekly({ adaptive: options.adaptive });
+					break;
+				default:
+					console.log(`${colors.yellow}Unknown check-in type: ${type}${colors.reset}`);
+					console.log('Available types: morning, evening, weekly');
+			}
 		}
-	});
+	);
 
 // ============================================
 // History Subcommand
@@ -113,6 +122,13 @@ checkinCommand
 				console.log(`  ${colors.green}Priorities:${colors.reset} ${entry.priorities.join(', ')}`);
 			}
 
+			if (entry.priorityStatus && entry.priorityStatus.length > 0) {
+				const outcomes = entry.priorityStatus.map(
+					(o) => `${PRIORITY_STATUS_ICONS[o.status]} ${o.priority}`
+				);
+				console.log(`  ${colors.cyan}Reviewed:${colors.reset} ${outcomes.join(', ')}`);
+			}
+
 			if (entry.accomplishments && entry.accomplishments.length > 0) {
 				console.log(
 					`  ${colors.yellow}Accomplishments:${colors.reset} ${entry.accomplishments.join(', ')}`
@@ -122,6 +138,10 @@ checkinCommand
 			if (entry.learnings && entry.learnings.length > 0) {
 				console.log(`  ${colors.magenta}Learnings:${colors.reset} ${entry.learnings.join(', ')}`);
 			}
+
+			if (entry.reflection) {
+				console.log(`  ${colors.blue}Coach:${colors.reset} ${entry.reflection}`);
+			}
 		}
 
 		console.log('');
@@ -155,6 +175,14 @@ checkinCommand
 		// Weekly reviews
 		console.log(`Weekly reviews: ${weeklyCount} total`);
 
+		// Priority completion from evening reviews
+		const day = 24 * 60 * 60 * 1000;
+		const lastWeek = priorityCompletion(history, new Date(Date.now() - 7 * day));
+		const lastMonth = priorityCompletion(history, new Date(Date.now() - 30 * day));
+		console.log(`\n${colors.bold}Priorities${colors.reset}`);
+		console.log(`Last 7 days:  ${formatCompletion(lastWeek)}`);
+		console.log(`Last 30 days: ${formatCompletion(lastMonth)}`);
+
 		// Encouragement
 		const totalStreak = streak.morning + streak.evening;
 		if (totalStreak >= 14) {
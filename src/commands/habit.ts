@@ -0,0 +1,270 @@
+/**
+ * Habit Command - Recurring habits with streaks and adherence
+ *
+ * Usage:
+ *   yxhyx habit                                - Active habits with streaks
+ *   yxhyx habit add "Exercise" -f 3/week       - Add a habit
+ *   yxhyx habit log <id>                       - Log that you did it
+ *   yxhyx habit edit <id> -f daily             - Change a habit
+ *   yxhyx habit pause|resume|retire <id>       - Change its status
+ *   yxhyx habit remove <id>                    - Remove it
+ */
+
+import { Command } from 'commander';
+import { bold, dim, error, success, table, warning } from '../lib/cli/formatting';
+import { loadIdentity, updateIdentity } from '../lib/context-loader';
+import { ValidationError } from '../lib/errors';
+import {
+	describeFrequency,
+	describePeriod,
+	formatHabit,
+	parseFrequency,
+	summarizeHabits,
+} from '../lib/habits';
+import { addHabit, findHabit, removeHabit, updateHabit } from '../lib/identity-editor';
+import { getHabitLog, recordHabit } from '../lib/memory/state-manager';
+import { isOpenCodeIntegrationSetUp, syncOpenCodeIntegration } from '../lib/opencode-integration';
+import type { Habit } from '../lib/schemas/identity';
+import { generateViews } from '../lib/view-generator';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Regenerate views and sync OpenCode after an identity change
+ */
+async function afterIdentityChange(): Promise<void> {
+	await generateViews();
+	if (isOpenCodeIntegrationSetUp()) {
+		await syncOpenCodeIntegration();
+	}
+}
+
+function fail(err: unknown): never {
+	console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+	if (err instanceof ValidationError && err.suggestion) {
+		console.log(dim(`${err.suggestion}\n`));
+	}
+	process.exit(1);
+}
+
+/**
+ * Parse YYYY-MM-DD as midday local time, so it lands on that day in any
+ * period calculation
+ */
+function parseDate(value: string): Date {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	const date = match
+		? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12)
+		: null;
+	if (!date || Number.isNaN(date.getTime()) || date > new Date()) {
+		throw new ValidationError(`Invalid date: ${value}`, {
+			field: 'date',
+			suggestion: 'Use YYYY-MM-DD, today or earlier',
+		});
+	}
+	return date;
+}
+
+// ============================================
+// Habit Command
+// ============================================
+
+async function listHabits(options: { all?: boolean }): Promise<void> {
+	const [identity, log] = await Promise.all([loadIdentity(), getHabitLog()]);
+	const habits = summarizeHabits(
+		options.all ? identity.habits : identity.habits.filter((h) => h.status === 'active'),
+		log
+	);
+
+	if (habits.length === 0) {
+		console.log(warning('\nNo habits found. Add one with: yxhyx habit add "Exercise" -f 3/week\n'));
+		return;
+	}
+
+	console.log(bold('\n Habits\n'));
+
+	const rows = habits.map((h) => [
+		h.title,
+		describeFrequency(h.frequency),
+		`${h.stats.current}/${h.frequency.times} ${describePeriod(h.frequency.per)}`,
+		h.stats.streak > 0
+			? `${h.stats.streak} ${h.frequency.per}${h.stats.streak === 1 ? '' : 's'}`
+			: '-',
+		h.stats.periods > 0 ? `${Math.round(h.stats.adherence * 100)}%` : '-',
+		...(options.all ? [h.status] : []),
+		h.id,
+	]);
+
+	const headers = ['Habit', 'Target', 'Progress', 'Streak', 'Adherence (4 wk)'];
+	console.log(table([...headers, ...(options.all ? ['Status'] : []), 'ID'], rows));
+	console.log(dim('\n  Log one with: yxhyx habit log <id>\n'));
+}
+
+export const habitCommand = new Command('habit')
+	.description('Track recurring habits with streaks and adherence')
+	.action(async () => {
+		try {
+			await listHabits({});
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+habitCommand
+	.command('list')
+	.description('List habits with streaks and adherence')
+	.option('-a, --all', 'Include paused and retired habits')
+	.action(async (options: { all?: boolean }) => {
+		try {
+			await listHabits(options);
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+habitCommand
+	.command('add <title>')
+	.description('Add a habit')
+	.requiredOption('-f, --frequency <frequency>', 'How often: daily, weekly, 3/week, 2/day')
+	.option('-d, --description <text>', 'What it involves')
+	.option('-g, --goal <ids>', 'Comma-separated related goal IDs')
+	.action(
+		async (title: string, options: { frequency: string; description?: string; goal?: string }) => {
+			try {
+				const frequency = parseFrequency(options.frequency);
+				let habit: Habit | undefined;
+				await updateIdentity((identity) => {
+					const result = addHabit(identity, {
+						title,
+						frequency,
+						description: options.description,
+						related_goals: options.goal
+							? options.goal
+									.split(',')
+									.map((id) => id.trim())
+									.filter(Boolean)
+							: [],
+					});
+					habit = result.habit;
+					return result.identity;
+				});
+
+				await afterIdentityChange();
+
+				console.log(success(`\nAdded habit: ${title} (${describeFrequency(frequency)})`));
+				console.log(dim(`  ID: ${habit?.id}\n`));
+			} catch (err) {
+				fail(err);
+			}
+		}
+	);
+
+habitCommand
+	.command('log <id>')
+	.description('Log that you did a habit (ID or title)')
+	.option('-n, --note <text>', 'A note about it')
+	.option('--date <date>', 'Day it was done (YYYY-MM-DD, default today)')
+	.action(async (id: string, options: { note?: string; date?: string }) => {
+		try {
+			const habit = findHabit(await loadIdentity(), id);
+			if (habit.status !== 'active') {
+				console.log(warning(`\n"${habit.title}" is ${habit.status}; logging it anyway`));
+			}
+
+			await recordHabit(habit.id, {
+				note: options.note,
+				...(options.date && { timestamp: parseDate(options.date).toISOString() }),
+			});
+
+			const [summary] = summarizeHabits([habit], await getHabitLog(habit.id));
+			console.log(success(`\n✓ ${formatHabit(summary)}\n`));
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+habitCommand
+	.command('edit <id>')
+	.description('Change a habit')
+	.option('-t, --title <title>', 'New title')
+	.option('-f, --frequency <frequency>', 'How often: daily, weekly, 3/week, 2/day')
+	.option('-d, --description <text>', 'What it involves')
+	.action(
+		async (id: string, options: { title?: string; frequency?: string; description?: string }) => {
+			try {
+				if (!options.title && !options.frequency && options.description === undefined) {
+					throw new ValidationError('Nothing to change', {
+						field: 'id',
+						suggestion: 'Pass --title, --frequency or --description',
+					});
+				}
+
+				const changes = {
+					...(options.title && { title: options.title }),
+					...(options.frequency && { frequency: parseFrequency(options.frequency) }),
+					...(options.description !== undefined && { description: options.description }),
+				};
+
+				let habit: Habit | undefined;
+				await updateIdentity((identity) => {
+					const result = updateHabit(identity, id, changes);
+					habit = result.habit;
+					return result.identity;
+				});
+
+				await afterIdentityChange();
+
+				console.log(success(`\n✓ Updated habit: ${habit?.title}\n`));
+			} catch (err) {
+				fail(err);
+			}
+		}
+	);
+
+for (const [status, verb] of [
+	['paused', 'pause'],
+	['active', 'resume'],
+	['retired', 'retire'],
+] as const) {
+	habitCommand
+		.command(`${verb} <id>`)
+		.description(`Mark a habit ${status}`)
+		.action(async (id: string) => {
+			try {
+				let habit: Habit | undefined;
+				await updateIdentity((identity) => {
+					const result = updateHabit(identity, id, { status });
+					habit = result.habit;
+					return result.identity;
+				});
+
+				await afterIdentityChange();
+
+				console.log(success(`\n✓ Marked "${habit?.title}" ${status}\n`));
+			} catch (err) {
+				fail(err);
+			}
+		});
+}
+
+habitCommand
+	.command('remove <id>')
+	.description('Remove a habit (its log is kept)')
+	.action(async (id: string) => {
+		try {
+			let habit: Habit | undefined;
+			await updateIdentity((identity) => {
+				const result = removeHabit(identity, id);
+				habit = result.habit;
+				return result.identity;
+			});
+
+			await afterIdentityChange();
+
+			console.log(success(`\n✓ Removed habit: ${habit?.title}\n`));
+		} catch (err) {
+			fail(err);
+		}
+	});
@@ -1,7 +1,9 @@
 /**
  * Identity Command - Manage your personal context
  *
- * Add/update goals, projects, interests, lessons, and view your identity.
+ * Add, edit and remove goals, projects, interests, challenges and beliefs,
+ * set your mission, add lessons, and view your identity.
+ * Every change is saved as a version that can be diffed and rolled back.
  */
 
 import { Command } from 'commander';
@@ -10,14 +12,63 @@ import {
 	dim,
 	error,
 	info,
+	progressBar,
 	progressBarSimple,
 	success,
 	table,
 	warning,
 } from '../lib/cli/formatting';
-import { getActiveGoals, loadIdentity, updateIdentity } from '../lib/context-loader';
+import {
+	getActiveGoals,
+	getGoalById,
+	loadIdentity,
+	migrateIdentityFile,
+	rollbackIdentity,
+	updateIdentity,
+} from '../lib/context-loader';
+import { ValidationError } from '../lib/errors';
+import {
+	type GoalRisk,
+	describeMilestone,
+	milestoneProgress,
+	summarizeGoals,
+	validateParent,
+} from '../lib/goals';
+import {
+	type EntryChanges,
+	type EntryRef,
+	addBelief,
+	addChallenge,
+	addMilestone,
+	editEntry,
+	removeBelief,
+	removeEntry,
+	removeMilestone,
+	setChallengeStatus,
+	setGoalProgress,
+	updateBeliefConfidence,
+	updateMilestone,
+} from '../lib/identity-editor';
+import {
+	DEFAULT_RETENTION,
+	type SectionDiff,
+	diffIdentities,
+	listSnapshots,
+	loadSnapshot,
+	parseVersion,
+	pruneSnapshots,
+	summarizeDiff,
+} from '../lib/identity-history';
 import { isOpenCodeIntegrationSetUp, syncOpenCodeIntegration } from '../lib/opencode-integration';
-import { type Goal, type Project, generateId } from '../lib/schemas/identity';
+import {
+	type Belief,
+	type Challenge,
+	type Goal,
+	type Identity,
+	type Milestone,
+	type Project,
+	generateId,
+} from '../lib/schemas/identity';
 import { generateViews } from '../lib/view-generator';
 
 /**
@@ -32,6 +83,13 @@ async function regenerateAndSync(): Promise<void> {
 	}
 }
 
+/** How goal deadline risk is shown in tables */
+const RISK_LABELS: Record<GoalRisk['status'], string> = {
+	on_track: 'on track',
+	at_risk: 'at risk',
+	overdue: 'overdue',
+};
+
 export const identityCommand = new Command('identity')
 	.description('Manage your identity and context')
 	.alias('id');
@@ -172,6 +230,7 @@ identityCommand
 	.option('-d, --deadline <date>', 'Deadline (YYYY-MM-DD)')
 	.option('-p, --project <id>', 'Related project ID')
 	.option('--description <text>', 'Goal description')
+	.option('--parent <id>', 'Longer-term goal this one contributes to')
 	.action(async (title, options) => {
 		try {
 			const termKey = `${options.term}_term` as 'short_term' | 'medium_term' | 'long_term';
@@ -187,17 +246,22 @@ identityCommand
 				description: options.description,
 				deadline: options.deadline,
 				progress: 0,
+				milestones: [],
+				parent: options.parent,
 				related_projects: options.project ? [options.project] : [],
 				created: new Date().toISOString(),
 			};
 
-			await updateIdentity((identity) => ({
-				...identity,
-				goals: {
-					...identity.goals,
-					[termKey]: [...identity.goals[termKey], goal],
-				},
-			}));
+			await updateIdentity((identity) => {
+				if (goal.parent) validateParent(identity.goals, options.term, goal.parent);
+				return {
+					...identity,
+					goals: {
+						...identity.goals,
+						[termKey]: [...identity.goals[termKey], goal],
+					},
+				};
+			});
 
 			await regenerateAndSync();
 
@@ -206,6 +270,9 @@ identityCommand
 			if (options.deadline) {
 				console.log(dim(`  Deadline: ${options.deadline}`));
 			}
+			if (goal.parent) {
+				console.log(dim(`  Parent: ${goal.parent}`));
+			}
 			console.log('');
 		} catch (err) {
 			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
@@ -229,31 +296,7 @@ identityCommand
 				return;
 			}
 
-			let found = false;
-			let goalTitle = '';
-
-			await updateIdentity((identity) => {
-				const updateGoals = (goals: Goal[]) =>
-					goals.map((g) => {
-						if (g.id === goalId) {
-							found = true;
-							goalTitle = g.title;
-							return { ...g, progress };
-						}
-						return g;
-					});
-
-				return {
-					...identity,
-					goals: {
-						short_term: updateGoals(identity.goals.short_term),
-						medium_term: updateGoals(identity.goals.medium_term),
-						long_term: updateGoals(identity.goals.long_term),
-					},
-				};
-			});
-
-			if (!found) {
+			if (!(await getGoalById(goalId))) {
 				console.log(error(`Goal not found: ${goalId}`));
 				console.log(dim('\nAvailable goals:'));
 				const activeGoals = await getActiveGoals();
@@ -263,6 +306,14 @@ identityCommand
 				return;
 			}
 
+			// Refuses goals whose progress comes from milestones and sub-goals
+			let goalTitle = '';
+			await updateIdentity((identity) => {
+				const result = setGoalProgress(identity, goalId, progress);
+				goalTitle = result.goal.title;
+				return result.identity;
+			});
+
 			await regenerateAndSync();
 
 			const statusIcon = progress >= 1 ? '🎉' : '📈';
@@ -405,11 +456,7 @@ identityCommand
 	.action(async (options) => {
 		try {
 			const identity = await loadIdentity();
-			const allGoals = [
-				...identity.goals.short_term.map((g) => ({ ...g, term: 'Short' })),
-				...identity.goals.medium_term.map((g) => ({ ...g, term: 'Medium' })),
-				...identity.goals.long_term.map((g) => ({ ...g, term: 'Long' })),
-			];
+			const allGoals = summarizeGoals(identity.goals);
 
 			const goals = options.all ? allGoals : allGoals.filter((g) => g.progress < 1);
 
@@ -423,14 +470,18 @@ identityCommand
 			console.log(bold('\n Goals\n'));
 
 			const rows = goals.map((g) => [
-				g.term,
-				`${Math.round(g.progress * 100)}%`,
-				g.title,
+				g.term[0].toUpperCase() + g.term.slice(1),
+				`${Math.round(g.progress * 100)}%${g.derived ? '*' : ''}`,
+				g.parent ? `↳ ${g.title}` : g.title,
 				g.deadline || '-',
+				RISK_LABELS[g.risk.status],
 				g.id,
 			]);
 
-			console.log(table(['Term', 'Progress', 'Title', 'Deadline', 'ID'], rows));
+			console.log(table(['Term', 'Progress', 'Title', 'Deadline', 'Status', 'ID'], rows));
+			if (goals.some((g) => g.derived)) {
+				console.log(dim('\n* From milestones and sub-goals. Details: yxhyx identity goal <id>'));
+			}
 			console.log('');
 		} catch (err) {
 			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
@@ -471,3 +522,701 @@ identityCommand
 			process.exit(1);
 		}
 	});
+
+// ============================================
+// Goal Breakdown Command
+// ============================================
+
+identityCommand
+	.command('goal <id>')
+	.description("Show a goal's milestones, sub-goals and deadline risk")
+	.action(async (id: string) => {
+		try {
+			const identity = await loadIdentity();
+			const all = summarizeGoals(identity.goals);
+			const goal = all.find((g) => g.id === id);
+
+			if (!goal) {
+				console.log(error(`\nGoal not found: ${id}\n`));
+				return;
+			}
+
+			console.log(bold(`\n ${goal.title}`) + dim(` (${goal.term}-term, ${goal.id})`));
+			if (goal.description) console.log(`  ${goal.description}`);
+			console.log(
+				`\n  ${progressBar(goal.progress)}${goal.derived ? dim(' from milestones and sub-goals') : ''}`
+			);
+
+			if (goal.parent) {
+				const parent = all.find((g) => g.id === goal.parent);
+				console.log(dim(`  Part of: ${parent?.title ?? goal.parent}`));
+			}
+			if (goal.deadline) {
+				const status = `Deadline: ${goal.deadline} (${RISK_LABELS[goal.risk.status]}${goal.risk.reason ? `: ${goal.risk.reason}` : ''})`;
+				console.log(
+					goal.risk.status === 'on_track' ? dim(`  ${status}`) : warning(`  ⚠ ${status}`)
+				);
+			} else if (goal.risk.status !== 'on_track') {
+				console.log(warning(`  ⚠ ${goal.risk.reason}`));
+			}
+
+			if (goal.milestones.length > 0) {
+				console.log(info('\n  MILESTONES'));
+				for (const m of goal.milestones) {
+					const icon = milestoneProgress(m) >= 1 ? success('✓') : '○';
+					const state = m.target ? ` ${describeMilestone(m)}` : '';
+					const deadline = m.deadline ? dim(` due ${m.deadline}`) : '';
+					console.log(`  ${icon} ${m.title}${state}${deadline} ${dim(m.id)}`);
+				}
+			}
+
+			const children = all.filter((g) => goal.children.includes(g.id));
+			if (children.length > 0) {
+				console.log(info('\n  SUB-GOALS'));
+				for (const child of children) {
+					console.log(
+						`  ${progressBarSimple(child.progress)} ${Math.round(child.progress * 100)}% ${child.title} ${dim(child.id)}`
+					);
+				}
+			}
+
+			if (!goal.derived) {
+				console.log(
+					dim(`\n  Add milestones with: yxhyx identity milestone add ${goal.id} "Milestone"`)
+				);
+			}
+			console.log('');
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// Milestone Commands
+// ============================================
+
+const milestoneCommand = identityCommand
+	.command('milestone')
+	.description('Break goals into milestones and key results');
+
+milestoneCommand
+	.command('add <goalId> <title>')
+	.description('Add a milestone (or a key result, with --target)')
+	.option('-t, --target <number>', 'Numeric target, making it a key result')
+	.option('-u, --unit <unit>', 'Unit of the target (e.g. chapters)')
+	.option('-d, --deadline <date>', 'Deadline (YYYY-MM-DD)')
+	.action(
+		async (
+			goalId: string,
+			title: string,
+			options: { target?: string; unit?: string; deadline?: string }
+		) => {
+			try {
+				const target = options.target !== undefined ? Number(options.target) : undefined;
+				if (target !== undefined && !(target > 0)) {
+					throw new ValidationError('target must be a positive number', { field: 'target' });
+				}
+
+				let added: { goal: Goal; milestone: Milestone } | undefined;
+				await updateIdentity((identity) => {
+					const result = addMilestone(identity, goalId, {
+						title,
+						target,
+						unit: options.unit,
+						deadline: options.deadline,
+					});
+					added = result;
+					return result.identity;
+				});
+
+				await regenerateAndSync();
+
+				console.log(
+					success(
+						`\n🏁 Added ${target ? 'key result' : 'milestone'} to "${added?.goal.title}": ${title}`
+					)
+				);
+				console.log(dim(`  ID: ${added?.milestone.id}\n`));
+			} catch (err) {
+				console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+				process.exit(1);
+			}
+		}
+	);
+
+/**
+ * Run a milestone update and report the goal's new progress
+ */
+async function changeMilestone(
+	change: (identity: Identity) => { identity: Identity; goal: Goal; milestone: Milestone },
+	verb: string
+): Promise<void> {
+	try {
+		let changed: { goal: Goal; milestone: Milestone } | undefined;
+		const identity = await updateIdentity((current) => {
+			const result = change(current);
+			changed = result;
+			return result.identity;
+		});
+
+		await regenerateAndSync();
+
+		const goal = summarizeGoals(identity.goals).find((g) => g.id === changed?.goal.id);
+		console.log(success(`\n✓ ${verb} "${changed?.milestone.title}"`));
+		if (goal) {
+			console.log(dim(`  ${goal.title}: ${Math.round(goal.progress * 100)}%\n`));
+		}
+	} catch (err) {
+		console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+		process.exit(1);
+	}
+}
+
+milestoneCommand
+	.command('done <id>')
+	.description('Mark a milestone done')
+	.action((id: string) =>
+		changeMilestone((identity) => updateMilestone(identity, id, { done: true }), 'Completed')
+	);
+
+milestoneCommand
+	.command('reopen <id>')
+	.description('Mark a milestone not done')
+	.action((id: string) =>
+		changeMilestone((identity) => updateMilestone(identity, id, { done: false }), 'Reopened')
+	);
+
+milestoneCommand
+	.command('set <id> <value>')
+	.description("Record a key result's current value")
+	.action((id: string, value: string) => {
+		const current = Number(value);
+		if (Number.isNaN(current) || current < 0) {
+			console.error(error('\nError: value must be a non-negative number\n'));
+			process.exit(1);
+		}
+		return changeMilestone(
+			(identity) => updateMilestone(identity, id, { current }),
+			`Set to ${current}:`
+		);
+	});
+
+milestoneCommand
+	.command('remove <id>')
+	.description('Remove a milestone')
+	.action((id: string) => changeMilestone((identity) => removeMilestone(identity, id), 'Removed'));
+
+// ============================================
+// Edit / Remove Commands
+// ============================================
+
+/**
+ * Split a comma-separated option ('' gives an empty list)
+ */
+function splitList(value: string): string[] {
+	return value
+		.split(',')
+		.map((s) => s.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Parse a 0-100 percentage into 0-1
+ */
+function parsePercent(value: string, field: string): number {
+	const percent = Number.parseInt(value, 10);
+	if (Number.isNaN(percent) || percent < 0 || percent > 100) {
+		throw new ValidationError(`${field} must be a number between 0 and 100`, { field });
+	}
+	return percent / 100;
+}
+
+identityCommand
+	.command('edit <id>')
+	.description('Edit a goal or project (by ID) or an interest (by topic)')
+	.option('--title <title>', 'Goal title')
+	.option('--description <text>', 'Goal or project description')
+	.option('--deadline <date>', 'Goal deadline (YYYY-MM-DD, or "none")')
+	.option('--term <term>', 'Move a goal: short, medium, long')
+	.option('--parent <id>', 'Link a goal to a longer-term goal (or "none")')
+	.option('--name <name>', 'Project name')
+	.option('--status <status>', 'Project status: active, paused, completed, abandoned')
+	.option('--repo <url>', 'Project repository URL (or "none")')
+	.option('--next-actions <actions>', 'Comma-separated project next actions (replaces them)')
+	.option('--topic <topic>', 'Rename an interest')
+	.option('--subtopics <topics>', 'Comma-separated interest subtopics (replaces them)')
+	.option('--priority <level>', 'Move an interest: high, medium, low')
+	.action(async (id: string, options) => {
+		try {
+			const changes: EntryChanges = {
+				title: options.title,
+				description: options.description,
+				deadline: options.deadline === 'none' ? '' : options.deadline,
+				term: options.term,
+				parent: options.parent === 'none' ? '' : options.parent,
+				name: options.name,
+				status: options.status,
+				repo: options.repo === 'none' ? '' : options.repo,
+				next_actions:
+					options.nextActions !== undefined ? splitList(options.nextActions) : undefined,
+				topic: options.topic,
+				subtopics: options.subtopics !== undefined ? splitList(options.subtopics) : undefined,
+				priority: options.priority,
+			};
+
+			let edited: EntryRef | undefined;
+			await updateIdentity((identity) => {
+				const result = editEntry(identity, id, changes);
+				edited = result.entry;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n✏️  Updated ${edited?.kind}: ${edited?.label}\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+identityCommand
+	.command('remove <id>')
+	.description('Remove a goal or project (by ID) or an interest (by topic)')
+	.action(async (id: string) => {
+		try {
+			let removed: EntryRef | undefined;
+			await updateIdentity((identity) => {
+				const result = removeEntry(identity, id);
+				removed = result.entry;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n🗑️  Removed ${removed?.kind}: ${removed?.label}`));
+			console.log(dim('  Undo with: yxhyx identity history, then identity rollback <version>\n'));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// Challenge Commands
+// ============================================
+
+const challengeCommand = identityCommand
+	.command('challenge')
+	.description('Track obstacles to your goals');
+
+challengeCommand
+	.command('add <title>')
+	.description('Add an active challenge')
+	.option('-d, --description <text>', 'What makes it hard')
+	.option('-g, --goal <ids>', 'Comma-separated related goal IDs')
+	.action(async (title: string, options: { description?: string; goal?: string }) => {
+		try {
+			let challenge: Challenge | undefined;
+			await updateIdentity((identity) => {
+				const result = addChallenge(identity, {
+					title,
+					description: options.description,
+					related_goals: options.goal ? splitList(options.goal) : [],
+				});
+				challenge = result.challenge;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n🧗 Added challenge: ${title}`));
+			console.log(dim(`  ID: ${challenge?.id}\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+for (const [status, verb] of [
+	['resolved', 'resolve'],
+	['abandoned', 'abandon'],
+	['active', 'reopen'],
+] as const) {
+	challengeCommand
+		.command(`${verb} <id>`)
+		.description(`Mark a challenge ${status}`)
+		.action(async (id: string) => {
+			try {
+				let challenge: Challenge | undefined;
+				await updateIdentity((identity) => {
+					const result = setChallengeStatus(identity, id, status);
+					challenge = result.challenge;
+					return result.identity;
+				});
+
+				await regenerateAndSync();
+
+				console.log(success(`\n✓ Marked "${challenge?.title}" ${status}\n`));
+			} catch (err) {
+				console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+				process.exit(1);
+			}
+		});
+}
+
+challengeCommand
+	.command('list')
+	.description('List active challenges')
+	.option('-a, --all', 'Include resolved and abandoned challenges')
+	.action(async (options: { all?: boolean }) => {
+		try {
+			const identity = await loadIdentity();
+			const challenges = options.all
+				? identity.challenges
+				: identity.challenges.filter((c) => c.status === 'active');
+
+			if (challenges.length === 0) {
+				console.log(
+					warning('\nNo challenges found. Add one with: yxhyx identity challenge add "Challenge"\n')
+				);
+				return;
+			}
+
+			console.log(bold('\n Challenges\n'));
+
+			const rows = challenges.map((c) => [
+				c.status,
+				c.title,
+				c.related_goals.join(', ') || '-',
+				c.id,
+			]);
+
+			console.log(table(['Status', 'Title', 'Goals', 'ID'], rows));
+			console.log('');
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// Belief Commands
+// ============================================
+
+const beliefCommand = identityCommand.command('belief').description('Manage your core beliefs');
+
+beliefCommand
+	.command('add <statement>')
+	.description('Add a belief')
+	.option('-c, --confidence <percent>', 'How confident you are (0-100)', '70')
+	.action(async (statement: string, options: { confidence: string }) => {
+		try {
+			const confidence = parsePercent(options.confidence, 'confidence');
+
+			let belief: Belief | undefined;
+			await updateIdentity((identity) => {
+				const result = addBelief(identity, statement, confidence);
+				belief = result.belief;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n💡 Added belief (${options.confidence}% confident)`));
+			console.log(dim(`  "${statement}"`));
+			console.log(dim(`  ID: ${belief?.id}\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+beliefCommand
+	.command('update-confidence <id> <percent>')
+	.description('Change how confident you are in a belief (0-100)')
+	.action(async (id: string, percent: string) => {
+		try {
+			const confidence = parsePercent(percent, 'confidence');
+
+			let belief: Belief | undefined;
+			await updateIdentity((identity) => {
+				const result = updateBeliefConfidence(identity, id, confidence);
+				belief = result.belief;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n💡 Now ${percent}% confident that "${belief?.statement}"\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+beliefCommand
+	.command('remove <id>')
+	.description('Remove a belief')
+	.action(async (id: string) => {
+		try {
+			let belief: Belief | undefined;
+			await updateIdentity((identity) => {
+				const result = removeBelief(identity, id);
+				belief = result.belief;
+				return result.identity;
+			});
+
+			await regenerateAndSync();
+
+			console.log(success(`\n🗑️  Removed belief: "${belief?.statement}"\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+beliefCommand
+	.command('list')
+	.description('List your beliefs')
+	.action(async () => {
+		try {
+			const identity = await loadIdentity();
+
+			if (identity.beliefs.length === 0) {
+				console.log(
+					warning('\nNo beliefs recorded. Add one with: yxhyx identity belief add "Belief"\n')
+				);
+				return;
+			}
+
+			console.log(bold('\n Beliefs\n'));
+
+			const rows = identity.beliefs.map((b) => [
+				`${Math.round(b.confidence * 100)}%`,
+				b.statement,
+				b.added,
+				b.id,
+			]);
+
+			console.log(table(['Confidence', 'Statement', 'Added', 'ID'], rows));
+			console.log('');
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// Mission Command
+// ============================================
+
+identityCommand
+	.command('mission')
+	.description('Manage your mission statement')
+	.command('set <mission>')
+	.description('Set your mission statement')
+	.action(async (mission: string) => {
+		try {
+			await updateIdentity((identity) => ({ ...identity, mission }));
+
+			await regenerateAndSync();
+
+			console.log(success('\n🧭 Mission updated'));
+			console.log(dim(`  "${mission}"\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// History Commands
+// ============================================
+
+/**
+ * Format a changed value for a diff line
+ */
+function formatDiffValue(field: string, value: unknown): string {
+	if (value === undefined) return '(none)';
+	if (field === 'progress' && typeof value === 'number') return `${Math.round(value * 100)}%`;
+	return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Print one section of an identity diff
+ */
+function printSectionDiff(title: string, section: SectionDiff): void {
+	if (section.added.length + section.removed.length + section.changed.length === 0) return;
+
+	console.log(bold(`\n ${title}`));
+	for (const entry of section.added) {
+		console.log(success(`  + ${entry.label}`) + dim(` (${entry.key})`));
+	}
+	for (const entry of section.removed) {
+		console.log(error(`  - ${entry.label}`) + dim(` (${entry.key})`));
+	}
+	for (const entry of section.changed) {
+		console.log(warning(`  ~ ${entry.label}`) + dim(` (${entry.key})`));
+		for (const change of entry.changes) {
+			console.log(
+				dim(
+					`      ${change.field}: ${formatDiffValue(change.field, change.from)} → ${formatDiffValue(change.field, change.to)}`
+				)
+			);
+		}
+	}
+}
+
+const historyCommand = identityCommand
+	.command('history')
+	.description('List saved versions of your identity')
+	.option('-n, --limit <count>', 'Number to show', '20')
+	.action(async (options: { limit: string }) => {
+		try {
+			const limit = Number.parseInt(options.limit, 10) || 20;
+			const snapshots = (await listSnapshots()).reverse().slice(0, limit);
+
+			if (snapshots.length === 0) {
+				console.log(warning('\nNo identity history yet. Versions are saved on every change.\n'));
+				return;
+			}
+
+			console.log(bold('\n Identity History\n'));
+
+			const rows = snapshots.map((s) => [
+				`v${s.version}`,
+				new Date(s.timestamp).toLocaleString(),
+				s.source,
+				s.summary,
+			]);
+
+			console.log(table(['Version', 'Saved', 'Source', 'Changes'], rows));
+			console.log(dim('\nCompare with: yxhyx identity diff <version> [version]\n'));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+historyCommand
+	.command('prune')
+	.description('Delete old versions beyond the retention limits')
+	.option('-k, --keep <count>', 'Versions to keep', String(DEFAULT_RETENTION.maxVersions))
+	.option(
+		'-d, --days <days>',
+		'Delete versions older than this',
+		String(DEFAULT_RETENTION.maxAgeDays)
+	)
+	.action(async (options: { keep: string; days: string }) => {
+		try {
+			const pruned = await pruneSnapshots({
+				maxVersions: Number.parseInt(options.keep, 10),
+				maxAgeDays: Number.parseInt(options.days, 10),
+			});
+			console.log(
+				pruned.length > 0
+					? success(`\nDeleted ${pruned.length} old version(s)\n`)
+					: info('\nNothing to prune\n')
+			);
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+identityCommand
+	.command('diff <from> [to]')
+	.description('Compare goals, projects and interests between two versions (default: current)')
+	.action(async (from: string, to?: string) => {
+		try {
+			const fromVersion = parseVersion(from);
+			const before = await loadSnapshot(fromVersion);
+			const after = to ? await loadSnapshot(parseVersion(to)) : await loadIdentity();
+			const diff = diffIdentities(before, after);
+
+			console.log(
+				bold(`\n Changes from v${fromVersion} to ${to ? `v${parseVersion(to)}` : 'current'}`)
+			);
+
+			printSectionDiff('Goals', diff.goals);
+			printSectionDiff('Projects', diff.projects);
+			printSectionDiff('Interests', diff.interests);
+			if (diff.other.length > 0) {
+				console.log(bold('\n Other sections changed'));
+				console.log(`  ${diff.other.join(', ')}`);
+			}
+			if (summarizeDiff(diff) === 'no changes') {
+				console.log(dim('\n  No changes'));
+			}
+			console.log('');
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+identityCommand
+	.command('rollback <version>')
+	.description('Restore a saved version (saved as a new version, so it can be undone)')
+	.action(async (version: string) => {
+		try {
+			const target = parseVersion(version);
+			const diff = diffIdentities(await loadIdentity(), await loadSnapshot(target));
+
+			await rollbackIdentity(target);
+			await regenerateAndSync();
+
+			console.log(success(`\nRolled back to v${target}`) + dim(` (${summarizeDiff(diff)})\n`));
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
+
+// ============================================
+// Migration Commands
+// ============================================
+
+identityCommand
+	.command('migrate')
+	.description('Upgrade identity.yaml to the current schema version (backing up the original)')
+	.option('--dry-run', 'Show what would change without writing anything')
+	.action(async (options: { dryRun?: boolean }) => {
+		try {
+			const result = await migrateIdentityFile({ dryRun: options.dryRun });
+
+			if (result.changes.length === 0) {
+				console.log(success(`\nidentity.yaml is up to date (v${result.to})\n`));
+				return;
+			}
+
+			console.log(
+				bold(
+					result.applied.length > 0
+						? `\n ${options.dryRun ? 'Would migrate' : 'Migrated'} identity.yaml from v${result.from} to v${result.to}\n`
+						: `\n ${options.dryRun ? 'Would update' : 'Updated'} identity.yaml to match the schema (v${result.to})\n`
+				)
+			);
+			for (const migration of result.applied) {
+				console.log(`  v${migration.from} → v${migration.to}: ${migration.description}`);
+			}
+
+			console.log(bold('\n Changes'));
+			for (const change of result.changes) {
+				const color = change.startsWith('+') ? success : change.startsWith('-') ? error : warning;
+				console.log(color(`  ${change}`));
+			}
+
+			if (options.dryRun) {
+				console.log(dim('\nNothing written. Run without --dry-run to apply.\n'));
+			} else {
+				await regenerateAndSync();
+				console.log(dim(`\n${result.backup ? `Original saved to ${result.backup}` : 'Saved'}\n`));
+			}
+		} catch (err) {
+			console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+			process.exit(1);
+		}
+	});
@@ -13,12 +13,14 @@ import { promisify } from 'node:util';
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import { stringify } from 'yaml';
+import { saveScheduleConfig } from '../lib/checkin/scheduler';
 import { bold, colors, info, success, warning } from '../lib/cli/formatting';
 import { getIdentityPath, getYxhyxDir, isInitialized, saveIdentity } from '../lib/context-loader';
 import { stateManager } from '../lib/memory/state-manager';
 import { DEFAULT_ROUTING_CONFIG } from '../lib/model-router';
 import { detectOpenCode, setupOpenCodeIntegration } from '../lib/opencode-integration';
 import { createDefaultIdentity } from '../lib/schemas/identity';
+import { ScheduleConfigSchema } from '../lib/schemas/schedule';
 import { generateViews } from '../lib/view-generator';
 
 const execAsync = promisify(exec);
@@ -277,8 +279,8 @@ Add the export to your shell profile (~/.zshrc or ~/.bashrc) and restart your te
 			// Create ratings file
 			await writeFile(`${yxhyxDir}/memory/learning/signals/ratings.jsonl`, '');
 
-			// Create cost tracking file
-			await writeFile(`${yxhyxDir}/memory/state/cost-tracking.json`, '{}');
+			// Create usage log
+			await writeFile(`${yxhyxDir}/memory/state/usage.jsonl`, '');
 
 			// Create models config
 			await writeFile(`${yxhyxDir}/config/models.yaml`, stringify(DEFAULT_ROUTING_CONFIG));
@@ -321,6 +323,9 @@ Add the export to your shell profile (~/.zshrc or ~/.bashrc) and restart your te
 				})
 			);
 
+			// Create check-in schedule config
+			await saveScheduleConfig(ScheduleConfigSchema.parse({}));
+
 			// Create .env template
 			await writeFile(
 				`${yxhyxDir}/.env.example`,
@@ -414,6 +419,9 @@ ANTHROPIC_API_KEY=your_anthropic_api_key_here
 			console.log(
 				`     ${colors.cyan}yxhyx checkin morning${colors.reset}   - Do a morning check-in`
 			);
+			console.log(
+				`     ${colors.cyan}yxhyx schedule${colors.reset}          - Get reminded to check in`
+			);
 			console.log(`     ${colors.cyan}yxhyx status${colors.reset}            - Quick overview`);
 
 			if (openCodeSetUp) {
@@ -6,13 +6,17 @@
  *   yxhyx memory patterns    - Show synthesized patterns
  *   yxhyx memory rate <n>    - Rate last interaction
  *   yxhyx memory work        - View recent work sessions
+ *   yxhyx memory embed       - Embed learnings for semantic retrieval
+ *   yxhyx memory learning <action> <id> - Edit, delete, merge, pin or retire a learning
+ *   yxhyx memory dedupe      - Find near-duplicate learnings and propose merges
  */
 
 import { Command } from 'commander';
-import { colors } from '../lib/cli/formatting';
-import { learningManager } from '../lib/memory/learning-manager';
+import { colors, error, success } from '../lib/cli/formatting';
+import { DUPLICATE_SIMILARITY, learningManager } from '../lib/memory/learning-manager';
 import { getCostBreakdown, getMonthlyCost } from '../lib/memory/state-manager';
 import { workManager } from '../lib/memory/work-manager';
+import { type Learning, LearningTaskType } from '../lib/schemas/learning';
 
 // ============================================
 // Memory Command
@@ -29,10 +33,15 @@ memoryCommand
 	.description('View captured learnings')
 	.option('-n, --limit <count>', 'Number to show', '10')
 	.option('-t, --type <type>', 'Filter by type (failure, success, insight)')
-	.action(async (options: { limit: string; type?: string }) => {
+	.option('-a, --all', 'Include retired learnings')
+	.action(async (options: { limit: string; type?: string; all?: boolean }) => {
 		const limit = Number.parseInt(options.limit, 10) || 10;
 		let learnings = await learningManager.getAllLearnings();
 
+		if (!options.all) {
+			learnings = learnings.filter((l) => l.status !== 'retired');
+		}
+
 		if (options.type) {
 			learnings = learnings.filter((l) => l.type === options.type);
 		}
@@ -64,9 +73,15 @@ memoryCommand
 				insight: '',
 			}[learning.type];
 
+			const status =
+				learning.status === 'active'
+					? ''
+					: ` ${colors.yellow}(${learning.status}${learning.task_types.length > 0 ? `: ${learning.task_types.join(', ')}` : ''})${colors.reset}`;
+
 			console.log(
-				`\n${typeColor}[${learning.type.toUpperCase()}]${colors.reset} ${typeIcon} ${date}`
+				`\n${typeColor}[${learning.type.toUpperCase()}]${colors.reset} ${typeIcon} ${date}${status}`
 			);
+			console.log(`  ${colors.dim}ID: ${learning.id}${colors.reset}`);
 			console.log(`  Situation: ${learning.situation}`);
 			console.log(`  ${colors.bold}Lesson:${colors.reset} ${learning.lesson}`);
 
@@ -78,6 +93,211 @@ memoryCommand
 		console.log('');
 	});
 
+// ============================================
+// Learning Lifecycle Subcommands
+// ============================================
+
+const learningCommand = memoryCommand
+	.command('learning')
+	.description('Edit, delete, merge, pin or retire a learning');
+
+/**
+ * Print a failed learning action and exit
+ */
+function failLearningAction(err: unknown): never {
+	console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+	process.exit(1);
+}
+
+/**
+ * Parse comma-separated task types
+ */
+function parseTaskTypes(value?: string): LearningTaskType[] {
+	if (!value) return [];
+	return value
+		.split(',')
+		.map((t) => t.trim())
+		.filter(Boolean)
+		.map((t) => LearningTaskType.parse(t));
+}
+
+learningCommand
+	.command('edit <id>')
+	.description('Edit the text or tags of a learning')
+	.option('-s, --situation <text>', 'New situation')
+	.option('-l, --lesson <text>', 'New lesson')
+	.option('-a, --action <items...>', 'Replace the action items')
+	.option('-t, --tags <tags>', 'Replace the tags (comma-separated)')
+	.action(
+		async (
+			id: string,
+			options: { situation?: string; lesson?: string; action?: string[]; tags?: string }
+		) => {
+			try {
+				const learning = await learningManager.updateLearning(id, {
+					...(options.situation && { situation: options.situation }),
+					...(options.lesson && { lesson: options.lesson }),
+					...(options.action && { action_items: options.action }),
+					...(options.tags !== undefined && {
+						tags: options.tags
+							.split(',')
+							.map((t) => t.trim())
+							.filter(Boolean),
+					}),
+				});
+				console.log(success(`\nUpdated ${learning.id}: ${learning.lesson}\n`));
+			} catch (err) {
+				failLearningAction(err);
+			}
+		}
+	);
+
+learningCommand
+	.command('delete <id>')
+	.description('Delete a learning permanently')
+	.action(async (id: string) => {
+		try {
+			const learning = await learningManager.deleteLearning(id);
+			console.log(success(`\nDeleted ${learning.id}: ${learning.lesson}\n`));
+		} catch (err) {
+			failLearningAction(err);
+		}
+	});
+
+learningCommand
+	.command('merge <id> <others...>')
+	.description('Merge learnings into the first one (the others are deleted)')
+	.option('-l, --lesson <text>', 'Lesson for the merged learning')
+	.action(async (id: string, others: string[], options: { lesson?: string }) => {
+		try {
+			const learning = await learningManager.mergeLearnings(
+				id,
+				others,
+				options.lesson ? { lesson: options.lesson } : {}
+			);
+			console.log(
+				success(`\nMerged ${others.length} learning(s) into ${learning.id}: ${learning.lesson}\n`)
+			);
+		} catch (err) {
+			failLearningAction(err);
+		}
+	});
+
+learningCommand
+	.command('pin <id>')
+	.description('Always retrieve a learning (optionally only for some task types)')
+	.option('-t, --task-types <types>', `Comma-separated: ${LearningTaskType.options.join(', ')}`)
+	.action(async (id: string, options: { taskTypes?: string }) => {
+		try {
+			const learning = await learningManager.pinLearning(id, parseTaskTypes(options.taskTypes));
+			const scope =
+				learning.task_types.length > 0 ? learning.task_types.join(', ') : 'all task types';
+			console.log(success(`\nPinned ${learning.id} for ${scope}\n`));
+		} catch (err) {
+			failLearningAction(err);
+		}
+	});
+
+learningCommand
+	.command('retire <id>')
+	.description('Stop retrieving a learning (kept for history)')
+	.action(async (id: string) => {
+		try {
+			const learning = await learningManager.retireLearning(id);
+			console.log(success(`\nRetired ${learning.id}\n`));
+		} catch (err) {
+			failLearningAction(err);
+		}
+	});
+
+learningCommand
+	.command('activate <id>')
+	.description('Return a pinned or retired learning to normal retrieval')
+	.action(async (id: string) => {
+		try {
+			const learning = await learningManager.updateLearning(id, {
+				status: 'active',
+				task_types: [],
+			});
+			console.log(success(`\nActivated ${learning.id}\n`));
+		} catch (err) {
+			failLearningAction(err);
+		}
+	});
+
+// ============================================
+// Dedupe Subcommand
+// ============================================
+
+memoryCommand
+	.command('dedupe')
+	.description('Find near-duplicate learnings and propose merges')
+	.option('--threshold <n>', 'Similarity needed to count as a duplicate (0-1)')
+	.option('--apply', 'Merge every cluster into its proposed survivor')
+	.action(async (options: { threshold?: string; apply?: boolean }) => {
+		const threshold = Number.parseFloat(options.threshold ?? '') || DUPLICATE_SIMILARITY;
+		const clusters = await learningManager.findDuplicates(threshold);
+
+		if (clusters.length === 0) {
+			console.log(`\n${colors.green}No near-duplicate learnings found.${colors.reset}\n`);
+			return;
+		}
+
+		console.log(`\n${colors.bold}Near-Duplicate Learnings${colors.reset}`);
+		console.log('='.repeat(50));
+
+		const describe = (l: Learning) => `${l.id}${l.status === 'pinned' ? ' (pinned)' : ''}`;
+		for (const [target, ...others] of clusters) {
+			console.log(`\n${colors.cyan}Keep:${colors.reset} ${describe(target)}`);
+			console.log(`  ${target.lesson}`);
+			for (const other of others) {
+				console.log(`${colors.dim}Merge:${colors.reset} ${describe(other)}`);
+				console.log(`  ${colors.dim}${other.lesson}${colors.reset}`);
+			}
+
+			if (options.apply) {
+				await learningManager.mergeLearnings(
+					target.id,
+					others.map((l) => l.id)
+				);
+				console.log(success('  Merged'));
+			} else {
+				console.log(
+					`${colors.dim}  yxhyx memory learning merge ${[target, ...others].map((l) => l.id).join(' ')}${colors.reset}`
+				);
+			}
+		}
+
+		if (!options.apply) {
+			console.log(`\n${colors.dim}Run with --apply to merge all clusters.${colors.reset}`);
+		}
+		console.log('');
+	});
+
+// ============================================
+// Embed Subcommand
+// ============================================
+
+memoryCommand
+	.command('embed')
+	.description('Embed existing learnings for semantic retrieval')
+	.option('-f, --force', 'Re-embed learnings that already have a vector')
+	.action(async (options: { force?: boolean }) => {
+		const result = await learningManager.backfillEmbeddings({ force: options.force });
+
+		console.log(
+			`\n${colors.bold}Learning Embeddings${colors.reset} ${colors.dim}(${result.backend})${colors.reset}`
+		);
+		console.log(`  Embedded: ${result.embedded}`);
+		console.log(`  Already embedded: ${result.skipped}`);
+		if (result.failed > 0) {
+			console.log(
+				`  ${colors.red}Failed: ${result.failed}${colors.reset} ${colors.dim}(check the embeddings settings in models.yaml)${colors.reset}`
+			);
+		}
+		console.log('');
+	});
+
 // ============================================
 // Patterns Subcommand
 // ============================================
@@ -0,0 +1,90 @@
+/**
+ * Review Command - Weekly and monthly reports
+ *
+ * Usage:
+ *   yxhyx review weekly          - Compile this week's report (and save it)
+ *   yxhyx review monthly --last  - Compile last month's report
+ *   yxhyx review list            - List saved reports
+ *   yxhyx review show <name>     - Print a saved report
+ */
+
+import { Command } from 'commander';
+import {
+	REVIEW_PERIODS,
+	compileReview,
+	listReviews,
+	loadReview,
+	renderReview,
+	saveReview,
+} from '../lib/checkin/reviews';
+import { bold, dim, error, success } from '../lib/cli/formatting';
+import { ValidationError } from '../lib/errors';
+
+function fail(err: unknown): never {
+	console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+	if (err instanceof ValidationError && err.suggestion) {
+		console.log(dim(`${err.suggestion}\n`));
+	}
+	process.exit(1);
+}
+
+// ============================================
+// Review Command
+// ============================================
+
+export const reviewCommand = new Command('review').description(
+	'Weekly and monthly reports compiled from check-ins, ratings, work, goals and spend'
+);
+
+for (const period of REVIEW_PERIODS) {
+	const unit = period === 'weekly' ? 'week' : 'month';
+	reviewCommand
+		.command(period)
+		.description(`Compile this ${unit}'s report`)
+		.option('-l, --last', `Report on last ${unit} instead`)
+		.option('--no-save', 'Print the report without saving it')
+		.action(async (options: { last?: boolean; save: boolean }) => {
+			try {
+				const data = await compileReview(period, { offset: options.last ? 1 : 0 });
+				console.log(`\n${renderReview(data)}`);
+				if (options.save) {
+					const path = await saveReview(data);
+					console.log(success(`Saved to ${path}\n`));
+				}
+			} catch (err) {
+				fail(err);
+			}
+		});
+}
+
+reviewCommand
+	.command('list')
+	.description('List saved reports')
+	.action(async () => {
+		try {
+			const reviews = await listReviews();
+			if (reviews.length === 0) {
+				console.log(dim('\nNo reviews yet. Run `yxhyx review weekly` to compile one.\n'));
+				return;
+			}
+
+			console.log(bold('\n Reviews\n'));
+			for (const review of reviews) {
+				console.log(`  ${review.name}`);
+			}
+			console.log(dim('\n  yxhyx review show <name> to read one\n'));
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+reviewCommand
+	.command('show <name>')
+	.description('Print a saved report (e.g. weekly-2026-03-09)')
+	.action(async (name: string) => {
+		try {
+			console.log(`\n${await loadReview(name)}`);
+		} catch (err) {
+			fail(err);
+		}
+	});
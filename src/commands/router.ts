@@ -0,0 +1,82 @@
+/**
+ * Router Command - Inspect routing decisions
+ *
+ * Usage:
+ *   yxhyx router explain "<prompt>"  - Show how a prompt would be routed
+ */
+
+import { Command } from 'commander';
+import { colors } from '../lib/cli/formatting';
+import { YxhyxError } from '../lib/errors';
+import { classifyByPattern, classifyComplexity } from '../lib/model-router/complexity';
+import { modelRouter } from '../lib/model-router/router';
+
+// ============================================
+// Router Command
+// ============================================
+
+export const routerCommand = new Command('router').description('Inspect model routing');
+
+// ============================================
+// Explain Subcommand
+// ============================================
+
+/** Assumed response length when estimating cost */
+const ESTIMATED_OUTPUT_TOKENS = 500;
+
+routerCommand
+	.command('explain')
+	.description('Explain which model a prompt would be routed to, and why')
+	.argument('<prompt...>', 'Prompt to route')
+	.action(async (promptParts: string[]) => {
+		const prompt = promptParts.join(' ');
+
+		console.log(`\n${colors.bold}Routing Explanation${colors.reset}`);
+		console.log('='.repeat(40));
+		console.log(`${colors.dim}Prompt: ${prompt.substring(0, 80)}${colors.reset}\n`);
+
+		console.log(`${colors.bold}Heuristics${colors.reset}`);
+		console.log(`  Pattern match:  ${classifyByPattern(prompt)}`);
+		console.log(`  Indicators:     ${classifyComplexity(prompt)}`);
+
+		let candidates: Awaited<ReturnType<typeof modelRouter.routeCandidates>>;
+		try {
+			candidates = await modelRouter.routeCandidates({ task: prompt });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.log(`\n${colors.red}Routing failed: ${message}${colors.reset}`);
+			if (error instanceof YxhyxError && error.suggestion) {
+				console.log(`${colors.dim}${error.suggestion}${colors.reset}`);
+			}
+			console.log('');
+			return;
+		}
+
+		const [chosen] = candidates;
+		const adaptive = chosen.adaptive;
+
+		console.log(`\n${colors.bold}Rating History${colors.reset}`);
+		if (!adaptive) {
+			console.log(`  ${colors.dim}Adaptive routing disabled or not applicable${colors.reset}`);
+		} else {
+			console.log(`  Heuristic:      ${adaptive.heuristic}`);
+			console.log(`  Adjustment:     ${adaptive.adjustment}`);
+			console.log(`  ${colors.dim}${adaptive.reason}${colors.reset}`);
+			for (const similar of adaptive.similar.slice(0, 5)) {
+				console.log(
+					`    ${similar.rating}/10  ${similar.model} @ ${similar.complexity}  ${colors.dim}(${Math.round(similar.similarity * 100)}% similar) ${similar.prompt.substring(0, 50)}${colors.reset}`
+				);
+			}
+		}
+
+		const inputTokens = Math.ceil(prompt.length / 4);
+		console.log(`\n${colors.bold}Candidates${colors.reset}`);
+		for (const candidate of candidates) {
+			const marker = candidate === chosen ? `${colors.green}→${colors.reset}` : ' ';
+			const cost = modelRouter.estimateCost(inputTokens, ESTIMATED_OUTPUT_TOKENS, candidate.config);
+			console.log(
+				`  ${marker} ${candidate.modelName.padEnd(24)} ${candidate.complexity.padEnd(9)} ~$${cost.toFixed(4)}`
+			);
+		}
+		console.log(`\n${colors.dim}${chosen.reason}${colors.reset}\n`);
+	});
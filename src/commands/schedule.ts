@@ -0,0 +1,348 @@
+/**
+ * Schedule Command - Check-in reminders on a schedule
+ *
+ * Usage:
+ *   yxhyx schedule                        - Show the schedule
+ *   yxhyx schedule set morning 07:30      - Change a check-in's time
+ *   yxhyx schedule enable|disable weekly  - Turn a check-in's reminder on or off
+ *   yxhyx schedule reminder notify        - Choose how reminders are sent
+ *   yxhyx schedule install --systemd      - Generate systemd timers (or --cron)
+ *   yxhyx schedule remind evening         - Send a reminder now (run by cron/systemd)
+ *   yxhyx daemon                          - Send reminders from a running process
+ */
+
+import { Command } from 'commander';
+import { checkinRunner } from '../lib/checkin/runner';
+import {
+	CHECKIN_TYPES,
+	SCHEDULE_CONFIG_PATH,
+	SYSTEMD_USER_DIR,
+	enableSystemdTimers,
+	generateCrontab,
+	generateSystemdUnits,
+	installCrontab,
+	installSystemdUnits,
+	isValidTimezone,
+	loadScheduleConfig,
+	remindCheckin,
+	resolveTimezone,
+	runScheduledReminders,
+	saveScheduleConfig,
+	yxhyxCommand,
+} from '../lib/checkin/scheduler';
+import { bold, dim, error, info, success, warning } from '../lib/cli/formatting';
+import { ValidationError } from '../lib/errors';
+import { type CheckinType, getState } from '../lib/memory/state-manager';
+import {
+	type ScheduleConfig,
+	ScheduleConfigSchema,
+	WEEKDAYS,
+	type Weekday,
+} from '../lib/schemas/schedule';
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseCheckinType(value: string): CheckinType {
+	if (!CHECKIN_TYPES.includes(value as CheckinType)) {
+		throw new ValidationError(`Unknown check-in type: ${value}`, {
+			field: 'type',
+			suggestion: `Use one of: ${CHECKIN_TYPES.join(', ')}`,
+		});
+	}
+	return value as CheckinType;
+}
+
+/**
+ * Validate a changed schedule the way schedule.yaml is validated on load
+ */
+function validateSchedule(config: ScheduleConfig): ScheduleConfig {
+	const result = ScheduleConfigSchema.safeParse(config);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new ValidationError(issue.message, { field: issue.path.join('.') });
+	}
+	return result.data;
+}
+
+function fail(err: unknown): never {
+	console.error(error(`\nError: ${err instanceof Error ? err.message : err}\n`));
+	if (err instanceof ValidationError && err.suggestion) {
+		console.log(dim(`${err.suggestion}\n`));
+	}
+	process.exit(1);
+}
+
+function describeCheckin(config: ScheduleConfig, type: CheckinType): string {
+	const { time, day } = config.checkins[type];
+	return type === 'weekly' ? `${day ?? 'sunday'}s at ${time}` : `daily at ${time}`;
+}
+
+// ============================================
+// Schedule Command
+// ============================================
+
+export const scheduleCommand = new Command('schedule')
+	.description('Check-in reminders on a schedule')
+	.action(async () => {
+		try {
+			const config = await loadScheduleConfig();
+			const timezone = await resolveTimezone(config);
+			const { lastReminders = {} } = await getState();
+
+			console.log(bold('\n Check-in Schedule'));
+			console.log(dim(`  Timezone: ${timezone}${config.timezone ? '' : ' (from identity)'}`));
+			console.log(
+				dim(
+					`  Reminders: ${config.reminder.method}${config.reminder.command ? ` (${config.reminder.command})` : ''}\n`
+				)
+			);
+
+			for (const type of CHECKIN_TYPES) {
+				const entry = config.checkins[type];
+				const last = lastReminders[type] ? dim(` last reminded ${lastReminders[type]}`) : '';
+				const state = entry.enabled ? success('on ') : dim('off');
+				console.log(`  ${state} ${type.padEnd(8)} ${describeCheckin(config, type)}${last}`);
+			}
+
+			console.log(dim(`\n  Config: ${SCHEDULE_CONFIG_PATH}`));
+			console.log(dim('  Run `yxhyx daemon`, or `yxhyx schedule install --systemd` (or --cron)\n'));
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+scheduleCommand
+	.command('set [type] [time]')
+	.description('Set when a check-in happens (24-hour HH:MM), or the timezone')
+	.option('-d, --day <weekday>', `Day of the weekly review (${WEEKDAYS.join(', ')})`)
+	.option('--timezone <tz>', "IANA timezone ('identity' to follow identity.about.timezone)")
+	.action(
+		async (
+			typeArg: string | undefined,
+			time: string | undefined,
+			options: { day?: string; timezone?: string }
+		) => {
+			try {
+				const config = await loadScheduleConfig();
+
+				if (options.timezone) {
+					if (options.timezone === 'identity') {
+						config.timezone = undefined;
+					} else if (!isValidTimezone(options.timezone)) {
+						throw new ValidationError(`Unknown timezone: ${options.timezone}`, {
+							field: 'timezone',
+							suggestion: 'Use an IANA name like Europe/Berlin or America/New_York',
+						});
+					} else {
+						config.timezone = options.timezone;
+					}
+				}
+
+				if (typeArg) {
+					const type = parseCheckinType(typeArg);
+					if (!time && !options.day) {
+						throw new ValidationError('Give a time (HH:MM) or --day', { field: 'time' });
+					}
+					if (options.day && type !== 'weekly') {
+						throw new ValidationError('Only the weekly review has a day', { field: 'day' });
+					}
+					config.checkins[type] = {
+						...config.checkins[type],
+						...(time && { time }),
+						...(options.day && { day: options.day.toLowerCase() as Weekday }),
+					};
+				} else if (!options.timezone) {
+					throw new ValidationError('Nothing to change', {
+						field: 'type',
+						suggestion: 'yxhyx schedule set morning 07:30, or --timezone Europe/Berlin',
+					});
+				}
+
+				await saveScheduleConfig(validateSchedule(config));
+				console.log(success('\nSchedule updated'));
+				console.log(dim('Re-run `yxhyx schedule install` if you use cron or systemd timers\n'));
+			} catch (err) {
+				fail(err);
+			}
+		}
+	);
+
+for (const [name, enabled] of [
+	['enable', true],
+	['disable', false],
+] as const) {
+	scheduleCommand
+		.command(`${name} <type>`)
+		.description(`${enabled ? 'Turn on' : 'Turn off'} a check-in's reminder`)
+		.action(async (typeArg: string) => {
+			try {
+				const type = parseCheckinType(typeArg);
+				const config = await loadScheduleConfig();
+				config.checkins[type].enabled = enabled;
+				await saveScheduleConfig(config);
+				console.log(success(`\n${type} reminders ${enabled ? 'on' : 'off'}\n`));
+			} catch (err) {
+				fail(err);
+			}
+		});
+}
+
+scheduleCommand
+	.command('reminder <method>')
+	.description('How reminders are sent: auto, notify, bell or command')
+	.option('-c, --command <command>', 'Command to run for `command` ({type} is the check-in)')
+	.action(async (method: string, options: { command?: string }) => {
+		try {
+			const config = await loadScheduleConfig();
+			config.reminder = {
+				method: method as ScheduleConfig['reminder']['method'],
+				command: options.command ?? config.reminder.command,
+			};
+			if (config.reminder.method === 'command' && !config.reminder.command) {
+				throw new ValidationError('The command method needs --command', {
+					field: 'reminder.command',
+					suggestion: 'yxhyx schedule reminder command -c "my-notifier {type}"',
+				});
+			}
+			await saveScheduleConfig(validateSchedule(config));
+			console.log(success(`\nReminders will use ${config.reminder.method}\n`));
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+scheduleCommand
+	.command('remind <type>')
+	.description("Send a check-in's reminder now, unless it's done (run by cron and systemd)")
+	.option('-f, --force', 'Remind even if the check-in is done')
+	.action(async (typeArg: string, options: { force?: boolean }) => {
+		try {
+			const type = parseCheckinType(typeArg);
+			const method = await remindCheckin(type, { force: options.force });
+			console.log(
+				method ? `Sent ${type} reminder (${method})` : `Skipped: ${type} check-in already done`
+			);
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+scheduleCommand
+	.command('install')
+	.description('Generate crontab entries or systemd user timers for the schedule')
+	.option('--cron', 'Install into your crontab (the default)')
+	.option('--systemd', 'Write systemd user timers and enable them')
+	.option('-p, --print', 'Print what would be installed instead')
+	.action(async (options: { cron?: boolean; systemd?: boolean; print?: boolean }) => {
+		try {
+			const config = await loadScheduleConfig();
+			const timezone = await resolveTimezone(config);
+			const command = yxhyxCommand();
+
+			if (options.systemd) {
+				const units = generateSystemdUnits(config, timezone, command);
+				if (options.print) {
+					for (const [name, content] of Object.entries(units)) {
+						console.log(info(`# ${SYSTEMD_USER_DIR}/${name}`));
+						console.log(content);
+					}
+					return;
+				}
+
+				const timers = await installSystemdUnits(units);
+				console.log(success(`\nWrote systemd units to ${SYSTEMD_USER_DIR}`));
+				try {
+					await enableSystemdTimers(timers);
+					console.log(success(`Enabled ${timers.join(', ') || 'no timers'}\n`));
+				} catch {
+					console.log(warning('Could not run systemctl. Enable the timers with:'));
+					console.log('  systemctl --user daemon-reload');
+					console.log(`  systemctl --user enable --now ${timers.join(' ')}\n`);
+				}
+				return;
+			}
+
+			const block = generateCrontab(config, timezone, command);
+			if (options.print) {
+				console.log(block);
+				return;
+			}
+
+			await installCrontab(block);
+			console.log(success('\nInstalled check-in reminders into your crontab'));
+			console.log(
+				dim(
+					'Desktop notifications from cron need DISPLAY/DBUS_SESSION_BUS_ADDRESS; otherwise use `yxhyx schedule reminder command`\n'
+				)
+			);
+		} catch (err) {
+			fail(err);
+		}
+	});
+
+// ============================================
+// Daemon Command
+// ============================================
+
+const CHECKIN_RUNNERS: Record<CheckinType, () => Promise<unknown>> = {
+	morning: () => checkinRunner.runMorning(),
+	evening: () => checkinRunner.runEvening(),
+	weekly: () => checkinRunner.runWeekly(),
+};
+
+export const daemonCommand = new Command('daemon')
+	.description('Send check-in reminders on schedule until stopped')
+	.option('-r, --run', 'Start the check-in in this terminal when it is due')
+	.option('-i, --interval <seconds>', 'How often to check the schedule', '60')
+	.option('--once', 'Check once and exit')
+	.action(async (options: { run?: boolean; interval: string; once?: boolean }) => {
+		try {
+			const config = await loadScheduleConfig();
+			const timezone = await resolveTimezone(config);
+			const intervalMs = Math.max(10, Number.parseInt(options.interval, 10) || 60) * 1000;
+			const interactive = options.run && process.stdin.isTTY;
+
+			let busy = false;
+			const tick = async () => {
+				// A check-in in progress holds the terminal
+				if (busy) return;
+				busy = true;
+				try {
+					for (const { type, method } of await runScheduledReminders()) {
+						console.log(`${dim(new Date().toLocaleTimeString())} Reminded ${type} (${method})`);
+						if (interactive) await CHECKIN_RUNNERS[type]();
+					}
+				} catch (err) {
+					console.error(error(`Error: ${err instanceof Error ? err.message : err}`));
+				} finally {
+					busy = false;
+				}
+			};
+
+			if (options.once) {
+				await tick();
+				return;
+			}
+
+			console.log(bold('\n Yxhyx daemon'));
+			for (const type of CHECKIN_TYPES.filter((t) => config.checkins[t].enabled)) {
+				console.log(dim(`  ${type.padEnd(8)} ${describeCheckin(config, type)}`));
+			}
+			console.log(dim(`  Timezone: ${timezone} | Ctrl+C to stop\n`));
+
+			await tick();
+			const timer = setInterval(tick, intervalMs);
+			process.on('SIGINT', () => {
+				clearInterval(timer);
+				process.exit(0);
+			});
+			process.on('SIGTERM', () => {
+				clearInterval(timer);
+				process.exit(0);
+			});
+		} catch (err) {
+			fail(err);
+		}
+	});
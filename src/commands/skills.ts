@@ -196,11 +196,11 @@ skillsCommand
 				input,
 				verbose: options.verbose,
 				preferredModel: options.model,
+				onToken: (token) => process.stdout.write(token),
 			});
 
 			if (result.success) {
-				console.log(result.output);
-				console.log();
+				console.log('\n');
 				console.log('---');
 				console.log(
 					`Skill: ${result.skill} | Workflow: ${result.workflow} | Model: ${result.model} | Cost: $${result.cost.toFixed(4)} | Time: ${result.duration.toFixed(1)}s`
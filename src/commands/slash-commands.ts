@@ -0,0 +1,332 @@
+/**
+ * Slash Commands - In-session commands for interactive chat
+ *
+ * `/goal add`, `/progress` and `/lesson` run the same built-in tools the
+ * model calls (and `yxhyx identity` mirrors), so the profile can be updated
+ * without leaving the session. The rest inspect or steer the session itself.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { colors } from '../lib/cli/formatting';
+import { getActiveGoals } from '../lib/context-loader';
+import { ValidationError, YxhyxError } from '../lib/errors';
+import { chatSessions } from '../lib/memory/chat-sessions';
+import { buildEnhancedContext } from '../lib/memory/context-injection';
+import { getDailyCost, getMonthlyCost } from '../lib/memory/state-manager';
+import { workManager } from '../lib/memory/work-manager';
+import { type ChatMessage, modelRouter } from '../lib/model-router';
+import { skillExecutor, skillLoader } from '../lib/skills';
+import { toolRegistry } from '../lib/tools';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * The interactive session a slash command acts on
+ */
+export interface ChatSessionState {
+	/** Model forced with `/model` or `--model` (undefined routes automatically) */
+	model?: string;
+	/** The conversation sent to the model */
+	history: ChatMessage[];
+	/** Chat session (work) ID, null until the first message */
+	workId: string | null;
+	/** Messages not yet in the transcript (the system prompt of a new session) */
+	unsaved: ChatMessage[];
+	/** Cost of this session so far */
+	cost: number;
+}
+
+export interface SlashCommand {
+	name: string;
+	usage: string;
+	description: string;
+	run(args: string, session: ChatSessionState): Promise<void>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Run a built-in tool and print its result
+ */
+async function runTool(name: string, args: Record<string, unknown>): Promise<void> {
+	const output = await toolRegistry.execute({ id: `slash-${Date.now()}`, name, arguments: args });
+	console.log(`${colors.green}✓${colors.reset} ${output}`);
+}
+
+/**
+ * Find an active goal by ID or (unique) title fragment
+ *
+ * @throws ValidationError if no goal, or more than one, matches
+ */
+async function findGoal(query: string): Promise<{ id: string; title: string }> {
+	const goals = await getActiveGoals();
+	const exact = goals.find((g) => g.id === query);
+	if (exact) return exact;
+
+	const matches = goals.filter((g) => g.title.toLowerCase().includes(query.toLowerCase()));
+	if (matches.length === 1) return matches[0];
+
+	throw new ValidationError(
+		matches.length === 0 ? `Goal not found: ${query}` : `"${query}" matches several goals`,
+		{
+			field: 'goal',
+			suggestion: `Use a goal ID: ${(matches.length > 0 ? matches : goals).map((g) => g.id).join(', ')}`,
+		}
+	);
+}
+
+function usageError(command: SlashCommand): ValidationError {
+	return new ValidationError(`Usage: ${command.usage}`, { field: command.name });
+}
+
+// ============================================
+// Commands
+// ============================================
+
+const modelCommand: SlashCommand = {
+	name: 'model',
+	usage: '/model [name|auto]',
+	description: 'Show or switch the model for this session',
+	async run(args, session) {
+		const models = Object.keys((await modelRouter.loadConfig()).models);
+
+		if (!args) {
+			console.log(`Model: ${session.model ?? 'auto (routed per message)'}`);
+			console.log(`${colors.dim}Available: ${models.join(', ')}${colors.reset}`);
+			return;
+		}
+
+		if (args === 'auto') {
+			session.model = undefined;
+			console.log(`${colors.green}✓${colors.reset} Routing each message automatically`);
+			return;
+		}
+
+		if (!models.includes(args)) {
+			throw new ValidationError(`Unknown model: ${args}`, {
+				field: 'model',
+				suggestion: `Available: ${models.join(', ')}, or auto`,
+			});
+		}
+		session.model = args;
+		console.log(`${colors.green}✓${colors.reset} Using ${args} for this session`);
+	},
+};
+
+const costCommand: SlashCommand = {
+	name: 'cost',
+	usage: '/cost',
+	description: 'Show the cost of this session, today and this month',
+	async run(_args, session) {
+		const [today, month] = await Promise.all([getDailyCost(), getMonthlyCost()]);
+		console.log(
+			`Session: $${session.cost.toFixed(4)} | Today: $${today.toFixed(4)} | This month: $${month.toFixed(4)}`
+		);
+	},
+};
+
+const goalCommand: SlashCommand = {
+	name: 'goal',
+	usage: '/goal add <title> [--term short|medium|long]',
+	description: 'Add a goal (without arguments, list active goals)',
+	async run(args) {
+		if (!args) {
+			const goals = await getActiveGoals();
+			if (goals.length === 0) {
+				console.log(`${colors.dim}No active goals${colors.reset}`);
+			}
+			for (const goal of goals) {
+				console.log(
+					`  ${goal.title} ${colors.dim}(${goal.id}, ${Math.round(goal.progress * 100)}%)${colors.reset}`
+				);
+			}
+			return;
+		}
+
+		const match = args.match(/^add\s+(.+?)(?:\s+(?:--term|-t)\s+(short|medium|long))?$/);
+		if (!match) throw usageError(goalCommand);
+
+		await runTool('add_goal', { title: match[1].trim(), term: match[2] ?? 'short' });
+	},
+};
+
+const progressCommand: SlashCommand = {
+	name: 'progress',
+	usage: '/progress <goal> <percent>',
+	description: "Set a goal's progress (goal ID or part of its title)",
+	async run(args) {
+		const match = args.match(/^(.+?)\s+(\d{1,3})%?$/);
+		if (!match) throw usageError(progressCommand);
+
+		const goal = await findGoal(match[1].trim());
+		await runTool('update_goal_progress', {
+			goal_id: goal.id,
+			percent: Number.parseInt(match[2], 10),
+		});
+	},
+};
+
+const lessonCommand: SlashCommand = {
+	name: 'lesson',
+	usage: '/lesson <lesson>',
+	description: 'Record a lesson you learned',
+	async run(args) {
+		if (!args) throw usageError(lessonCommand);
+		await runTool('add_lesson', { lesson: args, context: 'Noted during a chat session' });
+	},
+};
+
+const skillCommand: SlashCommand = {
+	name: 'skill',
+	usage: '/skill <name> [input]',
+	description: 'Run a skill (without arguments, list skills)',
+	async run(args, session) {
+		if (!args) {
+			for (const skill of await skillLoader.listSkills()) {
+				console.log(`  ${skill.name} ${colors.dim}${skill.description}${colors.reset}`);
+			}
+			return;
+		}
+
+		const [name, ...rest] = args.split(/\s+/);
+		const lastPrompt = session.history.filter((m) => m.role === 'user').pop()?.content;
+		const input = rest.join(' ') || lastPrompt || `Run ${name} skill`;
+
+		const result = await skillExecutor.executeSkill(name, undefined, {
+			input,
+			preferredModel: session.model,
+			onToken: (token) => process.stdout.write(token),
+		});
+		if (!result.success) {
+			throw new ValidationError(result.error ?? `Skill '${name}' failed`, { field: 'skill' });
+		}
+
+		session.cost += result.cost;
+		console.log(
+			`\n${colors.dim}[${result.skill}/${result.workflow} | ${result.model} | $${result.cost.toFixed(4)}]${colors.reset}`
+		);
+	},
+};
+
+const saveCommand: SlashCommand = {
+	name: 'save',
+	usage: '/save [file]',
+	description: 'Export the transcript (.md, or .json) - sessions are saved automatically',
+	async run(args, session) {
+		if (!session.workId) {
+			console.log(`${colors.dim}Nothing to save yet${colors.reset}`);
+			return;
+		}
+
+		const file = args || `${session.workId}.md`;
+		const format = file.endsWith('.json') ? 'json' : 'markdown';
+		await writeFile(file, await chatSessions.exportSession(session.workId, format));
+		console.log(`${colors.green}✓${colors.reset} Exported transcript to ${file}`);
+	},
+};
+
+const clearCommand: SlashCommand = {
+	name: 'clear',
+	usage: '/clear',
+	description: 'End this session and start a fresh one',
+	async run(_args, session) {
+		if (session.workId) {
+			await workManager.completeWork(session.workId);
+		}
+		session.history.length = 0;
+		session.unsaved.length = 0;
+		session.workId = null;
+		session.cost = 0;
+		console.log(`${colors.green}✓${colors.reset} Started a new session`);
+	},
+};
+
+const contextCommand: SlashCommand = {
+	name: 'context',
+	usage: '/context [prompt]',
+	description: 'Show the context injected into this session (or for a prompt)',
+	async run(args, session) {
+		const system = session.history.find((m) => m.role === 'system');
+		const context = system && !args ? system.content : await buildEnhancedContext(args, 'chat');
+		console.log(`${colors.dim}${context}${colors.reset}`);
+	},
+};
+
+const helpCommand: SlashCommand = {
+	name: 'help',
+	usage: '/help',
+	description: 'Show these commands',
+	async run() {
+		console.log(`${colors.bold}Commands${colors.reset}`);
+		for (const command of SLASH_COMMANDS) {
+			console.log(
+				`  ${command.usage.padEnd(44)} ${colors.dim}${command.description}${colors.reset}`
+			);
+		}
+		console.log(
+			`  ${'<1-10> [comment]'.padEnd(44)} ${colors.dim}Rate the last response${colors.reset}`
+		);
+		console.log(`  ${'exit'.padEnd(44)} ${colors.dim}Leave the session${colors.reset}`);
+	},
+};
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+	modelCommand,
+	costCommand,
+	goalCommand,
+	progressCommand,
+	lessonCommand,
+	skillCommand,
+	saveCommand,
+	clearCommand,
+	contextCommand,
+	helpCommand,
+];
+
+// ============================================
+// Dispatch
+// ============================================
+
+/**
+ * Split `/name args` into its parts
+ *
+ * @returns null when the input isn't a slash command
+ */
+export function parseSlashCommand(input: string): { name: string; args: string } | null {
+	const match = input.trim().match(/^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i);
+	if (!match) return null;
+	return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+/**
+ * Run a slash command, printing any error instead of throwing
+ *
+ * @returns false when the input isn't a slash command
+ */
+export async function runSlashCommand(input: string, session: ChatSessionState): Promise<boolean> {
+	const parsed = parseSlashCommand(input);
+	if (!parsed) return false;
+
+	const command = SLASH_COMMANDS.find((c) => c.name === parsed.name);
+	if (!command) {
+		console.log(`${colors.red}Unknown command: /${parsed.name}${colors.reset} (type /help)\n`);
+		return true;
+	}
+
+	try {
+		await command.run(parsed.args, session);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+			if (error instanceof YxhyxError && error.suggestion) {
+				console.log(`${colors.dim}${error.suggestion}${colors.reset}`);
+			}
+		}
+	}
+	console.log('');
+	return true;
+}
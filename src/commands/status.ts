@@ -5,13 +5,20 @@
  * - Check-in status for today
  * - Active goals and progress
  * - Active projects
+ * - Habits with streaks
  * - Current work session (if any)
  * - Monthly cost summary
  */
 
 import { Command } from 'commander';
 import { colors, progressBar } from '../lib/cli/formatting';
-import { getActiveGoals, getActiveProjects, loadIdentity } from '../lib/context-loader';
+import {
+	getActiveGoals,
+	getActiveHabits,
+	getActiveProjects,
+	loadIdentity,
+} from '../lib/context-loader';
+import { formatHabit } from '../lib/habits';
 import { getCheckinHistory, getCheckinStreak, getMonthlyCost } from '../lib/memory/state-manager';
 import { workManager } from '../lib/memory/work-manager';
 
@@ -27,6 +34,7 @@ export const statusCommand = new Command('status')
 			const identity = await loadIdentity();
 			const activeGoals = await getActiveGoals();
 			const activeProjects = await getActiveProjects();
+			const activeHabits = await getActiveHabits();
 			const currentWork = await workManager.getCurrentWork();
 			const monthlyCost = await getMonthlyCost();
 			const recentCheckins = await getCheckinHistory(7);
@@ -63,7 +71,11 @@ ${colors.bold}${'='.repeat(45)}${colors.reset}
 			if (activeGoals.length > 0) {
 				const goalsToShow = options.verbose ? activeGoals : activeGoals.slice(0, 5);
 				for (const goal of goalsToShow) {
-					console.log(`  ${progressBar(goal.progress, 15)} ${goal.title}`);
+					const risk =
+						goal.risk.status !== 'on_track'
+							? ` ${colors.yellow}⚠ ${goal.risk.reason}${colors.reset}`
+							: '';
+					console.log(`  ${progressBar(goal.progress, 15)} ${goal.title}${risk}`);
 				}
 				if (!options.verbose && activeGoals.length > 5) {
 					console.log(`  ${colors.dim}... and ${activeGoals.length - 5} more${colors.reset}`);
@@ -82,6 +94,15 @@ ${colors.bold}${'='.repeat(45)}${colors.reset}
 				console.log(`  ${colors.dim}No active projects${colors.reset}`);
 			}
 
+			// Habits
+			if (activeHabits.length > 0) {
+				console.log(`\n${colors.cyan}HABITS (${activeHabits.length})${colors.reset}`);
+				for (const habit of activeHabits) {
+					const met = habit.stats.current >= habit.frequency.times;
+					console.log(`  ${met ? `${colors.green}✓${colors.reset}` : '-'} ${formatHabit(habit)}`);
+				}
+			}
+
 			// Current work
 			if (currentWork) {
 				console.log(`\n${colors.cyan}CURRENT WORK${colors.reset}`);
@@ -2,7 +2,7 @@
  * Verify Command - Verify Yxhyx installation and configuration
  *
  * Checks:
- * 1. Identity file exists and is valid
+ * 1. Identity file exists, is valid and has no pending migrations
  * 2. API keys are configured
  * 3. Memory system is ready
  * 4. Skills are loaded
@@ -12,10 +12,17 @@
 import { existsSync } from 'node:fs';
 import { Command } from 'commander';
 import { colors } from '../lib/cli/formatting';
-import { getIdentityPath, isInitialized, loadIdentity } from '../lib/context-loader';
+import {
+	getIdentityPath,
+	getMigrationStatus,
+	isInitialized,
+	loadIdentity,
+} from '../lib/context-loader';
+import { compareVersions } from '../lib/identity-migrations';
 import { learningManager } from '../lib/memory/learning-manager';
 import { stateManager } from '../lib/memory/state-manager';
 import { modelRouter } from '../lib/model-router';
+import { IDENTITY_VERSION } from '../lib/schemas/identity';
 import { skillLoader } from '../lib/skills/loader';
 
 // ============================================
@@ -48,6 +55,7 @@ export const verifyCommand = new Command('verify')
 
 		// 2. Check identity
 		results.push(await checkIdentity(options.verbose));
+		results.push(await checkIdentitySchema());
 
 		// 3. Check API keys
 		results.push(await checkApiKeys());
@@ -166,6 +174,43 @@ async function checkIdentity(verbose?: boolean): Promise<VerificationResult> {
 	}
 }
 
+async function checkIdentitySchema(): Promise<VerificationResult> {
+	if (!existsSync(getIdentityPath())) {
+		return { name: 'Identity Schema', status: 'warn', message: 'No identity file to check' };
+	}
+
+	try {
+		const { version, pending } = await getMigrationStatus();
+
+		if (compareVersions(version, IDENTITY_VERSION) > 0) {
+			return {
+				name: 'Identity Schema',
+				status: 'fail',
+				message: `v${version} is newer than this Yxhyx supports (v${IDENTITY_VERSION})`,
+				details: 'Update Yxhyx before making changes',
+			};
+		}
+
+		if (pending.length === 0) {
+			return { name: 'Identity Schema', status: 'pass', message: `Up to date (v${version})` };
+		}
+
+		return {
+			name: 'Identity Schema',
+			status: 'warn',
+			message: `${pending.length} pending migration(s) from v${version}`,
+			details: `${pending.map((m) => `v${m.to}: ${m.description}`).join('; ')}. Run: yxhyx identity migrate --dry-run`,
+		};
+	} catch (error) {
+		return {
+			name: 'Identity Schema',
+			status: 'fail',
+			message: 'Could not read schema version',
+			details: error instanceof Error ? error.message : 'Unknown error',
+		};
+	}
+}
+
 async function checkApiKeys(): Promise<VerificationResult> {
 	const providers: string[] = [];
 
@@ -178,13 +223,17 @@ async function checkApiKeys(): Promise<VerificationResult> {
 	if (process.env.ANTHROPIC_API_KEY) {
 		providers.push('Anthropic');
 	}
+	if (modelRouter.getAvailableProviders().includes('openai-compatible')) {
+		providers.push('OpenAI-compatible');
+	}
 
 	if (providers.length === 0) {
 		return {
 			name: 'API Keys',
 			status: 'fail',
 			message: 'No API keys configured',
-			details: 'Set KIMI_API_KEY, OPENROUTER_API_KEY, or ANTHROPIC_API_KEY',
+			details:
+				'Set KIMI_API_KEY, OPENROUTER_API_KEY, or ANTHROPIC_API_KEY, or add an openai-compatible model to models.yaml',
 		};
 	}
 
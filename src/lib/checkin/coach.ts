@@ -0,0 +1,197 @@
+/**
+ * Check-In Coach - Adaptive follow-up questions and a closing reflection
+ *
+ * In adaptive mode (`yxhyx checkin --adaptive`) the model may ask one
+ * follow-up after each answer, grounded in active goals, recent check-ins
+ * and current challenges, and closes with a short coaching reflection that
+ * is saved with the check-in. Without a provider, check-ins run as usual.
+ */
+
+import { getActiveChallenges, getActiveGoals } from '../context-loader';
+import { formatGoalBreakdown } from '../goals';
+import {
+	type CheckinEntry,
+	type CheckinType,
+	getCheckinHistory,
+	isToday,
+	isYesterday,
+} from '../memory/state-manager';
+import { modelRouter } from '../model-router';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A question asked during a check-in and its answer
+ */
+export interface CheckinExchange {
+	question: string;
+	answer: string;
+	/** Asked by the coach rather than the template */
+	followUp?: boolean;
+}
+
+/** How far back recent check-ins are quoted to the coach */
+const RECENT_DAYS = 3;
+
+/** Longest answer quoted from a past check-in */
+const MAX_QUOTE_LENGTH = 200;
+
+/** What the model answers when an answer needs no follow-up */
+const NO_FOLLOW_UP = 'NONE';
+
+// ============================================
+// Context
+// ============================================
+
+function describeDay(date: Date): string {
+	if (isToday(date)) return 'today';
+	if (isYesterday(date)) return 'yesterday';
+	return date.toISOString().split('T')[0];
+}
+
+function quote(text: string): string {
+	const line = text.replace(/\s+/g, ' ').trim();
+	return line.length > MAX_QUOTE_LENGTH ? `${line.slice(0, MAX_QUOTE_LENGTH - 3)}...` : line;
+}
+
+function describeCheckin(entry: CheckinEntry): string[] {
+	const lines = [`${entry.type} check-in (${describeDay(new Date(entry.timestamp))}):`];
+	if (entry.priorities?.length) lines.push(`  Priorities: ${entry.priorities.join('; ')}`);
+	if (entry.priorityStatus?.length) {
+		const outcomes = entry.priorityStatus.map((o) => `${o.priority} (${o.status})`);
+		lines.push(`  Priority outcomes: ${outcomes.join('; ')}`);
+	}
+	if (entry.accomplishments?.length) {
+		lines.push(`  Accomplished: ${entry.accomplishments.join('; ')}`);
+	}
+	for (const [question, answer] of Object.entries(entry.responses ?? {})) {
+		if (answer) lines.push(`  ${question} ${quote(answer)}`);
+	}
+	return lines;
+}
+
+/**
+ * What the coach knows going in: goals (with deadline risk), the last few
+ * days of check-ins and current challenges
+ */
+export async function buildCoachingContext(now = new Date()): Promise<string> {
+	const [goals, challenges, history] = await Promise.all([
+		getActiveGoals(),
+		getActiveChallenges(),
+		getCheckinHistory(20),
+	]);
+	const since = now.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+	const recent = history.filter((entry) => new Date(entry.timestamp).getTime() >= since);
+
+	const parts = ['Active goals:'];
+	if (goals.length === 0) parts.push('- None');
+	for (const goal of goals) parts.push(...formatGoalBreakdown(goal, goals));
+
+	parts.push('', 'Recent check-ins:');
+	if (recent.length === 0) parts.push('- None');
+	for (const entry of recent) parts.push(...describeCheckin(entry));
+
+	parts.push('', 'Current challenges:');
+	if (challenges.length === 0) parts.push('- None');
+	for (const challenge of challenges) {
+		parts.push(`- ${challenge.title}${challenge.description ? `: ${challenge.description}` : ''}`);
+	}
+
+	return parts.join('\n');
+}
+
+function formatExchanges(exchanges: CheckinExchange[]): string {
+	return exchanges.map((e) => `Q: ${e.question}\nA: ${e.answer || '(no answer)'}`).join('\n\n');
+}
+
+// ============================================
+// Coaching
+// ============================================
+
+/**
+ * One follow-up question on the latest answer, or null if it needs none
+ * (or no model is available)
+ */
+export async function generateFollowUp(
+	type: CheckinType,
+	context: string,
+	exchanges: CheckinExchange[]
+): Promise<string | null> {
+	if (!modelRouter.hasAvailableProvider()) return null;
+
+	try {
+		const response = await modelRouter.complete({
+			model: 'cheapest',
+			messages: [
+				{
+					role: 'system',
+					content: `You are an accountability coach running a ${type} check-in. You know:
+
+${context}`,
+				},
+				{
+					role: 'user',
+					content: `The check-in so far:
+
+${formatExchanges(exchanges)}
+
+If the last answer is vague, repeats a blocker or missed priority from a recent check-in, or drifts from an at-risk goal, ask ONE short, specific follow-up question about it (e.g. "You said the API was blocked yesterday too - what's in the way?"). Otherwise reply with ${NO_FOLLOW_UP}.
+
+Reply with the question only, or ${NO_FOLLOW_UP}.`,
+				},
+			],
+			maxTokens: 100,
+		});
+
+		const question = response.content
+			.trim()
+			.split('\n')[0]
+			.replace(/^["']|["']$/g, '')
+			.trim();
+		if (!question || question.toUpperCase().startsWith(NO_FOLLOW_UP)) return null;
+		return question;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * A short coaching reflection on the whole check-in, or null if no model
+ * is available
+ */
+export async function generateReflection(
+	type: CheckinType,
+	context: string,
+	exchanges: CheckinExchange[]
+): Promise<string | null> {
+	if (!modelRouter.hasAvailableProvider()) return null;
+
+	try {
+		const response = await modelRouter.complete({
+			model: 'cheapest',
+			messages: [
+				{
+					role: 'system',
+					content: `You are an accountability coach closing a ${type} check-in. You know:
+
+${context}`,
+				},
+				{
+					role: 'user',
+					content: `The check-in:
+
+${formatExchanges(exchanges)}
+
+Write a coaching reflection in 2-4 sentences: name one pattern or risk you notice (connect it to goals, recent check-ins or challenges where you can), and suggest one concrete next step. Be direct and warm. No headings or lists.`,
+				},
+			],
+			maxTokens: 250,
+		});
+
+		return response.content.trim() || null;
+	} catch {
+		return null;
+	}
+}
@@ -9,6 +9,46 @@ export {
 	type CheckinPrompt,
 } from './templates';
 
-export { checkinRunner, CheckinRunner, type CheckinResult } from './runner';
+export {
+	checkinRunner,
+	CheckinRunner,
+	type CheckinOptions,
+	type CheckinResult,
+} from './runner';
+
+export {
+	buildCoachingContext,
+	generateFollowUp,
+	generateReflection,
+	type CheckinExchange,
+} from './coach';
+
+export {
+	askPriorityStatus,
+	findCarryOver,
+	formatCompletion,
+	missedPriorities,
+	priorityCompletion,
+	todaysPriorities,
+	type CarryOver,
+	type MissedPriority,
+	type PriorityCompletion,
+} from './priorities';
+
+export {
+	compileReview,
+	renderReview,
+	saveReview,
+	listReviews,
+	loadReview,
+	reviewRange,
+	REVIEWS_DIR,
+	REVIEW_PERIODS,
+	type GoalMovement,
+	type ReviewData,
+	type ReviewPeriod,
+	type ReviewRange,
+	type SavedReview,
+} from './reviews';
 
 export { quickMorning, quickEvening, superQuickCheckin } from './quick';
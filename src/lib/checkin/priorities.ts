@@ -0,0 +1,184 @@
+/**
+ * Priorities - Reconcile morning priorities in the evening check-in
+ *
+ * The evening check-in asks how each of the morning's priorities went.
+ * Partly done ones, and all of them if the evening never reviewed them,
+ * carry over into the next morning's context. Completion rates show up in
+ * `yxhyx checkin streak` and the weekly review.
+ */
+
+import inquirer from 'inquirer';
+import type { CheckinEntry, PriorityOutcome, PriorityStatus } from '../memory/state-manager';
+import { isToday } from '../memory/state-manager';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CarriedPriority {
+	priority: string;
+	/** Partly done, or never reviewed in the evening */
+	reason: 'partial' | 'unreviewed';
+}
+
+export interface CarryOver {
+	/** When the priorities were set */
+	from: string;
+	items: CarriedPriority[];
+}
+
+export interface MissedPriority {
+	priority: string;
+	/** When the priority was set */
+	set: string;
+	status: 'partial' | 'dropped' | 'unreviewed';
+}
+
+export interface PriorityCompletion {
+	total: number;
+	done: number;
+	partial: number;
+	dropped: number;
+	/** Share of priorities done (0-1) */
+	rate: number;
+}
+
+const STATUS_CHOICES: Array<{ name: string; value: PriorityStatus }> = [
+	{ name: 'Done', value: 'done' },
+	{ name: 'Partly done (carry over to tomorrow)', value: 'partial' },
+	{ name: 'Dropped', value: 'dropped' },
+];
+
+export const PRIORITY_STATUS_ICONS: Record<PriorityStatus, string> = {
+	done: '✓',
+	partial: '~',
+	dropped: '✗',
+};
+
+// ============================================
+// Reconcile
+// ============================================
+
+/**
+ * Ask how each priority went
+ */
+export async function askPriorityStatus(priorities: string[]): Promise<PriorityOutcome[]> {
+	const outcomes: PriorityOutcome[] = [];
+	for (const priority of priorities) {
+		const { status } = await inquirer.prompt([
+			{
+				type: 'list',
+				name: 'status',
+				message: priority,
+				choices: STATUS_CHOICES,
+			},
+		]);
+		outcomes.push({ priority, status });
+	}
+	return outcomes;
+}
+
+function sameDay(a: Date, b: Date): boolean {
+	return a.toDateString() === b.toDateString();
+}
+
+/**
+ * The evening review of a morning's priorities, if there was one
+ */
+function reviewOf(history: CheckinEntry[], morning: CheckinEntry): PriorityOutcome[] | undefined {
+	return history
+		.filter(
+			(h) =>
+				h.type === 'evening' &&
+				h.priorityStatus?.length &&
+				sameDay(new Date(h.timestamp), new Date(morning.timestamp))
+		)
+		.pop()?.priorityStatus;
+}
+
+/**
+ * Priorities set on the last morning before today that weren't finished
+ *
+ * @returns null when there's nothing to carry over
+ */
+export function findCarryOver(history: CheckinEntry[], now = new Date()): CarryOver | null {
+	const morning = history
+		.filter((h) => h.type === 'morning' && h.priorities?.length)
+		.filter((h) => new Date(h.timestamp) < now && !sameDay(new Date(h.timestamp), now))
+		.pop();
+	if (!morning?.priorities) return null;
+
+	const review = reviewOf(history, morning);
+	const items: CarriedPriority[] = review
+		? review
+				.filter((o) => o.status === 'partial')
+				.map((o) => ({ priority: o.priority, reason: 'partial' }))
+		: morning.priorities.map((priority) => ({ priority, reason: 'unreviewed' }));
+
+	return items.length > 0 ? { from: morning.timestamp, items } : null;
+}
+
+/**
+ * Priorities that weren't done: partly done or dropped in the evening, or
+ * never reviewed (today's still can be, so they aren't counted)
+ */
+export function missedPriorities(history: CheckinEntry[], now = new Date()): MissedPriority[] {
+	const missed: MissedPriority[] = [];
+
+	for (const morning of history.filter((h) => h.type === 'morning' && h.priorities?.length)) {
+		const review = reviewOf(history, morning);
+		if (review) {
+			for (const { priority, status } of review) {
+				if (status !== 'done') missed.push({ priority, set: morning.timestamp, status });
+			}
+		} else if (!sameDay(new Date(morning.timestamp), now)) {
+			for (const priority of morning.priorities ?? []) {
+				missed.push({ priority, set: morning.timestamp, status: 'unreviewed' });
+			}
+		}
+	}
+
+	return missed;
+}
+
+/**
+ * The priorities set this morning, for the evening check-in to review
+ */
+export function todaysPriorities(history: CheckinEntry[]): string[] {
+	const morning = history
+		.filter((h) => h.type === 'morning' && isToday(new Date(h.timestamp)))
+		.pop();
+	return morning?.priorities ?? [];
+}
+
+// ============================================
+// Completion
+// ============================================
+
+/**
+ * Completion of reviewed priorities in check-ins since a date
+ */
+export function priorityCompletion(history: CheckinEntry[], since?: Date): PriorityCompletion {
+	const outcomes = history
+		.filter((h) => !since || new Date(h.timestamp) >= since)
+		.flatMap((h) => h.priorityStatus ?? []);
+
+	const count = (status: PriorityStatus) => outcomes.filter((o) => o.status === status).length;
+	const done = count('done');
+
+	return {
+		total: outcomes.length,
+		done,
+		partial: count('partial'),
+		dropped: count('dropped'),
+		rate: outcomes.length > 0 ? done / outcomes.length : 0,
+	};
+}
+
+/**
+ * Describe a completion rate (e.g. "60% done (6 of 10, 2 partly, 2 dropped)")
+ */
+export function formatCompletion(completion: PriorityCompletion): string {
+	if (completion.total === 0) return 'no priorities reviewed';
+	return `${Math.round(completion.rate * 100)}% done (${completion.done} of ${completion.total}, ${completion.partial} partly, ${completion.dropped} dropped)`;
+}
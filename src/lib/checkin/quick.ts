@@ -7,9 +7,11 @@
 
 import inquirer from 'inquirer';
 import { colors } from '../cli/formatting';
-import { getActiveGoals, loadIdentity } from '../context-loader';
-import { recordCheckin } from '../memory/state-manager';
+import { getActiveGoals, getActiveHabits, loadIdentity } from '../context-loader';
+import { formatHabit } from '../habits';
+import { getCheckinHistory, recordCheckin, recordHabit } from '../memory/state-manager';
 import { modelRouter } from '../model-router';
+import { askPriorityStatus, todaysPriorities } from './priorities';
 
 // ============================================
 // Quick Morning Check-In
@@ -80,13 +82,17 @@ Give one brief tip (1 sentence max) for today.`,
 /**
  * Quick evening check-in
  *
- * Single question: What went well today?
+ * Single question: What went well today? Marks off this morning's
+ * priorities first, if any were set, and logs habits done today
  */
 export async function quickEvening(): Promise<void> {
 	const identity = await loadIdentity();
 
 	console.log(`\n${colors.cyan}Quick Evening Check-in, ${identity.about.name}${colors.reset}\n`);
 
+	const priorities = todaysPriorities(await getCheckinHistory(7));
+	const priorityStatus = priorities.length > 0 ? await askPriorityStatus(priorities) : undefined;
+
 	const { wins } = await inquirer.prompt([
 		{
 			type: 'input',
@@ -100,9 +106,26 @@ export async function quickEvening(): Promise<void> {
 		.map((w: string) => w.trim())
 		.filter((w: string) => w.length > 0);
 
+	// Log habits that still have a target to meet this period
+	const habits = (await getActiveHabits()).filter((h) => h.stats.current < h.frequency.times);
+	if (habits.length > 0) {
+		const { done } = await inquirer.prompt([
+			{
+				type: 'checkbox',
+				name: 'done',
+				message: 'Habits done today:',
+				choices: habits.map((h) => ({ name: formatHabit(h), value: h.id })),
+			},
+		]);
+		for (const habitId of done as string[]) {
+			await recordHabit(habitId, { checkin: true });
+		}
+	}
+
 	// Record the check-in
 	await recordCheckin('evening', {
 		accomplishments,
+		priorityStatus,
 		quick: true,
 	});
 
@@ -0,0 +1,386 @@
+/**
+ * Reviews - Weekly and monthly reports compiled from what actually happened
+ *
+ * Unlike the weekly check-in, which asks questions, a review compiles the
+ * period from the record: check-ins (accomplishments, missed priorities,
+ * learnings), ratings, work sessions, goal progress from identity history
+ * and model spend. Reports are Markdown files in ~/.yxhyx/memory/reviews,
+ * one per period, and are shown on the dashboard.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { loadIdentity } from '../context-loader';
+import { ValidationError } from '../errors';
+import { type GoalTerm, summarizeGoals } from '../goals';
+import { listSnapshots, loadSnapshot } from '../identity-history';
+import { learningManager } from '../memory/learning-manager';
+import { getCheckinHistory, getUsageRecords, getWeekStart } from '../memory/state-manager';
+import { workManager } from '../memory/work-manager';
+import type { Identity } from '../schemas/identity';
+import {
+	type MissedPriority,
+	type PriorityCompletion,
+	formatCompletion,
+	missedPriorities,
+	priorityCompletion,
+} from './priorities';
+
+// ============================================
+// Paths
+// ============================================
+
+const YXHYX_DIR = `${process.env.HOME}/.yxhyx`;
+export const REVIEWS_DIR = `${YXHYX_DIR}/memory/reviews`;
+
+// ============================================
+// Types
+// ============================================
+
+export type ReviewPeriod = 'weekly' | 'monthly';
+
+export const REVIEW_PERIODS: ReviewPeriod[] = ['weekly', 'monthly'];
+
+export interface ReviewRange {
+	period: ReviewPeriod;
+	/** First day, local midnight */
+	start: Date;
+	/** Day after the last, local midnight */
+	end: Date;
+	/** Week start date (YYYY-MM-DD) or month (YYYY-MM) */
+	label: string;
+}
+
+export interface GoalMovement {
+	id: string;
+	title: string;
+	term: GoalTerm;
+	/** Progress at the start of the period (missing for goals added during it) */
+	from?: number;
+	to: number;
+}
+
+export interface ReviewData {
+	range: ReviewRange;
+	generated: string;
+	checkins: { morning: number; evening: number; weekly: number };
+	accomplishments: string[];
+	missed: MissedPriority[];
+	completion: PriorityCompletion;
+	/** Null when identity history doesn't reach back to the period */
+	goals: GoalMovement[] | null;
+	learnings: string[];
+	ratings: { total: number; average: number };
+	work: Array<{ id: string; title: string; created: string }>;
+	spend: { total: number; calls: number; byModel: Record<string, number> };
+}
+
+export interface SavedReview {
+	/** File name without .md (e.g. weekly-2026-03-09) */
+	name: string;
+	period: ReviewPeriod;
+	label: string;
+	path: string;
+}
+
+/** Most learnings listed in a report */
+const TOP_LEARNINGS = 5;
+
+/** How many check-ins are read to cover a month */
+const HISTORY_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Periods
+// ============================================
+
+function formatDay(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * The week (Monday to Sunday) or calendar month containing `now`
+ *
+ * @param offset - Periods back from the current one (1 = last week/month)
+ */
+export function reviewRange(period: ReviewPeriod, now = new Date(), offset = 0): ReviewRange {
+	if (period === 'monthly') {
+		const start = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+		const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+		return { period, start, end, label: formatDay(start).slice(0, 7) };
+	}
+
+	const monday = getWeekStart(now);
+	const start = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() - 7 * offset);
+	const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+	return { period, start, end, label: formatDay(start) };
+}
+
+function inRange(timestamp: string, range: ReviewRange): boolean {
+	const time = new Date(timestamp).getTime();
+	return time >= range.start.getTime() && time < range.end.getTime();
+}
+
+// ============================================
+// Compile
+// ============================================
+
+/**
+ * Goal progress at the start of the period against its end (or now)
+ *
+ * The baseline is the last identity version saved before the period, or
+ * the first one saved during it.
+ */
+async function goalMovement(range: ReviewRange, now: Date): Promise<GoalMovement[] | null> {
+	const snapshots = await listSnapshots();
+	const before =
+		snapshots.filter((s) => new Date(s.timestamp) < range.start).pop() ??
+		snapshots.find((s) => inRange(s.timestamp, range));
+	if (!before) return null;
+
+	let baseline: Identity;
+	let current: Identity;
+	try {
+		baseline = await loadSnapshot(before.version);
+		const after = snapshots.filter((s) => new Date(s.timestamp) < range.end).pop();
+		current = range.end <= now && after ? await loadSnapshot(after.version) : await loadIdentity();
+	} catch {
+		// Pruned versions leave nothing to compare against
+		return null;
+	}
+
+	const previous = new Map(summarizeGoals(baseline.goals).map((g) => [g.id, g.progress]));
+	return summarizeGoals(current.goals)
+		.map((goal) => ({
+			id: goal.id,
+			title: goal.title,
+			term: goal.term,
+			from: previous.get(goal.id),
+			to: goal.progress,
+		}))
+		.filter((g) => g.from !== g.to)
+		.sort((a, b) => b.to - (b.from ?? 0) - (a.to - (a.from ?? 0)));
+}
+
+/**
+ * Check-in learnings first, then pinned and recent captured lessons
+ */
+async function topLearnings(checkinLearnings: string[], range: ReviewRange): Promise<string[]> {
+	const captured = (await learningManager.getAllLearnings())
+		.filter((l) => l.status !== 'retired' && inRange(l.timestamp, range))
+		.sort(
+			(a, b) =>
+				Number(b.status === 'pinned') - Number(a.status === 'pinned') ||
+				b.timestamp.localeCompare(a.timestamp)
+		)
+		.map((l) => l.lesson);
+
+	return [...new Set([...checkinLearnings, ...captured])].slice(0, TOP_LEARNINGS);
+}
+
+/**
+ * Compile what happened in a week or month
+ */
+export async function compileReview(
+	period: ReviewPeriod,
+	options: { now?: Date; offset?: number } = {}
+): Promise<ReviewData> {
+	const now = options.now ?? new Date();
+	const range = reviewRange(period, now, options.offset);
+	const daysBack = Math.ceil((now.getTime() - range.start.getTime()) / DAY_MS);
+
+	const [history, ratings, work, usage] = await Promise.all([
+		getCheckinHistory(HISTORY_LIMIT),
+		learningManager.getRecentRatings(daysBack),
+		workManager.getRecentWork(HISTORY_LIMIT),
+		getUsageRecords(),
+	]);
+
+	const checkins = history.filter((h) => inRange(h.timestamp, range));
+	const count = (type: string) => checkins.filter((h) => h.type === type).length;
+	const periodRatings = ratings.filter((r) => inRange(r.timestamp, range));
+	const spent = usage.filter((r) => inRange(r.timestamp, range));
+
+	const byModel: Record<string, number> = {};
+	for (const record of spent) {
+		byModel[record.model] = (byModel[record.model] || 0) + record.cost_usd;
+	}
+
+	return {
+		range,
+		generated: now.toISOString(),
+		checkins: { morning: count('morning'), evening: count('evening'), weekly: count('weekly') },
+		accomplishments: checkins
+			.filter((h) => h.type !== 'morning')
+			.flatMap((h) => h.accomplishments ?? []),
+		missed: missedPriorities(checkins, now),
+		completion: priorityCompletion(checkins),
+		goals: await goalMovement(range, now),
+		learnings: await topLearnings(
+			checkins.flatMap((h) => h.learnings ?? []),
+			range
+		),
+		ratings: {
+			total: periodRatings.length,
+			average:
+				periodRatings.length > 0
+					? periodRatings.reduce((sum, r) => sum + r.rating, 0) / periodRatings.length
+					: 0,
+		},
+		work: work.filter((w) => inRange(w.created, range)),
+		spend: {
+			total: spent.reduce((sum, r) => sum + r.cost_usd, 0),
+			calls: spent.length,
+			byModel,
+		},
+	};
+}
+
+// ============================================
+// Render
+// ============================================
+
+function percent(value: number): string {
+	return `${Math.round(value * 100)}%`;
+}
+
+function describeMissed(item: MissedPriority): string {
+	const status = { partial: 'partly done', dropped: 'dropped', unreviewed: 'not reviewed' }[
+		item.status
+	];
+	return `- ${item.priority} (${status}, ${formatDay(new Date(item.set))})`;
+}
+
+function describeMovement(goal: GoalMovement): string {
+	if (goal.from === undefined) return `- ${goal.title} [${goal.term}]: new, ${percent(goal.to)}`;
+	const delta = Math.round((goal.to - goal.from) * 100);
+	const done = goal.to >= 1 && goal.from < 1 ? ' - completed' : '';
+	return `- ${goal.title} [${goal.term}]: ${percent(goal.from)} → ${percent(goal.to)} (${delta > 0 ? '+' : ''}${delta})${done}`;
+}
+
+function section(title: string, lines: string[], empty: string): string[] {
+	return ['', `## ${title}`, '', ...(lines.length > 0 ? lines : [`_${empty}_`])];
+}
+
+/**
+ * The report as Markdown
+ */
+export function renderReview(data: ReviewData): string {
+	const { range } = data;
+	const last = new Date(range.end.getTime() - DAY_MS);
+	const title =
+		range.period === 'weekly'
+			? `# Weekly Review: ${formatDay(range.start)} to ${formatDay(last)}`
+			: `# Monthly Review: ${range.label}`;
+
+	const rating =
+		data.ratings.total > 0
+			? `${data.ratings.average.toFixed(1)} average over ${data.ratings.total}`
+			: 'none';
+
+	const lines = [
+		title,
+		'',
+		`_Generated ${data.generated.replace('T', ' ').slice(0, 16)} UTC_`,
+		'',
+		'## Summary',
+		'',
+		`- Check-ins: ${data.checkins.morning} morning, ${data.checkins.evening} evening, ${data.checkins.weekly} weekly`,
+		`- Priorities: ${formatCompletion(data.completion)}`,
+		`- Ratings: ${rating}`,
+		`- Work sessions: ${data.work.length}`,
+		`- Spend: $${data.spend.total.toFixed(4)} over ${data.spend.calls} call${data.spend.calls === 1 ? '' : 's'}`,
+		...section(
+			'Accomplishments',
+			data.accomplishments.map((a) => `- ${a}`),
+			'None recorded'
+		),
+		...section('Missed Priorities', data.missed.map(describeMissed), 'None'),
+		...section(
+			'Goal Movement',
+			data.goals?.map(describeMovement) ?? [],
+			data.goals ? 'No goal progress changed' : 'No identity history for this period'
+		),
+		...section(
+			'Top Learnings',
+			data.learnings.map((l) => `- ${l}`),
+			'None captured'
+		),
+		...section(
+			'Work Sessions',
+			data.work.map((w) => `- ${w.title} (${formatDay(new Date(w.created))})`),
+			'None'
+		),
+		...section(
+			'Spend',
+			Object.entries(data.spend.byModel)
+				.sort(([, a], [, b]) => b - a)
+				.map(([model, cost]) => `- ${model}: $${cost.toFixed(4)}`),
+			'No model calls'
+		),
+	];
+
+	return `${lines.join('\n')}\n`;
+}
+
+// ============================================
+// Storage
+// ============================================
+
+function reviewName(range: ReviewRange): string {
+	return `${range.period}-${range.label}`;
+}
+
+/**
+ * Write a report, replacing any earlier one for the same period
+ *
+ * @returns The file written
+ */
+export async function saveReview(data: ReviewData): Promise<string> {
+	await mkdir(REVIEWS_DIR, { recursive: true });
+	const path = `${REVIEWS_DIR}/${reviewName(data.range)}.md`;
+	await writeFile(path, renderReview(data));
+	return path;
+}
+
+/**
+ * Saved reports, newest period first
+ */
+export async function listReviews(): Promise<SavedReview[]> {
+	if (!existsSync(REVIEWS_DIR)) return [];
+
+	const reviews: SavedReview[] = [];
+	for (const file of await readdir(REVIEWS_DIR)) {
+		const match = file.match(/^(weekly|monthly)-([\d-]+)\.md$/);
+		if (!match) continue;
+		reviews.push({
+			name: file.replace(/\.md$/, ''),
+			period: match[1] as ReviewPeriod,
+			label: match[2],
+			path: `${REVIEWS_DIR}/${file}`,
+		});
+	}
+
+	return reviews.sort((a, b) => b.label.localeCompare(a.label) || a.period.localeCompare(b.period));
+}
+
+/**
+ * Read a saved report
+ *
+ * @throws ValidationError if there is no such report
+ */
+export async function loadReview(name: string): Promise<string> {
+	// Only names of saved reports, so the name can't reach outside REVIEWS_DIR
+	const wanted = name.replace(/\.md$/, '');
+	const review = (await listReviews()).find((r) => r.name === wanted);
+	if (!review) {
+		throw new ValidationError(`Review not found: ${name}`, {
+			field: 'name',
+			suggestion: 'Run `yxhyx review list` to see saved reviews',
+		});
+	}
+	return readFile(review.path, 'utf-8');
+}
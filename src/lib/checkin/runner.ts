@@ -12,8 +12,23 @@
 import inquirer from 'inquirer';
 import { colors } from '../cli/formatting';
 import { updateIdentity } from '../context-loader';
-import { type CheckinEntry, type CheckinType, recordCheckin } from '../memory/state-manager';
+import { ValidationError } from '../errors';
+import { isDerived } from '../goals';
+import { setGoalProgress } from '../identity-editor';
+import {
+	type CheckinEntry,
+	type CheckinType,
+	type PriorityOutcome,
+	recordCheckin,
+} from '../memory/state-manager';
 import { modelRouter } from '../model-router';
+import {
+	type CheckinExchange,
+	buildCoachingContext,
+	generateFollowUp,
+	generateReflection,
+} from './coach';
+import { PRIORITY_STATUS_ICONS, askPriorityStatus } from './priorities';
 import {
 	type CheckinPrompt,
 	buildEveningPrompt,
@@ -33,6 +48,15 @@ export interface CheckinResult {
 	accomplishments?: string[];
 	learnings?: string[];
 	goalUpdates?: Array<{ goalId: string; progress: number }>;
+	/** Evening: how each of the morning's priorities went */
+	priorityStatus?: PriorityOutcome[];
+	/** Coaching reflection (adaptive mode) */
+	reflection?: string;
+}
+
+export interface CheckinOptions {
+	/** Ask AI follow-up questions and close with a coaching reflection */
+	adaptive?: boolean;
 }
 
 // ============================================
@@ -43,48 +67,76 @@ export class CheckinRunner {
 	/**
 	 * Run morning check-in
 	 */
-	async runMorning(): Promise<CheckinResult> {
+	async runMorning(options: CheckinOptions = {}): Promise<CheckinResult> {
 		const prompt = await buildMorningPrompt();
-		return this.runInteractive(prompt);
+		return this.runInteractive(prompt, options);
 	}
 
 	/**
 	 * Run evening check-in
 	 */
-	async runEvening(): Promise<CheckinResult> {
+	async runEvening(options: CheckinOptions = {}): Promise<CheckinResult> {
 		const prompt = await buildEveningPrompt();
-		return this.runInteractive(prompt);
+		return this.runInteractive(prompt, options);
 	}
 
 	/**
 	 * Run weekly check-in
 	 */
-	async runWeekly(): Promise<CheckinResult> {
+	async runWeekly(options: CheckinOptions = {}): Promise<CheckinResult> {
 		const prompt = await buildWeeklyPrompt();
-		return this.runInteractive(prompt);
+		return this.runInteractive(prompt, options);
 	}
 
 	/**
 	 * Run an interactive check-in session
 	 */
-	private async runInteractive(prompt: CheckinPrompt): Promise<CheckinResult> {
+	private async runInteractive(
+		prompt: CheckinPrompt,
+		options: CheckinOptions = {}
+	): Promise<CheckinResult> {
 		// Display header
 		console.log(`\n${colors.bold}${prompt.greeting}${colors.reset}\n`);
 		console.log(prompt.context);
 		console.log(`\n${'='.repeat(50)}\n`);
 
+		const adaptive = options.adaptive && modelRouter.hasAvailableProvider();
+		if (options.adaptive && !adaptive) {
+			console.log(
+				`${colors.dim}Adaptive mode needs an API key - asking the standard questions${colors.reset}\n`
+			);
+		}
+		const coachingContext = adaptive ? await buildCoachingContext() : '';
+
 		const responses: Record<string, string> = {};
+		const exchanges: CheckinExchange[] = [];
+
+		// Reconcile the morning's priorities before the open questions
+		let priorityStatus: PriorityOutcome[] | undefined;
+		if (prompt.reconcile?.length) {
+			console.log(`${colors.bold}How did this morning's priorities go?${colors.reset}`);
+			priorityStatus = await askPriorityStatus(prompt.reconcile);
+			for (const { priority, status } of priorityStatus) {
+				exchanges.push({ question: `Priority: ${priority}`, answer: status });
+			}
+			console.log('');
+		}
 
 		// Ask each question
 		for (const question of prompt.questions) {
-			const { response } = await inquirer.prompt([
-				{
-					type: 'input',
-					name: 'response',
-					message: question,
-				},
-			]);
-			responses[question] = response.trim();
+			const answer = await this.ask(question);
+			responses[question] = answer;
+			exchanges.push({ question, answer });
+
+			// One follow-up per answer, when the coach has something to dig into
+			if (adaptive && answer) {
+				const followUp = await generateFollowUp(prompt.type, coachingContext, exchanges);
+				if (followUp) {
+					const followUpAnswer = await this.ask(`${colors.cyan}↳${colors.reset} ${followUp}`);
+					if (followUpAnswer) responses[followUp] = followUpAnswer;
+					exchanges.push({ question: followUp, answer: followUpAnswer, followUp: true });
+				}
+			}
 		}
 
 		// Parse structured data from responses
@@ -92,6 +144,7 @@ export class CheckinRunner {
 			type: prompt.type,
 			timestamp: new Date().toISOString(),
 			responses,
+			priorityStatus,
 		};
 
 		// Extract priorities from morning check-in
@@ -124,6 +177,17 @@ export class CheckinRunner {
 			}
 		}
 
+		if (adaptive) {
+			console.log(`\n${colors.dim}Reflecting...${colors.reset}`);
+			result.reflection =
+				(await generateReflection(prompt.type, coachingContext, exchanges)) ?? undefined;
+		}
+
+		// Apply goal updates first, so the check-in records only those that applied
+		if (result.goalUpdates && result.goalUpdates.length > 0) {
+			result.goalUpdates = await this.applyGoalUpdates(result.goalUpdates);
+		}
+
 		// Record the check-in
 		await recordCheckin(prompt.type, {
 			priorities: result.priorities,
@@ -131,13 +195,10 @@ export class CheckinRunner {
 			learnings: result.learnings,
 			goalUpdates: result.goalUpdates,
 			responses,
+			priorityStatus: result.priorityStatus,
+			reflection: result.reflection,
 		} as CheckinEntry);
 
-		// Apply goal updates if any
-		if (result.goalUpdates && result.goalUpdates.length > 0) {
-			await this.applyGoalUpdates(result.goalUpdates);
-		}
-
 		// Add learnings to identity
 		if (result.learnings && result.learnings.length > 0) {
 			await this.addLearnings(result.learnings);
@@ -149,6 +210,20 @@ export class CheckinRunner {
 		return result;
 	}
 
+	/**
+	 * Ask one question and return the trimmed answer
+	 */
+	private async ask(question: string): Promise<string> {
+		const { response } = await inquirer.prompt([
+			{
+				type: 'input',
+				name: 'response',
+				message: question,
+			},
+		]);
+		return response.trim();
+	}
+
 	/**
 	 * Extract list items from text
 	 */
@@ -184,14 +259,15 @@ export class CheckinRunner {
 			const { loadIdentity } = await import('../context-loader');
 			const identity = await loadIdentity();
 
+			// Goals with milestones or sub-goals get their progress from those
 			const allGoals = [
 				...identity.goals.short_term,
 				...identity.goals.medium_term,
 				...identity.goals.long_term,
-			];
+			].filter((g) => !isDerived(identity.goals, g.id));
 
 			// Don't call AI if we don't have any providers available
-			if (!modelRouter.hasAvailableProvider()) {
+			if (allGoals.length === 0 || !modelRouter.hasAvailableProvider()) {
 				return [];
 			}
 
@@ -215,6 +291,7 @@ Only include goals that the user explicitly mentions progress on.
 Response must be valid JSON array only, no other text.`,
 					},
 				],
+				cache: true,
 			});
 
 			const parsed = JSON.parse(response.content.trim());
@@ -226,28 +303,40 @@ Response must be valid JSON array only, no other text.`,
 
 	/**
 	 * Apply goal progress updates to identity
+	 *
+	 * Goals that don't exist or get their progress from milestones and
+	 * sub-goals are skipped and reported.
+	 *
+	 * @returns The updates that were applied
 	 */
 	private async applyGoalUpdates(
 		updates: Array<{ goalId: string; progress: number }>
-	): Promise<void> {
+	): Promise<Array<{ goalId: string; progress: number }>> {
+		const applied: Array<{ goalId: string; progress: number }> = [];
+		const skipped: string[] = [];
+
 		await updateIdentity((identity) => {
-			const updateGoals = <T extends { id: string; progress: number }>(goals: T[]): T[] =>
-				goals.map((g) => {
-					const update = updates.find((u) => u.goalId === g.id);
-					return update ? { ...g, progress: Math.min(1, Math.max(0, update.progress)) } : g;
-				});
-
-			return {
-				...identity,
-				goals: {
-					short_term: updateGoals(identity.goals.short_term),
-					medium_term: updateGoals(identity.goals.medium_term),
-					long_term: updateGoals(identity.goals.long_term),
-				},
-			};
+			let updated = identity;
+			for (const update of updates) {
+				const progress = Math.min(1, Math.max(0, update.progress));
+				try {
+					updated = setGoalProgress(updated, update.goalId, progress).identity;
+					applied.push({ goalId: update.goalId, progress });
+				} catch (error) {
+					if (!(error instanceof ValidationError)) throw error;
+					skipped.push(error.message);
+				}
+			}
+			return updated;
 		});
 
-		console.log(`\n${colors.green}Updated ${updates.length} goal(s)${colors.reset}`);
+		if (applied.length > 0) {
+			console.log(`\n${colors.green}Updated ${applied.length} goal(s)${colors.reset}`);
+		}
+		for (const reason of skipped) {
+			console.log(`${colors.yellow}Skipped goal update: ${reason}${colors.reset}`);
+		}
+		return applied;
 	}
 
 	/**
@@ -284,6 +373,13 @@ Response must be valid JSON array only, no other text.`,
 			}
 		}
 
+		if (result.priorityStatus && result.priorityStatus.length > 0) {
+			console.log(`\n${colors.cyan}This Morning's Priorities:${colors.reset}`);
+			for (const { priority, status } of result.priorityStatus) {
+				console.log(`  ${PRIORITY_STATUS_ICONS[status]} ${priority}`);
+			}
+		}
+
 		if (result.accomplishments && result.accomplishments.length > 0) {
 			console.log(`\n${colors.green}Accomplishments:${colors.reset}`);
 			for (const a of result.accomplishments) {
@@ -305,6 +401,11 @@ Response must be valid JSON array only, no other text.`,
 			}
 		}
 
+		if (result.reflection) {
+			console.log(`\n${colors.blue}Coach:${colors.reset}`);
+			console.log(`  ${result.reflection}`);
+		}
+
 		console.log('');
 	}
 }
@@ -0,0 +1,533 @@
+/**
+ * Check-In Scheduler - Reminders for morning, evening and weekly check-ins
+ *
+ * Check-ins fire at the times in ~/.yxhyx/config/schedule.yaml, in the
+ * identity's timezone. Reminders come from `yxhyx daemon`, or from cron or
+ * systemd timers generated by `yxhyx schedule install`. Each check-in is
+ * reminded at most once a day, and not at all once it's been done.
+ */
+
+import { exec, execFile } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { parse, stringify } from 'yaml';
+import { loadIdentity } from '../context-loader';
+import { ValidationError } from '../errors';
+import {
+	type CheckinEntry,
+	type CheckinType,
+	getCheckinHistory,
+	getState,
+	setState,
+} from '../memory/state-manager';
+import {
+	type ReminderConfig,
+	type ScheduleConfig,
+	ScheduleConfigSchema,
+	WEEKDAYS,
+	type Weekday,
+} from '../schemas/schedule';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// Paths
+const CONFIG_DIR = `${process.env.HOME}/.yxhyx/config`;
+export const SCHEDULE_CONFIG_PATH = `${CONFIG_DIR}/schedule.yaml`;
+export const SYSTEMD_USER_DIR = `${process.env.HOME}/.config/systemd/user`;
+
+// ============================================
+// Types
+// ============================================
+
+export const CHECKIN_TYPES: CheckinType[] = ['morning', 'evening', 'weekly'];
+
+/** A reminder more than this late (e.g. the machine was asleep) is skipped */
+const MISSED_WINDOW_MINUTES = 180;
+
+/** A weekly review this recent counts for this week */
+const WEEKLY_DONE_DAYS = 6;
+
+export type ReminderMethod = 'notify' | 'bell' | 'command';
+
+/**
+ * A moment as seen on the wall clock in a timezone
+ */
+export interface LocalTime {
+	/** YYYY-MM-DD */
+	date: string;
+	/** HH:MM, 24-hour */
+	time: string;
+	weekday: Weekday;
+}
+
+const REMINDER_TEXT: Record<CheckinType, string> = {
+	morning: 'Time for your morning check-in: yxhyx checkin morning',
+	evening: 'Time for your evening check-in: yxhyx checkin evening',
+	weekly: 'Time for your weekly review: yxhyx checkin weekly',
+};
+
+// ============================================
+// Config
+// ============================================
+
+/**
+ * Load the schedule, with defaults when schedule.yaml doesn't exist
+ *
+ * @throws ValidationError if schedule.yaml is invalid
+ */
+export async function loadScheduleConfig(): Promise<ScheduleConfig> {
+	if (!existsSync(SCHEDULE_CONFIG_PATH)) {
+		return ScheduleConfigSchema.parse({});
+	}
+
+	const result = ScheduleConfigSchema.safeParse(
+		parse(await readFile(SCHEDULE_CONFIG_PATH, 'utf-8')) ?? {}
+	);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		throw new ValidationError(
+			`schedule.yaml is invalid: ${issue.path.join('.')}: ${issue.message}`,
+			{
+				field: issue.path.join('.'),
+				suggestion: `Fix ${SCHEDULE_CONFIG_PATH}, or update it with \`yxhyx schedule set\``,
+			}
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Save the schedule
+ */
+export async function saveScheduleConfig(config: ScheduleConfig): Promise<void> {
+	await mkdir(CONFIG_DIR, { recursive: true });
+	await writeFile(
+		SCHEDULE_CONFIG_PATH,
+		stringify(ScheduleConfigSchema.parse(config), {
+			lineWidth: 120,
+			defaultStringType: 'QUOTE_DOUBLE',
+		}),
+		'utf-8'
+	);
+}
+
+// ============================================
+// Time
+// ============================================
+
+/**
+ * Whether a timezone is a valid IANA name
+ */
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Timezone the schedule runs in: its own, else the identity's, else the system's
+ *
+ * @throws ValidationError if the timezone isn't a valid IANA name
+ */
+export async function resolveTimezone(config: ScheduleConfig): Promise<string> {
+	const timezone =
+		config.timezone ??
+		(await loadIdentity()
+			.then((identity) => identity.about.timezone)
+			.catch(() => Intl.DateTimeFormat().resolvedOptions().timeZone));
+
+	if (!isValidTimezone(timezone)) {
+		throw new ValidationError(`Unknown timezone: ${timezone}`, {
+			field: 'timezone',
+			suggestion:
+				'Use an IANA name like Europe/Berlin: `yxhyx schedule set --timezone Europe/Berlin`',
+		});
+	}
+	return timezone;
+}
+
+/**
+ * The wall-clock date, time and weekday of a moment in a timezone
+ */
+export function localTime(at: Date, timezone: string): LocalTime {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			weekday: 'long',
+			hourCycle: 'h23',
+		})
+			.formatToParts(at)
+			.map((part) => [part.type, part.value])
+	);
+
+	return {
+		date: `${parts.year}-${parts.month}-${parts.day}`,
+		time: `${parts.hour}:${parts.minute}`,
+		weekday: parts.weekday.toLowerCase() as Weekday,
+	};
+}
+
+function toMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return hours * 60 + minutes;
+}
+
+// ============================================
+// Due Check-ins
+// ============================================
+
+/**
+ * Check-ins already done for the current period (today, or this week for
+ * the weekly review)
+ */
+export function completedCheckins(
+	history: CheckinEntry[],
+	timezone: string,
+	now = new Date()
+): CheckinType[] {
+	const today = localTime(now, timezone).date;
+	const weekAgo = now.getTime() - WEEKLY_DONE_DAYS * 24 * 60 * 60 * 1000;
+
+	return CHECKIN_TYPES.filter((type) =>
+		history.some((entry) => {
+			if (entry.type !== type) return false;
+			const at = new Date(entry.timestamp);
+			return type === 'weekly' ? at.getTime() >= weekAgo : localTime(at, timezone).date === today;
+		})
+	);
+}
+
+/**
+ * Check-ins whose reminder is due now
+ *
+ * A check-in is due from its scheduled time (on its day, for the weekly
+ * review) for MISSED_WINDOW_MINUTES, unless it was already reminded today
+ * or has been done.
+ *
+ * @param reminded - Local date each check-in was last reminded
+ * @param completed - Check-ins done for the current period
+ */
+export function dueCheckins(
+	config: ScheduleConfig,
+	timezone: string,
+	now: Date,
+	reminded: Partial<Record<CheckinType, string>>,
+	completed: CheckinType[]
+): CheckinType[] {
+	const local = localTime(now, timezone);
+	const minutes = toMinutes(local.time);
+
+	return CHECKIN_TYPES.filter((type) => {
+		const entry = config.checkins[type];
+		if (!entry.enabled || completed.includes(type) || reminded[type] === local.date) {
+			return false;
+		}
+		if (type === 'weekly' && local.weekday !== (entry.day ?? 'sunday')) return false;
+
+		const late = minutes - toMinutes(entry.time);
+		return late >= 0 && late < MISSED_WINDOW_MINUTES;
+	});
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+/**
+ * Send a check-in reminder
+ *
+ * @returns How the reminder was delivered
+ * @throws ValidationError if the method is `command` without a command
+ */
+export async function sendReminder(
+	type: CheckinType,
+	reminder: ReminderConfig
+): Promise<ReminderMethod> {
+	const text = REMINDER_TEXT[type];
+
+	if (reminder.method === 'command') {
+		if (!reminder.command) {
+			throw new ValidationError('Reminder method is "command" but no command is set', {
+				field: 'reminder.command',
+				suggestion: 'yxhyx schedule reminder command --command "my-notifier {type}"',
+			});
+		}
+		await execAsync(reminder.command.replaceAll('{type}', type), {
+			env: { ...process.env, YXHYX_CHECKIN: type, YXHYX_MESSAGE: text },
+		});
+		return 'command';
+	}
+
+	if (reminder.method !== 'bell') {
+		try {
+			if (process.platform === 'darwin') {
+				await execFileAsync('osascript', [
+					'-e',
+					`display notification ${JSON.stringify(text)} with title "Yxhyx"`,
+				]);
+			} else {
+				await execFileAsync('notify-send', ['--app-name=Yxhyx', 'Yxhyx', text]);
+			}
+			return 'notify';
+		} catch (error) {
+			// `auto` falls back to the bell when there's no notification daemon
+			if (reminder.method === 'notify') throw error;
+		}
+	}
+
+	process.stdout.write('\x07');
+	return 'bell';
+}
+
+/**
+ * Send reminders for every check-in due now
+ *
+ * @returns Check-ins reminded
+ */
+export async function runScheduledReminders(
+	now = new Date()
+): Promise<Array<{ type: CheckinType; method: ReminderMethod }>> {
+	const config = await loadScheduleConfig();
+	const timezone = await resolveTimezone(config);
+	const state = await getState();
+	const completed = completedCheckins(await getCheckinHistory(50), timezone, now);
+
+	const due = dueCheckins(config, timezone, now, state.lastReminders ?? {}, completed);
+	const sent: Array<{ type: CheckinType; method: ReminderMethod }> = [];
+	for (const type of due) {
+		sent.push({ type, method: await sendReminder(type, config.reminder) });
+	}
+
+	if (sent.length > 0) {
+		const today = localTime(now, timezone).date;
+		const lastReminders = { ...state.lastReminders };
+		for (const { type } of sent) lastReminders[type] = today;
+		await setState({ lastReminders });
+	}
+
+	return sent;
+}
+
+/**
+ * Send one check-in's reminder now (what cron and systemd timers run)
+ *
+ * @param force - Remind even if the check-in is already done
+ * @returns How it was delivered, or null if skipped because it's done
+ */
+export async function remindCheckin(
+	type: CheckinType,
+	options: { force?: boolean; now?: Date } = {}
+): Promise<ReminderMethod | null> {
+	const now = options.now ?? new Date();
+	const config = await loadScheduleConfig();
+	const timezone = await resolveTimezone(config);
+
+	if (!options.force) {
+		const completed = completedCheckins(await getCheckinHistory(50), timezone, now);
+		if (completed.includes(type)) return null;
+	}
+
+	const method = await sendReminder(type, config.reminder);
+	const state = await getState();
+	await setState({
+		lastReminders: { ...state.lastReminders, [type]: localTime(now, timezone).date },
+	});
+	return method;
+}
+
+// ============================================
+// Cron and systemd
+// ============================================
+
+const CRON_BEGIN = '# BEGIN yxhyx check-in reminders';
+const CRON_END = '# END yxhyx check-in reminders';
+
+/**
+ * Double-quote a path with spaces or other special characters (both the
+ * shell cron uses and systemd's ExecStart accept this)
+ */
+function quoteArg(arg: string): string {
+	return /^[\w@+=:,./-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/**
+ * How cron and systemd should invoke this CLI (absolute, since neither
+ * has the login shell's PATH)
+ */
+export function yxhyxCommand(): string {
+	const script = resolve(process.argv[1] ?? 'yxhyx');
+	return script.endsWith('.ts')
+		? `${quoteArg(process.execPath)} ${quoteArg(script)}`
+		: quoteArg(script);
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function enabledCheckins(config: ScheduleConfig): CheckinType[] {
+	return CHECKIN_TYPES.filter((type) => config.checkins[type].enabled);
+}
+
+/**
+ * Crontab entries for the schedule, between markers so they can be replaced
+ *
+ * CRON_TZ keeps the times in the schedule's timezone (cronie and most
+ * modern crons support it). It applies to every later line, so the block
+ * ends by switching back to `restoreTimezone` - the system timezone unless
+ * mergeCrontab finds an earlier CRON_TZ.
+ */
+export function generateCrontab(
+	config: ScheduleConfig,
+	timezone: string,
+	command: string,
+	restoreTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): string {
+	// cron turns an unescaped % into a newline
+	const escaped = command.replace(/%/g, '\\%');
+	const lines = [CRON_BEGIN, `CRON_TZ=${timezone}`];
+	for (const type of enabledCheckins(config)) {
+		const { time, day } = config.checkins[type];
+		const [hours, minutes] = time.split(':').map(Number);
+		const weekday = type === 'weekly' ? String(WEEKDAYS.indexOf(day ?? 'sunday')) : '*';
+		lines.push(`${minutes} ${hours} * * ${weekday} ${escaped} schedule remind ${type}`);
+	}
+	lines.push(`CRON_TZ=${restoreTimezone}`, CRON_END);
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Replace (or append) the yxhyx block in a crontab
+ *
+ * The block's closing CRON_TZ is set to whatever CRON_TZ was in effect
+ * before it, so entries after the block keep their timezone.
+ */
+export function mergeCrontab(existing: string, block: string): string {
+	const start = existing.indexOf(CRON_BEGIN);
+	const end = existing.indexOf(CRON_END);
+	const replacing = start !== -1 && end > start;
+
+	const before = replacing ? existing.slice(0, start) : existing;
+	const previous = [...before.matchAll(/^\s*CRON_TZ\s*=\s*(\S+)/gm)].pop()?.[1];
+	const lines = block.trimEnd().split('\n');
+	const restore = lines.length - 2;
+	if (previous && lines[restore]?.startsWith('CRON_TZ=')) {
+		lines[restore] = `CRON_TZ=${previous}`;
+	}
+	const restored = `${lines.join('\n')}\n`;
+
+	if (replacing) {
+		return existing.slice(0, start) + restored + existing.slice(end + CRON_END.length + 1);
+	}
+	const prefix = existing.trim() ? `${existing.trimEnd()}\n\n` : '';
+	return prefix + restored;
+}
+
+/**
+ * systemd user units for the schedule: one service template and a timer
+ * per enabled check-in
+ *
+ * @returns Unit file contents by file name
+ */
+export function generateSystemdUnits(
+	config: ScheduleConfig,
+	timezone: string,
+	command: string
+): Record<string, string> {
+	const units: Record<string, string> = {
+		'yxhyx-checkin@.service': [
+			'[Unit]',
+			'Description=Yxhyx %i check-in reminder',
+			'',
+			'[Service]',
+			'Type=oneshot',
+			`ExecStart=${command} schedule remind %i`,
+			'',
+		].join('\n'),
+	};
+
+	for (const type of enabledCheckins(config)) {
+		const { time, day } = config.checkins[type];
+		const weekday = type === 'weekly' ? `${capitalize((day ?? 'sunday').slice(0, 3))} ` : '';
+		units[`yxhyx-checkin-${type}.timer`] = [
+			'[Unit]',
+			`Description=Yxhyx ${type} check-in reminder`,
+			'',
+			'[Timer]',
+			`OnCalendar=${weekday}*-*-* ${time}:00 ${timezone}`,
+			`Unit=yxhyx-checkin@${type}.service`,
+			'',
+			'[Install]',
+			'WantedBy=timers.target',
+			'',
+		].join('\n');
+	}
+
+	return units;
+}
+
+/**
+ * Install the schedule into the user's crontab, replacing any previous block
+ */
+export async function installCrontab(block: string): Promise<void> {
+	// `crontab -l` fails when there's no crontab yet
+	const existing = await execFileAsync('crontab', ['-l'])
+		.then(({ stdout }) => stdout)
+		.catch(() => '');
+
+	const path = join(tmpdir(), `yxhyx-crontab-${process.pid}`);
+	await writeFile(path, mergeCrontab(existing, block), 'utf-8');
+	try {
+		await execFileAsync('crontab', [path]);
+	} finally {
+		await rm(path, { force: true });
+	}
+}
+
+/**
+ * Write systemd user units, removing timers for check-ins no longer scheduled
+ *
+ * @returns Timer unit names written
+ */
+export async function installSystemdUnits(units: Record<string, string>): Promise<string[]> {
+	await mkdir(SYSTEMD_USER_DIR, { recursive: true });
+
+	for (const type of CHECKIN_TYPES) {
+		const timer = `yxhyx-checkin-${type}.timer`;
+		const path = join(SYSTEMD_USER_DIR, timer);
+		if (units[timer] || !existsSync(path)) continue;
+
+		// Stop it first, or systemd keeps a dangling link to it
+		await execFileAsync('systemctl', ['--user', 'disable', '--now', timer]).catch(() => {});
+		await rm(path, { force: true });
+	}
+	for (const [name, content] of Object.entries(units)) {
+		await writeFile(join(SYSTEMD_USER_DIR, name), content, 'utf-8');
+	}
+
+	return Object.keys(units).filter((name) => name.endsWith('.timer'));
+}
+
+/**
+ * Reload systemd and start the timers
+ *
+ * @throws If systemctl isn't available or fails
+ */
+export async function enableSystemdTimers(timers: string[]): Promise<void> {
+	await execFileAsync('systemctl', ['--user', 'daemon-reload']);
+	if (timers.length > 0) {
+		await execFileAsync('systemctl', ['--user', 'enable', '--now', ...timers]);
+	}
+}
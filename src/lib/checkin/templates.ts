@@ -13,7 +13,9 @@ import {
 	getActiveProjects,
 	loadIdentity,
 } from '../context-loader';
+import { type GoalSummary, formatGoalBreakdown, summarizeGoals } from '../goals';
 import { getCheckinHistory, getWeekStart, isToday, isYesterday } from '../memory/state-manager';
+import { findCarryOver, formatCompletion, priorityCompletion } from './priorities';
 
 // ============================================
 // Types
@@ -25,6 +27,20 @@ export interface CheckinPrompt {
 	context: string;
 	questions: string[];
 	followUp?: string;
+	/** Evening: the morning's priorities to mark done, partly done or dropped */
+	reconcile?: string[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Overdue and at-risk goals first
+ */
+function prioritizeGoals(goals: GoalSummary[]): GoalSummary[] {
+	const order = { overdue: 0, at_risk: 1, on_track: 2 };
+	return [...goals].sort((a, b) => order[a.risk.status] - order[b.risk.status]);
 }
 
 // ============================================
@@ -46,16 +62,28 @@ export async function buildMorningPrompt(): Promise<CheckinPrompt> {
 	// Get yesterday's evening check-in if exists
 	const yesterday = history.find((h) => h.type === 'evening' && isYesterday(new Date(h.timestamp)));
 
+	// Priorities from the last morning that weren't finished
+	const carryOver = findCarryOver(history);
+
 	// Get active projects
 	const activeProjects = await getActiveProjects();
 
 	// Build context
 	const contextParts: string[] = [];
 
+	if (carryOver) {
+		contextParts.push('**Carried over:**');
+		for (const item of carryOver.items) {
+			const note = item.reason === 'partial' ? 'partly done' : 'not reviewed';
+			contextParts.push(`- ${item.priority} (${note})`);
+		}
+		contextParts.push('');
+	}
+
 	contextParts.push('**Your Active Goals:**');
 	if (activeGoals.length > 0) {
-		for (const goal of activeGoals.slice(0, 5)) {
-			contextParts.push(`- ${goal.title} (${Math.round(goal.progress * 100)}%)`);
+		for (const goal of prioritizeGoals(activeGoals).slice(0, 5)) {
+			contextParts.push(...formatGoalBreakdown(goal, activeGoals));
 		}
 		if (activeGoals.length > 5) {
 			contextParts.push(`- ... and ${activeGoals.length - 5} more`);
@@ -134,8 +162,8 @@ export async function buildEveningPrompt(): Promise<CheckinPrompt> {
 
 	contextParts.push('**Your Active Goals:**');
 	if (activeGoals.length > 0) {
-		for (const goal of activeGoals.slice(0, 5)) {
-			contextParts.push(`- ${goal.title} (${Math.round(goal.progress * 100)}%)`);
+		for (const goal of prioritizeGoals(activeGoals).slice(0, 5)) {
+			contextParts.push(...formatGoalBreakdown(goal, activeGoals));
 		}
 	} else {
 		contextParts.push('- No active goals set');
@@ -151,6 +179,7 @@ export async function buildEveningPrompt(): Promise<CheckinPrompt> {
 			'What did you learn today?',
 			'Any progress on your goals to record?',
 		],
+		reconcile: thisMorning?.priorities?.length ? thisMorning.priorities : undefined,
 	};
 }
 
@@ -177,13 +206,10 @@ export async function buildWeeklyPrompt(): Promise<CheckinPrompt> {
 	const accomplishments = thisWeek
 		.filter((h) => h.type === 'evening')
 		.flatMap((h) => h.accomplishments || []);
+	const completion = priorityCompletion(thisWeek);
 
-	// Get all goals with term info
-	const allGoals = [
-		...identity.goals.short_term.map((g) => ({ ...g, term: 'short' as const })),
-		...identity.goals.medium_term.map((g) => ({ ...g, term: 'medium' as const })),
-		...identity.goals.long_term.map((g) => ({ ...g, term: 'long' as const })),
-	];
+	// Get all goals with term, sub-goals and deadline risk
+	const allGoals = summarizeGoals(identity.goals);
 
 	// Get active projects
 	const activeProjects = await getActiveProjects();
@@ -198,6 +224,7 @@ export async function buildWeeklyPrompt(): Promise<CheckinPrompt> {
 	contextParts.push(`- Morning check-ins: ${mornings}/7`);
 	contextParts.push(`- Evening check-ins: ${evenings}/7`);
 	contextParts.push(`- Total accomplishments logged: ${accomplishments.length}`);
+	contextParts.push(`- Priorities: ${formatCompletion(completion)}`);
 
 	contextParts.push('');
 	contextParts.push("**This Week's Accomplishments:**");
@@ -215,7 +242,17 @@ export async function buildWeeklyPrompt(): Promise<CheckinPrompt> {
 	contextParts.push('');
 	contextParts.push('**Goal Progress:**');
 	for (const goal of allGoals) {
-		contextParts.push(`- [${goal.term}] ${goal.title}: ${Math.round(goal.progress * 100)}%`);
+		const [line, ...breakdown] = formatGoalBreakdown(goal, allGoals);
+		contextParts.push(line.replace('- ', `- [${goal.term}] `), ...breakdown);
+	}
+
+	const atRisk = allGoals.filter((g) => g.risk.status !== 'on_track');
+	if (atRisk.length > 0) {
+		contextParts.push('');
+		contextParts.push('**Deadlines at Risk:**');
+		for (const goal of atRisk) {
+			contextParts.push(`- ${goal.title}: ${goal.risk.reason}`);
+		}
 	}
 
 	contextParts.push('');
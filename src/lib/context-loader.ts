@@ -6,15 +6,29 @@
  */
 
 import { existsSync } from 'node:fs';
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises';
 import { dirname } from 'node:path';
 import { parse, stringify } from 'yaml';
-import { type Goal, type Identity, IdentitySchema, type Project } from './schemas/identity';
+import { type GoalSummary, rollupProgress, summarizeGoals } from './goals';
+import { type HabitSummary, summarizeHabits } from './habits';
+import { commandSource, loadSnapshot, recordSnapshot } from './identity-history';
+import {
+	type IdentityMigration,
+	compareVersions,
+	describeChanges,
+	detectVersion,
+	migrateIdentity,
+	pendingMigrations,
+	validateIdentity,
+} from './identity-migrations';
+import { getHabitLog } from './memory/state-manager';
+import { type Goal, IDENTITY_VERSION, type Identity, type Project } from './schemas/identity';
 
 // Paths
 const YXHYX_DIR = `${process.env.HOME}/.yxhyx`;
 const IDENTITY_DIR = `${YXHYX_DIR}/identity`;
 const IDENTITY_PATH = `${IDENTITY_DIR}/identity.yaml`;
+const BACKUP_DIR = `${IDENTITY_DIR}/backups`;
 
 /**
  * Check if Yxhyx is initialized
@@ -39,6 +53,9 @@ export function getIdentityPath(): string {
 
 /**
  * Load identity from YAML file
+ * Older schema versions are migrated in memory (the file is rewritten on
+ * the next save)
+ *
  * @throws Error if identity file doesn't exist or is invalid
  */
 export async function loadIdentity(): Promise<Identity> {
@@ -49,21 +66,40 @@ export async function loadIdentity(): Promise<Identity> {
 	const content = await readFile(IDENTITY_PATH, 'utf-8');
 	const data = parse(content);
 
-	// Validate and return
-	return IdentitySchema.parse(data);
+	// Migrate, validate and return (with progress rolled up from milestones,
+	// in case they were edited by hand)
+	const { identity } = migrateIdentity(data);
+	identity.goals = rollupProgress(identity.goals);
+	return identity;
 }
 
 /**
  * Save identity to YAML file
- * Creates parent directories if needed
+ * Creates parent directories if needed, and records the new version in the
+ * identity history
+ *
+ * @param options.source - What made the change (defaults to the CLI command)
  */
-export async function saveIdentity(identity: Identity): Promise<void> {
+export async function saveIdentity(
+	identity: Identity,
+	options: { source?: string } = {}
+): Promise<void> {
 	// Validate before saving
-	IdentitySchema.parse(identity);
+	const valid = validateIdentity(identity);
 
 	// Ensure directory exists
 	await mkdir(dirname(IDENTITY_PATH), { recursive: true });
 
+	// The file being replaced becomes the baseline if there's no history yet
+	const previous = await readPreviousIdentity();
+
+	// Keep the pre-migration file before it's overwritten
+	await backupOutdatedIdentity();
+	identity.version = IDENTITY_VERSION;
+
+	// Goals with milestones or sub-goals get their progress from them
+	identity.goals = rollupProgress(valid.goals);
+
 	// Update timestamp
 	identity.last_updated = new Date().toISOString();
 
@@ -74,6 +110,8 @@ export async function saveIdentity(identity: Identity): Promise<void> {
 		defaultKeyType: 'PLAIN',
 	});
 	await writeFile(IDENTITY_PATH, content, 'utf-8');
+
+	await recordSnapshot(identity, content, options.source ?? commandSource(), previous);
 }
 
 /**
@@ -81,30 +119,136 @@ export async function saveIdentity(identity: Identity): Promise<void> {
  * Provides atomic update with validation
  */
 export async function updateIdentity(
-	updater: (current: Identity) => Identity | Promise<Identity>
+	updater: (current: Identity) => Identity | Promise<Identity>,
+	options: { source?: string } = {}
 ): Promise<Identity> {
 	const current = await loadIdentity();
 	const updated = await updater(current);
 
 	// Validate and save
-	await saveIdentity(updated);
+	await saveIdentity(updated, options);
 	return updated;
 }
 
+/**
+ * Restore a version from the identity history
+ *
+ * The restored identity is saved as a new version, so a rollback can itself
+ * be rolled back.
+ */
+export async function rollbackIdentity(version: number): Promise<Identity> {
+	const identity = await loadSnapshot(version);
+	await saveIdentity(identity, { source: `rollback to v${version}` });
+	return identity;
+}
+
+/**
+ * The identity file as it is on disk, if it is valid
+ */
+async function readPreviousIdentity(): Promise<
+	{ identity: Identity; content: string } | undefined
+> {
+	if (!existsSync(IDENTITY_PATH)) return undefined;
+
+	try {
+		const content = await readFile(IDENTITY_PATH, 'utf-8');
+		return { identity: migrateIdentity(parse(content)).identity, content };
+	} catch {
+		return undefined;
+	}
+}
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * Path of the backup kept when migrating a file from a version
+ */
+export function getBackupPath(version: string): string {
+	return `${BACKUP_DIR}/identity-v${version}.yaml`;
+}
+
+/**
+ * Schema version of identity.yaml on disk, and the migrations it still needs
+ */
+export async function getMigrationStatus(): Promise<{
+	version: string;
+	pending: IdentityMigration[];
+}> {
+	const version = detectVersion(parse(await readFile(IDENTITY_PATH, 'utf-8')));
+	return { version, pending: pendingMigrations(version) };
+}
+
+/**
+ * Migrate identity.yaml to the current schema version
+ *
+ * @param options.dryRun - Only report what would change
+ * @returns The versions, migrations applied, field changes (including
+ *          fields the schema drops), and the backup written, if any
+ */
+export async function migrateIdentityFile(options: { dryRun?: boolean } = {}): Promise<{
+	from: string;
+	to: string;
+	applied: IdentityMigration[];
+	changes: string[];
+	backup?: string;
+}> {
+	if (!existsSync(IDENTITY_PATH)) {
+		throw new Error('Yxhyx not initialized. Run `yxhyx init` first.');
+	}
+
+	const data = parse(await readFile(IDENTITY_PATH, 'utf-8'));
+	const { from, to, applied, identity } = migrateIdentity(data);
+	const changes = describeChanges(data, identity);
+
+	if (options.dryRun || changes.length === 0) {
+		return { from, to, applied, changes };
+	}
+
+	await saveIdentity(identity, { source: `migrate v${from} to v${to}` });
+	return {
+		from,
+		to,
+		applied,
+		changes,
+		backup: compareVersions(from, to) < 0 ? getBackupPath(from) : undefined,
+	};
+}
+
+/**
+ * Copy identity.yaml to the backups directory if it's from an older schema
+ * version (the first backup of each version is kept)
+ */
+async function backupOutdatedIdentity(): Promise<void> {
+	if (!existsSync(IDENTITY_PATH)) return;
+
+	let version: string;
+	try {
+		version = detectVersion(parse(await readFile(IDENTITY_PATH, 'utf-8')));
+	} catch {
+		return;
+	}
+	if (compareVersions(version, IDENTITY_VERSION) >= 0) return;
+
+	const backup = getBackupPath(version);
+	if (existsSync(backup)) return;
+
+	await mkdir(BACKUP_DIR, { recursive: true });
+	await copyFile(IDENTITY_PATH, backup);
+}
+
 // ============================================
 // Query Helpers
 // ============================================
 
 /**
- * Get all active goals (not completed)
+ * Get all active goals (not completed), with their term, sub-goals and
+ * deadline risk
  */
-export async function getActiveGoals(): Promise<Goal[]> {
+export async function getActiveGoals(): Promise<GoalSummary[]> {
 	const identity = await loadIdentity();
-	return [
-		...identity.goals.short_term,
-		...identity.goals.medium_term,
-		...identity.goals.long_term,
-	].filter((g) => g.progress < 1);
+	return summarizeGoals(identity.goals).filter((g) => g.progress < 1);
 }
 
 /**
@@ -180,6 +324,17 @@ export async function getActiveChallenges(): Promise<
 	return identity.challenges.filter((c) => c.status === 'active');
 }
 
+/**
+ * Get active habits with their streak and adherence
+ */
+export async function getActiveHabits(): Promise<HabitSummary[]> {
+	const [identity, log] = await Promise.all([loadIdentity(), getHabitLog()]);
+	return summarizeHabits(
+		identity.habits.filter((h) => h.status === 'active'),
+		log
+	);
+}
+
 // ============================================
 // Context Building for AI
 // ============================================
@@ -211,6 +366,7 @@ export async function buildContext(taskType: TaskType): Promise<string> {
 			goals: identity.goals,
 			projects: identity.projects.filter((p) => p.status === 'active'),
 			challenges: identity.challenges.filter((c) => c.status === 'active'),
+			habits: identity.habits.filter((h) => h.status === 'active'),
 		}),
 
 		news: () => ({
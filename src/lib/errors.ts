@@ -106,6 +106,7 @@ export class ApiError extends YxhyxError {
 			provider: string;
 			statusCode?: number;
 			suggestion?: string;
+			recoverable?: boolean;
 			cause?: Error;
 		}
 	) {
@@ -121,7 +122,7 @@ export class ApiError extends YxhyxError {
 		super(message, {
 			code: 'API_ERROR',
 			suggestion: options.suggestion || defaultSuggestion,
-			recoverable: true,
+			recoverable: options.recoverable ?? true,
 			cause: options.cause,
 		});
 		this.name = 'ApiError';
@@ -130,6 +131,91 @@ export class ApiError extends YxhyxError {
 	}
 }
 
+/**
+ * All models failed - every routing candidate errored out
+ */
+export class AllModelsFailedError extends YxhyxError {
+	public readonly attempts: Array<{ model: string; error?: string }>;
+
+	constructor(attempts: Array<{ model: string; error?: string }>) {
+		super(
+			`All candidate models failed:\n${attempts.map((a) => `  - ${a.model}: ${a.error || 'unknown error'}`).join('\n')}`,
+			{
+				code: 'ALL_MODELS_FAILED',
+				suggestion: 'Providers may be having issues - wait a moment or try a different model',
+				recoverable: true,
+			}
+		);
+		this.name = 'AllModelsFailedError';
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Budget exceeded - a spending limit from models.yaml has been reached
+ */
+export class BudgetExceededError extends YxhyxError {
+	public readonly scope: string;
+	public readonly limit: number;
+	public readonly spent: number;
+
+	constructor(scope: string, limit: number, spent: number) {
+		super(`${scope} budget exceeded: $${spent.toFixed(4)} spent of $${limit.toFixed(2)}`, {
+			code: 'BUDGET_EXCEEDED',
+			suggestion:
+				'Wait for the budget to reset, raise it under `budget` in ~/.yxhyx/config/models.yaml, or use a zero-cost local model',
+			recoverable: false,
+		});
+		this.name = 'BudgetExceededError';
+		this.scope = scope;
+		this.limit = limit;
+		this.spent = spent;
+	}
+}
+
+/**
+ * Context window exceeded - the prompt won't fit any usable model
+ */
+export class ContextWindowError extends YxhyxError {
+	public readonly tokens: number;
+	public readonly maxContext: number;
+
+	constructor(tokens: number, maxContext: number, model?: string) {
+		super(
+			`Prompt needs ~${tokens} tokens but ${model ? `${model} allows` : 'the largest available model allows'} ${maxContext}`,
+			{
+				code: 'CONTEXT_TOO_LONG',
+				suggestion: model
+					? 'Pick a model with a larger context window, or shorten the prompt'
+					: 'Shorten the prompt or start a new conversation',
+				recoverable: false,
+			}
+		);
+		this.name = 'ContextWindowError';
+		this.tokens = tokens;
+		this.maxContext = maxContext;
+	}
+}
+
+/**
+ * Replay fixture missing - replay mode has no recorded response for a request
+ */
+export class ReplayFixtureMissingError extends YxhyxError {
+	public readonly model: string;
+	public readonly path: string;
+
+	constructor(model: string, path: string) {
+		super(`No recorded fixture for ${model} request (expected ${path})`, {
+			code: 'REPLAY_FIXTURE_MISSING',
+			suggestion: 'Record it by running again with YXHYX_PROVIDER_MODE=record',
+			recoverable: false,
+		});
+		this.name = 'ReplayFixtureMissingError';
+		this.model = model;
+		this.path = path;
+	}
+}
+
 /**
  * No API key error - specific case of missing credentials
  */
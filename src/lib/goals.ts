@@ -0,0 +1,265 @@
+/**
+ * Goals - Progress rollup, goal hierarchy and deadline risk
+ *
+ * A goal's progress is set by hand until it has milestones or sub-goals;
+ * from then on it's the average of their progress (a key result counts as
+ * current / target). Sub-goals link to a parent with a longer term, so
+ * short-term goals roll up into medium- and long-term ones.
+ */
+
+import { ValidationError } from './errors';
+import type { Goal, Goals, Milestone } from './schemas/identity';
+
+// ============================================
+// Types
+// ============================================
+
+export type GoalTerm = 'short' | 'medium' | 'long';
+
+export const GOAL_TERMS: GoalTerm[] = ['short', 'medium', 'long'];
+
+export interface GoalRisk {
+	status: 'on_track' | 'at_risk' | 'overdue';
+	/** Why it's at risk or overdue */
+	reason?: string;
+	/** Days until the deadline (negative once it has passed) */
+	days_left?: number;
+}
+
+export interface GoalSummary extends Goal {
+	term: GoalTerm;
+	/** IDs of sub-goals */
+	children: string[];
+	/** Progress is computed from milestones and sub-goals */
+	derived: boolean;
+	risk: GoalRisk;
+}
+
+/** A goal is at risk when progress trails the time used by this much */
+const AT_RISK_MARGIN = 0.2;
+
+/** A goal due this soon is at risk below DUE_SOON_PROGRESS */
+const DUE_SOON_DAYS = 7;
+const DUE_SOON_PROGRESS = 0.75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Progress
+// ============================================
+
+/**
+ * Progress of a milestone: current / target for key results, else done or not
+ */
+export function milestoneProgress(milestone: Milestone): number {
+	if (milestone.done) return 1;
+	if (milestone.target) return Math.min(1, milestone.current / milestone.target);
+	return 0;
+}
+
+/**
+ * Describe a milestone's state (e.g. "3/5 chapters")
+ */
+export function describeMilestone(milestone: Milestone): string {
+	if (!milestone.target) return milestone.done ? 'done' : 'open';
+	return `${milestone.current}/${milestone.target}${milestone.unit ? ` ${milestone.unit}` : ''}`;
+}
+
+function allGoals(goals: Goals): Array<Goal & { term: GoalTerm }> {
+	return GOAL_TERMS.flatMap((term) => goals[`${term}_term`].map((g) => ({ ...g, term })));
+}
+
+function childrenByParent(goals: Goals): Map<string, Goal[]> {
+	const all = allGoals(goals);
+	const ids = new Set(all.map((g) => g.id));
+	const children = new Map<string, Goal[]>();
+	for (const goal of all) {
+		if (!goal.parent || !ids.has(goal.parent)) continue;
+		children.set(goal.parent, [...(children.get(goal.parent) ?? []), goal]);
+	}
+	return children;
+}
+
+/**
+ * Recompute progress for goals with milestones or sub-goals
+ *
+ * Goals without either keep the progress set by hand.
+ */
+export function rollupProgress(goals: Goals): Goals {
+	const children = childrenByParent(goals);
+	const computed = new Map<string, number>();
+	const visiting = new Set<string>();
+
+	const progressOf = (goal: Goal): number => {
+		const cached = computed.get(goal.id);
+		if (cached !== undefined) return cached;
+
+		const kids = children.get(goal.id) ?? [];
+		// A hand-edited parent cycle keeps its stored progress
+		if ((goal.milestones.length === 0 && kids.length === 0) || visiting.has(goal.id)) {
+			return goal.progress;
+		}
+
+		visiting.add(goal.id);
+		const parts = [...goal.milestones.map(milestoneProgress), ...kids.map(progressOf)];
+		visiting.delete(goal.id);
+
+		const progress = Math.round((parts.reduce((a, b) => a + b, 0) / parts.length) * 1000) / 1000;
+		computed.set(goal.id, progress);
+		return progress;
+	};
+
+	return {
+		short_term: goals.short_term.map((g) => ({ ...g, progress: progressOf(g) })),
+		medium_term: goals.medium_term.map((g) => ({ ...g, progress: progressOf(g) })),
+		long_term: goals.long_term.map((g) => ({ ...g, progress: progressOf(g) })),
+	};
+}
+
+/**
+ * Whether a goal's progress is computed (so can't be set by hand)
+ */
+export function isDerived(goals: Goals, goalId: string): boolean {
+	const goal = allGoals(goals).find((g) => g.id === goalId);
+	return !!goal && (goal.milestones.length > 0 || childrenByParent(goals).has(goalId));
+}
+
+// ============================================
+// Hierarchy
+// ============================================
+
+/**
+ * Check that a goal can have a parent: it must exist and have a longer term
+ *
+ * @throws ValidationError otherwise
+ */
+export function validateParent(goals: Goals, term: GoalTerm, parentId: string): void {
+	const parent = allGoals(goals).find((g) => g.id === parentId);
+	if (!parent) {
+		throw new ValidationError(`Parent goal not found: ${parentId}`, {
+			field: 'parent',
+			suggestion: 'Run `yxhyx identity goals -a` to see goal IDs',
+		});
+	}
+	if (GOAL_TERMS.indexOf(parent.term) <= GOAL_TERMS.indexOf(term)) {
+		throw new ValidationError(
+			`A ${term}-term goal's parent must have a longer term ("${parent.title}" is ${parent.term}-term)`,
+			{ field: 'parent', suggestion: 'Link short-term goals to medium- or long-term ones' }
+		);
+	}
+}
+
+// ============================================
+// Deadlines
+// ============================================
+
+function daysUntil(date: string, now: Date): number {
+	const day = (d: Date) => Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+	return Math.round((day(new Date(date)) - day(now)) / DAY_MS);
+}
+
+/**
+ * Whether a goal is on track for its deadline (and milestone deadlines)
+ *
+ * A goal is overdue once its deadline passes unfinished, and at risk when
+ * its progress trails the share of time used (from `created` to the
+ * deadline), when it's due within a week and not nearly done, or when a
+ * milestone is past its deadline.
+ */
+export function assessRisk(goal: Goal, now = new Date()): GoalRisk {
+	if (goal.progress >= 1) return { status: 'on_track' };
+
+	const percent = `${Math.round(goal.progress * 100)}%`;
+	const lateMilestones = goal.milestones.filter(
+		(m) => m.deadline && milestoneProgress(m) < 1 && daysUntil(m.deadline, now) < 0
+	);
+
+	if (goal.deadline) {
+		const days = daysUntil(goal.deadline, now);
+
+		if (days < 0) {
+			return {
+				status: 'overdue',
+				reason: `${-days} day${days === -1 ? '' : 's'} past the deadline at ${percent}`,
+				days_left: days,
+			};
+		}
+
+		const start = goal.created ? new Date(goal.created).getTime() : undefined;
+		const end = new Date(goal.deadline).getTime();
+		if (start !== undefined && end > start) {
+			const used = Math.min(1, Math.max(0, (now.getTime() - start) / (end - start)));
+			if (goal.progress + AT_RISK_MARGIN < used) {
+				return {
+					status: 'at_risk',
+					reason: `${percent} done with ${Math.round(used * 100)}% of the time used`,
+					days_left: days,
+				};
+			}
+		}
+		if (days <= DUE_SOON_DAYS && goal.progress < DUE_SOON_PROGRESS) {
+			return {
+				status: 'at_risk',
+				reason: `due in ${days} day${days === 1 ? '' : 's'} at ${percent}`,
+				days_left: days,
+			};
+		}
+
+		if (lateMilestones.length === 0) return { status: 'on_track', days_left: days };
+	}
+
+	if (lateMilestones.length > 0) {
+		return {
+			status: 'at_risk',
+			reason: `${lateMilestones.length} milestone${lateMilestones.length === 1 ? '' : 's'} past the deadline`,
+			...(goal.deadline && { days_left: daysUntil(goal.deadline, now) }),
+		};
+	}
+
+	return { status: 'on_track' };
+}
+
+// ============================================
+// Summaries
+// ============================================
+
+/**
+ * All goals with their term, sub-goals and deadline risk
+ */
+export function summarizeGoals(goals: Goals, now = new Date()): GoalSummary[] {
+	const children = childrenByParent(goals);
+	return allGoals(goals).map((goal) => {
+		const kids = (children.get(goal.id) ?? []).map((g) => g.id);
+		return {
+			...goal,
+			children: kids,
+			derived: goal.milestones.length > 0 || kids.length > 0,
+			risk: assessRisk(goal, now),
+		};
+	});
+}
+
+/**
+ * Markdown lines for a goal with its milestones, sub-goals and risk
+ *
+ * @param all - Summaries of every goal, to name sub-goals
+ */
+export function formatGoalBreakdown(goal: GoalSummary, all: GoalSummary[]): string[] {
+	const risk =
+		goal.risk.status === 'overdue'
+			? ` - OVERDUE: ${goal.risk.reason}`
+			: goal.risk.status === 'at_risk'
+				? ` - AT RISK: ${goal.risk.reason}`
+				: '';
+	const lines = [`- ${goal.title} (${Math.round(goal.progress * 100)}%)${risk}`];
+
+	for (const milestone of goal.milestones) {
+		const state = milestone.target ? ` (${describeMilestone(milestone)})` : '';
+		lines.push(`  - [${milestoneProgress(milestone) >= 1 ? 'x' : ' '}] ${milestone.title}${state}`);
+	}
+	for (const child of all.filter((g) => goal.children.includes(g.id))) {
+		lines.push(`  - Sub-goal: ${child.title} (${Math.round(child.progress * 100)}%)`);
+	}
+
+	return lines;
+}
@@ -0,0 +1,164 @@
+/**
+ * Habits - Frequency targets, streaks and adherence
+ *
+ * A habit has a target like 3 times per week or once a day. Each time it's
+ * done is a line in the habit log (`yxhyx habit log` or a quick evening
+ * check-in). A period (day or week) counts once the target is met; the
+ * streak is how many periods in a row met it, and adherence is the average
+ * share of the target met over the last four weeks.
+ */
+
+import { ValidationError } from './errors';
+import { type HabitLogEntry, getWeekStart } from './memory/state-manager';
+import type { Habit, HabitFrequency } from './schemas/identity';
+
+// ============================================
+// Types
+// ============================================
+
+export interface HabitStats {
+	/** Periods in a row the target was met (the current one counts once met) */
+	streak: number;
+	/** Average share of the target met per period in the window (0-1) */
+	adherence: number;
+	/** Periods that went into adherence (0 for a brand-new habit) */
+	periods: number;
+	/** Times done in the current day or week */
+	current: number;
+	lastLogged?: string;
+}
+
+export interface HabitSummary extends Habit {
+	stats: HabitStats;
+}
+
+/** How far back adherence looks */
+const ADHERENCE_DAYS = 28;
+
+// ============================================
+// Frequency
+// ============================================
+
+/**
+ * Parse a frequency like `daily`, `weekly`, `3/week`, `2x/day` or `3 per week`
+ *
+ * @throws ValidationError for anything else
+ */
+export function parseFrequency(value: string): HabitFrequency {
+	const text = value.trim().toLowerCase();
+	if (text === 'daily') return { times: 1, per: 'day' };
+	if (text === 'weekly') return { times: 1, per: 'week' };
+
+	const match = text.match(/^(\d+)\s*(?:x|times)?\s*(?:\/|per|a)\s*(day|week)$/);
+	const times = match ? Number.parseInt(match[1], 10) : 0;
+	if (!match || times < 1) {
+		throw new ValidationError(`Invalid frequency: ${value}`, {
+			field: 'frequency',
+			suggestion: 'Use daily, weekly, or a count like 3/week or 2/day',
+		});
+	}
+	return { times, per: match[2] as HabitFrequency['per'] };
+}
+
+/**
+ * Describe a frequency (e.g. "daily", "3x/week")
+ */
+export function describeFrequency(frequency: HabitFrequency): string {
+	if (frequency.times === 1) return frequency.per === 'day' ? 'daily' : 'weekly';
+	return `${frequency.times}x/${frequency.per}`;
+}
+
+// ============================================
+// Streaks and Adherence
+// ============================================
+
+/**
+ * Local midnight starting the day or week (Monday) containing a date
+ */
+function periodStart(date: Date, per: HabitFrequency['per']): Date {
+	const start = per === 'week' ? getWeekStart(date) : date;
+	return new Date(start.getFullYear(), start.getMonth(), start.getDate());
+}
+
+function previousPeriod(start: Date, per: HabitFrequency['per']): Date {
+	const days = per === 'week' ? 7 : 1;
+	return new Date(start.getFullYear(), start.getMonth(), start.getDate() - days);
+}
+
+/**
+ * Streak, adherence and this period's count for one habit
+ *
+ * @param log - Entries for this habit (others are ignored)
+ */
+export function habitStats(habit: Habit, log: HabitLogEntry[], now = new Date()): HabitStats {
+	const { times, per } = habit.frequency;
+	const entries = log.filter((e) => e.habitId === habit.id && new Date(e.timestamp) <= now);
+
+	const counts = new Map<number, number>();
+	for (const entry of entries) {
+		const key = periodStart(new Date(entry.timestamp), per).getTime();
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+	const countAt = (start: Date) => counts.get(start.getTime()) ?? 0;
+
+	const thisPeriod = periodStart(now, per);
+	const current = countAt(thisPeriod);
+	const met = current >= times;
+
+	// The current period doesn't break the streak until it's over
+	let streak = 0;
+	let cursor = met ? thisPeriod : previousPeriod(thisPeriod, per);
+	while (countAt(cursor) >= times) {
+		streak++;
+		cursor = previousPeriod(cursor, per);
+	}
+
+	// Don't count periods before the habit existed
+	const began = habit.created ?? entries[0]?.timestamp;
+	const first = began ? periodStart(new Date(began), per) : thisPeriod;
+	const windowPeriods = per === 'week' ? ADHERENCE_DAYS / 7 : ADHERENCE_DAYS;
+
+	const shares: number[] = [];
+	cursor = met ? thisPeriod : previousPeriod(thisPeriod, per);
+	for (let i = met ? 0 : 1; i < windowPeriods && cursor >= first; i++) {
+		shares.push(Math.min(1, countAt(cursor) / times));
+		cursor = previousPeriod(cursor, per);
+	}
+
+	return {
+		streak,
+		adherence: shares.length > 0 ? shares.reduce((a, b) => a + b, 0) / shares.length : 0,
+		periods: shares.length,
+		current,
+		lastLogged: entries[entries.length - 1]?.timestamp,
+	};
+}
+
+/**
+ * Habits with their stats
+ */
+export function summarizeHabits(
+	habits: Habit[],
+	log: HabitLogEntry[],
+	now = new Date()
+): HabitSummary[] {
+	return habits.map((habit) => ({ ...habit, stats: habitStats(habit, log, now) }));
+}
+
+/**
+ * "today" or "this week"
+ */
+export function describePeriod(per: HabitFrequency['per']): string {
+	return per === 'day' ? 'today' : 'this week';
+}
+
+/**
+ * One line for a habit (e.g. "Exercise (3x/week): 2/3 this week, 4-week streak, 75%")
+ */
+export function formatHabit(habit: HabitSummary): string {
+	const { stats, frequency } = habit;
+	const unit = frequency.per;
+	const streak = stats.streak > 0 ? `, ${stats.streak}-${unit} streak` : '';
+	const adherence = stats.periods > 0 ? `, ${Math.round(stats.adherence * 100)}% adherence` : '';
+	return `${habit.title} (${describeFrequency(frequency)}): ${stats.current}/${frequency.times} ${describePeriod(unit)}${streak}${adherence}`;
+}
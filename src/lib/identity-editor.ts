@@ -0,0 +1,680 @@
+/**
+ * Identity Editor - Edit and remove entries in an identity
+ *
+ * Pure functions that return an updated identity, for use inside
+ * `updateIdentity` (which validates and saves the result). Goals and
+ * projects are addressed by ID, interests by topic.
+ */
+
+import { ValidationError } from './errors';
+import { GOAL_TERMS, type GoalTerm, isDerived, validateParent } from './goals';
+import {
+	type Belief,
+	type Challenge,
+	type Goal,
+	type Habit,
+	type HabitFrequency,
+	type Identity,
+	type Milestone,
+	type Project,
+	generateId,
+} from './schemas/identity';
+
+// ============================================
+// Types
+// ============================================
+
+export type EntryKind = 'goal' | 'project' | 'interest';
+export type InterestPriority = 'high' | 'medium' | 'low';
+
+export interface EntryRef {
+	kind: EntryKind;
+	/** ID, or topic for interests */
+	id: string;
+	/** Title, name or topic */
+	label: string;
+}
+
+/**
+ * Fields that can be edited; each applies to one kind of entry, except
+ * `description` (goals and projects). An empty string clears an optional field.
+ */
+export interface EntryChanges {
+	title?: string;
+	description?: string;
+	deadline?: string;
+	term?: GoalTerm;
+	parent?: string;
+	name?: string;
+	status?: Project['status'];
+	repo?: string;
+	next_actions?: string[];
+	topic?: string;
+	subtopics?: string[];
+	priority?: InterestPriority;
+}
+
+const EDITABLE_FIELDS: Record<EntryKind, Array<keyof EntryChanges>> = {
+	goal: ['title', 'description', 'deadline', 'term', 'parent'],
+	project: ['name', 'description', 'status', 'repo', 'next_actions'],
+	interest: ['topic', 'subtopics', 'priority'],
+};
+
+const TERMS = GOAL_TERMS;
+const PRIORITIES: InterestPriority[] = ['high', 'medium', 'low'];
+
+// ============================================
+// Lookup
+// ============================================
+
+function goalTerm(identity: Identity, id: string): GoalTerm | undefined {
+	return TERMS.find((term) => identity.goals[`${term}_term`].some((g) => g.id === id));
+}
+
+function interestPriority(identity: Identity, topic: string): InterestPriority | undefined {
+	return PRIORITIES.find((priority) =>
+		identity.interests[`${priority}_priority`].some((i) => sameTopic(i.topic, topic))
+	);
+}
+
+function sameTopic(a: string, b: string): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Find a goal or project by ID, or an interest by topic
+ */
+export function findEntry(identity: Identity, id: string): EntryRef | undefined {
+	const term = goalTerm(identity, id);
+	if (term) {
+		const goal = identity.goals[`${term}_term`].find((g) => g.id === id) as Goal;
+		return { kind: 'goal', id, label: goal.title };
+	}
+
+	const project = identity.projects.find((p) => p.id === id);
+	if (project) return { kind: 'project', id, label: project.name };
+
+	const priority = interestPriority(identity, id);
+	if (priority) {
+		const interest = identity.interests[`${priority}_priority`].find((i) => sameTopic(i.topic, id));
+		return { kind: 'interest', id: interest?.topic ?? id, label: interest?.topic ?? id };
+	}
+
+	return undefined;
+}
+
+function requireEntry(identity: Identity, id: string): EntryRef {
+	const entry = findEntry(identity, id);
+	if (!entry) {
+		throw new ValidationError(`No goal, project or interest with ID: ${id}`, {
+			field: 'id',
+			suggestion:
+				'Run `yxhyx identity goals -a` or `yxhyx identity projects -a` for IDs (interests use their topic)',
+		});
+	}
+	return entry;
+}
+
+// ============================================
+// Edit / Remove
+// ============================================
+
+/**
+ * Edit a goal, project or interest
+ *
+ * @throws ValidationError if the entry doesn't exist, or a change doesn't
+ *         apply to its kind
+ */
+export function editEntry(
+	identity: Identity,
+	id: string,
+	changes: EntryChanges
+): { identity: Identity; entry: EntryRef } {
+	const entry = requireEntry(identity, id);
+	const fields = (Object.keys(changes) as Array<keyof EntryChanges>).filter(
+		(field) => changes[field] !== undefined
+	);
+
+	if (fields.length === 0) {
+		throw new ValidationError('Nothing to change', {
+			field: 'changes',
+			suggestion: `A ${entry.kind} can change: ${EDITABLE_FIELDS[entry.kind].join(', ')}`,
+		});
+	}
+	const invalid = fields.filter((field) => !EDITABLE_FIELDS[entry.kind].includes(field));
+	if (invalid.length > 0) {
+		throw new ValidationError(`Can't change ${invalid.join(', ')} on a ${entry.kind}`, {
+			field: invalid[0],
+			suggestion: `A ${entry.kind} can change: ${EDITABLE_FIELDS[entry.kind].join(', ')}`,
+		});
+	}
+
+	if (changes.term !== undefined && !TERMS.includes(changes.term)) {
+		throw new ValidationError(`Invalid term: ${changes.term}`, {
+			field: 'term',
+			suggestion: `Use: ${TERMS.join(', ')}`,
+		});
+	}
+	if (changes.priority !== undefined && !PRIORITIES.includes(changes.priority)) {
+		throw new ValidationError(`Invalid priority: ${changes.priority}`, {
+			field: 'priority',
+			suggestion: `Use: ${PRIORITIES.join(', ')}`,
+		});
+	}
+
+	switch (entry.kind) {
+		case 'goal':
+			return { identity: editGoal(identity, entry.id, changes), entry };
+		case 'project':
+			return { identity: editProject(identity, entry.id, changes), entry };
+		case 'interest':
+			return { identity: editInterest(identity, entry.id, changes), entry };
+	}
+}
+
+function editGoal(identity: Identity, id: string, changes: EntryChanges): Identity {
+	const from = goalTerm(identity, id) as GoalTerm;
+	const to = changes.term ?? from;
+	const goal = identity.goals[`${from}_term`].find((g) => g.id === id) as Goal;
+
+	const updated: Goal = {
+		...goal,
+		...(changes.title !== undefined && { title: changes.title }),
+		...(changes.description !== undefined && { description: changes.description || undefined }),
+		...(changes.deadline !== undefined && { deadline: changes.deadline || undefined }),
+		...(changes.parent !== undefined && { parent: changes.parent || undefined }),
+	};
+
+	if (updated.parent && (changes.parent || changes.term)) {
+		validateParent(identity.goals, to, updated.parent);
+	}
+	// Sub-goals must stay shorter-term than their parent
+	const children = TERMS.flatMap((term) => identity.goals[`${term}_term`]).filter(
+		(g) => g.parent === id
+	);
+	if (changes.term && children.length > 0) {
+		for (const child of children) {
+			const childTerm = TERMS.find((term) =>
+				identity.goals[`${term}_term`].includes(child)
+			) as GoalTerm;
+			if (TERMS.indexOf(childTerm) >= TERMS.indexOf(to)) {
+				throw new ValidationError(
+					`"${child.title}" is a ${childTerm}-term sub-goal, so this goal must stay longer-term`,
+					{ field: 'term', suggestion: 'Move or unlink the sub-goal first' }
+				);
+			}
+		}
+	}
+
+	const goals = { ...identity.goals };
+	if (from === to) {
+		goals[`${from}_term`] = goals[`${from}_term`].map((g) => (g.id === id ? updated : g));
+	} else {
+		goals[`${from}_term`] = goals[`${from}_term`].filter((g) => g.id !== id);
+		goals[`${to}_term`] = [...goals[`${to}_term`], updated];
+	}
+
+	return { ...identity, goals };
+}
+
+function editProject(identity: Identity, id: string, changes: EntryChanges): Identity {
+	return {
+		...identity,
+		projects: identity.projects.map((p) =>
+			p.id === id
+				? {
+						...p,
+						...(changes.name !== undefined && { name: changes.name }),
+						...(changes.description !== undefined && { description: changes.description }),
+						...(changes.status !== undefined && { status: changes.status }),
+						...(changes.repo !== undefined && { repo: changes.repo || undefined }),
+						...(changes.next_actions !== undefined && { next_actions: changes.next_actions }),
+					}
+				: p
+		),
+	};
+}
+
+function editInterest(identity: Identity, topic: string, changes: EntryChanges): Identity {
+	const from = interestPriority(identity, topic) as InterestPriority;
+	const to = changes.priority ?? from;
+	const interest = identity.interests[`${from}_priority`].find((i) => sameTopic(i.topic, topic));
+
+	const updated = {
+		topic: changes.topic ?? (interest?.topic as string),
+		subtopics: changes.subtopics ?? interest?.subtopics ?? [],
+	};
+
+	const interests = { ...identity.interests };
+	if (from === to) {
+		interests[`${from}_priority`] = interests[`${from}_priority`].map((i) =>
+			sameTopic(i.topic, topic) ? updated : i
+		);
+	} else {
+		interests[`${from}_priority`] = interests[`${from}_priority`].filter(
+			(i) => !sameTopic(i.topic, topic)
+		);
+		interests[`${to}_priority`] = [...interests[`${to}_priority`], updated];
+	}
+
+	return { ...identity, interests };
+}
+
+/**
+ * Remove a goal, project or interest
+ *
+ * Links to a removed goal or project (from goals, projects and challenges)
+ * are removed too, and its sub-goals become top-level goals.
+ *
+ * @throws ValidationError if the entry doesn't exist
+ */
+export function removeEntry(
+	identity: Identity,
+	id: string
+): { identity: Identity; entry: EntryRef } {
+	const entry = requireEntry(identity, id);
+
+	switch (entry.kind) {
+		case 'goal': {
+			// Sub-goals become top-level goals
+			const goals = { ...identity.goals };
+			for (const term of TERMS) {
+				goals[`${term}_term`] = goals[`${term}_term`]
+					.filter((g) => g.id !== entry.id)
+					.map((g) => (g.parent === entry.id ? { ...g, parent: undefined } : g));
+			}
+			const unlink = <T extends { related_goals: string[] }>(item: T): T => ({
+				...item,
+				related_goals: item.related_goals.filter((g) => g !== entry.id),
+			});
+			return {
+				identity: {
+					...identity,
+					goals,
+					projects: identity.projects.map(unlink),
+					challenges: identity.challenges.map(unlink),
+				},
+				entry,
+			};
+		}
+
+		case 'project': {
+			const goals = { ...identity.goals };
+			for (const term of TERMS) {
+				goals[`${term}_term`] = goals[`${term}_term`].map((g) => ({
+					...g,
+					related_projects: g.related_projects.filter((p) => p !== entry.id),
+				}));
+			}
+			return {
+				identity: {
+					...identity,
+					goals,
+					projects: identity.projects.filter((p) => p.id !== entry.id),
+				},
+				entry,
+			};
+		}
+
+		case 'interest': {
+			const interests = { ...identity.interests };
+			for (const priority of PRIORITIES) {
+				interests[`${priority}_priority`] = interests[`${priority}_priority`].filter(
+					(i) => !sameTopic(i.topic, entry.id)
+				);
+			}
+			return { identity: { ...identity, interests }, entry };
+		}
+	}
+}
+
+// ============================================
+// Goal Progress & Milestones
+// ============================================
+
+function mapGoals(identity: Identity, update: (goal: Goal) => Goal): Identity {
+	return {
+		...identity,
+		goals: {
+			short_term: identity.goals.short_term.map(update),
+			medium_term: identity.goals.medium_term.map(update),
+			long_term: identity.goals.long_term.map(update),
+		},
+	};
+}
+
+function requireGoal(identity: Identity, goalId: string): Goal {
+	const goal = TERMS.flatMap((term) => identity.goals[`${term}_term`]).find((g) => g.id === goalId);
+	if (!goal) {
+		throw new ValidationError(`Goal not found: ${goalId}`, {
+			field: 'goal',
+			suggestion: 'Run `yxhyx identity goals -a` to see goal IDs',
+		});
+	}
+	return goal;
+}
+
+/**
+ * Set a goal's progress by hand
+ *
+ * @param progress - 0 to 1
+ * @throws ValidationError if there is no such goal, or its progress is
+ *         computed from milestones and sub-goals
+ */
+export function setGoalProgress(
+	identity: Identity,
+	goalId: string,
+	progress: number
+): { identity: Identity; goal: Goal } {
+	const goal = requireGoal(identity, goalId);
+	if (isDerived(identity.goals, goalId)) {
+		throw new ValidationError(
+			`"${goal.title}" gets its progress from its milestones and sub-goals`,
+			{
+				field: 'progress',
+				suggestion: 'Update a milestone with `yxhyx identity milestone done|set` instead',
+			}
+		);
+	}
+
+	const updated = { ...goal, progress };
+	return { identity: mapGoals(identity, (g) => (g.id === goalId ? updated : g)), goal: updated };
+}
+
+/**
+ * Add a milestone, or a key result when it has a numeric target
+ *
+ * @throws ValidationError if there is no such goal
+ */
+export function addMilestone(
+	identity: Identity,
+	goalId: string,
+	input: { title: string; target?: number; unit?: string; deadline?: string }
+): { identity: Identity; goal: Goal; milestone: Milestone } {
+	const goal = requireGoal(identity, goalId);
+	const milestone: Milestone = {
+		id: generateId('milestone'),
+		title: input.title,
+		done: false,
+		target: input.target,
+		current: 0,
+		unit: input.unit,
+		deadline: input.deadline,
+		created: new Date().toISOString(),
+	};
+
+	return {
+		identity: mapGoals(identity, (g) =>
+			g.id === goalId ? { ...g, milestones: [...g.milestones, milestone] } : g
+		),
+		goal,
+		milestone,
+	};
+}
+
+function requireMilestone(
+	identity: Identity,
+	milestoneId: string
+): { goal: Goal; milestone: Milestone } {
+	for (const goal of TERMS.flatMap((term) => identity.goals[`${term}_term`])) {
+		const milestone = goal.milestones.find((m) => m.id === milestoneId);
+		if (milestone) return { goal, milestone };
+	}
+	throw new ValidationError(`Milestone not found: ${milestoneId}`, {
+		field: 'milestone',
+		suggestion: 'Run `yxhyx identity goal <goal-id>` to see milestone IDs',
+	});
+}
+
+/**
+ * Mark a milestone done or open, or record a key result's current value
+ * (a key result is done once it reaches its target)
+ *
+ * @throws ValidationError if there is no such milestone
+ */
+export function updateMilestone(
+	identity: Identity,
+	milestoneId: string,
+	changes: { done?: boolean; current?: number; title?: string }
+): { identity: Identity; goal: Goal; milestone: Milestone } {
+	const { goal, milestone: existing } = requireMilestone(identity, milestoneId);
+
+	const milestone: Milestone = { ...existing, ...changes };
+	if (changes.current !== undefined && milestone.target) {
+		milestone.done = changes.current >= milestone.target;
+	}
+	if (changes.done === true && milestone.target && changes.current === undefined) {
+		milestone.current = Math.max(milestone.current, milestone.target);
+	}
+
+	return {
+		identity: mapGoals(identity, (g) =>
+			g.id === goal.id
+				? { ...g, milestones: g.milestones.map((m) => (m.id === milestoneId ? milestone : m)) }
+				: g
+		),
+		goal,
+		milestone,
+	};
+}
+
+/**
+ * Remove a milestone
+ *
+ * @throws ValidationError if there is no such milestone
+ */
+export function removeMilestone(
+	identity: Identity,
+	milestoneId: string
+): { identity: Identity; goal: Goal; milestone: Milestone } {
+	const { goal, milestone } = requireMilestone(identity, milestoneId);
+	return {
+		identity: mapGoals(identity, (g) =>
+			g.id === goal.id ? { ...g, milestones: g.milestones.filter((m) => m.id !== milestoneId) } : g
+		),
+		goal,
+		milestone,
+	};
+}
+
+// ============================================
+// Challenges
+// ============================================
+
+/**
+ * Add an active challenge
+ */
+export function addChallenge(
+	identity: Identity,
+	input: { title: string; description?: string; related_goals?: string[] }
+): { identity: Identity; challenge: Challenge } {
+	const challenge: Challenge = {
+		id: generateId('challenge'),
+		title: input.title,
+		description: input.description ?? '',
+		status: 'active',
+		related_goals: input.related_goals ?? [],
+		created: new Date().toISOString(),
+	};
+	return { identity: { ...identity, challenges: [...identity.challenges, challenge] }, challenge };
+}
+
+/**
+ * Mark a challenge active, resolved or abandoned
+ *
+ * @throws ValidationError if there is no such challenge
+ */
+export function setChallengeStatus(
+	identity: Identity,
+	id: string,
+	status: Challenge['status']
+): { identity: Identity; challenge: Challenge } {
+	const existing = identity.challenges.find((c) => c.id === id);
+	if (!existing) {
+		throw new ValidationError(`Challenge not found: ${id}`, {
+			field: 'id',
+			suggestion: 'Run `yxhyx identity challenge list -a` to see challenge IDs',
+		});
+	}
+
+	const challenge = { ...existing, status };
+	return {
+		identity: {
+			...identity,
+			challenges: identity.challenges.map((c) => (c.id === id ? challenge : c)),
+		},
+		challenge,
+	};
+}
+
+// ============================================
+// Beliefs
+// ============================================
+
+function requireBelief(identity: Identity, id: string): Belief {
+	const belief = identity.beliefs.find((b) => b.id === id);
+	if (!belief) {
+		throw new ValidationError(`Belief not found: ${id}`, {
+			field: 'id',
+			suggestion: 'Run `yxhyx identity belief list` to see belief IDs',
+		});
+	}
+	return belief;
+}
+
+/**
+ * Add a belief
+ *
+ * @param confidence - 0 to 1
+ */
+export function addBelief(
+	identity: Identity,
+	statement: string,
+	confidence: number
+): { identity: Identity; belief: Belief } {
+	const belief: Belief = {
+		id: generateId('belief'),
+		statement,
+		confidence,
+		added: new Date().toISOString().split('T')[0],
+	};
+	return { identity: { ...identity, beliefs: [...identity.beliefs, belief] }, belief };
+}
+
+/**
+ * Change how confident you are in a belief
+ *
+ * @param confidence - 0 to 1
+ * @throws ValidationError if there is no such belief
+ */
+export function updateBeliefConfidence(
+	identity: Identity,
+	id: string,
+	confidence: number
+): { identity: Identity; belief: Belief } {
+	const belief = { ...requireBelief(identity, id), confidence };
+	return {
+		identity: { ...identity, beliefs: identity.beliefs.map((b) => (b.id === id ? belief : b)) },
+		belief,
+	};
+}
+
+/**
+ * Remove a belief
+ *
+ * @throws ValidationError if there is no such belief
+ */
+export function removeBelief(
+	identity: Identity,
+	id: string
+): { identity: Identity; belief: Belief } {
+	const belief = requireBelief(identity, id);
+	return {
+		identity: { ...identity, beliefs: identity.beliefs.filter((b) => b.id !== id) },
+		belief,
+	};
+}
+
+// ============================================
+// Habits
+// ============================================
+
+/**
+ * Find a habit by ID, or by title (ignoring case)
+ *
+ * @throws ValidationError if there is no such habit
+ */
+export function findHabit(identity: Identity, idOrTitle: string): Habit {
+	const title = idOrTitle.toLowerCase();
+	const habit =
+		identity.habits.find((h) => h.id === idOrTitle) ??
+		identity.habits.find((h) => h.title.toLowerCase() === title);
+	if (!habit) {
+		throw new ValidationError(`Habit not found: ${idOrTitle}`, {
+			field: 'id',
+			suggestion: 'Run `yxhyx habit list -a` to see habit IDs',
+		});
+	}
+	return habit;
+}
+
+/**
+ * Add an active habit
+ */
+export function addHabit(
+	identity: Identity,
+	input: {
+		title: string;
+		frequency: HabitFrequency;
+		description?: string;
+		related_goals?: string[];
+	}
+): { identity: Identity; habit: Habit } {
+	const habit: Habit = {
+		id: generateId('habit'),
+		title: input.title,
+		description: input.description,
+		frequency: input.frequency,
+		status: 'active',
+		related_goals: input.related_goals ?? [],
+		created: new Date().toISOString(),
+	};
+	return { identity: { ...identity, habits: [...identity.habits, habit] }, habit };
+}
+
+/**
+ * Change a habit's title, description, frequency or status
+ *
+ * @throws ValidationError if there is no such habit
+ */
+export function updateHabit(
+	identity: Identity,
+	idOrTitle: string,
+	changes: Partial<Pick<Habit, 'title' | 'description' | 'frequency' | 'status'>>
+): { identity: Identity; habit: Habit } {
+	const existing = findHabit(identity, idOrTitle);
+	const habit = { ...existing, ...changes };
+	return {
+		identity: {
+			...identity,
+			habits: identity.habits.map((h) => (h.id === existing.id ? habit : h)),
+		},
+		habit,
+	};
+}
+
+/**
+ * Remove a habit (its log entries are kept)
+ *
+ * @throws ValidationError if there is no such habit
+ */
+export function removeHabit(
+	identity: Identity,
+	idOrTitle: string
+): { identity: Identity; habit: Habit } {
+	const habit = findHabit(identity, idOrTitle);
+	return {
+		identity: { ...identity, habits: identity.habits.filter((h) => h.id !== habit.id) },
+		habit,
+	};
+}
@@ -0,0 +1,322 @@
+/**
+ * Identity History - Versioned snapshots of identity.yaml
+ *
+ * Every save writes a numbered snapshot and an index entry recording the
+ * command that made it, so a bad update can be diffed and rolled back.
+ * Old snapshots are pruned by count and age (the newest few are kept
+ * however old they are).
+ */
+
+import { existsSync } from 'node:fs';
+import { appendFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { parse } from 'yaml';
+import { ValidationError } from './errors';
+import { migrateIdentity } from './identity-migrations';
+import type { Identity } from './schemas/identity';
+
+// Paths
+const YXHYX_DIR = `${process.env.HOME}/.yxhyx`;
+const HISTORY_DIR = `${YXHYX_DIR}/identity/history`;
+const INDEX_FILE = `${HISTORY_DIR}/index.jsonl`;
+
+// ============================================
+// Types
+// ============================================
+
+export interface SnapshotMeta {
+	version: number;
+	timestamp: string;
+	/** Command that saved this version (e.g. `identity add-goal`) */
+	source: string;
+	/** What changed since the previous version */
+	summary: string;
+}
+
+export interface RetentionLimits {
+	/** Keep at most this many versions */
+	maxVersions: number;
+	/** Drop versions older than this */
+	maxAgeDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionLimits = { maxVersions: 100, maxAgeDays: 180 };
+
+const NO_CHANGES = 'no changes';
+
+/** The newest versions are never pruned for age */
+const MIN_VERSIONS = 10;
+
+export interface FieldChange {
+	field: string;
+	from: unknown;
+	to: unknown;
+}
+
+export interface EntryRef {
+	/** ID, or topic for interests */
+	key: string;
+	/** Title, name or topic */
+	label: string;
+}
+
+export interface SectionDiff {
+	added: EntryRef[];
+	removed: EntryRef[];
+	changed: Array<EntryRef & { changes: FieldChange[] }>;
+}
+
+export interface IdentityDiff {
+	goals: SectionDiff;
+	projects: SectionDiff;
+	interests: SectionDiff;
+	/** Other top-level sections that differ (about, preferences, ...) */
+	other: string[];
+}
+
+// ============================================
+// Diff
+// ============================================
+
+type Entry = EntryRef & { fields: Record<string, unknown> };
+
+function goalEntries(identity: Identity): Entry[] {
+	return (['short_term', 'medium_term', 'long_term'] as const).flatMap((term) =>
+		identity.goals[term].map(({ id, title, ...rest }) => ({
+			key: id,
+			label: title,
+			fields: { title, term, ...rest },
+		}))
+	);
+}
+
+function projectEntries(identity: Identity): Entry[] {
+	return identity.projects.map(({ id, name, ...rest }) => ({
+		key: id,
+		label: name,
+		fields: { name, ...rest },
+	}));
+}
+
+function interestEntries(identity: Identity): Entry[] {
+	return (['high_priority', 'medium_priority', 'low_priority'] as const).flatMap((priority) =>
+		identity.interests[priority].map(({ topic, subtopics }) => ({
+			key: topic,
+			label: topic,
+			fields: { priority, subtopics },
+		}))
+	);
+}
+
+function diffSection(before: Entry[], after: Entry[]): SectionDiff {
+	const beforeByKey = new Map(before.map((e) => [e.key, e]));
+	const afterByKey = new Map(after.map((e) => [e.key, e]));
+	const ref = ({ key, label }: Entry): EntryRef => ({ key, label });
+
+	const changed: SectionDiff['changed'] = [];
+	for (const entry of after) {
+		const previous = beforeByKey.get(entry.key);
+		if (!previous) continue;
+
+		const fields = new Set([...Object.keys(previous.fields), ...Object.keys(entry.fields)]);
+		const changes = [...fields]
+			.filter(
+				(field) => JSON.stringify(previous.fields[field]) !== JSON.stringify(entry.fields[field])
+			)
+			.map((field) => ({ field, from: previous.fields[field], to: entry.fields[field] }));
+		if (changes.length > 0) changed.push({ ...ref(entry), changes });
+	}
+
+	return {
+		added: after.filter((e) => !beforeByKey.has(e.key)).map(ref),
+		removed: before.filter((e) => !afterByKey.has(e.key)).map(ref),
+		changed,
+	};
+}
+
+/**
+ * Structured diff of goals, projects and interests between two identities
+ */
+export function diffIdentities(before: Identity, after: Identity): IdentityDiff {
+	const tracked = new Set(['goals', 'projects', 'interests', 'last_updated']);
+	const sections = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+	return {
+		goals: diffSection(goalEntries(before), goalEntries(after)),
+		projects: diffSection(projectEntries(before), projectEntries(after)),
+		interests: diffSection(interestEntries(before), interestEntries(after)),
+		other: [...sections].filter(
+			(section) =>
+				!tracked.has(section) &&
+				JSON.stringify(before[section as keyof Identity]) !==
+					JSON.stringify(after[section as keyof Identity])
+		),
+	};
+}
+
+/**
+ * One-line summary of a diff (e.g. "+1 goal, ~2 projects, about")
+ */
+export function summarizeDiff(diff: IdentityDiff): string {
+	const parts: string[] = [];
+	for (const [name, section] of [
+		['goal', diff.goals],
+		['project', diff.projects],
+		['interest', diff.interests],
+	] as const) {
+		for (const [sign, count] of [
+			['+', section.added.length],
+			['-', section.removed.length],
+			['~', section.changed.length],
+		] as const) {
+			if (count > 0) parts.push(`${sign}${count} ${name}${count === 1 ? '' : 's'}`);
+		}
+	}
+	parts.push(...diff.other);
+	return parts.join(', ') || NO_CHANGES;
+}
+
+// ============================================
+// Snapshots
+// ============================================
+
+function snapshotPath(version: number): string {
+	return `${HISTORY_DIR}/v${String(version).padStart(6, '0')}.yaml`;
+}
+
+/**
+ * Parse `3` or `v3` into a version number
+ *
+ * @throws ValidationError for anything else
+ */
+export function parseVersion(value: string): number {
+	const match = value.trim().match(/^v?(\d+)$/i);
+	if (!match) {
+		throw new ValidationError(`Invalid version: ${value}`, {
+			field: 'version',
+			suggestion: 'Use a version number from `yxhyx identity history`, e.g. 12 or v12',
+		});
+	}
+	return Number.parseInt(match[1], 10);
+}
+
+/**
+ * List snapshots, oldest first
+ */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+	try {
+		const content = await readFile(INDEX_FILE, 'utf-8');
+		return content
+			.trim()
+			.split('\n')
+			.filter(Boolean)
+			.map((line) => JSON.parse(line));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Load the identity saved as a version
+ *
+ * @throws ValidationError if the version doesn't exist (or was pruned)
+ */
+export async function loadSnapshot(version: number): Promise<Identity> {
+	const path = snapshotPath(version);
+	if (!existsSync(path)) {
+		throw new ValidationError(`Identity version not found: v${version}`, {
+			field: 'version',
+			suggestion: 'Run `yxhyx identity history` to see available versions',
+		});
+	}
+	return migrateIdentity(parse(await readFile(path, 'utf-8'))).identity;
+}
+
+/**
+ * Record a saved identity as the next version
+ *
+ * Returns the latest version unchanged when nothing but the timestamp
+ * differs from it.
+ *
+ * @param content - The YAML exactly as written to identity.yaml
+ * @param previous - The identity it replaced, if any (the baseline version
+ *                   when history is empty)
+ */
+export async function recordSnapshot(
+	identity: Identity,
+	content: string,
+	source: string,
+	previous?: { identity: Identity; content: string }
+): Promise<SnapshotMeta> {
+	await mkdir(HISTORY_DIR, { recursive: true });
+	const snapshots = await listSnapshots();
+	let last = snapshots[snapshots.length - 1];
+
+	// Keep the file as it was before history existed
+	if (!last && previous) {
+		last = {
+			version: 1,
+			timestamp: previous.identity.last_updated,
+			source: 'baseline',
+			summary: 'identity before history was recorded',
+		};
+		await writeFile(snapshotPath(last.version), previous.content);
+		await appendFile(INDEX_FILE, `${JSON.stringify(last)}\n`);
+	}
+
+	const before = last ? await loadSnapshot(last.version).catch(() => undefined) : undefined;
+	const summary = before ? summarizeDiff(diffIdentities(before, identity)) : 'first version';
+
+	// Saves that change nothing don't need a version
+	if (last && summary === NO_CHANGES) return last;
+
+	const meta: SnapshotMeta = {
+		version: (last?.version ?? 0) + 1,
+		timestamp: identity.last_updated,
+		source,
+		summary,
+	};
+
+	await writeFile(snapshotPath(meta.version), content);
+	await appendFile(INDEX_FILE, `${JSON.stringify(meta)}\n`);
+	await pruneSnapshots();
+
+	return meta;
+}
+
+/**
+ * Delete snapshots beyond the retention limits
+ *
+ * @returns Versions deleted
+ */
+export async function pruneSnapshots(limits: Partial<RetentionLimits> = {}): Promise<number[]> {
+	const { maxVersions, maxAgeDays } = { ...DEFAULT_RETENTION, ...limits };
+	const snapshots = await listSnapshots();
+	const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+	const kept = snapshots.filter((snapshot, i) => {
+		const fromEnd = snapshots.length - i;
+		if (fromEnd > maxVersions) return false;
+		return fromEnd <= MIN_VERSIONS || new Date(snapshot.timestamp).getTime() >= cutoff;
+	});
+	if (kept.length === snapshots.length) return [];
+
+	const pruned = snapshots.filter((s) => !kept.includes(s)).map((s) => s.version);
+	for (const version of pruned) {
+		await rm(snapshotPath(version), { force: true });
+	}
+	await writeFile(INDEX_FILE, kept.map((s) => `${JSON.stringify(s)}\n`).join(''));
+
+	return pruned;
+}
+
+/**
+ * Source label for a save, from the CLI arguments (e.g. `identity add-goal`)
+ */
+export function commandSource(): string {
+	const words: string[] = [];
+	for (const arg of process.argv.slice(2)) {
+		if (arg.startsWith('-') || words.length === 2) break;
+		words.push(arg);
+	}
+	return words.join(' ') || 'yxhyx';
+}
@@ -0,0 +1,239 @@
+/**
+ * Identity Migrations - Upgrade older identity.yaml files to the current schema
+ *
+ * Each migration moves the raw YAML data from one schema version to the
+ * next. Files are migrated in memory when loaded, and rewritten (after a
+ * backup of the original) on the next save or `yxhyx identity migrate`.
+ */
+
+import { createHash } from 'node:crypto';
+import { ValidationError } from './errors';
+import { IDENTITY_VERSION, type Identity, IdentitySchema } from './schemas/identity';
+
+// ============================================
+// Types
+// ============================================
+
+/** identity.yaml as parsed, before validation */
+export type RawIdentity = Record<string, unknown>;
+
+export interface IdentityMigration {
+	from: string;
+	to: string;
+	/** Shown by `yxhyx identity migrate --dry-run` and `yxhyx verify` */
+	description: string;
+	migrate(data: RawIdentity): RawIdentity;
+}
+
+export interface MigrationResult {
+	/** Version on disk */
+	from: string;
+	/** Version after migrating */
+	to: string;
+	applied: IdentityMigration[];
+	identity: Identity;
+}
+
+/** Files written before the version field existed */
+const UNVERSIONED = '1.0';
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * ID for a belief that predates belief IDs
+ *
+ * Files are migrated in memory on every load until they're saved, so the
+ * ID has to come out the same each time: it's hashed from the belief (and
+ * its position, in case two are identical).
+ */
+function legacyBeliefId(belief: Record<string, unknown>, index: number): string {
+	const hash = createHash('sha256')
+		.update(JSON.stringify([belief.statement, belief.added, index]))
+		.digest('hex');
+	return `belief-${hash.slice(0, 8)}-${hash.slice(8, 12)}`;
+}
+
+/**
+ * Ordered migrations; the last one must end at IDENTITY_VERSION
+ */
+export const MIGRATIONS: IdentityMigration[] = [
+	{
+		from: '1.0',
+		to: '1.1',
+		description: 'Give beliefs IDs so they can be updated and removed',
+		migrate: (data) => ({
+			...data,
+			beliefs: Array.isArray(data.beliefs)
+				? data.beliefs.map((belief: Record<string, unknown>, index: number) => ({
+						id: legacyBeliefId(belief, index),
+						...belief,
+					}))
+				: data.beliefs,
+		}),
+	},
+	{
+		from: '1.1',
+		to: '1.2',
+		// Nothing to convert, but older versions would drop the new fields
+		description: 'Add milestones and parent goals',
+		migrate: (data) => data,
+	},
+	{
+		from: '1.2',
+		to: '1.3',
+		description: 'Add habits',
+		migrate: (data) => ({ ...data, habits: Array.isArray(data.habits) ? data.habits : [] }),
+	},
+];
+
+// ============================================
+// Versions
+// ============================================
+
+/**
+ * Compare dotted versions numerically (`1.10` > `1.9`, `1` == `1.0`)
+ */
+export function compareVersions(a: string, b: string): number {
+	const left = a.split('.').map(Number);
+	const right = b.split('.').map(Number);
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const diff = (left[i] ?? 0) - (right[i] ?? 0);
+		if (diff !== 0) return Math.sign(diff);
+	}
+	return 0;
+}
+
+/**
+ * Schema version of raw identity data
+ *
+ * @throws ValidationError if the data isn't a YAML mapping
+ */
+export function detectVersion(data: unknown): string {
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		throw new ValidationError('identity.yaml is empty or not a YAML mapping', {
+			field: 'identity',
+			suggestion: 'Restore a version with `yxhyx identity rollback`, or run `yxhyx init --force`',
+		});
+	}
+
+	// `version: 1.0` without quotes parses as a number
+	const { version } = data as RawIdentity;
+	return version === undefined || version === null ? UNVERSIONED : String(version);
+}
+
+/**
+ * Migrations still to apply to data at a version
+ */
+export function pendingMigrations(
+	version: string,
+	migrations: IdentityMigration[] = MIGRATIONS
+): IdentityMigration[] {
+	return migrations.filter((m) => compareVersions(m.to, version) > 0);
+}
+
+// ============================================
+// Migrate
+// ============================================
+
+/**
+ * Apply pending migrations to raw identity data and validate the result
+ *
+ * The input is not modified.
+ *
+ * @throws ValidationError if the data is from a newer Yxhyx, or is invalid
+ */
+export function migrateIdentity(
+	data: unknown,
+	migrations: IdentityMigration[] = MIGRATIONS
+): MigrationResult {
+	const from = detectVersion(data);
+
+	// Loading would silently drop fields this version doesn't know about
+	if (compareVersions(from, IDENTITY_VERSION) > 0) {
+		throw new ValidationError(
+			`identity.yaml is version ${from}, newer than this Yxhyx supports (${IDENTITY_VERSION})`,
+			{ field: 'version', suggestion: 'Update Yxhyx before making changes' }
+		);
+	}
+
+	const applied = pendingMigrations(from, migrations);
+	let migrated = structuredClone(data as RawIdentity);
+	for (const migration of applied) {
+		migrated = { ...migration.migrate(migrated), version: migration.to };
+	}
+	migrated.version = IDENTITY_VERSION;
+
+	const identity = validateIdentity(migrated, {
+		subject:
+			applied.length > 0 ? `identity.yaml (migrated to v${IDENTITY_VERSION})` : 'identity.yaml',
+		suggestion: 'Fix the file by hand, or restore a version with `yxhyx identity rollback`',
+	});
+
+	return { from, to: IDENTITY_VERSION, applied, identity };
+}
+
+/**
+ * Validate identity data against the schema
+ *
+ * @param options.subject - What's being validated, for the error message
+ * @throws ValidationError naming the first invalid field
+ */
+export function validateIdentity(
+	data: unknown,
+	options: { subject?: string; suggestion?: string } = {}
+): Identity {
+	const result = IdentitySchema.safeParse(data);
+	if (result.success) return result.data;
+
+	const issue = result.error.issues[0];
+	const field = issue.path.join('.');
+	throw new ValidationError(
+		`${options.subject ?? 'Identity'} is invalid: ${field ? `${field}: ` : ''}${issue.message}`,
+		{ field, suggestion: options.suggestion }
+	);
+}
+
+// ============================================
+// Changes
+// ============================================
+
+function formatValue(value: unknown): string {
+	const text = JSON.stringify(value) ?? String(value);
+	return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-level changes between two YAML values, one line each
+ * (`+ path: value`, `- path`, `~ path: from → to`)
+ *
+ * Fields the schema drops show up as removals.
+ */
+export function describeChanges(before: unknown, after: unknown, path = ''): string[] {
+	if (isMapping(before) && isMapping(after)) {
+		const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+		return [...keys].flatMap((key) => {
+			const child = path ? `${path}.${key}` : key;
+			if (!(key in after)) return [`- ${child}`];
+			if (!(key in before)) return [`+ ${child}: ${formatValue(after[key])}`];
+			return describeChanges(before[key], after[key], child);
+		});
+	}
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		return Array.from({ length: Math.max(before.length, after.length) }, (_, i) => {
+			const child = `${path}[${i}]`;
+			if (i >= after.length) return [`- ${child}`];
+			if (i >= before.length) return [`+ ${child}: ${formatValue(after[i])}`];
+			return describeChanges(before[i], after[i], child);
+		}).flat();
+	}
+
+	if (JSON.stringify(before) === JSON.stringify(after)) return [];
+	return [`~ ${path}: ${formatValue(before)} → ${formatValue(after)}`];
+}
@@ -0,0 +1,293 @@
+/**
+ * Chat Sessions - Persistent, resumable chat transcripts
+ *
+ * A chat session is a STANDARD work session whose directory also holds the
+ * conversation as `transcript.jsonl` (linked from `meta.yaml`). Each
+ * message is one line, so turn IDs are stable and later ratings can point
+ * at the exact assistant turn they rate.
+ */
+
+import { existsSync } from 'node:fs';
+import { appendFile, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { ValidationError } from '../errors';
+import type { ChatMessage } from '../model-router/tools';
+import type { TranscriptEntry, WorkMeta } from '../schemas/work';
+import { workManager } from './work-manager';
+
+// ============================================
+// Paths
+// ============================================
+
+const YXHYX_DIR = `${process.env.HOME}/.yxhyx`;
+const WORK_DIR = `${YXHYX_DIR}/memory/work`;
+const TRANSCRIPT_FILE = 'transcript.jsonl';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ChatSessionSummary {
+	id: string;
+	title: string;
+	created: string;
+	updated: string;
+	/** Assistant responses in the session */
+	turns: number;
+	cost_usd: number;
+}
+
+export type TranscriptFormat = 'markdown' | 'json';
+
+// ============================================
+// Chat Session Manager Class
+// ============================================
+
+export class ChatSessionManager {
+	/**
+	 * Start a chat session
+	 *
+	 * @param prompt - The first message (becomes the session title)
+	 * @returns Session ID (the work session ID)
+	 */
+	async startSession(prompt: string): Promise<string> {
+		const id = await workManager.createWork(prompt, 'STANDARD');
+		await workManager.updateMeta(id, { transcript: TRANSCRIPT_FILE });
+		return id;
+	}
+
+	/**
+	 * Reopen a session and return its conversation
+	 *
+	 * @throws ValidationError if there is no such session
+	 */
+	async resumeSession(sessionId: string): Promise<ChatMessage[]> {
+		const transcript = await this.getTranscript(sessionId);
+		await workManager.updateMeta(sessionId, {
+			status: 'active',
+			updated: new Date().toISOString(),
+		});
+		return transcript.map(toChatMessage);
+	}
+
+	/**
+	 * Append messages to a session's transcript
+	 *
+	 * @param details - Model and cost of the response, recorded on the last
+	 *                  assistant message
+	 * @returns The new transcript entries
+	 */
+	async appendMessages(
+		sessionId: string,
+		messages: ChatMessage[],
+		details: { model?: string; cost?: number } = {}
+	): Promise<TranscriptEntry[]> {
+		const existing = await this.readTranscript(sessionId);
+		const timestamp = new Date().toISOString();
+		const lastAssistant = messages.map((m) => m.role).lastIndexOf('assistant');
+
+		const entries = messages.map(
+			(message, i): TranscriptEntry => ({
+				id: `turn-${existing.length + i + 1}`,
+				timestamp,
+				role: message.role,
+				content: message.content,
+				tool_calls: message.toolCalls,
+				tool_call_id: message.toolCallId,
+				...(i === lastAssistant && { model_used: details.model, cost_usd: details.cost }),
+			})
+		);
+
+		await appendFile(
+			this.transcriptPath(sessionId),
+			entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+		);
+
+		const cost = [...existing, ...entries].reduce((sum, e) => sum + (e.cost_usd ?? 0), 0);
+		await workManager.updateMeta(sessionId, { updated: timestamp, total_cost_usd: cost });
+
+		return entries;
+	}
+
+	/**
+	 * Record a rating on an assistant turn
+	 */
+	async rateTurn(
+		sessionId: string,
+		turnId: string,
+		rating: { id: string; rating: number }
+	): Promise<void> {
+		const transcript = await this.readTranscript(sessionId);
+		const turn = transcript.find((entry) => entry.id === turnId);
+		if (!turn) return;
+
+		turn.rating = rating.rating;
+		turn.rating_id = rating.id;
+		await this.writeTranscript(sessionId, transcript);
+	}
+
+	/**
+	 * Get a session's transcript
+	 *
+	 * @throws ValidationError if there is no such session
+	 */
+	async getTranscript(sessionId: string): Promise<TranscriptEntry[]> {
+		const meta = await workManager.getMeta(sessionId);
+		if (!meta?.transcript) {
+			throw new ValidationError(`Chat session not found: ${sessionId}`, {
+				field: 'session',
+				suggestion: 'Run `yxhyx chat sessions list` to see session IDs',
+			});
+		}
+		return this.readTranscript(sessionId);
+	}
+
+	/**
+	 * Get session metadata
+	 *
+	 * @throws ValidationError if there is no such session
+	 */
+	async getSession(sessionId: string): Promise<ChatSessionSummary> {
+		const transcript = await this.getTranscript(sessionId);
+		const meta = (await workManager.getMeta(sessionId)) as WorkMeta;
+		return summarize(meta, transcript);
+	}
+
+	/**
+	 * List sessions with at least one response, most recently used first
+	 */
+	async listSessions(limit = 20): Promise<ChatSessionSummary[]> {
+		let entries: string[];
+		try {
+			entries = await readdir(WORK_DIR);
+		} catch {
+			return [];
+		}
+
+		const sessions: ChatSessionSummary[] = [];
+		for (const entry of entries) {
+			if (!existsSync(`${WORK_DIR}/${entry}/${TRANSCRIPT_FILE}`)) continue;
+
+			const meta = await workManager.getMeta(entry);
+			if (!meta?.transcript) continue;
+
+			const summary = summarize(meta, await this.readTranscript(entry));
+			if (summary.turns > 0) sessions.push(summary);
+		}
+
+		return sessions
+			.sort((a, b) => new Date(b.updated).getTime() - new Date(a.updated).getTime())
+			.slice(0, limit);
+	}
+
+	/**
+	 * The most recently used session, for `chat --continue`
+	 */
+	async getLastSession(): Promise<ChatSessionSummary | null> {
+		const [last] = await this.listSessions(1);
+		return last ?? null;
+	}
+
+	/**
+	 * Render a session as Markdown or JSON
+	 *
+	 * Markdown shows the conversation only (no system prompt or tool results).
+	 */
+	async exportSession(sessionId: string, format: TranscriptFormat = 'markdown'): Promise<string> {
+		const transcript = await this.getTranscript(sessionId);
+		const session = await this.getSession(sessionId);
+
+		if (format === 'json') {
+			return `${JSON.stringify({ session, transcript }, null, 2)}\n`;
+		}
+
+		const lines = [
+			`# ${session.title}`,
+			'',
+			`Session \`${session.id}\` - started ${session.created}, ${session.turns} responses, $${session.cost_usd.toFixed(4)}`,
+		];
+
+		for (const entry of transcript) {
+			if (entry.role === 'user') {
+				lines.push('', `## You (${entry.id})`, '', entry.content);
+			} else if (entry.role === 'assistant') {
+				const notes = [
+					entry.id,
+					entry.model_used,
+					entry.rating !== undefined && `rated ${entry.rating}/10`,
+				].filter(Boolean);
+				lines.push('', `## Yxhyx (${notes.join(', ')})`, '');
+				if (entry.content) lines.push(entry.content);
+				for (const call of entry.tool_calls ?? []) {
+					lines.push(`_Called \`${call.name}\`_`);
+				}
+			}
+		}
+
+		return `${lines.join('\n')}\n`;
+	}
+
+	/**
+	 * Delete a session and its work directory
+	 *
+	 * @throws ValidationError if there is no such session
+	 */
+	async deleteSession(sessionId: string): Promise<void> {
+		await this.getTranscript(sessionId);
+		await rm(`${WORK_DIR}/${sessionId}`, { recursive: true, force: true });
+	}
+
+	// ============================================
+	// Private Methods
+	// ============================================
+
+	private transcriptPath(sessionId: string): string {
+		return `${WORK_DIR}/${sessionId}/${TRANSCRIPT_FILE}`;
+	}
+
+	private async readTranscript(sessionId: string): Promise<TranscriptEntry[]> {
+		try {
+			const content = await readFile(this.transcriptPath(sessionId), 'utf-8');
+			return content
+				.trim()
+				.split('\n')
+				.filter(Boolean)
+				.map((line) => JSON.parse(line));
+		} catch {
+			return [];
+		}
+	}
+
+	private async writeTranscript(sessionId: string, transcript: TranscriptEntry[]): Promise<void> {
+		await writeFile(
+			this.transcriptPath(sessionId),
+			transcript.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+		);
+	}
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function toChatMessage(entry: TranscriptEntry): ChatMessage {
+	return {
+		role: entry.role,
+		content: entry.content,
+		...(entry.tool_calls && { toolCalls: entry.tool_calls }),
+		...(entry.tool_call_id && { toolCallId: entry.tool_call_id }),
+	};
+}
+
+function summarize(meta: WorkMeta, transcript: TranscriptEntry[]): ChatSessionSummary {
+	return {
+		id: meta.id,
+		title: meta.title,
+		created: meta.created,
+		updated: meta.updated,
+		turns: transcript.filter((entry) => entry.role === 'assistant').length,
+		cost_usd: meta.total_cost_usd ?? 0,
+	};
+}
+
+// Export singleton instance
+export const chatSessions = new ChatSessionManager();
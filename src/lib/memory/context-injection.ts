@@ -6,6 +6,7 @@
  */
 
 import { loadIdentity } from '../context-loader';
+import type { LearningTaskType } from '../schemas/learning';
 import { retrieveRelevantLearnings } from './learning-manager';
 import { workManager } from './work-manager';
 
@@ -13,7 +14,7 @@ import { workManager } from './work-manager';
 // Types
 // ============================================
 
-export type TaskType = 'chat' | 'checkin' | 'news' | 'research' | 'project';
+export type TaskType = LearningTaskType;
 
 // ============================================
 // Context Building
@@ -29,8 +30,8 @@ export async function buildEnhancedContext(prompt: string, taskType: TaskType):
 	// Get identity context
 	const identity = await loadIdentity();
 
-	// Get relevant past learnings
-	const learnings = await retrieveRelevantLearnings(prompt, 3);
+	// Get relevant past learnings (plus any pinned for this task type)
+	const learnings = await retrieveRelevantLearnings(prompt, 3, taskType);
 
 	// Get current work context
 	const currentWork = await workManager.getCurrentWork();
@@ -0,0 +1,119 @@
+/**
+ * Lesson Distillation - Turn a rated interaction into a reusable lesson
+ *
+ * The cheapest model reads the rated prompt and response and writes a
+ * concrete situation, lesson, action items and tags. Input is truncated and
+ * output capped so a distillation costs a fraction of a cent. Callers fall
+ * back to the heuristic lesson when this fails (offline, no keys, budget
+ * exhausted, unparseable output).
+ */
+
+import { z } from 'zod';
+import type { Rating } from '../schemas/learning';
+import type { WorkItem } from '../schemas/work';
+
+// ============================================
+// Types
+// ============================================
+
+const DistilledLessonSchema = z.object({
+	situation: z.string().min(1),
+	lesson: z.string().min(1),
+	action_items: z.array(z.string()).default([]),
+	tags: z.array(z.string()).default([]),
+});
+
+export type DistilledLesson = z.infer<typeof DistilledLessonSchema>;
+
+export interface DistillInput {
+	type: 'failure' | 'success';
+	rating: Rating;
+	/** The rated work item, when the rating is linked to one */
+	item?: WorkItem;
+}
+
+const MAX_PROMPT_CHARS = 1000;
+const MAX_RESPONSE_CHARS = 1500;
+const MAX_OUTPUT_TOKENS = 400;
+const MAX_TAGS = 5;
+
+// ============================================
+// Distillation
+// ============================================
+
+/**
+ * Build the distillation prompt for a rated interaction
+ */
+export function buildDistillPrompt(input: DistillInput): string {
+	const { type, rating, item } = input;
+	const prompt = item?.prompt || rating.prompt_snippet || 'Unknown';
+	const response = item?.response_summary || rating.response_snippet || 'Not recorded';
+	const feedback = rating.comment || rating.sentiment_summary || 'None given';
+
+	return `The user rated this AI interaction ${rating.rating}/10.
+
+User's request:
+${prompt.substring(0, MAX_PROMPT_CHARS)}
+
+AI response (summary):
+${response.substring(0, MAX_RESPONSE_CHARS)}
+
+User's feedback: ${feedback}
+
+Distill one reusable lesson about ${type === 'failure' ? 'what to avoid' : 'what to repeat'} in similar future requests. Be specific to this kind of task, not generic advice.
+
+Respond in JSON format:
+{
+  "situation": "The kind of request this applies to, in one sentence",
+  "lesson": "What to do (or not do) next time, in one sentence",
+  "action_items": ["Concrete step", "..."],
+  "tags": ["short-topic-tag", "..."]
+}`;
+}
+
+/**
+ * Parse the model's JSON into a lesson
+ *
+ * @throws Error when the output has no valid lesson
+ */
+export function parseDistilledLesson(content: string): DistilledLesson {
+	const jsonMatch = content.match(/\{[\s\S]*\}/);
+	if (!jsonMatch) {
+		throw new Error('Distilled lesson is not JSON');
+	}
+
+	const lesson = DistilledLessonSchema.parse(JSON.parse(jsonMatch[0]));
+	return {
+		situation: lesson.situation.trim(),
+		lesson: lesson.lesson.trim(),
+		action_items: lesson.action_items.map((a) => a.trim()).filter(Boolean),
+		tags: lesson.tags
+			.map((t) => t.trim().toLowerCase().replace(/\s+/g, '-'))
+			.filter(Boolean)
+			.slice(0, MAX_TAGS),
+	};
+}
+
+/**
+ * Distill a lesson from a rated interaction with the cheapest model
+ *
+ * @returns The lesson, or null when `learning.distill` is off in models.yaml
+ * @throws When the model can't be reached or returns no usable lesson
+ */
+export async function distillLesson(input: DistillInput): Promise<DistilledLesson | null> {
+	// Loaded lazily: the router itself depends on the memory system
+	const { modelRouter } = await import('../model-router/router');
+	if ((await modelRouter.loadConfig()).learning?.distill === false) {
+		return null;
+	}
+
+	const result = await modelRouter.complete({
+		model: 'cheapest',
+		maxTokens: MAX_OUTPUT_TOKENS,
+		temperature: 0.2,
+		workId: input.rating.work_id,
+		messages: [{ role: 'user', content: buildDistillPrompt(input) }],
+	});
+
+	return parseDistilledLesson(result.content);
+}
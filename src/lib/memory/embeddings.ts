@@ -0,0 +1,194 @@
+/**
+ * Embeddings - Vector representations of learnings for semantic retrieval
+ *
+ * Two backends, chosen with `embeddings.backend` in models.yaml:
+ * - local (default): hashed word and character n-gram vectors. Offline and
+ *   free; matches word forms ("deploy", "deploying", "deployment") and typos.
+ * - provider: an OpenAI-style embedding model via the model router. Matches
+ *   meaning ("deploy" and "release") at a small per-call cost.
+ *
+ * Vectors from different backends aren't comparable, so each learning
+ * records which backend embedded it.
+ */
+
+import type { Learning } from '../schemas/learning';
+
+// ============================================
+// Types
+// ============================================
+
+export interface EmbeddingBackend {
+	/** Stored with each vector; only vectors with the same id are compared */
+	readonly id: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = 512;
+
+/** Words sharing this many leading characters count as the same stem */
+const STEM_LENGTH = 5;
+
+/** Character n-grams count for less than whole words */
+const NGRAM_WEIGHT = 0.3;
+
+const STOP_WORDS = new Set([
+	'the',
+	'and',
+	'for',
+	'with',
+	'this',
+	'that',
+	'what',
+	'how',
+	'are',
+	'was',
+	'you',
+	'your',
+	'from',
+	'into',
+	'about',
+]);
+
+// ============================================
+// Local Backend
+// ============================================
+
+/**
+ * FNV-1a hash of a feature string
+ */
+function hashFeature(feature: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < feature.length; i++) {
+		hash ^= feature.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Words, crude stems and character trigrams of each word, with weights
+ */
+function features(text: string): Array<[string, number]> {
+	const words = text
+		.toLowerCase()
+		.split(/\W+/)
+		.filter((w) => w.length >= 2 && !STOP_WORDS.has(w));
+
+	const result: Array<[string, number]> = [];
+	for (const word of words) {
+		result.push([`w:${word}`, 1]);
+		if (word.length > STEM_LENGTH) {
+			result.push([`s:${word.slice(0, STEM_LENGTH)}`, 1]);
+		}
+		const padded = `<${word}>`;
+		for (let i = 0; i + 3 <= padded.length; i++) {
+			result.push([`g:${padded.slice(i, i + 3)}`, NGRAM_WEIGHT]);
+		}
+	}
+	return result;
+}
+
+/**
+ * Offline embeddings from hashed word, stem and character-trigram features
+ *
+ * Each feature is hashed into a fixed-size vector with a hash-derived sign
+ * (so collisions cancel out rather than pile up), then the vector is
+ * L2-normalized.
+ */
+export class HashedNgramEmbedder implements EmbeddingBackend {
+	readonly id = `local-ngram-${LOCAL_DIMENSIONS}`;
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): number[] {
+		const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+		for (const [feature, weight] of features(text)) {
+			const hash = hashFeature(feature);
+			vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+		}
+		return normalize(vector);
+	}
+}
+
+// ============================================
+// Provider Backend
+// ============================================
+
+/**
+ * Embeddings from the model configured under `embeddings` in models.yaml
+ */
+export class ProviderEmbedder implements EmbeddingBackend {
+	readonly id: string;
+
+	constructor(model: string) {
+		this.id = `provider:${model}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		// Loaded lazily: the router itself depends on the memory system
+		const { modelRouter } = await import('../model-router/router');
+		const result = await modelRouter.embed(texts);
+		return result.vectors.map(normalize);
+	}
+}
+
+/**
+ * The backend selected in models.yaml (local unless configured otherwise)
+ */
+export async function getEmbeddingBackend(): Promise<EmbeddingBackend> {
+	const { modelRouter } = await import('../model-router/router');
+	const config = (await modelRouter.loadConfig()).embeddings;
+
+	if (config?.backend === 'provider' && config.model) {
+		return new ProviderEmbedder(config.model);
+	}
+	return new HashedNgramEmbedder();
+}
+
+// ============================================
+// Vector Helpers
+// ============================================
+
+/**
+ * Scale a vector to unit length, rounded to keep learning files small
+ */
+export function normalize(vector: number[]): number[] {
+	const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+	if (length === 0) return vector;
+	return vector.map((v) => Math.round((v / length) * 10000) / 10000);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when their sizes differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length || a.length === 0) return 0;
+
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	if (normA === 0 || normB === 0) return 0;
+	return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The text of a learning that gets embedded
+ */
+export function learningText(learning: Learning): string {
+	return [
+		learning.situation,
+		learning.what_went_wrong,
+		learning.what_went_right,
+		learning.lesson,
+		...(learning.action_items ?? []),
+	]
+		.filter(Boolean)
+		.join('\n');
+}
@@ -0,0 +1,214 @@
+/**
+ * Implicit Ratings - Infer satisfaction from the user's follow-up message
+ *
+ * Most people never type "8 - good response", but their next message says
+ * how the last answer landed: "that's wrong", "perfect, thanks", or asking
+ * the same question again. Follow-ups are classified with cheap local
+ * patterns (no model call); only confident classifications become ratings.
+ *
+ * Settings live under `learning.implicitRatings` in models.yaml.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface FollowUpClassification {
+	/** Inferred rating (1-10) */
+	rating: number;
+	/** How sure the classification is (0-1) */
+	confidence: number;
+	/** What the follow-up said about the response */
+	sentiment_summary: string;
+}
+
+export interface ImplicitRatingSettings {
+	enabled: boolean;
+	/** Classifications below this confidence are ignored */
+	minConfidence: number;
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+interface Signal {
+	pattern: RegExp;
+	rating: number;
+	confidence: number;
+	summary: string;
+	/**
+	 * Only count it when the message opens with the match, or is short and
+	 * not a question - "is there a perfect solution?" isn't praise
+	 */
+	leading?: boolean;
+}
+
+/** Follow-ups up to this many words count as short */
+const SHORT_FOLLOW_UP_WORDS = 6;
+
+/**
+ * Follow-up patterns, checked in order - negatives first so
+ * "thanks, but that's wrong" counts as negative
+ */
+const SIGNALS: Signal[] = [
+	{
+		pattern: /\b(that'?s|this is|it'?s|you'?re|thats) (wrong|incorrect|not right|not true)\b/i,
+		rating: 2,
+		confidence: 0.9,
+		summary: 'User said the response was wrong',
+	},
+	{
+		pattern: /\bnot what i (asked|meant|wanted|need(ed)?)\b/i,
+		rating: 3,
+		confidence: 0.9,
+		summary: 'User said the response missed what they asked',
+	},
+	{
+		pattern: /\b(doesn'?t|does not|didn'?t|did not|still doesn'?t) work\b/i,
+		rating: 3,
+		confidence: 0.85,
+		summary: 'User reported the answer did not work',
+	},
+	{
+		pattern: /\b(useless|unhelpful|makes no sense|nonsense|not (helpful|useful|correct|right))\b/i,
+		rating: 2,
+		confidence: 0.85,
+		summary: 'User found the response unhelpful',
+	},
+	{
+		pattern: /\b(try again|still wrong|you (missed|forgot|ignored)|that'?s not it)\b/i,
+		rating: 4,
+		confidence: 0.8,
+		summary: 'User asked for another attempt',
+	},
+	{
+		// Only a bare "no" - "no worries" and "no, that's perfect" are friendly
+		pattern: /^(no|nope|wrong)[.!]*$/i,
+		rating: 3,
+		confidence: 0.75,
+		summary: 'User rejected the response',
+	},
+	{
+		pattern: /\b(perfect|exactly what i (needed|wanted)|spot on|brilliant|excellent|awesome)\b/i,
+		rating: 9,
+		confidence: 0.85,
+		summary: 'User was very satisfied with the response',
+		leading: true,
+	},
+	{
+		pattern: /\b(that|it|this) (worked|works|fixed it|did the trick)\b/i,
+		rating: 8,
+		confidence: 0.85,
+		summary: 'User confirmed the answer worked',
+	},
+	{
+		pattern: /\b(thanks|thank you|thx|great|very helpful|makes sense)\b/i,
+		rating: 8,
+		confidence: 0.75,
+		summary: 'User thanked or agreed with the response',
+		leading: true,
+	},
+];
+
+/** Keyword overlap with the previous prompt at which a follow-up is a re-ask */
+const REASK_SIMILARITY = 0.6;
+
+/** A re-ask needs this many keywords to be told apart from chit-chat */
+const REASK_MIN_KEYWORDS = 3;
+
+const STOP_WORDS = new Set([
+	'the',
+	'and',
+	'for',
+	'with',
+	'this',
+	'that',
+	'what',
+	'how',
+	'can',
+	'you',
+	'please',
+	'about',
+	'again',
+]);
+
+// ============================================
+// Classification
+// ============================================
+
+/**
+ * Meaningful words of a message
+ */
+function keywords(text: string): Set<string> {
+	return new Set(
+		text
+			.toLowerCase()
+			.split(/\W+/)
+			.filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+	);
+}
+
+/**
+ * Classify a follow-up message for satisfaction with the previous response
+ *
+ * @param followUp - The user's next message
+ * @param previousPrompt - The prompt the previous response answered
+ * @returns The classification, or null when the follow-up is neutral
+ */
+export function classifyFollowUp(
+	followUp: string,
+	previousPrompt?: string
+): FollowUpClassification | null {
+	const text = followUp.trim();
+	if (!text) return null;
+
+	const short = text.split(/\s+/).length <= SHORT_FOLLOW_UP_WORDS && !text.endsWith('?');
+
+	for (const signal of SIGNALS) {
+		const match = signal.pattern.exec(text);
+		if (match && (!signal.leading || match.index === 0 || short)) {
+			return {
+				rating: signal.rating,
+				confidence: signal.confidence,
+				sentiment_summary: signal.summary,
+			};
+		}
+	}
+
+	// Asking the same thing again means the answer didn't land
+	if (previousPrompt) {
+		const current = keywords(text);
+		const previous = keywords(previousPrompt);
+		if (current.size >= REASK_MIN_KEYWORDS && previous.size >= REASK_MIN_KEYWORDS) {
+			const shared = [...current].filter((word) => previous.has(word)).length;
+			const similarity = shared / new Set([...current, ...previous]).size;
+			if (similarity >= REASK_SIMILARITY) {
+				return {
+					rating: 4,
+					// 0.6 at the threshold, up to 0.9 for an identical question
+					confidence: 0.6 + (0.3 * (similarity - REASK_SIMILARITY)) / (1 - REASK_SIMILARITY),
+					sentiment_summary: 'User asked the same question again',
+				};
+			}
+		}
+	}
+
+	return null;
+}
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Implicit rating settings from models.yaml (on, 0.7 confidence by default)
+ */
+export async function getImplicitRatingSettings(): Promise<ImplicitRatingSettings> {
+	// Loaded lazily: the router itself depends on the memory system
+	const { modelRouter } = await import('../model-router/router');
+	const config = (await modelRouter.loadConfig()).learning?.implicitRatings;
+
+	return {
+		enabled: config?.enabled ?? true,
+		minConfidence: config?.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+	};
+}
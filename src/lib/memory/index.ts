@@ -7,14 +7,51 @@
 // Work tracking
 export { workManager, WorkManager } from './work-manager';
 
+// Chat session transcripts
+export {
+	chatSessions,
+	ChatSessionManager,
+	type ChatSessionSummary,
+	type TranscriptFormat,
+} from './chat-sessions';
+
 // Learning capture and retrieval
 export {
 	learningManager,
 	LearningManager,
 	captureLearning,
 	retrieveRelevantLearnings,
+	type BackfillResult,
 } from './learning-manager';
 
+// Implicit ratings from follow-up messages
+export {
+	classifyFollowUp,
+	getImplicitRatingSettings,
+	DEFAULT_MIN_CONFIDENCE,
+	type FollowUpClassification,
+	type ImplicitRatingSettings,
+} from './implicit-rating';
+
+// Lesson distillation from rated work
+export {
+	distillLesson,
+	buildDistillPrompt,
+	parseDistilledLesson,
+	type DistilledLesson,
+	type DistillInput,
+} from './distill';
+
+// Embeddings for semantic retrieval
+export {
+	getEmbeddingBackend,
+	cosineSimilarity,
+	learningText,
+	HashedNgramEmbedder,
+	ProviderEmbedder,
+	type EmbeddingBackend,
+} from './embeddings';
+
 // State management
 export {
 	getState,
@@ -25,8 +62,14 @@ export {
 	getCheckinsForDate,
 	getCheckinStreak,
 	getLastCheckin,
+	recordHabit,
+	getHabitLog,
 	recordCost,
+	recordUsage,
+	getUsageRecords,
 	getMonthlyCost,
+	getDailyCost,
+	getCommandCost,
 	getCostBreakdown,
 	getProjectedMonthlyCost,
 	isToday,
@@ -35,8 +78,10 @@ export {
 	stateManager,
 	StateManager,
 	type AppState,
+	type LastInteraction,
 	type CheckinType,
 	type CheckinEntry,
+	type HabitLogEntry,
 } from './state-manager';
 
 // Context injection
@@ -5,18 +5,34 @@
  * 1. Capture ratings (explicit and implicit)
  * 2. Generate learnings from significant interactions
  * 3. Retrieve relevant learnings to inject into future contexts
+ * 4. Curate them: edit, merge, pin, retire and dedupe
  *
  * Key improvement over PAI: We actually USE the learnings via retrieval.
  */
 
 import { existsSync } from 'node:fs';
-import { appendFile, mkdir, readFile, readdir } from 'node:fs/promises';
+import { appendFile, mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { ValidationError } from '../errors';
 import {
 	type Learning,
+	type LearningTaskType,
 	type Rating,
 	generateLearningId,
+	generateRatingId,
 	parseExplicitRating as parseRating,
 } from '../schemas/learning';
+import type { WorkItem } from '../schemas/work';
+import { chatSessions } from './chat-sessions';
+import { type DistilledLesson, distillLesson } from './distill';
+import {
+	type EmbeddingBackend,
+	cosineSimilarity,
+	getEmbeddingBackend,
+	learningText,
+} from './embeddings';
+import { classifyFollowUp, getImplicitRatingSettings } from './implicit-rating';
+import { type LastInteraction, getState, setState } from './state-manager';
+import { workManager } from './work-manager';
 
 // ============================================
 // Paths
@@ -28,6 +44,40 @@ const SIGNALS_DIR = `${LEARNING_DIR}/signals`;
 const PATTERNS_DIR = `${LEARNING_DIR}/patterns`;
 const POSITIVE_DIR = `${LEARNING_DIR}/positive`;
 
+/** How long after a response a rating is still attributed to it */
+const LAST_INTERACTION_WINDOW_MS = 60 * 60 * 1000;
+
+/** Vector similarity below this is treated as unrelated */
+const MIN_SIMILARITY = 0.08;
+
+/** How much a perfect vector match counts, in shared keywords */
+const VECTOR_WEIGHT = 4;
+
+/** Learnings embedded per backend call during backfill */
+const EMBED_BATCH_SIZE = 32;
+
+/** Vector similarity at which two learnings count as duplicates */
+export const DUPLICATE_SIMILARITY = 0.8;
+
+/** Keyword overlap at which two unembedded learnings count as duplicates */
+const DUPLICATE_KEYWORD_OVERLAP = 0.6;
+
+/**
+ * Fields of a learning that can be edited
+ */
+export type LearningChanges = Partial<
+	Pick<Learning, 'situation' | 'lesson' | 'action_items' | 'tags' | 'status' | 'task_types'>
+>;
+
+export interface BackfillResult {
+	/** Backend the learnings were embedded with */
+	backend: string;
+	embedded: number;
+	/** Already embedded by the current backend */
+	skipped: number;
+	failed: number;
+}
+
 // ============================================
 // Learning Manager Class
 // ============================================
@@ -39,13 +89,26 @@ export class LearningManager {
 	 * Ratings are the primary signal for learning. Low ratings (<=5) trigger
 	 * failure learnings, high ratings (>=8) trigger success learnings.
 	 */
-	async captureRating(rating: Rating): Promise<void> {
+	async captureRating(input: Rating): Promise<void> {
+		const last = await this.ratedInteraction(input);
+		const rating = this.withInteractionContext(input, last);
+
 		// Ensure signals directory exists
 		await mkdir(SIGNALS_DIR, { recursive: true });
 
 		// Append to ratings file
 		await appendFile(`${SIGNALS_DIR}/ratings.jsonl`, `${JSON.stringify(rating)}\n`);
 
+		// A rated response isn't rated again implicitly
+		if (last) {
+			await setState({ lastInteraction: { ...last, rated: true } });
+		}
+
+		// Chat transcripts show the rating on the turn it rates
+		if (rating.work_id && rating.turn_id) {
+			await chatSessions.rateTurn(rating.work_id, rating.turn_id, rating);
+		}
+
 		// Auto-generate learning for significant ratings
 		if (rating.rating <= 5) {
 			await this.generateFailureLearning(rating);
@@ -54,6 +117,76 @@ export class LearningManager {
 		}
 	}
 
+	/**
+	 * Rate the last response from the user's follow-up message
+	 *
+	 * Only a recent response that hasn't been rated yet is rated, and only
+	 * when the classification clears the configured confidence threshold.
+	 *
+	 * @returns The captured rating, or null if nothing was captured
+	 */
+	async captureImplicitRating(followUp: string): Promise<Rating | null> {
+		const settings = await getImplicitRatingSettings();
+		if (!settings.enabled) return null;
+
+		const last = (await getState()).lastInteraction;
+		if (!last || last.rated || this.isStale(last)) return null;
+
+		const classification = classifyFollowUp(followUp, last.prompt_snippet);
+		if (!classification || classification.confidence < settings.minConfidence) return null;
+
+		const rating: Rating = {
+			id: generateRatingId(),
+			timestamp: new Date().toISOString(),
+			rating: classification.rating,
+			source: 'implicit',
+			confidence: Math.round(classification.confidence * 100) / 100,
+			sentiment_summary: `${classification.sentiment_summary}: "${followUp.trim().substring(0, 200)}"`,
+			work_id: last.work_id,
+		};
+
+		await this.captureRating(rating);
+		return rating;
+	}
+
+	/**
+	 * The last AI response, if this rating is about it
+	 *
+	 * Ratings like `yxhyx 8` arrive without context; they rate the last
+	 * response if it is recent and from the same work session.
+	 */
+	private async ratedInteraction(rating: Rating): Promise<LastInteraction | undefined> {
+		if (rating.model_used) return undefined;
+
+		const last = (await getState()).lastInteraction;
+		if (!last || this.isStale(last)) return undefined;
+		if (rating.work_id && last.work_id && rating.work_id !== last.work_id) return undefined;
+
+		return last;
+	}
+
+	/**
+	 * Attach the rated interaction's model, prompt and complexity
+	 */
+	private withInteractionContext(rating: Rating, last: LastInteraction | undefined): Rating {
+		if (!last) return rating;
+
+		return {
+			...rating,
+			work_id: rating.work_id ?? last.work_id,
+			turn_id: rating.turn_id ?? last.turn_id,
+			prompt_snippet: rating.prompt_snippet ?? last.prompt_snippet,
+			response_snippet: rating.response_snippet ?? last.response_snippet,
+			model_used: last.model,
+			cost_usd: rating.cost_usd ?? last.cost,
+			complexity: rating.complexity ?? last.complexity,
+		};
+	}
+
+	private isStale(last: LastInteraction): boolean {
+		return Date.now() - new Date(last.timestamp).getTime() > LAST_INTERACTION_WINDOW_MS;
+	}
+
 	/**
 	 * Parse explicit rating from user input
 	 *
@@ -136,15 +269,30 @@ export class LearningManager {
 	 *
 	 * This is the key feature that makes learnings useful - we surface
 	 * past lessons when they're relevant to the current task.
+	 *
+	 * Scoring is hybrid: shared keywords, plus vector similarity for
+	 * learnings embedded by the current backend, plus a recency boost.
+	 * Pinned learnings for the task type always come first (on top of
+	 * `limit`); retired ones are never returned.
 	 */
-	async retrieveRelevantLearnings(context: string, limit = 5): Promise<Learning[]> {
-		const allLearnings = await this.getAllLearnings();
+	async retrieveRelevantLearnings(
+		context: string,
+		limit = 5,
+		taskType?: LearningTaskType
+	): Promise<Learning[]> {
+		const usable = (await this.getAllLearnings()).filter((l) => l.status !== 'retired');
+		const pinned = usable.filter(
+			(l) =>
+				l.status === 'pinned' &&
+				(l.task_types.length === 0 || (taskType && l.task_types.includes(taskType)))
+		);
+		const allLearnings = usable.filter((l) => l.status !== 'pinned');
 
 		if (allLearnings.length === 0) {
-			return [];
+			return pinned;
 		}
 
-		// Extract keywords from context (simple approach - could use embeddings later)
+		// Extract keywords from context
 		const contextWords = new Set(
 			context
 				.toLowerCase()
@@ -152,25 +300,73 @@ export class LearningManager {
 				.filter((w) => w.length > 3)
 		);
 
-		// Score each learning by keyword overlap
+		const backend = await getEmbeddingBackend();
+		const contextVector = await this.embedQuietly(backend, context);
+
 		const scored = allLearnings.map((learning) => {
-			const learningText = `${learning.situation} ${learning.lesson}`.toLowerCase();
-			const learningWords = learningText.split(/\W+/);
+			const text = `${learning.situation} ${learning.lesson}`.toLowerCase();
+			const learningWords = text.split(/\W+/);
 			const matches = learningWords.filter((w) => contextWords.has(w)).length;
 
+			let similarity = 0;
+			if (contextVector && learning.embeddings && learning.embedding_model === backend.id) {
+				similarity = cosineSimilarity(contextVector, learning.embeddings);
+			}
+			const vectorScore = similarity >= MIN_SIMILARITY ? similarity * VECTOR_WEIGHT : 0;
+
 			// Boost recent learnings
 			const ageInDays =
 				(Date.now() - new Date(learning.timestamp).getTime()) / (1000 * 60 * 60 * 24);
 			const recencyBoost = Math.max(0, 1 - ageInDays / 30); // Decay over 30 days
 
-			return { learning, score: matches + recencyBoost };
+			return { learning, score: matches + vectorScore + recencyBoost };
 		});
 
-		return scored
+		const relevant = scored
 			.sort((a, b) => b.score - a.score)
 			.slice(0, limit)
 			.filter((s) => s.score > 0)
 			.map((s) => s.learning);
+
+		return [...pinned, ...relevant];
+	}
+
+	/**
+	 * Embed learnings that the current backend hasn't embedded yet
+	 *
+	 * Rewrites the learning files in place. With `force`, every learning is
+	 * re-embedded (e.g. after switching backends).
+	 */
+	async backfillEmbeddings(options: { force?: boolean } = {}): Promise<BackfillResult> {
+		const backend = await getEmbeddingBackend();
+		const result: BackfillResult = { backend: backend.id, embedded: 0, skipped: 0, failed: 0 };
+
+		for (const file of await this.learningFiles()) {
+			const learnings = await this.readLearningFile(file);
+			const pending = learnings.filter(
+				(l) => options.force || !l.embeddings || l.embedding_model !== backend.id
+			);
+			result.skipped += learnings.length - pending.length;
+			if (pending.length === 0) continue;
+
+			for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+				const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+				try {
+					const vectors = await backend.embed(batch.map(learningText));
+					batch.forEach((learning, j) => {
+						learning.embeddings = vectors[j];
+						learning.embedding_model = backend.id;
+					});
+					result.embedded += batch.length;
+				} catch {
+					result.failed += batch.length;
+				}
+			}
+
+			await this.writeLearningFile(file, learnings);
+		}
+
+		return result;
 	}
 
 	/**
@@ -179,39 +375,176 @@ export class LearningManager {
 	async getAllLearnings(): Promise<Learning[]> {
 		const learnings: Learning[] = [];
 
-		// Read from patterns (failures) and positive (successes) directories
-		for (const dir of [PATTERNS_DIR, POSITIVE_DIR]) {
-			if (!existsSync(dir)) continue;
+		for (const file of await this.learningFiles()) {
+			learnings.push(...(await this.readLearningFile(file)));
+		}
 
-			try {
-				const months = await readdir(dir);
+		return learnings;
+	}
 
-				for (const month of months) {
-					const monthDir = `${dir}/${month}`;
-					const stat = await import('node:fs/promises').then((fs) => fs.stat(monthDir));
+	// ============================================
+	// Lifecycle
+	// ============================================
 
-					if (!stat.isDirectory()) continue;
+	/**
+	 * Get a learning by ID
+	 *
+	 * @throws ValidationError if there is no such learning
+	 */
+	async getLearning(id: string): Promise<Learning> {
+		const { learnings, index } = await this.locateLearning(id);
+		return learnings[index];
+	}
 
-					const files = await readdir(monthDir);
+	/**
+	 * Edit a learning, re-embedding it when its text changes
+	 */
+	async updateLearning(id: string, changes: LearningChanges): Promise<Learning> {
+		const { file, learnings, index } = await this.locateLearning(id);
+		const updated: Learning = {
+			...learnings[index],
+			...changes,
+			updated: new Date().toISOString(),
+		};
 
-					for (const file of files) {
-						if (!file.endsWith('.jsonl')) continue;
+		const textChanged = learningText(updated) !== learningText(learnings[index]);
+		if (textChanged) {
+			const backend = await getEmbeddingBackend();
+			updated.embeddings = await this.embedQuietly(backend, learningText(updated));
+			updated.embedding_model = updated.embeddings ? backend.id : undefined;
+		}
 
-						try {
-							const content = await readFile(`${monthDir}/${file}`, 'utf-8');
-							const lines = content.trim().split('\n').filter(Boolean);
-							learnings.push(...lines.map((l) => JSON.parse(l) as Learning));
-						} catch {
-							// Skip malformed files
-						}
-					}
-				}
-			} catch {
-				// Skip if can't read directory
+		learnings[index] = updated;
+		await this.writeLearningFile(file, learnings);
+		return updated;
+	}
+
+	/**
+	 * Delete a learning permanently
+	 */
+	async deleteLearning(id: string): Promise<Learning> {
+		const { file, learnings, index } = await this.locateLearning(id);
+		const [deleted] = learnings.splice(index, 1);
+		await this.writeLearningFile(file, learnings);
+		return deleted;
+	}
+
+	/**
+	 * Pin a learning so it is always retrieved
+	 *
+	 * @param taskTypes - Only for these task types (all when empty)
+	 */
+	async pinLearning(id: string, taskTypes: LearningTaskType[] = []): Promise<Learning> {
+		return this.updateLearning(id, { status: 'pinned', task_types: taskTypes });
+	}
+
+	/**
+	 * Retire a learning so it is never retrieved (kept for history)
+	 */
+	async retireLearning(id: string): Promise<Learning> {
+		return this.updateLearning(id, { status: 'retired', task_types: [] });
+	}
+
+	/**
+	 * Merge learnings into the first one and delete the rest
+	 *
+	 * Action items, tags and pinned task types are combined; the surviving
+	 * learning keeps its own wording unless `changes` rewrite it.
+	 */
+	async mergeLearnings(
+		targetId: string,
+		otherIds: string[],
+		changes: LearningChanges = {}
+	): Promise<Learning> {
+		const ids = [...new Set(otherIds)].filter((id) => id !== targetId);
+		if (ids.length === 0) {
+			throw new ValidationError('Nothing to merge: give at least one other learning ID', {
+				field: 'id',
+			});
+		}
+
+		const target = await this.getLearning(targetId);
+		const others = await Promise.all(ids.map((id) => this.getLearning(id)));
+		const all = [target, ...others];
+		const union = (values: string[][]) => [...new Set(values.flat())];
+
+		const pinned = all.find((l) => l.status === 'pinned');
+		const merged = await this.updateLearning(targetId, {
+			action_items: union(all.map((l) => l.action_items)),
+			tags: union(all.map((l) => l.tags)),
+			status: pinned ? 'pinned' : target.status,
+			task_types: all.some((l) => l.status === 'pinned' && l.task_types.length === 0)
+				? []
+				: (union(all.map((l) => l.task_types)) as LearningTaskType[]),
+			...changes,
+		});
+
+		for (const other of others) {
+			await this.deleteLearning(other.id);
+		}
+
+		const mergedFrom = union([
+			merged.merged_from ?? [],
+			...others.map((l) => [l.id, ...(l.merged_from ?? [])]),
+		]);
+		const { file, learnings, index } = await this.locateLearning(targetId);
+		learnings[index] = { ...learnings[index], merged_from: mergedFrom };
+		await this.writeLearningFile(file, learnings);
+		return learnings[index];
+	}
+
+	/**
+	 * Cluster near-duplicate learnings
+	 *
+	 * Learnings of the same type are compared by embedding (or by keyword
+	 * overlap when either has no vector from the current backend) and linked
+	 * into clusters. Each cluster lists the proposed survivor first: a pinned
+	 * learning if there is one, otherwise the most recent.
+	 */
+	async findDuplicates(threshold = DUPLICATE_SIMILARITY): Promise<Learning[][]> {
+		const learnings = (await this.getAllLearnings()).filter((l) => l.status !== 'retired');
+		const backend = await getEmbeddingBackend();
+		const vectors = learnings.map((l) =>
+			l.embeddings && l.embedding_model === backend.id ? l.embeddings : undefined
+		);
+
+		// Union-find over similar pairs
+		const parent = learnings.map((_, i) => i);
+		const find = (i: number): number => {
+			let root = i;
+			while (parent[root] !== root) root = parent[root];
+			return root;
+		};
+
+		for (let i = 0; i < learnings.length; i++) {
+			for (let j = i + 1; j < learnings.length; j++) {
+				if (learnings[i].type !== learnings[j].type) continue;
+
+				const a = vectors[i];
+				const b = vectors[j];
+				const similar =
+					a && b
+						? cosineSimilarity(a, b) >= threshold
+						: keywordOverlap(learnings[i], learnings[j]) >= DUPLICATE_KEYWORD_OVERLAP;
+				if (similar) parent[find(i)] = find(j);
 			}
 		}
 
-		return learnings;
+		const clusters = new Map<number, Learning[]>();
+		learnings.forEach((learning, i) => {
+			const root = find(i);
+			clusters.set(root, [...(clusters.get(root) ?? []), learning]);
+		});
+
+		return [...clusters.values()]
+			.filter((cluster) => cluster.length > 1)
+			.map((cluster) =>
+				cluster.sort(
+					(a, b) =>
+						Number(b.status === 'pinned') - Number(a.status === 'pinned') ||
+						new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+				)
+			);
 	}
 
 	/**
@@ -228,7 +561,7 @@ export class LearningManager {
 		const lowRatings = ratings.filter((r) => r.rating <= 5);
 		const highRatings = ratings.filter((r) => r.rating >= 8);
 
-		const learnings = await this.getAllLearnings();
+		const learnings = (await this.getAllLearnings()).filter((l) => l.status !== 'retired');
 		const recentFailures = learnings.filter((l) => l.type === 'failure').slice(-5);
 		const recentSuccesses = learnings.filter((l) => l.type === 'success').slice(-5);
 
@@ -265,17 +598,20 @@ ${highRatings.length > 0 ? '- Document what made high-rated interactions success
 	 * Generate a failure learning from a low rating
 	 */
 	private async generateFailureLearning(rating: Rating): Promise<void> {
+		const distilled = await this.distill(rating, 'failure');
 		const learning: Learning = {
 			id: generateLearningId(),
 			timestamp: new Date().toISOString(),
 			type: 'failure',
-			situation: rating.prompt_snippet || 'Unknown context',
+			situation: distilled?.situation ?? (rating.prompt_snippet || 'Unknown context'),
 			what_went_wrong: rating.sentiment_summary || rating.comment || 'Unspecified issue',
-			lesson: this.extractLesson(rating, 'failure'),
-			action_items: [],
+			lesson: distilled?.lesson ?? this.extractLesson(rating, 'failure'),
+			action_items: distilled?.action_items ?? [],
 			work_id: rating.work_id,
 			rating_id: rating.id,
-			tags: ['auto-captured', 'improvement-needed'],
+			tags: ['auto-captured', 'improvement-needed', ...this.distilledTags(distilled)],
+			status: 'active',
+			task_types: [],
 		};
 
 		await this.saveLearning(learning, PATTERNS_DIR, 'failures');
@@ -285,22 +621,65 @@ ${highRatings.length > 0 ? '- Document what made high-rated interactions success
 	 * Generate a success learning from a high rating
 	 */
 	private async generateSuccessLearning(rating: Rating): Promise<void> {
+		const distilled = await this.distill(rating, 'success');
 		const learning: Learning = {
 			id: generateLearningId(),
 			timestamp: new Date().toISOString(),
 			type: 'success',
-			situation: rating.prompt_snippet || 'Unknown context',
+			situation: distilled?.situation ?? (rating.prompt_snippet || 'Unknown context'),
 			what_went_right: rating.sentiment_summary || rating.comment || 'Positive outcome',
-			lesson: this.extractLesson(rating, 'success'),
-			action_items: [],
+			lesson: distilled?.lesson ?? this.extractLesson(rating, 'success'),
+			action_items: distilled?.action_items ?? [],
 			work_id: rating.work_id,
 			rating_id: rating.id,
-			tags: ['auto-captured', 'positive-pattern'],
+			tags: ['auto-captured', 'positive-pattern', ...this.distilledTags(distilled)],
+			status: 'active',
+			task_types: [],
 		};
 
 		await this.saveLearning(learning, POSITIVE_DIR, 'successes');
 	}
 
+	/**
+	 * Distill a lesson from the rated work, or null to fall back to the heuristic
+	 */
+	private async distill(
+		rating: Rating,
+		type: 'failure' | 'success'
+	): Promise<DistilledLesson | null> {
+		try {
+			const item = await this.findRatedItem(rating);
+			return await distillLesson({ type, rating, item });
+		} catch {
+			return null; // Offline, no keys or unusable output - use the heuristic
+		}
+	}
+
+	/**
+	 * The work item a rating refers to: the answered item matching the
+	 * rated prompt, else the latest answered one
+	 */
+	private async findRatedItem(rating: Rating): Promise<WorkItem | undefined> {
+		if (!rating.work_id) return undefined;
+
+		const items = await workManager.getItems(rating.work_id);
+		const answered = items.filter((item) => item.response_summary).reverse();
+		const snippet = rating.prompt_snippet;
+
+		return (
+			answered.find((item) => snippet && item.prompt.startsWith(snippet)) ??
+			answered[0] ??
+			items[items.length - 1]
+		);
+	}
+
+	/**
+	 * Tags marking a distilled learning, plus the topics the model chose
+	 */
+	private distilledTags(distilled: DistilledLesson | null): string[] {
+		return distilled ? [...new Set(['distilled', ...distilled.tags])] : [];
+	}
+
 	/**
 	 * Extract a lesson from a rating
 	 */
@@ -314,15 +693,137 @@ ${highRatings.length > 0 ? '- Document what made high-rated interactions success
 	}
 
 	/**
-	 * Save a learning to the appropriate directory
+	 * Save a learning to the appropriate directory, embedded for retrieval
 	 */
 	private async saveLearning(learning: Learning, baseDir: string, filename: string): Promise<void> {
 		const date = new Date().toISOString().split('T')[0];
 		const monthDir = `${baseDir}/${date.substring(0, 7)}`; // YYYY-MM
 
+		const backend = await getEmbeddingBackend();
+		const embeddings = await this.embedQuietly(backend, learningText(learning));
+		const saved = embeddings ? { ...learning, embeddings, embedding_model: backend.id } : learning;
+
 		await mkdir(monthDir, { recursive: true });
-		await appendFile(`${monthDir}/${filename}.jsonl`, `${JSON.stringify(learning)}\n`);
+		await appendFile(`${monthDir}/${filename}.jsonl`, `${JSON.stringify(saved)}\n`);
+	}
+
+	/**
+	 * Embed one text, or undefined if the backend fails
+	 *
+	 * A provider outage shouldn't block saving or retrieval; learnings saved
+	 * without a vector are picked up by `yxhyx memory embed`.
+	 */
+	private async embedQuietly(
+		backend: EmbeddingBackend,
+		text: string
+	): Promise<number[] | undefined> {
+		try {
+			const [vector] = await backend.embed([text]);
+			return vector;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Paths of every learning file (failures and successes, all months)
+	 */
+	private async learningFiles(): Promise<string[]> {
+		const files: string[] = [];
+
+		for (const dir of [PATTERNS_DIR, POSITIVE_DIR]) {
+			if (!existsSync(dir)) continue;
+
+			try {
+				for (const month of await readdir(dir)) {
+					const monthDir = `${dir}/${month}`;
+					if (!(await stat(monthDir)).isDirectory()) continue;
+
+					for (const file of await readdir(monthDir)) {
+						if (file.endsWith('.jsonl')) files.push(`${monthDir}/${file}`);
+					}
+				}
+			} catch {
+				// Skip if can't read directory
+			}
+		}
+
+		return files;
 	}
+
+	/**
+	 * Read the learnings in one file (empty if it is malformed)
+	 *
+	 * Learnings saved before the lifecycle fields existed read as active.
+	 */
+	private async readLearningFile(file: string): Promise<Learning[]> {
+		try {
+			const content = await readFile(file, 'utf-8');
+			return content
+				.trim()
+				.split('\n')
+				.filter(Boolean)
+				.map((line) => {
+					const learning = JSON.parse(line) as Learning;
+					return {
+						...learning,
+						action_items: learning.action_items ?? [],
+						tags: learning.tags ?? [],
+						status: learning.status ?? 'active',
+						task_types: learning.task_types ?? [],
+					};
+				});
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Rewrite a learning file
+	 */
+	private async writeLearningFile(file: string, learnings: Learning[]): Promise<void> {
+		const lines = learnings.map((l) => `${JSON.stringify(l)}\n`).join('');
+		await writeFile(file, lines);
+	}
+
+	/**
+	 * Find the file and position holding a learning
+	 *
+	 * @throws ValidationError if there is no such learning
+	 */
+	private async locateLearning(
+		id: string
+	): Promise<{ file: string; learnings: Learning[]; index: number }> {
+		for (const file of await this.learningFiles()) {
+			const learnings = await this.readLearningFile(file);
+			const index = learnings.findIndex((l) => l.id === id);
+			if (index !== -1) return { file, learnings, index };
+		}
+
+		throw new ValidationError(`Learning not found: ${id}`, {
+			field: 'id',
+			suggestion: 'Run `yxhyx memory learnings` to see learning IDs',
+		});
+	}
+}
+
+/**
+ * Jaccard overlap of two learnings' situation and lesson keywords
+ */
+function keywordOverlap(a: Learning, b: Learning): number {
+	const words = (l: Learning) =>
+		new Set(
+			`${l.situation} ${l.lesson}`
+				.toLowerCase()
+				.split(/\W+/)
+				.filter((w) => w.length > 3)
+		);
+	const wa = words(a);
+	const wb = words(b);
+	if (wa.size === 0 || wb.size === 0) return 0;
+
+	const shared = [...wa].filter((w) => wb.has(w)).length;
+	return shared / new Set([...wa, ...wb]).size;
 }
 
 // Export singleton instance
@@ -348,6 +849,10 @@ export async function captureLearning(workId: string, rating: number): Promise<v
 /**
  * Retrieve relevant learnings for a context
  */
-export async function retrieveRelevantLearnings(context: string, limit = 5): Promise<Learning[]> {
-	return learningManager.retrieveRelevantLearnings(context, limit);
+export async function retrieveRelevantLearnings(
+	context: string,
+	limit = 5,
+	taskType?: LearningTaskType
+): Promise<Learning[]> {
+	return learningManager.retrieveRelevantLearnings(context, limit, taskType);
 }
@@ -1,14 +1,16 @@
 /**
- * State Manager - Track application state, check-ins, and costs
+ * State Manager - Track application state, check-ins, habits, and costs
  *
  * Manages:
  * - Current application state
  * - Check-in history
- * - Cost tracking by model and month
+ * - Habit log
+ * - Per-call usage log, from which cost totals are computed
  */
 
 import { existsSync } from 'node:fs';
-import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import type { UsageRecord } from '../schemas/usage';
 
 // ============================================
 // Paths
@@ -18,7 +20,9 @@ const YXHYX_DIR = `${process.env.HOME}/.yxhyx`;
 const STATE_DIR = `${YXHYX_DIR}/memory/state`;
 const STATE_FILE = `${STATE_DIR}/current.json`;
 const CHECKIN_FILE = `${STATE_DIR}/checkin-history.jsonl`;
-const COST_FILE = `${STATE_DIR}/cost-tracking.json`;
+const USAGE_FILE = `${STATE_DIR}/usage.jsonl`;
+const HABIT_LOG_FILE = `${STATE_DIR}/habit-log.jsonl`;
+const LEGACY_COST_FILE = `${STATE_DIR}/cost-tracking.json`;
 
 // ============================================
 // Types
@@ -28,11 +32,39 @@ export interface AppState {
 	initialized: boolean;
 	currentWork?: { id: string; effort: string; started: string };
 	lastCheckin?: { type: string; timestamp: string };
+	lastInteraction?: LastInteraction;
+	/** Local date each scheduled check-in was last reminded, so it fires once a day */
+	lastReminders?: Partial<Record<CheckinType, string>>;
 	sessionStart?: string;
 }
 
+/**
+ * The most recent AI response, so a later rating can say what it rated
+ */
+export interface LastInteraction {
+	timestamp: string;
+	model: string;
+	complexity?: 'TRIVIAL' | 'QUICK' | 'STANDARD' | 'COMPLEX' | 'CRITICAL';
+	prompt_snippet: string;
+	response_snippet: string;
+	cost: number;
+	work_id?: string;
+	/** Assistant turn in the chat session transcript */
+	turn_id?: string;
+	/** Set once a rating (explicit or implicit) has been captured for it */
+	rated?: boolean;
+}
+
 export type CheckinType = 'morning' | 'evening' | 'weekly';
 
+/** How a morning priority went, recorded in the evening */
+export type PriorityStatus = 'done' | 'partial' | 'dropped';
+
+export interface PriorityOutcome {
+	priority: string;
+	status: PriorityStatus;
+}
+
 export interface CheckinEntry {
 	type: CheckinType;
 	timestamp: string;
@@ -41,6 +73,10 @@ export interface CheckinEntry {
 	learnings?: string[];
 	goalUpdates?: Array<{ goalId: string; progress: number }>;
 	responses?: Record<string, string>;
+	/** Evening: how each of the morning's priorities went */
+	priorityStatus?: PriorityOutcome[];
+	/** Coaching reflection from an adaptive check-in */
+	reflection?: string;
 	quick?: boolean;
 }
 
@@ -160,82 +196,231 @@ export async function getCheckinStreak(): Promise<{ morning: number; evening: nu
 }
 
 // ============================================
-// Cost Tracking
+// Habit Log
 // ============================================
 
 /**
- * Record API cost
+ * One time a habit was done
+ */
+export interface HabitLogEntry {
+	habitId: string;
+	timestamp: string;
+	note?: string;
+	/** Logged from a quick check-in rather than `yxhyx habit log` */
+	checkin?: boolean;
+}
+
+/**
+ * Record that a habit was done
  */
-export async function recordCost(model: string, cost: number): Promise<void> {
+export async function recordHabit(
+	habitId: string,
+	data: Partial<Omit<HabitLogEntry, 'habitId'>> = {}
+): Promise<HabitLogEntry> {
 	await mkdir(STATE_DIR, { recursive: true });
 
-	let tracking: Record<string, number> = {};
+	const entry: HabitLogEntry = {
+		habitId,
+		timestamp: new Date().toISOString(),
+		...data,
+	};
+
+	await appendFile(HABIT_LOG_FILE, `${JSON.stringify(entry)}\n`);
+	return entry;
+}
+
+/**
+ * Get logged habits, oldest first
+ *
+ * @param habitId - Only this habit's entries
+ */
+export async function getHabitLog(habitId?: string): Promise<HabitLogEntry[]> {
+	if (!existsSync(HABIT_LOG_FILE)) {
+		return [];
+	}
 
-	if (existsSync(COST_FILE)) {
-		try {
-			const content = await readFile(COST_FILE, 'utf-8');
-			tracking = JSON.parse(content);
-		} catch {
-			// Start fresh if file is corrupted
+	try {
+		const content = await readFile(HABIT_LOG_FILE, 'utf-8');
+		const entries: HabitLogEntry[] = [];
+
+		for (const line of content.split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				const entry = JSON.parse(line) as HabitLogEntry;
+				if (!habitId || entry.habitId === habitId) {
+					entries.push(entry);
+				}
+			} catch {
+				// Skip corrupted lines
+			}
 		}
+
+		return entries;
+	} catch {
+		return [];
 	}
+}
+
+// ============================================
+// Cost Tracking
+// ============================================
 
-	const month = new Date().toISOString().substring(0, 7); // YYYY-MM
-	const modelKey = `${month}:${model}`;
-	const totalKey = `${month}:total`;
+/**
+ * Import the old monthly cost-tracking.json into the usage log
+ *
+ * Each `${month}:${model}` total becomes one legacy record dated the first
+ * of that month. The old file is renamed so it is only imported once.
+ */
+async function migrateLegacyCostFile(): Promise<void> {
+	if (!existsSync(LEGACY_COST_FILE)) return;
 
-	tracking[modelKey] = (tracking[modelKey] || 0) + cost;
-	tracking[totalKey] = (tracking[totalKey] || 0) + cost;
+	try {
+		const content = await readFile(LEGACY_COST_FILE, 'utf-8');
+		const tracking = JSON.parse(content) as Record<string, number>;
 
-	await writeFile(COST_FILE, JSON.stringify(tracking, null, 2));
+		const records: UsageRecord[] = [];
+		for (const [key, cost] of Object.entries(tracking)) {
+			const match = key.match(/^(\d{4}-\d{2}):(.+)$/);
+			if (!match || match[2] === 'total') continue;
+
+			records.push({
+				timestamp: `${match[1]}-01T00:00:00.000Z`,
+				model: match[2],
+				provider: 'unknown',
+				input_tokens: 0,
+				output_tokens: 0,
+				cost_usd: cost,
+				latency_ms: 0,
+				success: true,
+				legacy: true,
+			});
+		}
+
+		if (records.length > 0) {
+			await appendFile(USAGE_FILE, records.map((r) => `${JSON.stringify(r)}\n`).join(''));
+		}
+		await rename(LEGACY_COST_FILE, `${LEGACY_COST_FILE}.migrated`);
+	} catch {
+		// Leave the old file in place if it can't be read
+	}
 }
 
 /**
- * Get monthly cost total
+ * Record one model call in the usage log
  */
-export async function getMonthlyCost(month?: string): Promise<number> {
-	const targetMonth = month || new Date().toISOString().substring(0, 7);
+export async function recordUsage(
+	record: Omit<UsageRecord, 'timestamp'> & { timestamp?: string }
+): Promise<void> {
+	await mkdir(STATE_DIR, { recursive: true });
+	await migrateLegacyCostFile();
+
+	const entry: UsageRecord = {
+		timestamp: new Date().toISOString(),
+		...record,
+	};
+
+	await appendFile(USAGE_FILE, `${JSON.stringify(entry)}\n`);
+}
 
-	if (!existsSync(COST_FILE)) {
-		return 0;
+/**
+ * Record a cost without per-call details
+ *
+ * Shorthand for recordUsage() when only the model and cost are known.
+ */
+export async function recordCost(model: string, cost: number, command?: string): Promise<void> {
+	await recordUsage({
+		command,
+		model,
+		provider: 'unknown',
+		input_tokens: 0,
+		output_tokens: 0,
+		cost_usd: cost,
+		latency_ms: 0,
+		success: true,
+	});
+}
+
+/**
+ * Get usage records
+ *
+ * @param period - Only records whose timestamp starts with this prefix
+ *                 (YYYY-MM for a month, YYYY-MM-DD for a day)
+ */
+export async function getUsageRecords(period?: string): Promise<UsageRecord[]> {
+	await migrateLegacyCostFile();
+
+	if (!existsSync(USAGE_FILE)) {
+		return [];
 	}
 
 	try {
-		const content = await readFile(COST_FILE, 'utf-8');
-		const tracking = JSON.parse(content);
-		return tracking[`${targetMonth}:total`] || 0;
+		const content = await readFile(USAGE_FILE, 'utf-8');
+		const records: UsageRecord[] = [];
+
+		for (const line of content.split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				const record = JSON.parse(line) as UsageRecord;
+				if (!period || record.timestamp.startsWith(period)) {
+					records.push(record);
+				}
+			} catch {
+				// Skip corrupted lines
+			}
+		}
+
+		return records;
 	} catch {
-		return 0;
+		return [];
 	}
 }
 
 /**
- * Get cost breakdown by model
+ * Sum the cost of usage records
  */
-export async function getCostBreakdown(month?: string): Promise<Record<string, number>> {
-	const targetMonth = month || new Date().toISOString().substring(0, 7);
+function sumCost(records: UsageRecord[]): number {
+	return records.reduce((sum, r) => sum + r.cost_usd, 0);
+}
 
-	if (!existsSync(COST_FILE)) {
-		return {};
-	}
+/**
+ * Get monthly cost total
+ */
+export async function getMonthlyCost(month?: string): Promise<number> {
+	const targetMonth = month || new Date().toISOString().substring(0, 7);
+	return sumCost(await getUsageRecords(targetMonth));
+}
 
-	try {
-		const content = await readFile(COST_FILE, 'utf-8');
-		const tracking = JSON.parse(content) as Record<string, number>;
+/**
+ * Get daily cost total
+ *
+ * @param date - Day in YYYY-MM-DD format (defaults to today)
+ */
+export async function getDailyCost(date?: string): Promise<number> {
+	const targetDay = date || new Date().toISOString().substring(0, 10);
+	return sumCost(await getUsageRecords(targetDay));
+}
 
-		const breakdown: Record<string, number> = {};
+/**
+ * Get monthly cost for a single command
+ */
+export async function getCommandCost(command: string, month?: string): Promise<number> {
+	const targetMonth = month || new Date().toISOString().substring(0, 7);
+	const records = await getUsageRecords(targetMonth);
+	return sumCost(records.filter((r) => r.command === command));
+}
 
-		for (const [key, cost] of Object.entries(tracking)) {
-			if (key.startsWith(targetMonth) && !key.includes(':total')) {
-				const model = key.split(':')[1];
-				breakdown[model] = cost;
-			}
-		}
+/**
+ * Get cost breakdown by model
+ */
+export async function getCostBreakdown(month?: string): Promise<Record<string, number>> {
+	const targetMonth = month || new Date().toISOString().substring(0, 7);
+	const breakdown: Record<string, number> = {};
 
-		return breakdown;
-	} catch {
-		return {};
+	for (const record of await getUsageRecords(targetMonth)) {
+		breakdown[record.model] = (breakdown[record.model] || 0) + record.cost_usd;
 	}
+
+	return breakdown;
 }
 
 /**
@@ -325,8 +510,26 @@ export class StateManager {
 		return getCheckinStreak();
 	}
 
-	async recordCost(model: string, cost: number): Promise<void> {
-		return recordCost(model, cost);
+	async recordCost(model: string, cost: number, command?: string): Promise<void> {
+		return recordCost(model, cost, command);
+	}
+
+	async recordUsage(
+		record: Omit<UsageRecord, 'timestamp'> & { timestamp?: string }
+	): Promise<void> {
+		return recordUsage(record);
+	}
+
+	async getUsageRecords(period?: string): Promise<UsageRecord[]> {
+		return getUsageRecords(period);
+	}
+
+	async getDailyCost(date?: string): Promise<number> {
+		return getDailyCost(date);
+	}
+
+	async getCommandCost(command: string, month?: string): Promise<number> {
+		return getCommandCost(command, month);
 	}
 
 	async getMonthlyCost(month?: string): Promise<number> {
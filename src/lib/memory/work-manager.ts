@@ -115,10 +115,8 @@ export class WorkManager {
 			...itemData,
 		});
 
-		if (effort === 'QUICK') {
-			await appendFile(`${WORK_DIR}/${workId}.jsonl`, `${JSON.stringify(fullItem)}\n`);
-		} else {
-			await appendFile(`${WORK_DIR}/${workId}/items.jsonl`, `${JSON.stringify(fullItem)}\n`);
+		await appendFile(this.itemsPath(workId, effort), `${JSON.stringify(fullItem)}\n`);
+		if (effort !== 'QUICK') {
 			const items = await this.getItems(workId);
 			await this.updateMeta(workId, {
 				total_items: items.length,
@@ -127,6 +125,37 @@ export class WorkManager {
 		}
 	}
 
+	/**
+	 * Record the AI response to a prompt in a work session
+	 *
+	 * Fills in the item created for the prompt when it has no response yet
+	 * (the first turn), otherwise adds a new item. Ratings are later distilled
+	 * into lessons from these.
+	 */
+	async recordResponse(
+		workId: string,
+		prompt: string,
+		details: Pick<WorkItem, 'response_summary' | 'model_used' | 'cost_usd' | 'duration_seconds'>
+	): Promise<void> {
+		const effort = await this.getWorkEffort(workId);
+		if (effort === 'TRIVIAL') {
+			return; // Nothing to persist
+		}
+
+		const items = await this.getItems(workId);
+		const last = items[items.length - 1];
+		if (!last || last.prompt !== prompt || last.response_summary) {
+			await this.addItem(workId, { prompt, status: 'completed', ...details });
+			return;
+		}
+
+		items[items.length - 1] = { ...last, ...details, status: 'completed' };
+		await writeFile(
+			this.itemsPath(workId, effort),
+			`${items.map((item) => JSON.stringify(item)).join('\n')}\n`
+		);
+	}
+
 	/**
 	 * Complete a work session
 	 */
@@ -195,11 +224,8 @@ export class WorkManager {
 			return [];
 		}
 
-		const path =
-			effort === 'QUICK' ? `${WORK_DIR}/${workId}.jsonl` : `${WORK_DIR}/${workId}/items.jsonl`;
-
 		try {
-			const content = await readFile(path, 'utf-8');
+			const content = await readFile(this.itemsPath(workId, effort), 'utf-8');
 			return content
 				.trim()
 				.split('\n')
@@ -273,10 +299,30 @@ export class WorkManager {
 		}
 	}
 
+	/**
+	 * Update work metadata (STANDARD/THOROUGH work only)
+	 */
+	async updateMeta(workId: string, updates: Partial<WorkMeta>): Promise<void> {
+		const metaPath = `${WORK_DIR}/${workId}/meta.yaml`;
+
+		try {
+			const content = await readFile(metaPath, 'utf-8');
+			const meta = parse(content) as WorkMeta;
+			const updated = { ...meta, ...updates };
+			await writeFile(metaPath, stringify(updated));
+		} catch (err) {
+			console.error(`Failed to update meta for ${workId}:`, err);
+		}
+	}
+
 	// ============================================
 	// Private Methods
 	// ============================================
 
+	private itemsPath(workId: string, effort: EffortLevel): string {
+		return effort === 'QUICK' ? `${WORK_DIR}/${workId}.jsonl` : `${WORK_DIR}/${workId}/items.jsonl`;
+	}
+
 	private async setCurrentWork(work: CurrentWork): Promise<void> {
 		const state = await this.getState();
 		state.currentWork = work;
@@ -320,19 +366,6 @@ export class WorkManager {
 		// Not found - assume TRIVIAL
 		return 'TRIVIAL';
 	}
-
-	private async updateMeta(workId: string, updates: Partial<WorkMeta>): Promise<void> {
-		const metaPath = `${WORK_DIR}/${workId}/meta.yaml`;
-
-		try {
-			const content = await readFile(metaPath, 'utf-8');
-			const meta = parse(content) as WorkMeta;
-			const updated = { ...meta, ...updates };
-			await writeFile(metaPath, stringify(updated));
-		} catch (err) {
-			console.error(`Failed to update meta for ${workId}:`, err);
-		}
-	}
 }
 
 // Export singleton instance
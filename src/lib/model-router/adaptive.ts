@@ -0,0 +1,235 @@
+/**
+ * Adaptive Classifier - Adjust complexity using rating history
+ *
+ * The regex/keyword heuristics in complexity.ts don't learn. This layer
+ * looks up past ratings for similar prompts (joined on model_used, the
+ * prompt snippet and the complexity they were routed at) and:
+ * - escalates a tier when similar prompts keep getting rated poorly there
+ * - de-escalates when the cheaper tier's models keep getting rated well
+ *
+ * With no relevant history it returns the heuristic result unchanged.
+ */
+
+import { learningManager } from '../memory/learning-manager';
+import type { Rating } from '../schemas/learning';
+import {
+	COMPLEXITY_LEVELS,
+	type Complexity,
+	type ComplexityIndicators,
+	classify,
+} from './complexity';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SimilarRating {
+	prompt: string;
+	model: string;
+	complexity: Complexity;
+	rating: number;
+	/** Token overlap with the new prompt (0-1) */
+	similarity: number;
+}
+
+export interface AdaptiveClassification {
+	/** Complexity to route at */
+	complexity: Complexity;
+	/** What the heuristics alone said */
+	heuristic: Complexity;
+	adjustment: 'escalated' | 'de-escalated' | 'none';
+	reason: string;
+	/** Rated past prompts similar to this one, most similar first */
+	similar: SimilarRating[];
+}
+
+export interface AdaptiveOptions {
+	indicators?: Partial<ComplexityIndicators>;
+	/** Routing tiers from models.yaml, used to tell which models are "cheap" */
+	routing?: Partial<Record<Complexity, string[]>>;
+	/** Ratings to learn from (defaults to the last LOOKBACK_DAYS of ratings) */
+	ratings?: Rating[];
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+const LOOKBACK_DAYS = 90;
+const MIN_SIMILARITY = 0.3;
+
+/** Escalate when at least this many similar prompts average this or lower */
+const ESCALATE_MIN_SAMPLES = 2;
+const ESCALATE_MAX_AVERAGE = 5;
+
+/** De-escalate when at least this many cheap-model ratings average this or higher */
+const DEESCALATE_MIN_SAMPLES = 3;
+const DEESCALATE_MIN_AVERAGE = 8;
+
+const STOP_WORDS = new Set([
+	'the',
+	'and',
+	'for',
+	'with',
+	'this',
+	'that',
+	'what',
+	'how',
+	'can',
+	'you',
+	'please',
+	'from',
+	'into',
+	'about',
+	'are',
+	'was',
+	'have',
+	'has',
+	'will',
+	'would',
+	'could',
+	'should',
+	'does',
+	'our',
+]);
+
+// ============================================
+// Similarity
+// ============================================
+
+/**
+ * Split a prompt into comparable keywords
+ */
+function keywords(text: string): Set<string> {
+	return new Set(
+		text
+			.toLowerCase()
+			.split(/[^a-z0-9]+/)
+			.filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+	);
+}
+
+/**
+ * Jaccard similarity between two keyword sets
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+	if (a.size === 0 || b.size === 0) return 0;
+	let shared = 0;
+	for (const word of a) {
+		if (b.has(word)) shared++;
+	}
+	return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Find rated prompts similar to a task
+ */
+export function findSimilarRatings(task: string, ratings: Rating[]): SimilarRating[] {
+	const taskWords = keywords(task);
+	const similar: SimilarRating[] = [];
+
+	for (const rating of ratings) {
+		if (!rating.model_used || !rating.prompt_snippet || !rating.complexity) continue;
+
+		const score = similarity(taskWords, keywords(rating.prompt_snippet));
+		if (score < MIN_SIMILARITY) continue;
+
+		similar.push({
+			prompt: rating.prompt_snippet,
+			model: rating.model_used,
+			complexity: rating.complexity,
+			rating: rating.rating,
+			similarity: score,
+		});
+	}
+
+	return similar.sort((a, b) => b.similarity - a.similarity);
+}
+
+// ============================================
+// Classification
+// ============================================
+
+function average(values: number[]): number {
+	return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Most frequent model among ratings
+ */
+function mostCommonModel(ratings: SimilarRating[]): string {
+	const counts = new Map<string, number>();
+	for (const r of ratings) {
+		counts.set(r.model, (counts.get(r.model) || 0) + 1);
+	}
+	return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Classify a task using heuristics adjusted by rating history
+ *
+ * @param task - The prompt to classify
+ * @param options - Indicators, routing tiers and (optionally) ratings to use
+ */
+export async function adaptiveClassify(
+	task: string,
+	options: AdaptiveOptions = {}
+): Promise<AdaptiveClassification> {
+	const heuristic = classify(task, options.indicators);
+	const ratings = options.ratings ?? (await learningManager.getRecentRatings(LOOKBACK_DAYS));
+	const similar = findSimilarRatings(task, ratings);
+	const level = COMPLEXITY_LEVELS.indexOf(heuristic);
+
+	const unchanged = (reason: string): AdaptiveClassification => ({
+		complexity: heuristic,
+		heuristic,
+		adjustment: 'none',
+		reason,
+		similar,
+	});
+
+	if (similar.length === 0) {
+		return unchanged('No rated history for similar prompts');
+	}
+
+	// Escalate: similar prompts keep doing badly at this tier
+	const atTier = similar.filter((r) => r.complexity === heuristic);
+	if (atTier.length >= ESCALATE_MIN_SAMPLES && level < COMPLEXITY_LEVELS.length - 1) {
+		const avg = average(atTier.map((r) => r.rating));
+		if (avg <= ESCALATE_MAX_AVERAGE) {
+			return {
+				complexity: COMPLEXITY_LEVELS[level + 1],
+				heuristic,
+				adjustment: 'escalated',
+				reason: `${atTier.length} similar prompts at ${heuristic} averaged ${avg.toFixed(1)}/10 (mostly ${mostCommonModel(atTier)})`,
+				similar,
+			};
+		}
+	}
+
+	// De-escalate: the next tier down's models keep doing well on similar prompts
+	if (level > 0) {
+		const lower = COMPLEXITY_LEVELS[level - 1];
+		const cheapModels = new Set(options.routing?.[lower] ?? []);
+		const cheap = similar.filter(
+			(r) => (r.complexity === heuristic || r.complexity === lower) && cheapModels.has(r.model)
+		);
+
+		if (cheap.length >= DEESCALATE_MIN_SAMPLES) {
+			const avg = average(cheap.map((r) => r.rating));
+			if (avg >= DEESCALATE_MIN_AVERAGE) {
+				return {
+					complexity: lower,
+					heuristic,
+					adjustment: 'de-escalated',
+					reason: `${cheap.length} similar prompts on ${lower} models averaged ${avg.toFixed(1)}/10 (mostly ${mostCommonModel(cheap)})`,
+					similar,
+				};
+			}
+		}
+	}
+
+	return unchanged(
+		`${similar.length} similar rated prompt${similar.length === 1 ? '' : 's'}, no adjustment needed`
+	);
+}
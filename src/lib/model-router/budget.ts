@@ -0,0 +1,125 @@
+/**
+ * Budget - Spending limits for model calls
+ *
+ * Budgets are configured under `budget` in models.yaml:
+ * - monthly / daily totals across every command
+ * - per-command monthly caps (chat, news, research, skills)
+ *
+ * Once any applicable budget passes `downgradeAt` (default 80%) the router
+ * downgrades to cheaper models; once one is used up, paid calls are refused.
+ */
+
+import { getCommandCost, getDailyCost, getMonthlyCost } from '../memory/state-manager';
+
+// ============================================
+// Types
+// ============================================
+
+export type BudgetCommand = 'chat' | 'news' | 'research' | 'skills';
+
+export const BUDGET_COMMANDS: BudgetCommand[] = ['chat', 'news', 'research', 'skills'];
+
+export interface BudgetConfig {
+	/** Monthly limit in USD across all commands */
+	monthly?: number;
+	/** Daily limit in USD across all commands */
+	daily?: number;
+	/** Monthly limit in USD per command */
+	commands?: Partial<Record<BudgetCommand, number>>;
+	/** Fraction of a budget (0-1) after which routing downgrades to cheaper models */
+	downgradeAt?: number;
+}
+
+export interface BudgetStatus {
+	/** 'monthly', 'daily', or the command name */
+	scope: 'monthly' | 'daily' | BudgetCommand;
+	limit: number;
+	spent: number;
+	remaining: number;
+	/** Fraction of the limit used (can exceed 1) */
+	used: number;
+}
+
+export interface BudgetAssessment {
+	statuses: BudgetStatus[];
+	/** First budget that has been used up, if any */
+	exceeded?: BudgetStatus;
+	/** Most-used budget past the downgrade threshold, if any */
+	low?: BudgetStatus;
+}
+
+export const DEFAULT_DOWNGRADE_AT = 0.8;
+
+// ============================================
+// Budget Checks
+// ============================================
+
+/**
+ * Build a status entry for one budget
+ */
+function toStatus(scope: BudgetStatus['scope'], limit: number, spent: number): BudgetStatus {
+	return {
+		scope,
+		limit,
+		spent,
+		remaining: Math.max(0, limit - spent),
+		used: limit > 0 ? spent / limit : spent > 0 ? Number.POSITIVE_INFINITY : 1,
+	};
+}
+
+/**
+ * Get the status of every configured budget
+ *
+ * @param budget - Budget config from models.yaml
+ * @param commands - Which per-command budgets to include (defaults to all)
+ */
+export async function getBudgetStatus(
+	budget: BudgetConfig | undefined,
+	commands: BudgetCommand[] = BUDGET_COMMANDS
+): Promise<BudgetStatus[]> {
+	if (!budget) return [];
+
+	const statuses: BudgetStatus[] = [];
+
+	if (budget.monthly !== undefined) {
+		statuses.push(toStatus('monthly', budget.monthly, await getMonthlyCost()));
+	}
+	if (budget.daily !== undefined) {
+		statuses.push(toStatus('daily', budget.daily, await getDailyCost()));
+	}
+	for (const command of commands) {
+		const limit = budget.commands?.[command];
+		if (limit !== undefined) {
+			statuses.push(toStatus(command, limit, await getCommandCost(command)));
+		}
+	}
+
+	return statuses;
+}
+
+/**
+ * Check the budgets that apply to a call
+ *
+ * @param budget - Budget config from models.yaml
+ * @param command - Command making the call; calls without one only count
+ *                  against the monthly and daily budgets
+ */
+export async function assessBudget(
+	budget: BudgetConfig | undefined,
+	command?: BudgetCommand
+): Promise<BudgetAssessment> {
+	const statuses = await getBudgetStatus(budget, command ? [command] : []);
+	const downgradeAt = budget?.downgradeAt ?? DEFAULT_DOWNGRADE_AT;
+
+	const exceeded = statuses.find((s) => s.spent >= s.limit);
+	const low = statuses.filter((s) => s.used >= downgradeAt).sort((a, b) => b.used - a.used)[0];
+
+	return { statuses, exceeded, low };
+}
+
+/**
+ * Check whether a model costs nothing to call (e.g. a local server)
+ */
+export function isFreeModel(config: { inputCostPer1M: number; outputCostPer1M: number }): boolean {
+	return config.inputCostPer1M === 0 && config.outputCostPer1M === 0;
+}
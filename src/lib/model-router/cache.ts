@@ -0,0 +1,204 @@
+/**
+ * Completion Cache - On-disk cache for repeated LLM calls
+ *
+ * Deterministic helpers (definitions, news highlights, goal-update parsing)
+ * often re-send identical prompts within minutes. Callers opt in per call
+ * with `cache: true` (or `{ ttlSeconds }`) on CompletionOptions.
+ *
+ * Entries live under ~/.yxhyx/cache/completions, one JSON file per key.
+ * The key hashes the requested model, messages, temperature and maxTokens.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+
+// ============================================
+// Paths
+// ============================================
+
+const CACHE_DIR = `${process.env.HOME}/.yxhyx/cache/completions`;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Per-call cache option: `true` uses the default TTL
+ */
+export type CacheOption = boolean | { ttlSeconds: number };
+
+export interface CacheEntry {
+	key: string;
+	/** Model that produced the response */
+	model: string;
+	provider: string;
+	content: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** What the original call cost */
+	cost: number;
+	created: string;
+	expires: string;
+}
+
+export interface CacheStats {
+	entries: number;
+	expired: number;
+	sizeBytes: number;
+	/** Cost of the original calls still cached */
+	cachedCost: number;
+}
+
+export const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+
+// ============================================
+// Keys
+// ============================================
+
+/**
+ * Build the cache key for a completion request
+ */
+export function cacheKey(request: {
+	model?: string;
+	messages: Array<{ role: string; content: string }>;
+	temperature?: number;
+	maxTokens?: number;
+}): string {
+	return createHash('sha256')
+		.update(
+			JSON.stringify({
+				model: request.model || 'auto',
+				messages: request.messages,
+				temperature: request.temperature ?? null,
+				maxTokens: request.maxTokens ?? null,
+			})
+		)
+		.digest('hex');
+}
+
+/**
+ * Resolve the TTL for a cache option
+ */
+export function cacheTtlSeconds(option: CacheOption): number {
+	return typeof option === 'object' ? option.ttlSeconds : DEFAULT_CACHE_TTL_SECONDS;
+}
+
+// ============================================
+// Read / Write
+// ============================================
+
+/**
+ * Look up a cached completion
+ *
+ * @returns The entry, or null when missing or expired
+ */
+export async function getCachedCompletion(key: string): Promise<CacheEntry | null> {
+	const path = `${CACHE_DIR}/${key}.json`;
+	if (!existsSync(path)) return null;
+
+	try {
+		const entry = JSON.parse(await readFile(path, 'utf-8')) as CacheEntry;
+		if (new Date(entry.expires).getTime() <= Date.now()) {
+			await rm(path, { force: true });
+			return null;
+		}
+		return entry;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Store a completion in the cache
+ */
+export async function setCachedCompletion(
+	key: string,
+	response: Omit<CacheEntry, 'key' | 'created' | 'expires'>,
+	ttlSeconds: number = DEFAULT_CACHE_TTL_SECONDS
+): Promise<void> {
+	const now = new Date();
+	const entry: CacheEntry = {
+		key,
+		...response,
+		created: now.toISOString(),
+		expires: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+	};
+
+	try {
+		await mkdir(CACHE_DIR, { recursive: true });
+		await writeFile(`${CACHE_DIR}/${key}.json`, JSON.stringify(entry, null, 2));
+	} catch {
+		// Silently fail - caching shouldn't break completions
+	}
+}
+
+// ============================================
+// Maintenance
+// ============================================
+
+/**
+ * Read every cache entry along with its size on disk
+ */
+async function readAllEntries(): Promise<
+	Array<{ path: string; size: number; entry?: CacheEntry }>
+> {
+	if (!existsSync(CACHE_DIR)) return [];
+
+	const files = (await readdir(CACHE_DIR)).filter((f) => f.endsWith('.json'));
+	const results: Array<{ path: string; size: number; entry?: CacheEntry }> = [];
+
+	for (const file of files) {
+		const path = `${CACHE_DIR}/${file}`;
+		try {
+			const [content, info] = await Promise.all([readFile(path, 'utf-8'), stat(path)]);
+			results.push({ path, size: info.size, entry: JSON.parse(content) as CacheEntry });
+		} catch {
+			// Corrupted entries are reported as expired so `clear --expired` removes them
+			results.push({ path, size: 0 });
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Get cache statistics
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+	const now = Date.now();
+	const stats: CacheStats = { entries: 0, expired: 0, sizeBytes: 0, cachedCost: 0 };
+
+	for (const { size, entry } of await readAllEntries()) {
+		stats.entries++;
+		stats.sizeBytes += size;
+		if (!entry || new Date(entry.expires).getTime() <= now) {
+			stats.expired++;
+		} else {
+			stats.cachedCost += entry.cost;
+		}
+	}
+
+	return stats;
+}
+
+/**
+ * Remove cache entries
+ *
+ * @param options.expiredOnly - Keep entries that are still fresh
+ * @returns Number of entries removed
+ */
+export async function clearCache(options: { expiredOnly?: boolean } = {}): Promise<number> {
+	const now = Date.now();
+	let removed = 0;
+
+	for (const { path, entry } of await readAllEntries()) {
+		if (options.expiredOnly && entry && new Date(entry.expires).getTime() > now) {
+			continue;
+		}
+		await rm(path, { force: true });
+		removed++;
+	}
+
+	return removed;
+}
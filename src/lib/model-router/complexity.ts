@@ -6,6 +6,15 @@
 
 export type Complexity = 'TRIVIAL' | 'QUICK' | 'STANDARD' | 'COMPLEX' | 'CRITICAL';
 
+/** Complexity levels from cheapest to most capable */
+export const COMPLEXITY_LEVELS: Complexity[] = [
+	'TRIVIAL',
+	'QUICK',
+	'STANDARD',
+	'COMPLEX',
+	'CRITICAL',
+];
+
 export interface ComplexityIndicators {
 	requiresReasoning: boolean;
 	requiresCodeGen: boolean;
@@ -0,0 +1,183 @@
+/**
+ * Conversation Context - Keep long conversations inside the context window
+ *
+ * Once a conversation passes `summarizeAt` of the model's context window,
+ * older turns are summarized by the cheapest model and folded into the
+ * system message; the most recent messages are always kept verbatim.
+ * Settings live under `context` in models.yaml.
+ */
+
+import type { BudgetCommand } from './budget';
+import { type ModelConfig, modelRouter } from './router';
+import { estimateMessagesTokens } from './tokens';
+import type { ChatMessage } from './tools';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PackOptions {
+	/** Context window to pack into, in tokens */
+	maxContext: number;
+	/** Model the conversation is sized for (affects token estimates) */
+	model?: ModelConfig;
+	/** Fraction of maxContext (0-1) at which older turns are summarized */
+	summarizeAt?: number;
+	/** Most recent messages always kept verbatim */
+	keepRecentMessages?: number;
+	/** Summarizer (defaults to the cheapest model via the router) */
+	summarize?: (messages: ChatMessage[], previousSummary?: string) => Promise<string>;
+	/** Command the summary call is billed to */
+	command?: BudgetCommand;
+}
+
+export interface PackResult {
+	messages: ChatMessage[];
+	/** Number of messages folded into the summary (0 when nothing changed) */
+	summarized: number;
+	/** Estimated prompt tokens after packing */
+	tokens: number;
+}
+
+export const DEFAULT_SUMMARIZE_AT = 0.75;
+export const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+
+/** Marks where the running summary starts inside the system message */
+const SUMMARY_HEADING = '## Earlier in this conversation';
+
+// ============================================
+// Summarization
+// ============================================
+
+/**
+ * Render messages as a plain transcript for the summarizer
+ */
+function toTranscript(messages: ChatMessage[]): string {
+	return messages
+		.map((m) => {
+			if (m.role === 'tool') return `Tool result: ${m.content}`;
+			const calls = (m.toolCalls || [])
+				.map((call) => `\n(called ${call.name} ${JSON.stringify(call.arguments)})`)
+				.join('');
+			return `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}${calls}`;
+		})
+		.join('\n\n');
+}
+
+/**
+ * Summarize older turns with the cheapest model
+ */
+async function summarizeWithModel(
+	messages: ChatMessage[],
+	previousSummary: string | undefined,
+	command: BudgetCommand | undefined
+): Promise<string> {
+	const result = await modelRouter.complete({
+		model: 'cheapest',
+		command,
+		maxTokens: 500,
+		temperature: 0.3,
+		messages: [
+			{
+				role: 'system',
+				content:
+					'Summarize this conversation for your own future reference. Keep facts, decisions, ' +
+					'open questions and anything the user asked you to remember. Under 200 words.',
+			},
+			{
+				role: 'user',
+				content: previousSummary
+					? `Summary so far:\n${previousSummary}\n\nContinued:\n${toTranscript(messages)}`
+					: toTranscript(messages),
+			},
+		],
+	});
+	return result.content.trim();
+}
+
+// ============================================
+// Packing
+// ============================================
+
+/**
+ * Summarize older turns once a conversation nears the context window
+ *
+ * The split point always lands on a user message so tool results stay with
+ * the assistant message that requested them.
+ */
+export async function packConversation(
+	messages: ChatMessage[],
+	options: PackOptions
+): Promise<PackResult> {
+	const tokens = estimateMessagesTokens(messages, options.model);
+	const threshold = options.maxContext * (options.summarizeAt ?? DEFAULT_SUMMARIZE_AT);
+	const unchanged: PackResult = { messages, summarized: 0, tokens };
+
+	if (tokens <= threshold) {
+		return unchanged;
+	}
+
+	const system = messages[0]?.role === 'system' ? messages[0] : undefined;
+	const rest = system ? messages.slice(1) : messages;
+
+	let split = Math.max(
+		0,
+		rest.length - (options.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES)
+	);
+	while (split < rest.length && rest[split].role !== 'user') split++;
+	if (split === 0 || split >= rest.length) {
+		return unchanged; // Nothing old enough to summarize
+	}
+
+	// A previous summary is replaced, not stacked
+	const systemContent = system?.content ?? '';
+	const headingAt = systemContent.indexOf(SUMMARY_HEADING);
+	const base = headingAt === -1 ? systemContent : systemContent.slice(0, headingAt).trimEnd();
+	const previousSummary =
+		headingAt === -1 ? undefined : systemContent.slice(headingAt + SUMMARY_HEADING.length).trim();
+
+	const summarize =
+		options.summarize ??
+		((older: ChatMessage[], previous?: string) =>
+			summarizeWithModel(older, previous, options.command));
+	const summary = await summarize(rest.slice(0, split), previousSummary);
+
+	const packed: ChatMessage[] = [
+		{ role: 'system', content: `${base ? `${base}\n\n` : ''}${SUMMARY_HEADING}\n${summary}` },
+		...rest.slice(split),
+	];
+
+	return {
+		messages: packed,
+		summarized: split,
+		tokens: estimateMessagesTokens(packed, options.model),
+	};
+}
+
+/**
+ * Pack a conversation for the model it would be routed to
+ *
+ * Uses the model routing picks for the latest user message (ignoring
+ * context size, so long sessions get summarized rather than upgraded)
+ * and the `context` settings from models.yaml.
+ */
+export async function fitConversation(
+	messages: ChatMessage[],
+	options: { model?: string; command?: BudgetCommand } = {}
+): Promise<PackResult> {
+	const config = await modelRouter.loadConfig();
+	const task = [...messages].reverse().find((m) => m.role === 'user')?.content;
+	const route = await modelRouter.route({
+		task,
+		preferredModel: options.model,
+		command: options.command,
+	});
+
+	return packConversation(messages, {
+		maxContext: route.config.maxContext,
+		model: route.config,
+		summarizeAt: config.context?.summarizeAt,
+		keepRecentMessages: config.context?.keepRecentMessages,
+		command: options.command,
+	});
+}
@@ -8,9 +8,18 @@ export {
 	type ModelConfig,
 	type RoutingConfig,
 	type RouteResult,
+	type RouteOptions,
+	type RetryConfig,
+	type ModelAttempt,
 	type CompletionOptions,
 	type CompletionResult,
+	type StreamEvent,
+	type ContextConfig,
+	type EmbeddingsConfig,
+	type EmbeddingResult,
+	type LearningConfig,
 	DEFAULT_ROUTING_CONFIG,
+	DEFAULT_MAX_TOKENS,
 } from './router';
 
 export {
@@ -18,6 +27,73 @@ export {
 	classifyByPattern,
 	classifyComplexity,
 	getCostMultiplier,
+	COMPLEXITY_LEVELS,
 	type Complexity,
 	type ComplexityIndicators,
 } from './complexity';
+
+export {
+	adaptiveClassify,
+	findSimilarRatings,
+	type AdaptiveClassification,
+	type AdaptiveOptions,
+	type SimilarRating,
+} from './adaptive';
+
+export {
+	assessBudget,
+	getBudgetStatus,
+	isFreeModel,
+	BUDGET_COMMANDS,
+	DEFAULT_DOWNGRADE_AT,
+	type BudgetCommand,
+	type BudgetConfig,
+	type BudgetStatus,
+	type BudgetAssessment,
+} from './budget';
+
+export {
+	cacheKey,
+	clearCache,
+	getCacheStats,
+	getCachedCompletion,
+	setCachedCompletion,
+	DEFAULT_CACHE_TTL_SECONDS,
+	type CacheEntry,
+	type CacheOption,
+	type CacheStats,
+} from './cache';
+
+export {
+	toAnthropicMessages,
+	toAnthropicTools,
+	toOpenAIMessages,
+	toOpenAITools,
+	type ChatMessage,
+	type ToolCall,
+	type ToolDefinition,
+	type ToolParameterSchema,
+} from './tools';
+
+export { charsPerToken, estimateMessagesTokens, estimateTokens } from './tokens';
+
+export {
+	fitConversation,
+	packConversation,
+	DEFAULT_KEEP_RECENT_MESSAGES,
+	DEFAULT_SUMMARIZE_AT,
+	type PackOptions,
+	type PackResult,
+} from './context';
+
+export {
+	fixtureKey,
+	loadFixture,
+	resolveReplaySettings,
+	saveFixture,
+	PROVIDER_MODES,
+	type Fixture,
+	type FixtureRequest,
+	type ProviderMode,
+	type ReplaySettings,
+} from './replay';
@@ -0,0 +1,143 @@
+/**
+ * Record / Replay - Deterministic provider responses for offline testing
+ *
+ * The provider mode comes from YXHYX_PROVIDER_MODE, or `providerMode` in
+ * models.yaml:
+ * - live:   call providers normally (default)
+ * - record: call providers and save each request/response pair as a fixture
+ * - replay: never touch the network; serve fixtures back, failing on a miss
+ *
+ * Fixtures are JSON files named by a hash of the routed model and the
+ * request (messages, tools, temperature, maxTokens), stored in
+ * YXHYX_FIXTURES_DIR, `fixturesDir` in models.yaml, or ~/.yxhyx/fixtures.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { ReplayFixtureMissingError } from '../errors';
+import type { ChatMessage, ToolCall, ToolDefinition } from './tools';
+
+// ============================================
+// Types
+// ============================================
+
+export type ProviderMode = 'live' | 'record' | 'replay';
+
+export const PROVIDER_MODES: ProviderMode[] = ['live', 'record', 'replay'];
+
+export interface ReplaySettings {
+	mode: ProviderMode;
+	fixturesDir: string;
+}
+
+/**
+ * The parts of a request that identify a fixture
+ */
+export interface FixtureRequest {
+	/** Routed model name from models.yaml */
+	model: string;
+	messages: ChatMessage[];
+	tools?: ToolDefinition[];
+	toolChoice?: 'auto' | 'none';
+	temperature?: number;
+	maxTokens?: number;
+}
+
+export interface Fixture {
+	key: string;
+	request: FixtureRequest;
+	response: {
+		content: string;
+		inputTokens: number;
+		outputTokens: number;
+		toolCalls?: ToolCall[];
+	};
+	/** Provider the response was recorded from */
+	provider: string;
+	recorded: string;
+}
+
+const DEFAULT_FIXTURES_DIR = `${process.env.HOME}/.yxhyx/fixtures`;
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Resolve the provider mode and fixtures directory
+ *
+ * Environment variables win over models.yaml so CI can force replay.
+ */
+export function resolveReplaySettings(config: {
+	providerMode?: ProviderMode;
+	fixturesDir?: string;
+}): ReplaySettings {
+	const envMode = process.env.YXHYX_PROVIDER_MODE as ProviderMode | undefined;
+	const mode =
+		envMode && PROVIDER_MODES.includes(envMode) ? envMode : (config.providerMode ?? 'live');
+	const dir = process.env.YXHYX_FIXTURES_DIR || config.fixturesDir || DEFAULT_FIXTURES_DIR;
+
+	return { mode, fixturesDir: dir.replace(/^~(?=\/|$)/, process.env.HOME || '~') };
+}
+
+// ============================================
+// Fixtures
+// ============================================
+
+/**
+ * Build the fixture key for a request
+ */
+export function fixtureKey(request: FixtureRequest): string {
+	return createHash('sha256')
+		.update(
+			JSON.stringify({
+				model: request.model,
+				messages: request.messages,
+				tools: request.tools ?? null,
+				// Only keyed when set, so fixtures recorded before it still match
+				...(request.toolChoice && { toolChoice: request.toolChoice }),
+				temperature: request.temperature ?? null,
+				maxTokens: request.maxTokens ?? null,
+			})
+		)
+		.digest('hex');
+}
+
+/**
+ * Load the fixture for a request
+ *
+ * @throws ReplayFixtureMissingError when none was recorded
+ */
+export async function loadFixture(fixturesDir: string, request: FixtureRequest): Promise<Fixture> {
+	const key = fixtureKey(request);
+	const path = `${fixturesDir}/${key}.json`;
+
+	if (!existsSync(path)) {
+		throw new ReplayFixtureMissingError(request.model, path);
+	}
+
+	return JSON.parse(await readFile(path, 'utf-8')) as Fixture;
+}
+
+/**
+ * Save a request/response pair as a fixture
+ */
+export async function saveFixture(
+	fixturesDir: string,
+	request: FixtureRequest,
+	provider: string,
+	response: Fixture['response']
+): Promise<void> {
+	const key = fixtureKey(request);
+	const fixture: Fixture = {
+		key,
+		request,
+		response,
+		provider,
+		recorded: new Date().toISOString(),
+	};
+
+	await mkdir(fixturesDir, { recursive: true });
+	await writeFile(`${fixturesDir}/${key}.json`, `${JSON.stringify(fixture, null, 2)}\n`);
+}
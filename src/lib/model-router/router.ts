@@ -2,30 +2,171 @@
  * Model Router - Cost-optimized AI model selection
  *
  * Routes tasks to the cheapest capable model based on complexity.
- * Supports Kimi (Moonshot), OpenRouter, and Anthropic providers.
+ * Supports Kimi (Moonshot), OpenRouter, Anthropic, and any OpenAI-compatible
+ * endpoint (Ollama, llama.cpp server, vLLM, internal gateways).
  */
 
-import { existsSync } from 'node:fs';
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { existsSync, readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
 import { parse } from 'yaml';
-import { type Complexity, type ComplexityIndicators, classify } from './complexity';
+import {
+	AllModelsFailedError,
+	ApiError,
+	BudgetExceededError,
+	ConfigError,
+	ContextWindowError,
+	NetworkError,
+	isRecoverableError,
+	withRetry,
+} from '../errors';
+import { recordUsage } from '../memory/state-manager';
+import { type AdaptiveClassification, adaptiveClassify } from './adaptive';
+import { type BudgetCommand, type BudgetConfig, assessBudget, isFreeModel } from './budget';
+import {
+	type CacheOption,
+	cacheKey,
+	cacheTtlSeconds,
+	getCachedCompletion,
+	setCachedCompletion,
+} from './cache';
+import {
+	COMPLEXITY_LEVELS,
+	type Complexity,
+	type ComplexityIndicators,
+	classify,
+} from './complexity';
+import {
+	type FixtureRequest,
+	type ProviderMode,
+	type ReplaySettings,
+	loadFixture,
+	resolveReplaySettings,
+	saveFixture,
+} from './replay';
+import { parseServerSentEvents } from './sse';
+import { estimateMessagesTokens } from './tokens';
+import {
+	type ChatMessage,
+	type ToolCall,
+	type ToolDefinition,
+	fromOpenAIToolCalls,
+	parseToolArguments,
+	toAnthropicMessages,
+	toAnthropicTools,
+	toOpenAIMessages,
+	toOpenAITools,
+} from './tools';
 
 // ============================================
 // Types
 // ============================================
 
 export interface ModelConfig {
-	provider: 'kimi' | 'openrouter' | 'anthropic';
+	provider: 'kimi' | 'openrouter' | 'anthropic' | 'openai-compatible';
 	model: string;
 	inputCostPer1M: number;
 	outputCostPer1M: number;
 	maxContext: number;
+	/** openai-compatible only: API root, e.g. http://localhost:11434/v1 */
+	base_url?: string;
+	/** openai-compatible only: env var holding the API key (omit for keyless local servers) */
+	api_key_env?: string;
+	/** openai-compatible only: extra headers sent with every request */
+	headers?: Record<string, string>;
+	/** Characters per token for prompt size estimates (defaults by provider) */
+	charsPerToken?: number;
 }
 
 export interface RoutingConfig {
 	models: Record<string, ModelConfig>;
 	routing: Record<Complexity, string[]>;
 	overrides?: Record<string, string>;
+	retry?: RetryConfig;
+	budget?: BudgetConfig;
+	/** Adjust classified complexity using rating history (default true) */
+	adaptive?: boolean;
+	context?: ContextConfig;
+	/** live (default), record, or replay - YXHYX_PROVIDER_MODE overrides this */
+	providerMode?: ProviderMode;
+	/** Where record/replay fixtures live - YXHYX_FIXTURES_DIR overrides this */
+	fixturesDir?: string;
+	embeddings?: EmbeddingsConfig;
+	learning?: LearningConfig;
+}
+
+/**
+ * Per-model retry behaviour before failing over to the next candidate
+ */
+export interface RetryConfig {
+	maxAttempts?: number;
+	initialDelayMs?: number;
+}
+
+/**
+ * When long conversations get summarized to fit the context window
+ */
+export interface ContextConfig {
+	/** Fraction of the model's context (0-1) at which older turns are summarized */
+	summarizeAt?: number;
+	/** Most recent messages always kept verbatim */
+	keepRecentMessages?: number;
+}
+
+/**
+ * Embedding backend for learning retrieval
+ *
+ * The local backend (default) needs no network. The provider backend calls
+ * an OpenAI-style /embeddings endpoint (OpenAI, Ollama, LM Studio...).
+ */
+export interface EmbeddingsConfig {
+	backend?: 'local' | 'provider';
+	/** provider only: embedding model, e.g. text-embedding-3-small */
+	model?: string;
+	/** provider only: API root, e.g. https://api.openai.com/v1 */
+	base_url?: string;
+	/** provider only: env var holding the API key (omit for keyless local servers) */
+	api_key_env?: string;
+	/** provider only: extra headers sent with every request */
+	headers?: Record<string, string>;
+	/** provider only: for the usage log */
+	inputCostPer1M?: number;
+}
+
+/**
+ * How learnings are generated from ratings
+ */
+export interface LearningConfig {
+	/** Distill lessons from rated work with the cheapest model (default true) */
+	distill?: boolean;
+	/** Rate responses from the user's follow-up messages */
+	implicitRatings?: {
+		/** Default true */
+		enabled?: boolean;
+		/** Minimum classification confidence, 0-1 (default 0.7) */
+		minConfidence?: number;
+	};
+}
+
+export interface EmbeddingResult {
+	/** One vector per input text, in order */
+	vectors: number[][];
+	model: string;
+	inputTokens: number;
+	cost: number;
+}
+
+export interface RouteOptions {
+	task?: string;
+	complexity?: Complexity;
+	preferredModel?: string;
+	indicators?: Partial<ComplexityIndicators>;
+	maxCost?: number;
+	/** Command making the call, for per-command budgets */
+	command?: BudgetCommand;
+	/** Conversation that must fit the model's context window */
+	messages?: ChatMessage[];
+	/** Tokens reserved for the response (defaults to DEFAULT_MAX_TOKENS) */
+	maxOutputTokens?: number;
 }
 
 export interface RouteResult {
@@ -34,13 +175,40 @@ export interface RouteResult {
 	config: ModelConfig;
 	complexity: Complexity;
 	reason: string;
+	/** Rating-history adjustment, when the complexity was classified from the task */
+	adaptive?: AdaptiveClassification;
 }
 
 export interface CompletionOptions {
 	model?: string;
-	messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+	messages: ChatMessage[];
 	maxTokens?: number;
 	temperature?: number;
+	/** Command making the call, for per-command budgets */
+	command?: BudgetCommand;
+	/** Skill making the call, recorded in the usage log */
+	skill?: string;
+	/** Work session the call belongs to, recorded in the usage log */
+	workId?: string;
+	/** Serve identical repeat requests from the on-disk cache (ignored when tools are set) */
+	cache?: CacheOption;
+	/** Tools the model may call - calls come back in CompletionResult.toolCalls */
+	tools?: ToolDefinition[];
+	/** `none` keeps the tools (and any earlier tool calls) in context but forbids new calls */
+	toolChoice?: 'auto' | 'none';
+}
+
+/**
+ * One model tried while serving a completion
+ */
+export interface ModelAttempt {
+	model: string;
+	provider: string;
+	success: boolean;
+	/** Why the attempt failed */
+	error?: string;
+	/** HTTP status from the provider, if any */
+	statusCode?: number;
 }
 
 export interface CompletionResult {
@@ -49,6 +217,42 @@ export interface CompletionResult {
 	model: string;
 	inputTokens: number;
 	outputTokens: number;
+	/** Every model tried, in order - more than one entry means failover happened */
+	attempts: ModelAttempt[];
+	/** Complexity the request was routed at (absent for cache hits) */
+	complexity?: Complexity;
+	/** Served from the completion cache (no model was called) */
+	cached?: boolean;
+	/** Tools the model asked to call, when tools were offered */
+	toolCalls?: ToolCall[];
+}
+
+/**
+ * Events emitted by ModelRouter.stream()
+ *
+ * Tokens arrive as they are generated; a single `done` event closes the
+ * stream with the same usage/cost record complete() would have returned.
+ */
+export type StreamEvent =
+	| { type: 'token'; content: string }
+	| { type: 'done'; result: CompletionResult };
+
+/**
+ * Raw events produced by the per-provider stream readers
+ */
+type ProviderStreamEvent =
+	| { type: 'text'; text: string }
+	| { type: 'tool_call'; call: ToolCall }
+	| { type: 'usage'; inputTokens?: number; outputTokens?: number };
+
+/**
+ * Response from a single non-streaming provider call
+ */
+interface ProviderResponse {
+	content: string;
+	inputTokens: number;
+	outputTokens: number;
+	toolCalls?: ToolCall[];
 }
 
 // ============================================
@@ -57,12 +261,14 @@ export interface CompletionResult {
 
 const CONFIG_DIR = `${process.env.HOME}/.yxhyx/config`;
 const MODELS_CONFIG_PATH = `${CONFIG_DIR}/models.yaml`;
-const COST_TRACKING_PATH = `${process.env.HOME}/.yxhyx/memory/state/cost-tracking.json`;
 
 // ============================================
 // Default Configuration
 // ============================================
 
+/** Response length used when a request doesn't set maxTokens */
+export const DEFAULT_MAX_TOKENS = 2000;
+
 export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
 	models: {
 		'kimi-8k': {
@@ -117,6 +323,18 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
 	},
 };
 
+const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+	maxAttempts: 2,
+	initialDelayMs: 1000,
+};
+
+/**
+ * HTTP statuses worth retrying or failing over on
+ */
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
 // ============================================
 // Model Router Class
 // ============================================
@@ -160,46 +378,166 @@ export class ModelRouter {
 		return this.config;
 	}
 
+	/**
+	 * Load routing configuration synchronously (for sync availability checks)
+	 */
+	private loadConfigSync(): RoutingConfig {
+		if (this.config) return this.config;
+
+		if (existsSync(MODELS_CONFIG_PATH)) {
+			try {
+				this.config = parse(readFileSync(MODELS_CONFIG_PATH, 'utf-8')) as RoutingConfig;
+			} catch {
+				this.config = DEFAULT_ROUTING_CONFIG;
+			}
+		} else {
+			this.config = DEFAULT_ROUTING_CONFIG;
+		}
+
+		return this.config;
+	}
+
+	/**
+	 * Check whether a model can be called
+	 *
+	 * Built-in providers need their API key. OpenAI-compatible models need a
+	 * base_url, plus the key in their api_key_env variable if one is named.
+	 */
+	private isModelAvailable(modelConfig: ModelConfig): boolean {
+		// Replay never calls the provider, so keys don't matter
+		if (this.replaySettings().mode === 'replay') return true;
+
+		if (modelConfig.provider === 'openai-compatible') {
+			if (!modelConfig.base_url) return false;
+			return !modelConfig.api_key_env || Boolean(process.env[modelConfig.api_key_env]);
+		}
+		return Boolean(this.apiKeys[modelConfig.provider]);
+	}
+
 	/**
 	 * Route a task to the appropriate model
 	 */
-	async route(options: {
-		task?: string;
-		complexity?: Complexity;
-		preferredModel?: string;
-		indicators?: Partial<ComplexityIndicators>;
-		maxCost?: number;
-	}): Promise<RouteResult> {
+	async route(options: RouteOptions): Promise<RouteResult> {
+		const [first] = await this.routeCandidates(options);
+		return first;
+	}
+
+	/**
+	 * Build the ordered list of models to try for a task
+	 *
+	 * The first entry is what route() returns; the rest are failover
+	 * candidates from the same routing tier, in priority order.
+	 *
+	 * Budgets apply here: when one is nearly used up the task drops a
+	 * complexity tier and the cheapest models go first; when one is used up
+	 * only zero-cost models may be returned, otherwise BudgetExceededError.
+	 *
+	 * With `messages`, models whose context window can't hold them are
+	 * skipped or upgraded (see fitContext).
+	 */
+	async routeCandidates(options: RouteOptions): Promise<RouteResult[]> {
 		const config = await this.loadConfig();
 		this.loadApiKeys(); // Refresh API keys
 
+		// Let rating history adjust the heuristic classification
+		let adaptive: AdaptiveClassification | undefined;
+		const preferred = options.preferredModel && config.models[options.preferredModel];
+		if (!preferred && !options.complexity && options.task && config.adaptive !== false) {
+			adaptive = await adaptiveClassify(options.task, {
+				indicators: options.indicators,
+				routing: config.routing,
+			});
+		}
+
+		const budget = await assessBudget(config.budget, options.command);
+		const results = this.fitContext(
+			config,
+			this.selectCandidates(
+				config,
+				{ ...options, complexity: options.complexity ?? adaptive?.complexity },
+				budget.low !== undefined
+			),
+			options
+		);
+
+		if (adaptive) {
+			for (const result of results) {
+				result.adaptive = adaptive;
+			}
+			if (adaptive.adjustment !== 'none' && results[0]?.reason.startsWith('Routed')) {
+				results[0].reason += ` (${adaptive.adjustment} from ${adaptive.heuristic}: ${adaptive.reason})`;
+			}
+		}
+
+		if (budget.low && results[0]?.reason.startsWith('Routed')) {
+			const { scope, used } = budget.low;
+			results[0].reason += ` (${scope} budget ${Math.round(used * 100)}% used - downgraded)`;
+		}
+
+		if (!budget.exceeded) {
+			return results;
+		}
+
+		const free = results.filter((r) => isFreeModel(r.config));
+		if (free.length > 0) {
+			return free;
+		}
+
+		throw new BudgetExceededError(
+			budget.exceeded.scope.charAt(0).toUpperCase() + budget.exceeded.scope.slice(1),
+			budget.exceeded.limit,
+			budget.exceeded.spent
+		);
+	}
+
+	/**
+	 * Pick candidate models for a task, ignoring budgets
+	 *
+	 * @param downgrade - Drop one complexity tier and order cheapest first
+	 */
+	private selectCandidates(
+		config: RoutingConfig,
+		options: RouteOptions,
+		downgrade: boolean
+	): RouteResult[] {
 		// Use preferred model if specified
 		if (options.preferredModel && config.models[options.preferredModel]) {
 			const modelConfig = config.models[options.preferredModel];
-			return {
-				provider: modelConfig.provider,
-				modelName: options.preferredModel,
-				config: modelConfig,
-				complexity: options.complexity || 'STANDARD',
-				reason: 'User specified model',
-			};
+			return [
+				{
+					provider: modelConfig.provider,
+					modelName: options.preferredModel,
+					config: modelConfig,
+					complexity: options.complexity || 'STANDARD',
+					reason: 'User specified model',
+				},
+			];
 		}
 
 		// Classify complexity
-		const complexity =
+		let complexity =
 			options.complexity ||
 			(options.task ? classify(options.task, options.indicators) : 'STANDARD');
 
+		if (downgrade) {
+			complexity = COMPLEXITY_LEVELS[Math.max(0, COMPLEXITY_LEVELS.indexOf(complexity) - 1)];
+		}
+
 		// Get model priority list for this complexity
-		const candidates = config.routing[complexity] || config.routing.STANDARD;
+		const candidates = [...(config.routing[complexity] || config.routing.STANDARD)];
+		const results: RouteResult[] = [];
+
+		if (downgrade) {
+			candidates.sort((a, b) => this.modelPrice(config, a) - this.modelPrice(config, b));
+		}
 
-		// Select first available model (has API key and meets requirements)
+		// Keep every available model (has API key and meets requirements)
 		for (const modelName of candidates) {
 			const modelConfig = config.models[modelName];
 			if (!modelConfig) continue;
 
-			// Check if we have API key
-			if (!this.apiKeys[modelConfig.provider]) continue;
+			// Check if we have API key (or a reachable local endpoint)
+			if (!this.isModelAvailable(modelConfig)) continue;
 
 			// Check cost constraint if specified
 			if (options.maxCost && options.task) {
@@ -211,36 +549,138 @@ export class ModelRouter {
 				if (estimatedCost > options.maxCost) continue;
 			}
 
-			return {
+			results.push({
 				provider: modelConfig.provider,
 				modelName,
 				config: modelConfig,
 				complexity,
-				reason: `Routed for ${complexity} complexity`,
-			};
+				reason:
+					results.length === 0
+						? `Routed for ${complexity} complexity`
+						: `Failover candidate for ${complexity} complexity`,
+			});
+		}
+
+		if (results.length > 0) {
+			return results;
 		}
 
 		// Fallback to cheapest available
 		const fallback = Object.entries(config.models)
-			.filter(([, m]) => this.apiKeys[m.provider])
+			.filter(([, m]) => this.isModelAvailable(m))
 			.sort((a, b) => a[1].inputCostPer1M - b[1].inputCostPer1M)[0];
 
 		if (fallback) {
-			return {
-				provider: fallback[1].provider,
-				modelName: fallback[0],
-				config: fallback[1],
-				complexity,
-				reason: 'Fallback to cheapest available',
-			};
+			return [
+				{
+					provider: fallback[1].provider,
+					modelName: fallback[0],
+					config: fallback[1],
+					complexity,
+					reason: 'Fallback to cheapest available',
+				},
+			];
 		}
 
 		throw new Error(
 			'No models available. Please set at least one API key:\n' +
 				'  - KIMI_API_KEY or MOONSHOT_API_KEY for Kimi\n' +
 				'  - OPENROUTER_API_KEY for OpenRouter\n' +
-				'  - ANTHROPIC_API_KEY for Anthropic'
+				'  - ANTHROPIC_API_KEY for Anthropic\n' +
+				'Or configure an openai-compatible model with a base_url in models.yaml'
+		);
+	}
+
+	/**
+	 * Drop candidates whose context window can't hold the conversation
+	 *
+	 * When none of them fit, upgrades to the first available model that does,
+	 * looking through the higher complexity tiers and then every model by
+	 * context size. A user-specified model is never swapped out.
+	 *
+	 * @throws ContextWindowError when no usable model fits
+	 */
+	private fitContext(
+		config: RoutingConfig,
+		results: RouteResult[],
+		options: RouteOptions
+	): RouteResult[] {
+		const { messages } = options;
+		if (!messages?.length) return results;
+
+		const outputTokens = options.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+		const needed = (model: ModelConfig) => estimateMessagesTokens(messages, model) + outputTokens;
+		const fits = (model: ModelConfig) => needed(model) <= model.maxContext;
+
+		const [first] = results;
+		const tooLong = `~${needed(first.config)} tokens exceeds ${first.modelName}'s ${first.config.maxContext}`;
+		const fitting = results.filter((r) => fits(r.config));
+
+		if (fitting.length === results.length) {
+			return results;
+		}
+		if (fitting.length > 0) {
+			if (fitting[0] !== first) {
+				fitting[0] = {
+					...fitting[0],
+					reason: `Routed for ${first.complexity} complexity (${tooLong})`,
+				};
+			}
+			return fitting;
+		}
+
+		if (options.preferredModel && config.models[options.preferredModel]) {
+			throw new ContextWindowError(needed(first.config), first.config.maxContext, first.modelName);
+		}
+
+		// Upgrade: higher tiers first, then anything else, smallest context first
+		const higherTiers = COMPLEXITY_LEVELS.slice(COMPLEXITY_LEVELS.indexOf(first.complexity) + 1);
+		const order = [
+			...higherTiers.flatMap((level) => config.routing[level] || []),
+			...Object.keys(config.models).sort(
+				(a, b) => config.models[a].maxContext - config.models[b].maxContext
+			),
+		];
+
+		const seen = new Set(results.map((r) => r.modelName));
+		const upgrades: RouteResult[] = [];
+		for (const modelName of order) {
+			if (seen.has(modelName)) continue;
+			seen.add(modelName);
+
+			const modelConfig = config.models[modelName];
+			if (!modelConfig || !this.isModelAvailable(modelConfig) || !fits(modelConfig)) continue;
+
+			upgrades.push({
+				provider: modelConfig.provider,
+				modelName,
+				config: modelConfig,
+				complexity: first.complexity,
+				reason:
+					upgrades.length === 0
+						? `Upgraded to ${modelName} for context (${tooLong})`
+						: `Failover candidate for ${first.complexity} complexity`,
+			});
+		}
+
+		if (upgrades.length > 0) {
+			return upgrades;
+		}
+
+		const largest = Math.max(
+			...Object.values(config.models)
+				.filter((m) => this.isModelAvailable(m))
+				.map((m) => m.maxContext)
 		);
+		throw new ContextWindowError(needed(first.config), largest);
+	}
+
+	/**
+	 * Combined per-1M token price used to order models when downgrading
+	 */
+	private modelPrice(config: RoutingConfig, modelName: string): number {
+		const model = config.models[modelName];
+		return model ? model.inputCostPer1M + model.outputCostPer1M : Number.POSITIVE_INFINITY;
 	}
 
 	/**
@@ -253,134 +693,646 @@ export class ModelRouter {
 		);
 	}
 
+	/**
+	 * Resolve the candidate routes for a completion request
+	 */
+	private async routeCompletion(options: CompletionOptions): Promise<RouteResult[]> {
+		const fit = {
+			command: options.command,
+			messages: options.messages,
+			maxOutputTokens: options.maxTokens,
+		};
+		if (options.model === 'cheapest') {
+			return this.routeCandidates({ complexity: 'QUICK', ...fit });
+		}
+		if (options.model) {
+			return this.routeCandidates({ preferredModel: options.model, ...fit });
+		}
+
+		// Get the last user message for routing
+		const lastUserMessage = [...options.messages].reverse().find((m) => m.role === 'user')?.content;
+		return this.routeCandidates({ task: lastUserMessage, ...fit });
+	}
+
 	/**
 	 * Main completion method
+	 *
+	 * Walks the routing candidates in order: each model is retried on
+	 * recoverable errors (rate limits, 5xx, network), then the next candidate
+	 * is tried. Non-recoverable errors (bad key, bad request) fail immediately.
 	 */
 	async complete(options: CompletionOptions): Promise<CompletionResult> {
-		// Route if model not specified
-		let routeResult: RouteResult;
+		const key = options.cache && !options.tools ? cacheKey(options) : undefined;
+		if (key) {
+			const cached = await this.completeFromCache(key, options);
+			if (cached) return cached;
+		}
 
-		if (options.model === 'cheapest') {
-			routeResult = await this.route({ complexity: 'QUICK' });
-		} else if (options.model) {
-			routeResult = await this.route({ preferredModel: options.model });
-		} else {
-			// Get the last user message for routing
-			const lastUserMessage = [...options.messages]
-				.reverse()
-				.find((m) => m.role === 'user')?.content;
-			routeResult = await this.route({ task: lastUserMessage });
+		const candidates = await this.routeCompletion(options);
+		const retry = { ...DEFAULT_RETRY_CONFIG, ...this.config?.retry };
+		const attempts: ModelAttempt[] = [];
+
+		for (const routeResult of candidates) {
+			const { provider, config } = routeResult;
+			const startTime = Date.now();
+
+			let response: ProviderResponse;
+			try {
+				response = await withRetry(() => this.callProvider(routeResult, options), {
+					maxAttempts: retry.maxAttempts,
+					initialDelayMs: retry.initialDelayMs,
+					shouldRetry: isRecoverableError,
+				});
+			} catch (error) {
+				const attempt = this.failedAttempt(routeResult, error);
+				attempts.push(attempt);
+				await this.recordUsage(routeResult, options, startTime, { error: attempt.error });
+				if (!isRecoverableError(error)) throw error;
+				continue;
+			}
+
+			attempts.push({ model: routeResult.modelName, provider, success: true });
+
+			// Calculate cost
+			const cost = this.estimateCost(response.inputTokens, response.outputTokens, config);
+
+			// Record usage
+			await this.recordUsage(routeResult, options, startTime, {
+				inputTokens: response.inputTokens,
+				outputTokens: response.outputTokens,
+				cost,
+			});
+
+			if (key && options.cache) {
+				await setCachedCompletion(
+					key,
+					{
+						model: routeResult.modelName,
+						provider,
+						content: response.content,
+						inputTokens: response.inputTokens,
+						outputTokens: response.outputTokens,
+						cost,
+					},
+					cacheTtlSeconds(options.cache)
+				);
+			}
+
+			return {
+				content: response.content,
+				cost,
+				model: routeResult.modelName,
+				inputTokens: response.inputTokens,
+				outputTokens: response.outputTokens,
+				attempts,
+				complexity: routeResult.complexity,
+				toolCalls: response.toolCalls?.length ? response.toolCalls : undefined,
+			};
 		}
 
-		const { provider, config } = routeResult;
+		throw new AllModelsFailedError(attempts);
+	}
+
+	/**
+	 * Embed texts with the provider configured under `embeddings`
+	 *
+	 * Honours record/replay mode and is logged like any other call.
+	 */
+	async embed(
+		texts: string[],
+		options: Pick<CompletionOptions, 'command' | 'workId'> = {}
+	): Promise<EmbeddingResult> {
+		const config = (await this.loadConfig()).embeddings;
+		const model = config?.model;
+		if (!config || !model) {
+			throw new ConfigError('No embedding model configured', {
+				configPath: MODELS_CONFIG_PATH,
+				suggestion: 'Set embeddings.model and embeddings.base_url in ~/.yxhyx/config/models.yaml',
+			});
+		}
+
+		const route = { modelName: model, provider: 'openai-compatible' };
+		const replay = this.replaySettings();
+		const request: FixtureRequest = {
+			model,
+			messages: texts.map((content) => ({ role: 'user', content })),
+		};
+		const startTime = Date.now();
+
+		let vectors: number[][];
+		let inputTokens: number;
+		try {
+			if (replay.mode === 'replay') {
+				const { response } = await loadFixture(replay.fixturesDir, request);
+				vectors = JSON.parse(response.content) as number[][];
+				inputTokens = response.inputTokens;
+			} else {
+				const retry = { ...DEFAULT_RETRY_CONFIG, ...this.config?.retry };
+				({ vectors, inputTokens } = await withRetry(
+					() => this.callEmbeddings(model, config, texts),
+					{
+						maxAttempts: retry.maxAttempts,
+						initialDelayMs: retry.initialDelayMs,
+						shouldRetry: isRecoverableError,
+					}
+				));
+				if (replay.mode === 'record') {
+					await saveFixture(replay.fixturesDir, request, route.provider, {
+						content: JSON.stringify(vectors),
+						inputTokens,
+						outputTokens: 0,
+					});
+				}
+			}
+		} catch (error) {
+			await this.recordUsage(route, options, startTime, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+
+		const cost = (inputTokens / 1_000_000) * (config.inputCostPer1M ?? 0);
+		await this.recordUsage(route, options, startTime, { inputTokens, cost });
+
+		return { vectors, model, inputTokens, cost };
+	}
+
+	/**
+	 * Serve a completion from the cache, recording it as a zero-cost call
+	 *
+	 * @returns The cached result, or null on a miss
+	 */
+	private async completeFromCache(
+		key: string,
+		options: CompletionOptions
+	): Promise<CompletionResult | null> {
+		const startTime = Date.now();
+		const entry = await getCachedCompletion(key);
+		if (!entry) return null;
+
+		await this.recordUsage(
+			{ modelName: entry.model, provider: entry.provider },
+			options,
+			startTime,
+			{
+				inputTokens: entry.inputTokens,
+				outputTokens: entry.outputTokens,
+				cost: 0,
+				cached: true,
+			}
+		);
+
+		return {
+			content: entry.content,
+			cost: 0,
+			model: entry.model,
+			inputTokens: entry.inputTokens,
+			outputTokens: entry.outputTokens,
+			attempts: [],
+			cached: true,
+		};
+	}
+
+	/**
+	 * Record/replay settings from the environment and models.yaml
+	 */
+	private replaySettings(): ReplaySettings {
+		return resolveReplaySettings(this.loadConfigSync());
+	}
+
+	/**
+	 * The parts of a request that identify its record/replay fixture
+	 */
+	private fixtureRequest(routeResult: RouteResult, options: CompletionOptions): FixtureRequest {
+		return {
+			model: routeResult.modelName,
+			messages: options.messages,
+			tools: options.tools,
+			toolChoice: options.toolChoice,
+			temperature: options.temperature,
+			maxTokens: options.maxTokens,
+		};
+	}
+
+	/**
+	 * Rough prompt size for providers that don't report usage
+	 */
+	private estimatePromptTokens(options: CompletionOptions): number {
+		return Math.ceil(options.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+	}
+
+	/**
+	 * Call the provider for a routed model, honouring record/replay mode
+	 */
+	private async callProvider(
+		routeResult: RouteResult,
+		options: CompletionOptions
+	): Promise<ProviderResponse> {
+		const replay = this.replaySettings();
+		const request = this.fixtureRequest(routeResult, options);
+
+		if (replay.mode === 'replay') {
+			return (await loadFixture(replay.fixturesDir, request)).response;
+		}
 
-		// Call appropriate provider
-		let response: { content: string; inputTokens: number; outputTokens: number };
+		const response = await this.callLiveProvider(routeResult, options);
+		if (replay.mode === 'record') {
+			await saveFixture(replay.fixturesDir, request, routeResult.provider, {
+				content: response.content,
+				inputTokens: response.inputTokens,
+				outputTokens: response.outputTokens,
+				toolCalls: response.toolCalls?.length ? response.toolCalls : undefined,
+			});
+		}
+		return response;
+	}
+
+	/**
+	 * Call the real provider API for a routed model
+	 */
+	private callLiveProvider(
+		routeResult: RouteResult,
+		options: CompletionOptions
+	): Promise<ProviderResponse> {
+		const { provider, config } = routeResult;
 
 		switch (provider) {
 			case 'kimi':
-				response = await this.callKimi(config.model, options);
-				break;
+				return this.callKimi(config.model, options);
 			case 'openrouter':
-				response = await this.callOpenRouter(config.model, options);
-				break;
+				return this.callOpenRouter(config.model, options);
 			case 'anthropic':
-				response = await this.callAnthropic(config.model, options);
-				break;
+				return this.callAnthropic(config.model, options);
+			case 'openai-compatible':
+				return this.callOpenAICompatible(routeResult.modelName, config, options);
 			default:
 				throw new Error(`Unknown provider: ${provider}`);
 		}
+	}
 
-		// Calculate cost
-		const cost = this.estimateCost(response.inputTokens, response.outputTokens, config);
-
-		// Record cost
-		await this.recordCost(routeResult.modelName, cost);
-
+	/**
+	 * Describe a failed attempt for CompletionResult.attempts
+	 */
+	private failedAttempt(routeResult: RouteResult, error: unknown): ModelAttempt {
 		return {
-			content: response.content,
-			cost,
 			model: routeResult.modelName,
-			inputTokens: response.inputTokens,
-			outputTokens: response.outputTokens,
+			provider: routeResult.provider,
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+			statusCode: error instanceof ApiError ? error.statusCode : undefined,
 		};
 	}
 
 	/**
-	 * Call Kimi (Moonshot) API
+	 * Streaming completion method
+	 *
+	 * Yields tokens as the provider generates them, then a final `done` event
+	 * carrying the usage and cost. Cost is recorded exactly like complete().
+	 * Failover only happens before the first token - once output has been
+	 * shown, a mid-stream error is surfaced to the caller.
 	 */
-	private async callKimi(
-		model: string,
+	async *stream(options: CompletionOptions): AsyncGenerator<StreamEvent> {
+		const key = options.cache && !options.tools ? cacheKey(options) : undefined;
+		if (key) {
+			const cached = await this.completeFromCache(key, options);
+			if (cached) {
+				yield { type: 'token', content: cached.content };
+				yield { type: 'done', result: cached };
+				return;
+			}
+		}
+
+		const candidates = await this.routeCompletion(options);
+		const attempts: ModelAttempt[] = [];
+
+		for (const routeResult of candidates) {
+			const { provider, config } = routeResult;
+			const startTime = Date.now();
+
+			let content = '';
+			const toolCalls: ToolCall[] = [];
+			let inputTokens: number | undefined;
+			let outputTokens: number | undefined;
+
+			try {
+				for await (const event of this.streamProvider(routeResult, options)) {
+					if (event.type === 'text') {
+						content += event.text;
+						yield { type: 'token', content: event.text };
+					} else if (event.type === 'tool_call') {
+						toolCalls.push(event.call);
+					} else {
+						inputTokens = event.inputTokens ?? inputTokens;
+						outputTokens = event.outputTokens ?? outputTokens;
+					}
+				}
+			} catch (error) {
+				const attempt = this.failedAttempt(routeResult, error);
+				attempts.push(attempt);
+				await this.recordUsage(routeResult, options, startTime, { error: attempt.error });
+				if (content.length > 0 || !isRecoverableError(error)) throw error;
+				continue;
+			}
+
+			attempts.push({ model: routeResult.modelName, provider, success: true });
+
+			// Some providers omit usage on streams - fall back to a rough estimate
+			const usage = {
+				inputTokens: inputTokens ?? this.estimatePromptTokens(options),
+				outputTokens: outputTokens ?? Math.ceil(content.length / 4),
+			};
+
+			const cost = this.estimateCost(usage.inputTokens, usage.outputTokens, config);
+			await this.recordUsage(routeResult, options, startTime, { ...usage, cost });
+
+			if (key && options.cache) {
+				await setCachedCompletion(
+					key,
+					{ model: routeResult.modelName, provider, content, ...usage, cost },
+					cacheTtlSeconds(options.cache)
+				);
+			}
+
+			yield {
+				type: 'done',
+				result: {
+					content,
+					cost,
+					model: routeResult.modelName,
+					inputTokens: usage.inputTokens,
+					outputTokens: usage.outputTokens,
+					attempts,
+					complexity: routeResult.complexity,
+					toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+				},
+			};
+			return;
+		}
+
+		throw new AllModelsFailedError(attempts);
+	}
+
+	/**
+	 * Open a provider stream for a routed model, honouring record/replay mode
+	 */
+	private async *streamProvider(
+		routeResult: RouteResult,
 		options: CompletionOptions
-	): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
-		const response = await fetch('https://api.moonshot.cn/v1/chat/completions', {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-				Authorization: `Bearer ${this.apiKeys.kimi}`,
-			},
-			body: JSON.stringify({
-				model,
-				messages: options.messages,
-				max_tokens: options.maxTokens || 2000,
-				temperature: options.temperature ?? 0.7,
-			}),
+	): AsyncGenerator<ProviderStreamEvent> {
+		const replay = this.replaySettings();
+		const request = this.fixtureRequest(routeResult, options);
+
+		if (replay.mode === 'replay') {
+			const { response } = await loadFixture(replay.fixturesDir, request);
+			if (response.content) {
+				yield { type: 'text', text: response.content };
+			}
+			for (const call of response.toolCalls || []) {
+				yield { type: 'tool_call', call };
+			}
+			yield {
+				type: 'usage',
+				inputTokens: response.inputTokens,
+				outputTokens: response.outputTokens,
+			};
+			return;
+		}
+
+		if (replay.mode === 'live') {
+			yield* this.streamLiveProvider(routeResult, options);
+			return;
+		}
+
+		// Record: pass events through while collecting the full response
+		let content = '';
+		const toolCalls: ToolCall[] = [];
+		let inputTokens: number | undefined;
+		let outputTokens: number | undefined;
+
+		for await (const event of this.streamLiveProvider(routeResult, options)) {
+			if (event.type === 'text') content += event.text;
+			else if (event.type === 'tool_call') toolCalls.push(event.call);
+			else {
+				inputTokens = event.inputTokens ?? inputTokens;
+				outputTokens = event.outputTokens ?? outputTokens;
+			}
+			yield event;
+		}
+
+		await saveFixture(replay.fixturesDir, request, routeResult.provider, {
+			content,
+			inputTokens: inputTokens ?? this.estimatePromptTokens(options),
+			outputTokens: outputTokens ?? Math.ceil(content.length / 4),
+			toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
 		});
+	}
+
+	/**
+	 * Open a real provider stream for a routed model
+	 */
+	private streamLiveProvider(
+		routeResult: RouteResult,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		const { provider, config } = routeResult;
+
+		switch (provider) {
+			case 'kimi':
+				return this.streamKimi(config.model, options);
+			case 'openrouter':
+				return this.streamOpenRouter(config.model, options);
+			case 'anthropic':
+				return this.streamAnthropic(config.model, options);
+			case 'openai-compatible':
+				return this.streamOpenAICompatible(routeResult.modelName, config, options);
+			default:
+				throw new Error(`Unknown provider: ${provider}`);
+		}
+	}
+
+	/**
+	 * POST to a provider, mapping failures to typed errors
+	 *
+	 * Network failures become NetworkError; HTTP errors become ApiError,
+	 * recoverable only for rate limits, timeouts and server errors.
+	 */
+	private async request(
+		label: string,
+		provider: string,
+		url: string,
+		headers: Record<string, string>,
+		body: Record<string, unknown>
+	): Promise<Response> {
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...headers,
+				},
+				body: JSON.stringify(body),
+			});
+		} catch (error) {
+			throw new NetworkError(`${label} API unreachable`, {
+				url,
+				cause: error instanceof Error ? error : undefined,
+			});
+		}
 
 		if (!response.ok) {
 			const error = await response.text();
-			throw new Error(`Kimi API error: ${response.status} - ${error}`);
+			throw new ApiError(`${label} API error: ${response.status} - ${error}`, {
+				provider,
+				statusCode: response.status,
+				recoverable: isRetryableStatus(response.status),
+			});
 		}
 
-		const data = (await response.json()) as {
-			choices: Array<{ message: { content: string } }>;
-			usage: { prompt_tokens: number; completion_tokens: number };
-		};
+		return response;
+	}
 
-		return {
-			content: data.choices[0].message.content,
-			inputTokens: data.usage.prompt_tokens,
-			outputTokens: data.usage.completion_tokens,
-		};
+	/**
+	 * Call Kimi (Moonshot) API
+	 */
+	private callKimi(model: string, options: CompletionOptions): Promise<ProviderResponse> {
+		return this.callOpenAIStyle(
+			'Kimi',
+			'kimi',
+			'https://api.moonshot.cn/v1/chat/completions',
+			{ Authorization: `Bearer ${this.apiKeys.kimi}` },
+			model,
+			options
+		);
 	}
 
 	/**
 	 * Call OpenRouter API
 	 */
-	private async callOpenRouter(
-		model: string,
-		options: CompletionOptions
-	): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
-		const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
+	private callOpenRouter(model: string, options: CompletionOptions): Promise<ProviderResponse> {
+		return this.callOpenAIStyle(
+			'OpenRouter',
+			'openrouter',
+			'https://openrouter.ai/api/v1/chat/completions',
+			{
 				Authorization: `Bearer ${this.apiKeys.openrouter}`,
 				'HTTP-Referer': 'https://yxhyx.local',
 				'X-Title': 'Yxhyx Personal AI',
 			},
-			body: JSON.stringify({
-				model,
-				messages: options.messages,
-				max_tokens: options.maxTokens || 2000,
-				temperature: options.temperature ?? 0.7,
-			}),
+			model,
+			options
+		);
+	}
+
+	/**
+	 * Call a model served from a user-configured OpenAI-compatible endpoint
+	 */
+	private callOpenAICompatible(
+		modelName: string,
+		config: ModelConfig,
+		options: CompletionOptions
+	): Promise<ProviderResponse> {
+		const { url, headers } = this.openAICompatibleEndpoint(modelName, config);
+		return this.callOpenAIStyle(
+			modelName,
+			'openai-compatible',
+			url,
+			headers,
+			config.model,
+			options
+		);
+	}
+
+	/**
+	 * Call an OpenAI-style chat completions endpoint
+	 */
+	private async callOpenAIStyle(
+		label: string,
+		provider: string,
+		url: string,
+		headers: Record<string, string>,
+		model: string,
+		options: CompletionOptions
+	): Promise<ProviderResponse> {
+		const response = await this.request(label, provider, url, headers, {
+			model,
+			messages: toOpenAIMessages(options.messages),
+			max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+			temperature: options.temperature ?? 0.7,
+			...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
+			...(options.tools?.length && options.toolChoice ? { tool_choice: options.toolChoice } : {}),
 		});
 
-		if (!response.ok) {
-			const error = await response.text();
-			throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
-		}
+		const data = (await response.json()) as {
+			choices: Array<{
+				message: {
+					content: string | null;
+					tool_calls?: Array<{ id: string; function: { name: string; arguments?: string } }>;
+				};
+			}>;
+			usage?: { prompt_tokens: number; completion_tokens: number };
+		};
+		const { message } = data.choices[0];
+		const content = message.content ?? '';
+
+		// Local servers don't always report usage - fall back to a rough estimate
+		return {
+			content,
+			inputTokens: data.usage?.prompt_tokens ?? this.estimatePromptTokens(options),
+			outputTokens: data.usage?.completion_tokens ?? Math.ceil(content.length / 4),
+			toolCalls: fromOpenAIToolCalls(message.tool_calls),
+		};
+	}
+
+	/**
+	 * Call an OpenAI-style embeddings endpoint
+	 */
+	private async callEmbeddings(
+		model: string,
+		config: EmbeddingsConfig,
+		texts: string[]
+	): Promise<{ vectors: number[][]; inputTokens: number }> {
+		const { url, headers } = this.openAICompatibleEndpoint('embeddings', config, '/embeddings');
+		const response = await this.request('Embeddings', 'openai-compatible', url, headers, {
+			model,
+			input: texts,
+		});
 
 		const data = (await response.json()) as {
-			choices: Array<{ message: { content: string } }>;
-			usage: { prompt_tokens: number; completion_tokens: number };
+			data: Array<{ index: number; embedding: number[] }>;
+			usage?: { prompt_tokens: number };
 		};
 
 		return {
-			content: data.choices[0].message.content,
-			inputTokens: data.usage.prompt_tokens,
-			outputTokens: data.usage.completion_tokens,
+			vectors: [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding),
+			inputTokens: data.usage?.prompt_tokens ?? Math.ceil(texts.join(' ').length / 4),
+		};
+	}
+
+	/**
+	 * Resolve URL and headers for an OpenAI-compatible endpoint
+	 */
+	private openAICompatibleEndpoint(
+		modelName: string,
+		config: Pick<ModelConfig, 'base_url' | 'api_key_env' | 'headers'>,
+		path = '/chat/completions'
+	): { url: string; headers: Record<string, string> } {
+		if (!config.base_url) {
+			throw new ConfigError(`Model ${modelName} has no base_url`, {
+				configPath: MODELS_CONFIG_PATH,
+				suggestion: `Set base_url for ${modelName} in ~/.yxhyx/config/models.yaml`,
+			});
+		}
+
+		const headers: Record<string, string> = {};
+		const apiKey = config.api_key_env ? process.env[config.api_key_env] : undefined;
+		if (apiKey) {
+			headers.Authorization = `Bearer ${apiKey}`;
+		}
+
+		return {
+			url: `${config.base_url.replace(/\/+$/, '')}${path}`,
+			headers: { ...headers, ...config.headers },
 		};
 	}
 
@@ -390,78 +1342,363 @@ export class ModelRouter {
 	private async callAnthropic(
 		model: string,
 		options: CompletionOptions
-	): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
+	): Promise<ProviderResponse> {
 		// Convert messages format - Anthropic requires system to be separate
 		const systemMessage = options.messages.find((m) => m.role === 'system');
-		const nonSystemMessages = options.messages.filter((m) => m.role !== 'system');
 
-		const response = await fetch('https://api.anthropic.com/v1/messages', {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
+		const response = await this.request(
+			'Anthropic',
+			'anthropic',
+			'https://api.anthropic.com/v1/messages',
+			{
 				'x-api-key': this.apiKeys.anthropic,
 				'anthropic-version': '2023-06-01',
 			},
-			body: JSON.stringify({
+			{
 				model,
 				system: systemMessage?.content,
-				messages: nonSystemMessages,
-				max_tokens: options.maxTokens || 2000,
+				messages: toAnthropicMessages(options.messages),
+				max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
 				temperature: options.temperature ?? 0.7,
-			}),
-		});
-
-		if (!response.ok) {
-			const error = await response.text();
-			throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-		}
+				...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {}),
+				...(options.tools?.length && options.toolChoice
+					? { tool_choice: { type: options.toolChoice } }
+					: {}),
+			}
+		);
 
 		const data = (await response.json()) as {
-			content: Array<{ text: string }>;
+			content: Array<
+				| { type: 'text'; text: string }
+				| { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+			>;
 			usage: { input_tokens: number; output_tokens: number };
 		};
 
+		let content = '';
+		const toolCalls: ToolCall[] = [];
+		for (const block of data.content) {
+			if (block.type === 'tool_use') {
+				toolCalls.push({ id: block.id, name: block.name, arguments: block.input || {} });
+			} else if (block.text) {
+				content += block.text;
+			}
+		}
+
 		return {
-			content: data.content[0].text,
+			content,
 			inputTokens: data.usage.input_tokens,
 			outputTokens: data.usage.output_tokens,
+			toolCalls,
 		};
 	}
 
 	/**
-	 * Record cost for tracking
+	 * Stream from Kimi (Moonshot) API
 	 */
-	private async recordCost(model: string, cost: number): Promise<void> {
-		try {
-			const dir = `${process.env.HOME}/.yxhyx/memory/state`;
-			await mkdir(dir, { recursive: true });
+	private streamKimi(
+		model: string,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		return this.streamOpenAIStyle(
+			'Kimi',
+			'kimi',
+			'https://api.moonshot.cn/v1/chat/completions',
+			{ Authorization: `Bearer ${this.apiKeys.kimi}` },
+			model,
+			options
+		);
+	}
 
-			let tracking: Record<string, number> = {};
+	/**
+	 * Stream from OpenRouter API
+	 */
+	private streamOpenRouter(
+		model: string,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		return this.streamOpenAIStyle(
+			'OpenRouter',
+			'openrouter',
+			'https://openrouter.ai/api/v1/chat/completions',
+			{
+				Authorization: `Bearer ${this.apiKeys.openrouter}`,
+				'HTTP-Referer': 'https://yxhyx.local',
+				'X-Title': 'Yxhyx Personal AI',
+			},
+			model,
+			options
+		);
+	}
 
-			if (existsSync(COST_TRACKING_PATH)) {
-				const content = await readFile(COST_TRACKING_PATH, 'utf-8');
-				tracking = JSON.parse(content);
+	/**
+	 * Stream from a user-configured OpenAI-compatible endpoint
+	 */
+	private streamOpenAICompatible(
+		modelName: string,
+		config: ModelConfig,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		const { url, headers } = this.openAICompatibleEndpoint(modelName, config);
+		return this.streamOpenAIStyle(
+			modelName,
+			'openai-compatible',
+			url,
+			headers,
+			config.model,
+			options
+		);
+	}
+
+	/**
+	 * Stream from an OpenAI-style chat completions endpoint
+	 */
+	private async *streamOpenAIStyle(
+		label: string,
+		provider: string,
+		url: string,
+		headers: Record<string, string>,
+		model: string,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		const response = await this.request(label, provider, url, headers, {
+			model,
+			messages: toOpenAIMessages(options.messages),
+			max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+			temperature: options.temperature ?? 0.7,
+			...(options.tools?.length ? { tools: toOpenAITools(options.tools) } : {}),
+			...(options.tools?.length && options.toolChoice ? { tool_choice: options.toolChoice } : {}),
+			stream: true,
+			stream_options: { include_usage: true },
+		});
+
+		// Tool call fragments arrive keyed by index; arguments are streamed as JSON text
+		const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+		if (!response.body) {
+			throw new ApiError(`${label} API returned an empty stream`, { provider });
+		}
+
+		for await (const event of parseServerSentEvents(response.body)) {
+			if (event.data === '[DONE]') break;
+
+			let chunk: {
+				choices?: Array<{
+					delta?: {
+						content?: string | null;
+						tool_calls?: Array<{
+							index: number;
+							id?: string;
+							function?: { name?: string; arguments?: string };
+						}>;
+					};
+				}>;
+				usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+			};
+			try {
+				chunk = JSON.parse(event.data);
+			} catch {
+				continue; // Skip malformed chunks
+			}
+
+			const delta = chunk.choices?.[0]?.delta;
+			if (delta?.content) {
+				yield { type: 'text', text: delta.content };
 			}
 
-			const month = new Date().toISOString().substring(0, 7); // YYYY-MM
-			const key = `${month}:${model}`;
-			tracking[key] = (tracking[key] || 0) + cost;
-			tracking[`${month}:total`] = (tracking[`${month}:total`] || 0) + cost;
+			for (const fragment of delta?.tool_calls || []) {
+				const pending = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+				pending.id = fragment.id || pending.id;
+				pending.name = fragment.function?.name || pending.name;
+				pending.arguments += fragment.function?.arguments || '';
+				pendingCalls.set(fragment.index, pending);
+			}
+
+			if (chunk.usage) {
+				yield {
+					type: 'usage',
+					inputTokens: chunk.usage.prompt_tokens,
+					outputTokens: chunk.usage.completion_tokens,
+				};
+			}
+		}
 
-			await writeFile(COST_TRACKING_PATH, JSON.stringify(tracking, null, 2));
+		for (const pending of pendingCalls.values()) {
+			yield {
+				type: 'tool_call',
+				call: {
+					id: pending.id,
+					name: pending.name,
+					arguments: parseToolArguments(pending.arguments),
+				},
+			};
+		}
+	}
+
+	/**
+	 * Stream from Anthropic API
+	 */
+	private async *streamAnthropic(
+		model: string,
+		options: CompletionOptions
+	): AsyncGenerator<ProviderStreamEvent> {
+		// Convert messages format - Anthropic requires system to be separate
+		const systemMessage = options.messages.find((m) => m.role === 'system');
+
+		const response = await this.request(
+			'Anthropic',
+			'anthropic',
+			'https://api.anthropic.com/v1/messages',
+			{
+				'x-api-key': this.apiKeys.anthropic,
+				'anthropic-version': '2023-06-01',
+			},
+			{
+				model,
+				system: systemMessage?.content,
+				messages: toAnthropicMessages(options.messages),
+				max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+				temperature: options.temperature ?? 0.7,
+				...(options.tools?.length ? { tools: toAnthropicTools(options.tools) } : {}),
+				...(options.tools?.length && options.toolChoice
+					? { tool_choice: { type: options.toolChoice } }
+					: {}),
+				stream: true,
+			}
+		);
+
+		if (!response.body) {
+			throw new ApiError('Anthropic API returned an empty stream', { provider: 'anthropic' });
+		}
+
+		// tool_use blocks stream their input as JSON text until content_block_stop
+		let pendingCall: { id: string; name: string; input: string } | null = null;
+
+		for await (const event of parseServerSentEvents(response.body)) {
+			let data: {
+				type?: string;
+				message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+				content_block?: { type?: string; id?: string; name?: string };
+				delta?: { type?: string; text?: string; partial_json?: string };
+				usage?: { output_tokens?: number };
+				error?: { message?: string };
+			};
+			try {
+				data = JSON.parse(event.data);
+			} catch {
+				continue; // Skip malformed chunks
+			}
+
+			switch (data.type) {
+				case 'message_start':
+					yield {
+						type: 'usage',
+						inputTokens: data.message?.usage?.input_tokens,
+						outputTokens: data.message?.usage?.output_tokens,
+					};
+					break;
+				case 'content_block_start':
+					if (data.content_block?.type === 'tool_use') {
+						pendingCall = {
+							id: data.content_block.id || '',
+							name: data.content_block.name || '',
+							input: '',
+						};
+					}
+					break;
+				case 'content_block_delta':
+					if (data.delta?.type === 'text_delta' && data.delta.text) {
+						yield { type: 'text', text: data.delta.text };
+					} else if (data.delta?.type === 'input_json_delta' && pendingCall) {
+						pendingCall.input += data.delta.partial_json || '';
+					}
+					break;
+				case 'content_block_stop':
+					if (pendingCall) {
+						yield {
+							type: 'tool_call',
+							call: {
+								id: pendingCall.id,
+								name: pendingCall.name,
+								arguments: parseToolArguments(pendingCall.input),
+							},
+						};
+						pendingCall = null;
+					}
+					break;
+				case 'message_delta':
+					yield { type: 'usage', outputTokens: data.usage?.output_tokens };
+					break;
+				case 'error':
+					throw new ApiError(`Anthropic API error: ${data.error?.message || 'stream error'}`, {
+						provider: 'anthropic',
+					});
+			}
+		}
+	}
+
+	/**
+	 * Append a usage record for one model call
+	 *
+	 * Failed calls are logged with zero tokens and cost so they can still be
+	 * audited alongside successful ones.
+	 */
+	private async recordUsage(
+		routeResult: Pick<RouteResult, 'modelName' | 'provider'>,
+		options: Pick<CompletionOptions, 'command' | 'skill' | 'workId'>,
+		startTime: number,
+		usage: {
+			inputTokens?: number;
+			outputTokens?: number;
+			cost?: number;
+			error?: string;
+			cached?: boolean;
+		}
+	): Promise<void> {
+		try {
+			await recordUsage({
+				command: options.command,
+				skill: options.skill,
+				work_id: options.workId,
+				model: routeResult.modelName,
+				provider: routeResult.provider,
+				input_tokens: usage.inputTokens ?? 0,
+				output_tokens: usage.outputTokens ?? 0,
+				cost_usd: usage.cost ?? 0,
+				latency_ms: Date.now() - startTime,
+				success: usage.error === undefined,
+				error: usage.error,
+				cached: usage.cached,
+			});
 		} catch {
-			// Silently fail - cost tracking shouldn't break completions
+			// Silently fail - usage tracking shouldn't break completions
 		}
 	}
 
 	/**
-	 * Get available providers (those with API keys set)
+	 * Get available providers (those with API keys set, plus
+	 * openai-compatible when at least one such model is usable)
 	 */
 	getAvailableProviders(): string[] {
+		// Replay serves every configured provider from fixtures
+		if (this.replaySettings().mode === 'replay') {
+			return [...new Set(Object.values(this.loadConfigSync().models).map((m) => m.provider))];
+		}
+
 		this.loadApiKeys();
-		return Object.entries(this.apiKeys)
+		const providers = Object.entries(this.apiKeys)
 			.filter(([, key]) => key.length > 0)
 			.map(([provider]) => provider);
+
+		const config = this.loadConfigSync();
+		const hasCompatible = Object.values(config.models).some(
+			(m) => m.provider === 'openai-compatible' && this.isModelAvailable(m)
+		);
+		if (hasCompatible) {
+			providers.push('openai-compatible');
+		}
+
+		return providers;
 	}
 
 	/**
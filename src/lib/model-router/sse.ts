@@ -0,0 +1,90 @@
+/**
+ * Server-Sent Events - Minimal SSE parser for streaming completions
+ *
+ * Kimi, OpenRouter and Anthropic all stream completions as SSE over a
+ * fetch response body. This parser turns the raw byte stream into
+ * discrete events without pulling in an extra dependency.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ServerSentEvent {
+	/** Event name (Anthropic uses these, OpenAI-style APIs don't) */
+	event?: string;
+	/** Raw data payload (multiple data lines are joined with newlines) */
+	data: string;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+/**
+ * Parse a single SSE block (lines between blank-line separators)
+ */
+function parseBlock(block: string): ServerSentEvent | null {
+	let event: string | undefined;
+	const data: string[] = [];
+
+	for (const line of block.split('\n')) {
+		// Comment lines (keep-alives) start with a colon
+		if (line.startsWith(':')) continue;
+
+		const separator = line.indexOf(':');
+		const field = separator === -1 ? line : line.substring(0, separator);
+		let value = separator === -1 ? '' : line.substring(separator + 1);
+		if (value.startsWith(' ')) value = value.substring(1);
+
+		if (field === 'event') {
+			event = value;
+		} else if (field === 'data') {
+			data.push(value);
+		}
+	}
+
+	if (data.length === 0) return null;
+
+	return { event, data: data.join('\n') };
+}
+
+/**
+ * Read server-sent events from a response body
+ *
+ * @param body - The fetch response body stream
+ * @returns Async iterator of parsed events
+ */
+export async function* parseServerSentEvents(
+	body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+			let boundary = buffer.indexOf('\n\n');
+			while (boundary !== -1) {
+				const parsed = parseBlock(buffer.substring(0, boundary));
+				buffer = buffer.substring(boundary + 2);
+				if (parsed) yield parsed;
+				boundary = buffer.indexOf('\n\n');
+			}
+		}
+
+		// Flush any trailing event that wasn't terminated by a blank line
+		buffer += decoder.decode();
+		if (buffer.trim()) {
+			const parsed = parseBlock(buffer.trim());
+			if (parsed) yield parsed;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
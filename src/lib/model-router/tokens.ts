@@ -0,0 +1,65 @@
+/**
+ * Token Estimation - Rough prompt sizes without a tokenizer
+ *
+ * Providers tokenize differently and none of their tokenizers ship with
+ * yxhyx, so prompts are sized by characters per token. The ratio depends on
+ * the provider (Anthropic's tokenizer packs fewer characters per token) and
+ * can be overridden per model with `charsPerToken` in models.yaml.
+ */
+
+import type { ChatMessage } from './tools';
+
+// ============================================
+// Ratios
+// ============================================
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+const PROVIDER_CHARS_PER_TOKEN: Record<string, number> = {
+	anthropic: 3.5,
+};
+
+/** Framing tokens each message costs on top of its content */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Characters per token for a model
+ */
+export function charsPerToken(model?: { provider: string; charsPerToken?: number }): number {
+	return (
+		model?.charsPerToken ??
+		(model && PROVIDER_CHARS_PER_TOKEN[model.provider]) ??
+		DEFAULT_CHARS_PER_TOKEN
+	);
+}
+
+// ============================================
+// Estimation
+// ============================================
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(
+	text: string,
+	model?: { provider: string; charsPerToken?: number }
+): number {
+	return Math.ceil(text.length / charsPerToken(model));
+}
+
+/**
+ * Estimate the prompt tokens of a conversation, including tool calls
+ */
+export function estimateMessagesTokens(
+	messages: ChatMessage[],
+	model?: { provider: string; charsPerToken?: number }
+): number {
+	let total = 0;
+	for (const message of messages) {
+		total += MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model);
+		if (message.toolCalls?.length) {
+			total += estimateTokens(JSON.stringify(message.toolCalls), model);
+		}
+	}
+	return total;
+}
@@ -0,0 +1,191 @@
+/**
+ * Tool Calling - Provider-agnostic tool definitions and message formats
+ *
+ * Tools are described once (name, description, JSON Schema parameters) and
+ * translated to each provider's wire format:
+ * - Anthropic: `tools` with `input_schema`, `tool_use` / `tool_result` blocks
+ * - OpenAI-style (Kimi, OpenRouter, openai-compatible): `tools` of type
+ *   `function`, `tool_calls` on assistant messages, `tool` role results
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * JSON Schema for tool parameters (the subset the built-in tools use)
+ */
+export interface ToolParameterSchema {
+	type: 'object';
+	properties: Record<
+		string,
+		{
+			type: 'string' | 'number' | 'boolean' | 'array';
+			description?: string;
+			enum?: string[];
+			items?: { type: 'string' | 'number' };
+		}
+	>;
+	required?: string[];
+}
+
+/**
+ * A tool the model may call
+ */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: ToolParameterSchema;
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+	/** Provider-assigned ID, echoed back with the result */
+	id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+/**
+ * A conversation message
+ *
+ * Assistant messages may carry the tool calls the model made; `tool`
+ * messages carry the result of one call.
+ */
+export interface ChatMessage {
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	content: string;
+	/** assistant only: tool calls made in this turn */
+	toolCalls?: ToolCall[];
+	/** tool only: the call this result answers */
+	toolCallId?: string;
+}
+
+// ============================================
+// OpenAI-Style Format
+// ============================================
+
+/**
+ * Convert tool definitions to OpenAI `tools`
+ */
+export function toOpenAITools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+	return tools.map((tool) => ({
+		type: 'function',
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.parameters,
+		},
+	}));
+}
+
+/**
+ * Convert messages to OpenAI chat format
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+	return messages.map((m) => {
+		if (m.role === 'tool') {
+			return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+		}
+		if (m.role === 'assistant' && m.toolCalls?.length) {
+			return {
+				role: 'assistant',
+				content: m.content || null,
+				tool_calls: m.toolCalls.map((call) => ({
+					id: call.id,
+					type: 'function',
+					function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+				})),
+			};
+		}
+		return { role: m.role, content: m.content };
+	});
+}
+
+/**
+ * Parse a tool call's JSON arguments string, tolerating empty or bad JSON
+ */
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+	if (!raw) return {};
+	try {
+		const parsed = JSON.parse(raw);
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Read tool calls from an OpenAI response message
+ */
+export function fromOpenAIToolCalls(
+	calls: Array<{ id: string; function: { name: string; arguments?: string } }> | undefined
+): ToolCall[] {
+	return (calls || []).map((call) => ({
+		id: call.id,
+		name: call.function.name,
+		arguments: parseToolArguments(call.function.arguments),
+	}));
+}
+
+// ============================================
+// Anthropic Format
+// ============================================
+
+/**
+ * Convert tool definitions to Anthropic `tools`
+ */
+export function toAnthropicTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+	return tools.map((tool) => ({
+		name: tool.name,
+		description: tool.description,
+		input_schema: tool.parameters,
+	}));
+}
+
+/**
+ * Convert non-system messages to Anthropic format
+ *
+ * Tool results become `tool_result` blocks in a user message; consecutive
+ * results are merged since Anthropic requires alternating roles.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+	const converted: Array<{ role: string; content: unknown }> = [];
+
+	for (const m of messages) {
+		if (m.role === 'system') continue;
+
+		if (m.role === 'tool') {
+			const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content };
+			const previous = converted[converted.length - 1];
+			if (previous?.role === 'user' && Array.isArray(previous.content)) {
+				previous.content.push(block);
+			} else {
+				converted.push({ role: 'user', content: [block] });
+			}
+			continue;
+		}
+
+		if (m.role === 'assistant' && m.toolCalls?.length) {
+			converted.push({
+				role: 'assistant',
+				content: [
+					...(m.content ? [{ type: 'text', text: m.content }] : []),
+					...m.toolCalls.map((call) => ({
+						type: 'tool_use',
+						id: call.id,
+						name: call.name,
+						input: call.arguments,
+					})),
+				],
+			});
+			continue;
+		}
+
+		converted.push({ role: m.role, content: m.content });
+	}
+
+	return converted;
+}
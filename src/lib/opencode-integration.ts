@@ -166,6 +166,7 @@ For complete identity details, read these files:
 - \`~/.yxhyx/identity/views/INTERESTS.md\` - Interest priorities
 - \`~/.yxhyx/identity/views/LEARNED.md\` - Past lessons
 - \`~/.yxhyx/identity/views/CHALLENGES.md\` - Current challenges
+- \`~/.yxhyx/identity/views/HABITS.md\` - Habits and how often to do them
 
 ## Memory System
 
@@ -329,6 +329,7 @@ async function generateHighlightsSummary(categories: CategoryDigest[]): Promise<
 	try {
 		const response = await modelRouter.complete({
 			model: 'cheapest',
+			command: 'news',
 			messages: [
 				{
 					role: 'system',
@@ -348,6 +349,7 @@ Respond with a JSON array of highlight strings. Example:
 			],
 			maxTokens: 500,
 			temperature: 0.3,
+			cache: true,
 		});
 
 		try {
@@ -44,6 +44,7 @@ export async function quickResearch(
 	// Route to appropriate model
 	const routeResult = await modelRouter.route({
 		task: query,
+		command: 'research',
 		complexity: 'QUICK',
 		preferredModel: model !== 'cheapest' ? model : undefined,
 	});
@@ -51,6 +52,7 @@ export async function quickResearch(
 	// Call the model
 	const response = await modelRouter.complete({
 		model: routeResult.modelName,
+		command: 'research',
 		messages: [
 			{
 				role: 'system',
@@ -150,6 +152,7 @@ export async function quickFactCheck(claim: string): Promise<{
 }> {
 	const response = await modelRouter.complete({
 		model: 'cheapest',
+		command: 'research',
 		messages: [
 			{
 				role: 'system',
@@ -229,6 +232,7 @@ export async function quickDefine(term: string): Promise<{
 }> {
 	const response = await modelRouter.complete({
 		model: 'cheapest',
+		command: 'research',
 		messages: [
 			{
 				role: 'user',
@@ -246,6 +250,7 @@ Respond in JSON format:
 		],
 		maxTokens: 600,
 		temperature: 0.3,
+		cache: true,
 	});
 
 	try {
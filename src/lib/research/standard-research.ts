@@ -69,6 +69,7 @@ export async function standardResearch(
 
 		const response = await modelRouter.complete({
 			model: modelName,
+			command: 'research',
 			messages: [
 				{
 					role: 'system',
@@ -244,6 +245,7 @@ async function synthesizePerspectives(
 
 	const response = await modelRouter.complete({
 		model: 'cheapest',
+		command: 'research',
 		messages: [
 			{
 				role: 'system',
@@ -397,6 +399,7 @@ export async function compareResearch(
 }> {
 	const response = await modelRouter.complete({
 		model: 'kimi-32k',
+		command: 'research',
 		messages: [
 			{
 				role: 'system',
@@ -7,13 +7,36 @@
 
 import { z } from 'zod';
 
+/**
+ * Current identity.yaml schema version
+ *
+ * Bump this with a migration in identity-migrations.ts whenever a change
+ * would make older files fail validation or lose data.
+ */
+export const IDENTITY_VERSION = '1.3';
+
+// Milestone schema - a step towards a goal, or a key result with a numeric target
+export const MilestoneSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	done: z.boolean().default(false),
+	target: z.number().positive().optional(),
+	current: z.number().min(0).default(0),
+	unit: z.string().optional(),
+	deadline: z.string().optional(),
+	created: z.string().optional(),
+});
+
 // Goal schema - used across short, medium, and long term
+// Progress is computed from milestones and sub-goals when it has any
 export const GoalSchema = z.object({
 	id: z.string(),
 	title: z.string(),
 	description: z.string().optional(),
 	deadline: z.string().optional(),
 	progress: z.number().min(0).max(1).default(0),
+	milestones: z.array(MilestoneSchema).default([]),
+	parent: z.string().optional(),
 	related_projects: z.array(z.string()).default([]),
 	created: z.string().optional(),
 });
@@ -38,6 +61,7 @@ export const InterestSchema = z.object({
 
 // Belief schema - core beliefs and values
 export const BeliefSchema = z.object({
+	id: z.string(),
 	statement: z.string(),
 	confidence: z.number().min(0).max(1),
 	added: z.string(),
@@ -53,6 +77,24 @@ export const ChallengeSchema = z.object({
 	created: z.string().optional(),
 });
 
+// Habit frequency - how often a habit should be done (e.g. 3 times per week)
+export const HabitFrequencySchema = z.object({
+	times: z.number().int().positive(),
+	per: z.enum(['day', 'week']),
+});
+
+// Habit schema - recurring behaviours with a frequency target
+// Logged occurrences live in memory/state/habit-log.jsonl
+export const HabitSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	description: z.string().optional(),
+	frequency: HabitFrequencySchema,
+	status: z.enum(['active', 'paused', 'retired']).default('active'),
+	related_goals: z.array(z.string()).default([]),
+	created: z.string().optional(),
+});
+
 // Lesson schema - accumulated learnings
 export const LessonSchema = z.object({
 	lesson: z.string(),
@@ -114,7 +156,7 @@ export const InterestsSchema = z.object({
 
 // Main Identity Schema
 export const IdentitySchema = z.object({
-	version: z.string().default('1.0'),
+	version: z.string().default(IDENTITY_VERSION),
 	last_updated: z.string(),
 
 	about: AboutSchema,
@@ -125,17 +167,21 @@ export const IdentitySchema = z.object({
 	projects: z.array(ProjectSchema).default([]),
 	interests: InterestsSchema.default({}),
 	challenges: z.array(ChallengeSchema).default([]),
+	habits: z.array(HabitSchema).default([]),
 
 	preferences: PreferencesSchema.default({}),
 	learned: z.array(LessonSchema).default([]),
 });
 
 // Export types
+export type Milestone = z.infer<typeof MilestoneSchema>;
 export type Goal = z.infer<typeof GoalSchema>;
 export type Project = z.infer<typeof ProjectSchema>;
 export type Interest = z.infer<typeof InterestSchema>;
 export type Belief = z.infer<typeof BeliefSchema>;
 export type Challenge = z.infer<typeof ChallengeSchema>;
+export type HabitFrequency = z.infer<typeof HabitFrequencySchema>;
+export type Habit = z.infer<typeof HabitSchema>;
 export type Lesson = z.infer<typeof LessonSchema>;
 export type CommunicationPreferences = z.infer<typeof CommunicationPreferencesSchema>;
 export type TechStackPreferences = z.infer<typeof TechStackPreferencesSchema>;
@@ -151,7 +197,7 @@ export type Identity = z.infer<typeof IdentitySchema>;
  */
 export function createDefaultIdentity(name: string, timezone: string): Identity {
 	return {
-		version: '1.0',
+		version: IDENTITY_VERSION,
 		last_updated: new Date().toISOString(),
 		about: {
 			name,
@@ -174,6 +220,7 @@ export function createDefaultIdentity(name: string, timezone: string): Identity
 			low_priority: [],
 		},
 		challenges: [],
+		habits: [],
 		preferences: {
 			communication: {
 				style: 'direct',
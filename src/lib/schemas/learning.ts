@@ -20,6 +20,21 @@ export type RatingSource = z.infer<typeof RatingSource>;
 export const LearningType = z.enum(['failure', 'success', 'insight']);
 export type LearningType = z.infer<typeof LearningType>;
 
+/**
+ * Learning status - whether retrieval uses it
+ * - active: retrieved when relevant
+ * - pinned: always retrieved (for its task types, or every task)
+ * - retired: never retrieved, kept for history
+ */
+export const LearningStatus = z.enum(['active', 'pinned', 'retired']);
+export type LearningStatus = z.infer<typeof LearningStatus>;
+
+/**
+ * Kinds of task a learning can be pinned to (matches context injection)
+ */
+export const LearningTaskType = z.enum(['chat', 'checkin', 'news', 'research', 'project']);
+export type LearningTaskType = z.infer<typeof LearningTaskType>;
+
 /**
  * Unified rating schema - captures both explicit and implicit ratings
  */
@@ -40,6 +55,9 @@ export const RatingSchema = z.object({
 	/** Associated work session ID */
 	work_id: z.string().optional(),
 
+	/** Rated assistant turn in the work session's chat transcript */
+	turn_id: z.string().optional(),
+
 	/** Snippet of the prompt for context */
 	prompt_snippet: z.string().optional(),
 
@@ -63,6 +81,9 @@ export const RatingSchema = z.object({
 
 	/** Cost of the rated interaction */
 	cost_usd: z.number().optional(),
+
+	/** Complexity the rated interaction was routed at */
+	complexity: z.enum(['TRIVIAL', 'QUICK', 'STANDARD', 'COMPLEX', 'CRITICAL']).optional(),
 });
 
 export type Rating = z.infer<typeof RatingSchema>;
@@ -108,8 +129,24 @@ export const LearningSchema = z.object({
 	/** Categorization tags */
 	tags: z.array(z.string()).default([]),
 
-	/** Vector embeddings for retrieval (future enhancement) */
+	// Lifecycle
+	/** Whether retrieval uses this learning */
+	status: LearningStatus.default('active'),
+
+	/** Task types a pinned learning applies to (empty = all) */
+	task_types: z.array(LearningTaskType).default([]),
+
+	/** IDs of learnings merged into this one */
+	merged_from: z.array(z.string()).optional(),
+
+	/** When this learning was last edited */
+	updated: z.string().optional(),
+
+	/** Vector embedding for semantic retrieval */
 	embeddings: z.array(z.number()).optional(),
+
+	/** Embedding backend that produced `embeddings` (vectors are only comparable within one) */
+	embedding_model: z.string().optional(),
 });
 
 export type Learning = z.infer<typeof LearningSchema>;
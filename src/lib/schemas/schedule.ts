@@ -0,0 +1,61 @@
+/**
+ * Schedule Schema - When check-in reminders fire
+ *
+ * Stored in ~/.yxhyx/config/schedule.yaml. Times are in the identity's
+ * timezone (`about.timezone`) unless the schedule sets its own.
+ */
+
+import { z } from 'zod';
+
+export const WEEKDAYS = [
+	'sunday',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** 24-hour "HH:MM" */
+const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM, e.g. 08:30');
+
+/**
+ * A scheduled check-in
+ */
+export const ScheduledCheckinSchema = z.object({
+	enabled: z.boolean().default(true),
+	time: TimeSchema,
+	/** Weekly check-ins only */
+	day: z.enum(WEEKDAYS).optional(),
+});
+
+/**
+ * How reminders are delivered
+ *
+ * `auto` uses notify-send (Linux) or osascript (macOS), falling back to a
+ * terminal bell. `command` runs `command` with {type} replaced.
+ */
+export const ReminderSchema = z.object({
+	method: z.enum(['auto', 'notify', 'bell', 'command']).default('auto'),
+	command: z.string().optional(),
+});
+
+export const ScheduleConfigSchema = z.object({
+	/** IANA timezone; defaults to the identity's */
+	timezone: z.string().optional(),
+	checkins: z
+		.object({
+			morning: ScheduledCheckinSchema.default({ time: '08:00' }),
+			evening: ScheduledCheckinSchema.default({ time: '21:00' }),
+			weekly: ScheduledCheckinSchema.default({ time: '18:00', day: 'sunday' }),
+		})
+		.default({}),
+	reminder: ReminderSchema.default({}),
+});
+
+export type ScheduledCheckin = z.infer<typeof ScheduledCheckinSchema>;
+export type ReminderConfig = z.infer<typeof ReminderSchema>;
+export type ScheduleConfig = z.infer<typeof ScheduleConfigSchema>;
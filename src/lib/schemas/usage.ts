@@ -0,0 +1,58 @@
+/**
+ * Usage Schema - One record per model call
+ *
+ * Every completion (successful or not) appends a usage record to
+ * ~/.yxhyx/memory/state/usage.jsonl. Cost totals, breakdowns and budgets
+ * are all computed from this log, so any single call can be audited.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Usage record schema - a single model call
+ */
+export const UsageRecordSchema = z.object({
+	/** When the call finished */
+	timestamp: z.string(),
+
+	/** Command that made the call (chat, news, research, skills) */
+	command: z.string().optional(),
+
+	/** Skill that made the call, when run through the skills executor */
+	skill: z.string().optional(),
+
+	/** Associated work session ID */
+	work_id: z.string().optional(),
+
+	/** Model name from models.yaml */
+	model: z.string(),
+
+	/** Provider that served the call */
+	provider: z.string(),
+
+	/** Prompt tokens (estimated when the provider doesn't report usage) */
+	input_tokens: z.number(),
+
+	/** Completion tokens (estimated when the provider doesn't report usage) */
+	output_tokens: z.number(),
+
+	/** Cost in USD */
+	cost_usd: z.number(),
+
+	/** Wall-clock time for the call, including retries */
+	latency_ms: z.number(),
+
+	/** Whether the call produced a response */
+	success: z.boolean(),
+
+	/** Error message for failed calls */
+	error: z.string().optional(),
+
+	/** Served from the completion cache (recorded at zero cost) */
+	cached: z.boolean().optional(),
+
+	/** Imported from the old cost-tracking.json (monthly totals only) */
+	legacy: z.boolean().optional(),
+});
+
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
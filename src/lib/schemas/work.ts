@@ -103,10 +103,53 @@ export const WorkMetaSchema = z.object({
 
 	/** Categorization tags */
 	tags: z.array(z.string()).default([]),
+
+	/** Transcript file in the work directory (chat sessions only) */
+	transcript: z.string().optional(),
 });
 
 export type WorkMeta = z.infer<typeof WorkMetaSchema>;
 
+/**
+ * One message of a chat session transcript
+ *
+ * Transcripts are append-only JSONL; a turn's ID is its line number, so it
+ * stays stable for ratings given later.
+ */
+export const TranscriptEntrySchema = z.object({
+	/** Turn ID within the session (`turn-<n>`) */
+	id: z.string(),
+
+	/** When the message was sent or received */
+	timestamp: z.string(),
+
+	role: z.enum(['system', 'user', 'assistant', 'tool']),
+
+	content: z.string(),
+
+	/** Tool calls the assistant made in this turn */
+	tool_calls: z
+		.array(z.object({ id: z.string(), name: z.string(), arguments: z.record(z.unknown()) }))
+		.optional(),
+
+	/** The tool call a tool message answers */
+	tool_call_id: z.string().optional(),
+
+	/** Model that wrote an assistant message */
+	model_used: z.string().optional(),
+
+	/** API cost of an assistant message */
+	cost_usd: z.number().optional(),
+
+	/** User rating (1-10) of an assistant message */
+	rating: z.number().min(1).max(10).optional(),
+
+	/** The rating record in ratings.jsonl */
+	rating_id: z.string().optional(),
+});
+
+export type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
+
 /**
  * Current work state - what's being worked on right now
  */
@@ -11,7 +11,7 @@
 
 import { formatContextForPrompt } from '../context-loader';
 import { buildEnhancedContext } from '../memory/context-injection';
-import { modelRouter } from '../model-router';
+import { type CompletionOptions, type CompletionResult, modelRouter } from '../model-router';
 import { skillLoader } from './loader';
 import { skillRouter } from './router';
 import type {
@@ -222,8 +222,10 @@ export class SkillExecutor {
 		});
 
 		// Call the model (model complexity from workflow.definition.model_complexity could be used for routing)
-		const response = await modelRouter.complete({
+		const completionOptions: CompletionOptions = {
 			model: options.preferredModel,
+			command: 'skills',
+			skill: skill.definition.name,
 			messages: [
 				{
 					role: 'system',
@@ -244,7 +246,11 @@ export class SkillExecutor {
 			],
 			maxTokens: 2000,
 			temperature: 0.7,
-		});
+		};
+
+		const response = options.onToken
+			? await this.streamCompletion(completionOptions, options.onToken)
+			: await modelRouter.complete(completionOptions);
 
 		const duration = (Date.now() - startTime) / 1000;
 
@@ -271,6 +277,24 @@ export class SkillExecutor {
 		};
 	}
 
+	/**
+	 * Stream a completion, forwarding tokens to the caller
+	 */
+	private async streamCompletion(
+		completionOptions: CompletionOptions,
+		onToken: (token: string) => void
+	): Promise<CompletionResult> {
+		for await (const event of modelRouter.stream(completionOptions)) {
+			if (event.type === 'token') {
+				onToken(event.content);
+			} else {
+				return event.result;
+			}
+		}
+
+		throw new Error('Stream ended without a completion result');
+	}
+
 	/**
 	 * Build context for skill execution
 	 */
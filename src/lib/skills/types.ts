@@ -206,6 +206,8 @@ export interface SkillExecutionOptions {
 	maxCost?: number;
 	/** Whether to enable verbose logging */
 	verbose?: boolean;
+	/** Called with each token as the response streams in (enables streaming) */
+	onToken?: (token: string) => void;
 }
 
 // ============================================
@@ -0,0 +1,126 @@
+/**
+ * Agent Loop - Let the model call local tools during a conversation
+ *
+ * Each step sends the conversation with the registry's tool definitions.
+ * When the model asks for tools, each call is confirmed (unless read-only),
+ * run, and its result sent back; the loop ends when the model answers
+ * without calling tools or the step limit is reached. The last step still
+ * sends the tools, since providers reject earlier tool calls in the history
+ * without them, but with `toolChoice: 'none'` so the model has to answer.
+ */
+
+import { modelRouter } from '../model-router/router';
+import type { CompletionOptions, CompletionResult } from '../model-router/router';
+import type { ChatMessage, ToolCall } from '../model-router/tools';
+import { type ToolContext, type ToolRegistry, toolRegistry } from './registry';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ToolCallOutcome {
+	call: ToolCall;
+	status: 'ran' | 'declined' | 'failed';
+	/** Text sent back to the model */
+	output: string;
+}
+
+export interface AgentOptions {
+	/** Completion request - tools are filled in from the registry */
+	completion: CompletionOptions;
+	/** Ask the user whether a tool call may run */
+	confirm: (call: ToolCall) => Promise<boolean>;
+	registry?: ToolRegistry;
+	context?: ToolContext;
+	/** Completion function (defaults to modelRouter.complete; chat passes a streaming one) */
+	complete?: (options: CompletionOptions) => Promise<CompletionResult>;
+	/** Called after each tool call is handled */
+	onToolCall?: (outcome: ToolCallOutcome) => void;
+	/** Maximum model calls that may use tools before a final answer is forced */
+	maxSteps?: number;
+}
+
+export interface AgentResult {
+	/** The final completion (the model's answer) */
+	result: CompletionResult;
+	/** Messages produced this turn, to append to the conversation */
+	messages: ChatMessage[];
+	/** Every tool call the model made */
+	toolCalls: ToolCallOutcome[];
+	/** Total cost across every step */
+	cost: number;
+}
+
+const DEFAULT_MAX_STEPS = 5;
+
+// ============================================
+// Agent Loop
+// ============================================
+
+/**
+ * Handle one tool call: confirm, run, and describe the outcome
+ */
+async function handleToolCall(
+	call: ToolCall,
+	options: AgentOptions,
+	registry: ToolRegistry
+): Promise<ToolCallOutcome> {
+	if (registry.get(call.name) && registry.requiresConfirmation(call)) {
+		if (!(await options.confirm(call))) {
+			return { call, status: 'declined', output: 'The user declined this action.' };
+		}
+	}
+
+	try {
+		const output = await registry.execute(call, options.context);
+		return { call, status: 'ran', output };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { call, status: 'failed', output: `Error: ${message}` };
+	}
+}
+
+/**
+ * Run one conversational turn, executing tool calls until the model answers
+ */
+export async function runAgent(options: AgentOptions): Promise<AgentResult> {
+	const registry = options.registry ?? toolRegistry;
+	const complete = options.complete ?? ((o: CompletionOptions) => modelRouter.complete(o));
+	const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+
+	const messages: ChatMessage[] = [];
+	const toolCalls: ToolCallOutcome[] = [];
+	let cost = 0;
+
+	for (let step = 0; ; step++) {
+		// Out of steps: forbid tool calls so the model has to answer
+		const final = step >= maxSteps;
+		const result = await complete({
+			...options.completion,
+			messages: [...options.completion.messages, ...messages],
+			tools: registry.definitions(),
+			...(final && { toolChoice: 'none' as const }),
+		});
+		cost += result.cost;
+
+		// A provider that ignores toolChoice doesn't get another step
+		if (final || !result.toolCalls?.length) {
+			messages.push({ role: 'assistant', content: result.content });
+			return {
+				result: final ? { ...result, toolCalls: undefined } : result,
+				messages,
+				toolCalls,
+				cost,
+			};
+		}
+
+		messages.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+
+		for (const call of result.toolCalls) {
+			const outcome = await handleToolCall(call, options, registry);
+			toolCalls.push(outcome);
+			options.onToolCall?.(outcome);
+			messages.push({ role: 'tool', content: outcome.output, toolCallId: call.id });
+		}
+	}
+}
@@ -0,0 +1,446 @@
+/**
+ * Built-in Tools - Identity, goals, projects, feeds and memory
+ *
+ * These wrap the same functions the CLI commands use, so a change made by
+ * the model is indistinguishable from one made with `yxhyx identity ...`
+ * or `yxhyx news feeds ...`.
+ */
+
+import { stringify } from 'yaml';
+import { loadIdentity, updateIdentity } from '../context-loader';
+import { ValidationError } from '../errors';
+import { setGoalProgress } from '../identity-editor';
+import { learningManager } from '../memory/learning-manager';
+import { workManager } from '../memory/work-manager';
+import { isOpenCodeIntegrationSetUp, syncOpenCodeIntegration } from '../opencode-integration';
+import { feedFetcher } from '../research/feed-fetcher';
+import { type Goal, type Project, generateId } from '../schemas/identity';
+import { generateViews } from '../view-generator';
+import type { Tool } from './registry';
+
+// ============================================
+// Helpers
+// ============================================
+
+type GoalTerm = 'short_term' | 'medium_term' | 'long_term';
+
+/**
+ * Regenerate views and sync OpenCode after an identity change
+ */
+async function afterIdentityChange(): Promise<void> {
+	await generateViews();
+	if (isOpenCodeIntegrationSetUp()) {
+		await syncOpenCodeIntegration();
+	}
+}
+
+// ============================================
+// Identity Tools
+// ============================================
+
+const getIdentity: Tool = {
+	readOnly: true,
+	definition: {
+		name: 'get_identity',
+		description:
+			"Read the user's identity file, or one section of it. Use this to look up goal and project IDs before updating them.",
+		parameters: {
+			type: 'object',
+			properties: {
+				section: {
+					type: 'string',
+					description: 'Section to read (omit for everything)',
+					enum: [
+						'about',
+						'mission',
+						'beliefs',
+						'goals',
+						'projects',
+						'interests',
+						'challenges',
+						'habits',
+						'preferences',
+						'learned',
+					],
+				},
+			},
+		},
+	},
+	async execute(args) {
+		const identity = await loadIdentity();
+		const section = args.section as keyof typeof identity | undefined;
+		return stringify(section ? { [section]: identity[section] } : identity);
+	},
+};
+
+const addGoal: Tool = {
+	definition: {
+		name: 'add_goal',
+		description: 'Add a new goal for the user.',
+		parameters: {
+			type: 'object',
+			properties: {
+				title: { type: 'string', description: 'Goal title' },
+				term: { type: 'string', enum: ['short', 'medium', 'long'], description: 'Goal term' },
+				description: { type: 'string' },
+				deadline: { type: 'string', description: 'Deadline (YYYY-MM-DD)' },
+			},
+			required: ['title', 'term'],
+		},
+	},
+	async execute(args) {
+		const term = args.term as 'short' | 'medium' | 'long';
+		const termKey = `${term}_term` as GoalTerm;
+		const goal: Goal = {
+			id: generateId(`goal-${term[0]}t`),
+			title: args.title as string,
+			description: args.description as string | undefined,
+			deadline: args.deadline as string | undefined,
+			progress: 0,
+			milestones: [],
+			related_projects: [],
+			created: new Date().toISOString(),
+		};
+
+		await updateIdentity(
+			(identity) => ({
+				...identity,
+				goals: { ...identity.goals, [termKey]: [...identity.goals[termKey], goal] },
+			}),
+			{ source: 'tool add_goal' }
+		);
+		await afterIdentityChange();
+
+		return `Added ${term}-term goal "${goal.title}" (${goal.id})`;
+	},
+};
+
+const updateGoalProgress: Tool = {
+	definition: {
+		name: 'update_goal_progress',
+		description: 'Set the progress of an existing goal.',
+		parameters: {
+			type: 'object',
+			properties: {
+				goal_id: { type: 'string' },
+				percent: { type: 'number', description: 'Progress from 0 to 100' },
+			},
+			required: ['goal_id', 'percent'],
+		},
+	},
+	async execute(args) {
+		const goalId = args.goal_id as string;
+		const percent = args.percent as number;
+		if (percent < 0 || percent > 100) {
+			throw new ValidationError('percent must be between 0 and 100', { field: 'percent' });
+		}
+
+		// Goals with milestones or sub-goals can't be set by hand
+		let title: string | undefined;
+		await updateIdentity(
+			(identity) => {
+				const result = setGoalProgress(identity, goalId, percent / 100);
+				title = result.goal.title;
+				return result.identity;
+			},
+			{ source: 'tool update_goal_progress' }
+		);
+		await afterIdentityChange();
+
+		return `Updated "${title}" to ${percent}%`;
+	},
+};
+
+const addProject: Tool = {
+	definition: {
+		name: 'add_project',
+		description: 'Add a new active project.',
+		parameters: {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				description: { type: 'string' },
+				goal_id: { type: 'string', description: 'Related goal ID' },
+			},
+			required: ['name'],
+		},
+	},
+	async execute(args) {
+		const project: Project = {
+			id: generateId('project'),
+			name: args.name as string,
+			status: 'active',
+			description: (args.description as string | undefined) || '',
+			next_actions: [],
+			related_goals: args.goal_id ? [args.goal_id as string] : [],
+			created: new Date().toISOString(),
+		};
+
+		await updateIdentity(
+			(identity) => ({
+				...identity,
+				projects: [...identity.projects, project],
+			}),
+			{ source: 'tool add_project' }
+		);
+		await afterIdentityChange();
+
+		return `Added project "${project.name}" (${project.id})`;
+	},
+};
+
+const updateProject: Tool = {
+	definition: {
+		name: 'update_project',
+		description: "Change a project's status and/or add a next action.",
+		parameters: {
+			type: 'object',
+			properties: {
+				project_id: { type: 'string' },
+				status: { type: 'string', enum: ['active', 'paused', 'completed', 'abandoned'] },
+				next_action: { type: 'string', description: 'Next action to append' },
+			},
+			required: ['project_id'],
+		},
+	},
+	async execute(args) {
+		const projectId = args.project_id as string;
+		let name: string | undefined;
+
+		await updateIdentity(
+			(identity) => ({
+				...identity,
+				projects: identity.projects.map((p) => {
+					if (p.id !== projectId) return p;
+					name = p.name;
+					return {
+						...p,
+						status: (args.status as Project['status'] | undefined) || p.status,
+						next_actions: args.next_action
+							? [...p.next_actions, args.next_action as string]
+							: p.next_actions,
+					};
+				}),
+			}),
+			{ source: 'tool update_project' }
+		);
+
+		if (!name) {
+			throw new ValidationError(`Project not found: ${projectId}`, { field: 'project_id' });
+		}
+		await afterIdentityChange();
+
+		return `Updated project "${name}"`;
+	},
+};
+
+const addInterest: Tool = {
+	definition: {
+		name: 'add_interest',
+		description: 'Add a topic the user is interested in (used for news curation).',
+		parameters: {
+			type: 'object',
+			properties: {
+				topic: { type: 'string' },
+				priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+				subtopics: { type: 'array', items: { type: 'string' } },
+			},
+			required: ['topic'],
+		},
+	},
+	async execute(args) {
+		const priority = (args.priority as string | undefined) || 'medium';
+		const key = `${priority}_priority` as 'high_priority' | 'medium_priority' | 'low_priority';
+
+		await updateIdentity(
+			(identity) => ({
+				...identity,
+				interests: {
+					...identity.interests,
+					[key]: [
+						...identity.interests[key],
+						{ topic: args.topic as string, subtopics: (args.subtopics as string[]) || [] },
+					],
+				},
+			}),
+			{ source: 'tool add_interest' }
+		);
+		await afterIdentityChange();
+
+		return `Added ${priority}-priority interest "${args.topic}"`;
+	},
+};
+
+const addLesson: Tool = {
+	definition: {
+		name: 'add_lesson',
+		description: 'Record a lesson the user has learned.',
+		parameters: {
+			type: 'object',
+			properties: {
+				lesson: { type: 'string' },
+				context: { type: 'string' },
+			},
+			required: ['lesson'],
+		},
+	},
+	async execute(args) {
+		await updateIdentity(
+			(identity) => ({
+				...identity,
+				learned: [
+					...identity.learned,
+					{
+						lesson: args.lesson as string,
+						context: args.context as string | undefined,
+						date: new Date().toISOString().split('T')[0],
+					},
+				],
+			}),
+			{ source: 'tool add_lesson' }
+		);
+		await afterIdentityChange();
+
+		return 'Lesson added';
+	},
+};
+
+// ============================================
+// Feed Tools
+// ============================================
+
+const listFeeds: Tool = {
+	readOnly: true,
+	definition: {
+		name: 'list_feeds',
+		description: 'List configured RSS feeds by category.',
+		parameters: { type: 'object', properties: {} },
+	},
+	async execute() {
+		const config = await feedFetcher.loadConfig();
+		return Object.entries(config.feeds)
+			.map(
+				([category, feeds]) =>
+					`${category}:\n${feeds.map((f) => `  - ${f.name} (${f.url})`).join('\n')}`
+			)
+			.join('\n');
+	},
+};
+
+const addFeed: Tool = {
+	definition: {
+		name: 'add_feed',
+		description: 'Add an RSS feed to a news category.',
+		parameters: {
+			type: 'object',
+			properties: {
+				url: { type: 'string' },
+				name: { type: 'string' },
+				category: { type: 'string', description: 'Category (defaults to custom)' },
+				priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+			},
+			required: ['url'],
+		},
+	},
+	async execute(args) {
+		const url = args.url as string;
+		const category = (args.category as string | undefined) || 'custom';
+		const name = (args.name as string | undefined) || new URL(url).hostname;
+
+		await feedFetcher.addFeed(category, {
+			name,
+			url,
+			priority: args.priority as 'high' | 'medium' | 'low' | undefined,
+		});
+
+		return `Added feed "${name}" to ${category}`;
+	},
+};
+
+const removeFeed: Tool = {
+	definition: {
+		name: 'remove_feed',
+		description: 'Remove an RSS feed by URL.',
+		parameters: {
+			type: 'object',
+			properties: {
+				category: { type: 'string' },
+				url: { type: 'string' },
+			},
+			required: ['category', 'url'],
+		},
+	},
+	async execute(args) {
+		const removed = await feedFetcher.removeFeed(args.category as string, args.url as string);
+		return removed ? `Removed ${args.url}` : `No feed ${args.url} in ${args.category}`;
+	},
+};
+
+// ============================================
+// Memory Tools
+// ============================================
+
+const searchMemory: Tool = {
+	readOnly: true,
+	definition: {
+		name: 'search_memory',
+		description: 'Search learnings captured from past rated interactions.',
+		parameters: {
+			type: 'object',
+			properties: {
+				query: { type: 'string' },
+			},
+			required: ['query'],
+		},
+	},
+	async execute(args) {
+		const learnings = await learningManager.retrieveRelevantLearnings(args.query as string);
+		if (learnings.length === 0) return 'No relevant learnings found';
+		return learnings.map((l) => `- [${l.type}] ${l.lesson} (${l.situation})`).join('\n');
+	},
+};
+
+const recordWorkItem: Tool = {
+	definition: {
+		name: 'record_work_item',
+		description: 'Record a note or outcome in the current work session.',
+		parameters: {
+			type: 'object',
+			properties: {
+				summary: { type: 'string', description: 'What was done or decided' },
+			},
+			required: ['summary'],
+		},
+	},
+	async execute(args, context) {
+		if (!context.workId) {
+			throw new ValidationError('No active work session to record to');
+		}
+
+		await workManager.addItem(context.workId, {
+			prompt: args.summary as string,
+			tools_used: ['record_work_item'],
+		});
+
+		return 'Recorded in work session';
+	},
+};
+
+// ============================================
+// Export
+// ============================================
+
+export const builtinTools: Tool[] = [
+	getIdentity,
+	addGoal,
+	updateGoalProgress,
+	addProject,
+	updateProject,
+	addInterest,
+	addLesson,
+	listFeeds,
+	addFeed,
+	removeFeed,
+	searchMemory,
+	recordWorkItem,
+];
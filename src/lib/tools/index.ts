@@ -0,0 +1,20 @@
+/**
+ * Tools - Re-exports
+ */
+
+export {
+	toolRegistry,
+	ToolRegistry,
+	validateToolArguments,
+	type Tool,
+	type ToolContext,
+} from './registry';
+
+export { builtinTools } from './builtin';
+
+export {
+	runAgent,
+	type AgentOptions,
+	type AgentResult,
+	type ToolCallOutcome,
+} from './agent';
@@ -0,0 +1,147 @@
+/**
+ * Tool Registry - Local tools the model can call
+ *
+ * Each tool pairs a provider-agnostic definition (sent to the model) with
+ * an executor that runs locally. Tools that change data must be confirmed
+ * by the user before they run; read-only tools run straight away.
+ */
+
+import { ValidationError } from '../errors';
+import type { ToolCall, ToolDefinition, ToolParameterSchema } from '../model-router/tools';
+import { builtinTools } from './builtin';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Context passed to every tool execution
+ */
+export interface ToolContext {
+	/** Work session the conversation belongs to */
+	workId?: string;
+}
+
+export interface Tool {
+	definition: ToolDefinition;
+	/** Only reads data - runs without asking for confirmation */
+	readOnly?: boolean;
+	/**
+	 * Run the tool
+	 *
+	 * @returns Text result sent back to the model
+	 */
+	execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check tool arguments against the tool's parameter schema
+ *
+ * @throws ValidationError on a missing required argument or a type mismatch
+ */
+export function validateToolArguments(
+	toolName: string,
+	schema: ToolParameterSchema,
+	args: Record<string, unknown>
+): void {
+	for (const name of schema.required || []) {
+		if (args[name] === undefined || args[name] === null || args[name] === '') {
+			throw new ValidationError(`${toolName}: missing required argument "${name}"`, {
+				field: name,
+			});
+		}
+	}
+
+	for (const [name, value] of Object.entries(args)) {
+		const property = schema.properties[name];
+		if (!property || value === undefined || value === null) continue;
+
+		const actual = Array.isArray(value) ? 'array' : typeof value;
+		if (actual !== property.type) {
+			throw new ValidationError(
+				`${toolName}: argument "${name}" should be ${property.type}, got ${actual}`,
+				{ field: name }
+			);
+		}
+		if (property.enum && !property.enum.includes(value as string)) {
+			throw new ValidationError(
+				`${toolName}: argument "${name}" must be one of ${property.enum.join(', ')}`,
+				{ field: name }
+			);
+		}
+	}
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export class ToolRegistry {
+	private tools = new Map<string, Tool>();
+
+	constructor(tools: Tool[] = []) {
+		for (const tool of tools) {
+			this.register(tool);
+		}
+	}
+
+	/**
+	 * Register a tool (replaces any tool with the same name)
+	 */
+	register(tool: Tool): void {
+		this.tools.set(tool.definition.name, tool);
+	}
+
+	/**
+	 * Get a tool by name
+	 */
+	get(name: string): Tool | undefined {
+		return this.tools.get(name);
+	}
+
+	/**
+	 * List all registered tools
+	 */
+	list(): Tool[] {
+		return [...this.tools.values()];
+	}
+
+	/**
+	 * Definitions to send to the model
+	 */
+	definitions(): ToolDefinition[] {
+		return this.list().map((tool) => tool.definition);
+	}
+
+	/**
+	 * Whether a call needs the user's confirmation before running
+	 */
+	requiresConfirmation(call: ToolCall): boolean {
+		return !this.tools.get(call.name)?.readOnly;
+	}
+
+	/**
+	 * Validate and run a tool call
+	 *
+	 * @throws ValidationError for unknown tools or invalid arguments
+	 */
+	async execute(call: ToolCall, context: ToolContext = {}): Promise<string> {
+		const tool = this.tools.get(call.name);
+		if (!tool) {
+			throw new ValidationError(`Unknown tool: ${call.name}`, {
+				field: 'name',
+				suggestion: `Available tools: ${[...this.tools.keys()].join(', ')}`,
+			});
+		}
+
+		validateToolArguments(call.name, tool.definition.parameters, call.arguments);
+		return tool.execute(call.arguments, context);
+	}
+}
+
+// Export singleton instance with the built-in tools
+export const toolRegistry = new ToolRegistry(builtinTools);
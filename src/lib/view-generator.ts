@@ -7,6 +7,8 @@
 
 import { mkdir, writeFile } from 'node:fs/promises';
 import { loadIdentity } from './context-loader';
+import { describeMilestone, milestoneProgress, summarizeGoals } from './goals';
+import { describeFrequency } from './habits';
 import type { Goal, Identity } from './schemas/identity';
 
 const VIEWS_DIR = `${process.env.HOME}/.yxhyx/identity/views`;
@@ -26,6 +28,7 @@ export async function generateViews(): Promise<void> {
 		generateInterestsView(identity),
 		generateLearnedView(identity),
 		generateChallengesView(identity),
+		generateHabitsView(identity),
 	]);
 }
 
@@ -72,15 +75,32 @@ ${
  * Generate Goals view
  */
 async function generateGoalsView(identity: Identity): Promise<void> {
+	const summaries = new Map(summarizeGoals(identity.goals).map((g) => [g.id, g]));
+
 	const formatGoal = (g: Goal) => {
+		const summary = summaries.get(g.id);
 		const checkbox = g.progress >= 1 ? '[x]' : '[ ]';
 		const progress = `${Math.round(g.progress * 100)}%`;
-		const deadline = g.deadline ? `Due: ${g.deadline}` : 'No deadline';
+		const risk =
+			summary && summary.risk.status !== 'on_track'
+				? ` - **${summary.risk.status === 'overdue' ? 'Overdue' : 'At risk'}:** ${summary.risk.reason}`
+				: '';
+		const deadline = g.deadline ? `Due: ${g.deadline}${risk}` : 'No deadline';
 		const related =
 			g.related_projects.length > 0 ? `Related: ${g.related_projects.join(', ')}` : '';
-
-		return `- ${checkbox} **${g.title}** (${progress})
-  - ${deadline}${related ? `\n  - ${related}` : ''}`;
+		const parent = g.parent ? `Part of: ${summaries.get(g.parent)?.title ?? g.parent}` : '';
+		const milestones = g.milestones.map(
+			(m) =>
+				`  - [${milestoneProgress(m) >= 1 ? 'x' : ' '}] ${m.title}${m.target ? ` (${describeMilestone(m)})` : ''}`
+		);
+
+		return [
+			`- ${checkbox} **${g.title}** (${progress})`,
+			`  - ${deadline}`,
+			...(parent ? [`  - ${parent}`] : []),
+			...(related ? [`  - ${related}`] : []),
+			...milestones,
+		].join('\n');
 	};
 
 	const content = `# Goals
@@ -251,3 +271,30 @@ ${resolvedChallenges.length > 0 ? resolvedChallenges.map(formatChallenge).join('
 
 	await writeFile(`${VIEWS_DIR}/CHALLENGES.md`, content);
 }
+
+/**
+ * Generate Habits view
+ */
+async function generateHabitsView(identity: Identity): Promise<void> {
+	const activeHabits = identity.habits.filter((h) => h.status === 'active');
+	const pausedHabits = identity.habits.filter((h) => h.status === 'paused');
+
+	const formatHabit = (h: (typeof identity.habits)[number]) =>
+		`- **${h.title}** (${describeFrequency(h.frequency)})${h.description ? `: ${h.description}` : ''}`;
+
+	const content = `# Habits
+
+## Active (${activeHabits.length})
+
+${activeHabits.length > 0 ? activeHabits.map(formatHabit).join('\n') : '_No active habits_'}
+
+## Paused (${pausedHabits.length})
+
+${pausedHabits.length > 0 ? pausedHabits.map(formatHabit).join('\n') : '_No paused habits_'}
+
+---
+*Auto-generated from identity.yaml on ${new Date().toISOString()}*
+`;
+
+	await writeFile(`${VIEWS_DIR}/HABITS.md`, content);
+}
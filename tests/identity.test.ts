@@ -5,13 +5,15 @@
  * - Identity schema validation (Zod)
  * - Context loader operations
  * - Query helpers
+ * - Identity commands
  */
 
 import { mkdir, writeFile } from 'node:fs/promises';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { stringify } from 'yaml';
 import {
 	GoalSchema,
+	HabitSchema,
 	IdentitySchema,
 	ProjectSchema,
 	createDefaultIdentity,
@@ -37,7 +39,7 @@ describe('Identity Schema', () => {
 			};
 
 			const result = GoalSchema.parse(goal);
-			expect(result).toEqual(goal);
+			expect(result).toEqual({ ...goal, milestones: [] });
 		});
 
 		it('should apply defaults for optional fields', () => {
@@ -163,7 +165,7 @@ describe('Identity Helpers', () => {
 
 			expect(identity.about.name).toBe('John Doe');
 			expect(identity.about.timezone).toBe('America/New_York');
-			expect(identity.version).toBe('1.0');
+			expect(identity.version).toBe('1.3');
 
 			// Should be valid according to schema
 			expect(() => IdentitySchema.parse(identity)).not.toThrow();
@@ -390,3 +392,593 @@ describe('Context Loader', () => {
 		});
 	});
 });
+
+// ============================================
+// Identity History Tests
+// ============================================
+
+describe('Identity History', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const identityDir = `${TEST_YXHYX_DIR}/identity`;
+		await mkdir(identityDir, { recursive: true });
+		await writeFile(`${identityDir}/identity.yaml`, stringify(createMockIdentity()));
+	});
+
+	it('should keep a baseline and record a version per change', async () => {
+		const { updateIdentity } = await import('../src/lib/context-loader');
+		const { listSnapshots } = await import('../src/lib/identity-history');
+
+		await updateIdentity((current) => ({ ...current, mission: 'New mission' }), {
+			source: 'identity edit',
+		});
+		// Saving without changes doesn't add a version
+		await updateIdentity((current) => current, { source: 'identity edit' });
+
+		const snapshots = await listSnapshots();
+		expect(snapshots.map((s) => s.version)).toEqual([1, 2]);
+		expect(snapshots[0].source).toBe('baseline');
+		expect(snapshots[1]).toMatchObject({ source: 'identity edit', summary: 'mission' });
+	});
+
+	it('should diff goals, projects and interests', async () => {
+		const { diffIdentities, summarizeDiff } = await import('../src/lib/identity-history');
+		const before = IdentitySchema.parse(createMockIdentity());
+		const after = IdentitySchema.parse(
+			createMockIdentity({
+				goals: {
+					short_term: [],
+					medium_term: [
+						{ id: 'goal-short-1', title: 'Complete tests', progress: 0.8, related_projects: [] },
+					],
+					long_term: [{ id: 'goal-long-1', title: 'New goal', progress: 0, related_projects: [] }],
+				},
+				projects: [],
+			})
+		);
+
+		const diff = diffIdentities(before, after);
+
+		expect(diff.goals.added).toEqual([{ key: 'goal-long-1', label: 'New goal' }]);
+		expect(diff.goals.changed[0].changes).toEqual([
+			{ field: 'term', from: 'short_term', to: 'medium_term' },
+			{ field: 'progress', from: 0.5, to: 0.8 },
+		]);
+		expect(diff.projects.removed).toEqual([{ key: 'project-1', label: 'Test Project' }]);
+		expect(summarizeDiff(diff)).toBe('+1 goal, ~1 goal, -1 project');
+	});
+
+	it('should roll back as a new version', async () => {
+		const { loadIdentity, rollbackIdentity, updateIdentity } = await import(
+			'../src/lib/context-loader'
+		);
+		const { listSnapshots } = await import('../src/lib/identity-history');
+
+		await updateIdentity((current) => ({ ...current, mission: 'Bad update' }));
+		await rollbackIdentity(1);
+
+		expect((await loadIdentity()).mission).toBe('Test mission');
+		const snapshots = await listSnapshots();
+		expect(snapshots).toHaveLength(3);
+		expect(snapshots[2].source).toBe('rollback to v1');
+
+		await expect(rollbackIdentity(99)).rejects.toThrow('Identity version not found');
+	});
+
+	it('should prune versions beyond the retention limits', async () => {
+		const { updateIdentity } = await import('../src/lib/context-loader');
+		const { listSnapshots, loadSnapshot, pruneSnapshots } = await import(
+			'../src/lib/identity-history'
+		);
+
+		for (let i = 1; i <= 4; i++) {
+			await updateIdentity((current) => ({ ...current, mission: `Mission ${i}` }));
+		}
+
+		expect(await pruneSnapshots({ maxVersions: 3 })).toEqual([1, 2]);
+		expect((await listSnapshots()).map((s) => s.version)).toEqual([3, 4, 5]);
+		await expect(loadSnapshot(1)).rejects.toThrow('Identity version not found');
+	});
+});
+
+// ============================================
+// Identity Migration Tests
+// ============================================
+
+describe('Identity Migrations', () => {
+	// A pre-1.0 file kept the name at the top level
+	const legacyMigration = {
+		from: '0.9',
+		to: '1.0',
+		description: 'Move name into about',
+		migrate: ({ name, ...data }: Record<string, unknown>) => ({
+			...data,
+			about: { ...(data.about as object), name },
+		}),
+	};
+
+	function legacyIdentity() {
+		const { about, ...identity } = createMockIdentity({ version: '0.9' });
+		const { name, ...rest } = about;
+		return { ...identity, name, about: rest };
+	}
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	it('should apply pending migrations in order and validate the result', async () => {
+		const { MIGRATIONS, migrateIdentity } = await import('../src/lib/identity-migrations');
+		const { IDENTITY_VERSION } = await import('../src/lib/schemas/identity');
+		const data = legacyIdentity();
+
+		const result = migrateIdentity(data, [legacyMigration, ...MIGRATIONS]);
+
+		expect(result).toMatchObject({ from: '0.9', to: IDENTITY_VERSION });
+		expect(result.applied).toEqual([legacyMigration, ...MIGRATIONS]);
+		expect(result.identity.about.name).toBe('Test User');
+		expect(result.identity.version).toBe(IDENTITY_VERSION);
+		// The input is left alone
+		expect(data.version).toBe('0.9');
+
+		expect(() => migrateIdentity(legacyIdentity(), [])).toThrow('about.name');
+	});
+
+	it('should give existing beliefs IDs', async () => {
+		const { migrateIdentity } = await import('../src/lib/identity-migrations');
+		const belief = { statement: 'Tests matter', confidence: 0.9, added: '2025-01-01' };
+
+		const { identity } = migrateIdentity(createMockIdentity({ version: '1.0', beliefs: [belief] }));
+
+		expect(identity.beliefs[0]).toMatchObject(belief);
+		expect(identity.beliefs[0].id).toMatch(/^belief-/);
+	});
+
+	it('should give beliefs the same IDs each time an unmigrated file is loaded', async () => {
+		const { loadIdentity } = await import('../src/lib/context-loader');
+		const beliefs = [
+			{ statement: 'Tests matter', confidence: 0.9, added: '2025-01-01' },
+			{ statement: 'Tests matter', confidence: 0.9, added: '2025-01-01' },
+		];
+
+		const identityDir = `${TEST_YXHYX_DIR}/identity`;
+		await mkdir(identityDir, { recursive: true });
+		await writeFile(
+			`${identityDir}/identity.yaml`,
+			stringify(createMockIdentity({ version: '1.0', beliefs }))
+		);
+
+		const first = (await loadIdentity()).beliefs.map((b) => b.id);
+		const second = (await loadIdentity()).beliefs.map((b) => b.id);
+		expect(second).toEqual(first);
+		// Identical beliefs still get their own IDs
+		expect(new Set(first).size).toBe(2);
+	});
+
+	it('should refuse files from a newer version', async () => {
+		const { migrateIdentity } = await import('../src/lib/identity-migrations');
+
+		expect(() => migrateIdentity(createMockIdentity({ version: '99.0' }))).toThrow(
+			'newer than this Yxhyx supports'
+		);
+	});
+
+	it('should end the migration chain at the current version', async () => {
+		const { MIGRATIONS, compareVersions } = await import('../src/lib/identity-migrations');
+		const { IDENTITY_VERSION } = await import('../src/lib/schemas/identity');
+
+		for (let i = 1; i < MIGRATIONS.length; i++) {
+			expect(MIGRATIONS[i].from).toBe(MIGRATIONS[i - 1].to);
+		}
+		if (MIGRATIONS.length > 0) {
+			expect(compareVersions(MIGRATIONS[MIGRATIONS.length - 1].to, IDENTITY_VERSION)).toBe(0);
+		}
+		expect(compareVersions('1.10', '1.9')).toBe(1);
+		expect(compareVersions('1', '1.0')).toBe(0);
+	});
+
+	it('should migrate the file with a backup, and only report on a dry run', async () => {
+		const { MIGRATIONS } = await import('../src/lib/identity-migrations');
+		const { IDENTITY_VERSION } = await import('../src/lib/schemas/identity');
+		const { getBackupPath, getMigrationStatus, loadIdentity, migrateIdentityFile } = await import(
+			'../src/lib/context-loader'
+		);
+		const { existsSync } = await import('node:fs');
+		const { readFile } = await import('node:fs/promises');
+
+		const identityDir = `${TEST_YXHYX_DIR}/identity`;
+		await mkdir(identityDir, { recursive: true });
+		await writeFile(`${identityDir}/identity.yaml`, stringify(legacyIdentity()));
+
+		MIGRATIONS.unshift(legacyMigration);
+		try {
+			expect((await getMigrationStatus()).pending).toEqual(MIGRATIONS);
+			// Loading migrates in memory
+			expect((await loadIdentity()).about.name).toBe('Test User');
+
+			const dryRun = await migrateIdentityFile({ dryRun: true });
+			expect(dryRun.changes).toContain('- name');
+			expect(dryRun.backup).toBeUndefined();
+			expect((await getMigrationStatus()).version).toBe('0.9');
+
+			const result = await migrateIdentityFile();
+			expect(result.backup).toBe(getBackupPath('0.9'));
+			expect(await readFile(getBackupPath('0.9'), 'utf-8')).toContain('version: "0.9"');
+			expect(await getMigrationStatus()).toEqual({ version: IDENTITY_VERSION, pending: [] });
+			expect(existsSync(getBackupPath(IDENTITY_VERSION))).toBe(false);
+		} finally {
+			MIGRATIONS.splice(MIGRATIONS.indexOf(legacyMigration), 1);
+		}
+	});
+});
+
+// ============================================
+// Identity Command Tests
+// ============================================
+
+describe('Identity Command', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should remove a belief by the ID listed for an unmigrated file', async () => {
+		const { identityCommand } = await import('../src/commands/identity');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.spyOn(process, 'exit').mockImplementation((code) => {
+			throw new Error(`process.exit(${code})`);
+		});
+
+		const identityDir = `${TEST_YXHYX_DIR}/identity`;
+		await mkdir(identityDir, { recursive: true });
+		const beliefs = [
+			{ statement: 'Tests matter', confidence: 0.9, added: '2025-01-01' },
+			{ statement: 'Ship small', confidence: 0.8, added: '2025-02-01' },
+		];
+		await writeFile(
+			`${identityDir}/identity.yaml`,
+			stringify(createMockIdentity({ version: '1.0', beliefs }))
+		);
+
+		await identityCommand.parseAsync(['belief', 'list'], { from: 'user' });
+		const listed = log.mock.calls
+			.flat()
+			.join('\n')
+			.match(/belief-[0-9a-f]{8}-[0-9a-f]{4}/g);
+		expect(listed).toHaveLength(2);
+
+		await identityCommand.parseAsync(['belief', 'remove', listed?.[0] ?? ''], { from: 'user' });
+		expect((await loadIdentity()).beliefs.map((b) => b.statement)).toEqual(['Ship small']);
+	});
+});
+
+// ============================================
+// Identity Editor Tests
+// ============================================
+
+describe('Identity Editor', () => {
+	function mockIdentity() {
+		return IdentitySchema.parse(
+			createMockIdentity({
+				challenges: [
+					{
+						id: 'challenge-1',
+						title: 'Flaky CI',
+						description: '',
+						status: 'active',
+						related_goals: ['goal-short-1'],
+					},
+				],
+			})
+		);
+	}
+
+	it('should edit goals, projects and interests', async () => {
+		const { editEntry } = await import('../src/lib/identity-editor');
+
+		let { identity, entry } = editEntry(mockIdentity(), 'goal-short-1', {
+			title: 'Finish tests',
+			term: 'long',
+		});
+		expect(entry).toEqual({ kind: 'goal', id: 'goal-short-1', label: 'Complete tests' });
+		expect(identity.goals.short_term).toHaveLength(0);
+		expect(identity.goals.long_term[0]).toMatchObject({ title: 'Finish tests', progress: 0.5 });
+
+		({ identity } = editEntry(identity, 'project-1', { status: 'paused', repo: '' }));
+		expect(identity.projects[0].status).toBe('paused');
+
+		// Interests are addressed by topic, case-insensitively
+		({ identity } = editEntry(identity, 'testing', { priority: 'low', subtopics: ['e2e'] }));
+		expect(identity.interests.high_priority).toHaveLength(0);
+		expect(identity.interests.low_priority[0]).toEqual({ topic: 'Testing', subtopics: ['e2e'] });
+	});
+
+	it('should reject unknown entries and changes that do not apply', async () => {
+		const { editEntry, removeEntry } = await import('../src/lib/identity-editor');
+
+		expect(() => editEntry(mockIdentity(), 'nope', { title: 'x' })).toThrow('No goal, project');
+		expect(() => editEntry(mockIdentity(), 'project-1', { term: 'short' })).toThrow(
+			"Can't change term on a project"
+		);
+		expect(() => editEntry(mockIdentity(), 'project-1', {})).toThrow('Nothing to change');
+		expect(() => removeEntry(mockIdentity(), 'nope')).toThrow('No goal, project');
+	});
+
+	it('should remove links to a removed goal', async () => {
+		const { removeEntry } = await import('../src/lib/identity-editor');
+
+		const { identity, entry } = removeEntry(mockIdentity(), 'goal-short-1');
+
+		expect(entry.kind).toBe('goal');
+		expect(identity.goals.short_term).toHaveLength(0);
+		expect(identity.projects[0].related_goals).toEqual([]);
+		expect(identity.challenges[0].related_goals).toEqual([]);
+	});
+
+	it('should manage challenges and beliefs', async () => {
+		const { addBelief, addChallenge, removeBelief, setChallengeStatus, updateBeliefConfidence } =
+			await import('../src/lib/identity-editor');
+
+		let identity = addChallenge(mockIdentity(), { title: 'Focus' }).identity;
+		expect(identity.challenges[1]).toMatchObject({ title: 'Focus', status: 'active' });
+
+		identity = setChallengeStatus(identity, 'challenge-1', 'resolved').identity;
+		expect(identity.challenges[0].status).toBe('resolved');
+		expect(() => setChallengeStatus(identity, 'nope', 'resolved')).toThrow('Challenge not found');
+
+		const added = addBelief(identity, 'Small steps compound', 0.8);
+		identity = updateBeliefConfidence(added.identity, added.belief.id, 0.6).identity;
+		expect(identity.beliefs[0]).toMatchObject({
+			statement: 'Small steps compound',
+			confidence: 0.6,
+		});
+
+		identity = removeBelief(identity, added.belief.id).identity;
+		expect(identity.beliefs).toHaveLength(0);
+		expect(() => removeBelief(identity, added.belief.id)).toThrow('Belief not found');
+	});
+
+	it('should validate edits when saving', async () => {
+		const identityDir = `${TEST_YXHYX_DIR}/identity`;
+		await mkdir(identityDir, { recursive: true });
+		await writeFile(`${identityDir}/identity.yaml`, stringify(createMockIdentity()));
+
+		const { updateIdentity } = await import('../src/lib/context-loader');
+		const { addBelief } = await import('../src/lib/identity-editor');
+
+		await expect(
+			updateIdentity((identity) => addBelief(identity, 'Too sure', 1.5).identity)
+		).rejects.toThrow('beliefs.0.confidence');
+	});
+});
+
+// ============================================
+// Goals Tests
+// ============================================
+
+describe('Goals', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	function goal(overrides: Record<string, unknown> = {}) {
+		return GoalSchema.parse({ id: 'goal-1', title: 'Goal', ...overrides });
+	}
+
+	it('should roll milestones and sub-goals up into progress', async () => {
+		const { rollupProgress } = await import('../src/lib/goals');
+
+		const goals = rollupProgress({
+			short_term: [goal({ id: 'child', parent: 'parent', progress: 0.5 })],
+			medium_term: [
+				goal({
+					id: 'parent',
+					progress: 0.9,
+					milestones: [
+						{ id: 'm1', title: 'Chapters', target: 10, current: 4 },
+						{ id: 'm2', title: 'Outline', done: true },
+					],
+				}),
+			],
+			long_term: [goal({ id: 'manual', progress: 0.3 })],
+		});
+
+		// (0.4 + 1 + 0.5) / 3
+		expect(goals.medium_term[0].progress).toBe(0.633);
+		expect(goals.short_term[0].progress).toBe(0.5);
+		expect(goals.long_term[0].progress).toBe(0.3);
+	});
+
+	it('should roll up progress when saving', async () => {
+		await mkdir(`${TEST_YXHYX_DIR}/identity`, { recursive: true });
+		const { loadIdentity, saveIdentity, updateIdentity } = await import(
+			'../src/lib/context-loader'
+		);
+		const { addMilestone, setGoalProgress, updateMilestone } = await import(
+			'../src/lib/identity-editor'
+		);
+
+		await saveIdentity(createMockIdentity());
+		await updateIdentity((current) => {
+			const { identity, milestone } = addMilestone(current, 'goal-short-1', {
+				title: 'Write tests',
+				target: 4,
+			});
+			return updateMilestone(identity, milestone.id, { current: 1 }).identity;
+		});
+
+		const loaded = await loadIdentity();
+		expect(loaded.goals.short_term[0].progress).toBe(0.25);
+		expect(() => setGoalProgress(loaded, 'goal-short-1', 0.9)).toThrow(
+			'gets its progress from its milestones'
+		);
+	});
+
+	it('should mark key results done when they reach their target', async () => {
+		const { addMilestone, updateMilestone } = await import('../src/lib/identity-editor');
+
+		const added = addMilestone(IdentitySchema.parse(createMockIdentity()), 'goal-short-1', {
+			title: 'Read books',
+			target: 3,
+		});
+		const { milestone } = updateMilestone(added.identity, added.milestone.id, { current: 3 });
+
+		expect(milestone.done).toBe(true);
+		expect(() => updateMilestone(added.identity, 'nope', { done: true })).toThrow();
+	});
+
+	it('should only link goals to parents with a longer term', async () => {
+		const { validateParent } = await import('../src/lib/goals');
+		const goals = {
+			short_term: [goal({ id: 'short' })],
+			medium_term: [goal({ id: 'medium' })],
+			long_term: [],
+		};
+
+		expect(() => validateParent(goals, 'short', 'medium')).not.toThrow();
+		expect(() => validateParent(goals, 'medium', 'short')).toThrow('must have a longer term');
+		expect(() => validateParent(goals, 'short', 'nope')).toThrow('Parent goal not found');
+	});
+
+	it('should flag goals that are overdue or behind schedule', async () => {
+		const { assessRisk } = await import('../src/lib/goals');
+		const now = new Date('2026-03-15T12:00:00Z');
+
+		expect(assessRisk(goal({ deadline: '2026-03-10', progress: 0.5 }), now)).toMatchObject({
+			status: 'overdue',
+			days_left: -5,
+		});
+		expect(
+			assessRisk(goal({ created: '2026-01-01', deadline: '2026-04-01', progress: 0.3 }), now).status
+		).toBe('at_risk');
+		expect(assessRisk(goal({ deadline: '2026-03-18', progress: 0.5 }), now).status).toBe('at_risk');
+		expect(
+			assessRisk(goal({ created: '2026-03-01', deadline: '2026-06-01', progress: 0.2 }), now)
+		).toMatchObject({ status: 'on_track' });
+		expect(
+			assessRisk(goal({ milestones: [{ id: 'm1', title: 'Draft', deadline: '2026-03-01' }] }), now)
+				.status
+		).toBe('at_risk');
+		expect(assessRisk(goal({ deadline: '2026-03-10', progress: 1 }), now).status).toBe('on_track');
+	});
+});
+
+// ============================================
+// Habit Tests
+// ============================================
+
+describe('Habits', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	// Local time, so periods line up with the machine's days (2026-03-18 is a Wednesday)
+	const now = new Date(2026, 2, 18, 12);
+	const day = (date: number) => new Date(2026, 2, date, 9).toISOString();
+
+	function habit(overrides: Record<string, unknown> = {}) {
+		return HabitSchema.parse({
+			id: 'habit-1',
+			title: 'Exercise',
+			frequency: { times: 1, per: 'day' },
+			created: new Date(2026, 2, 1).toISOString(),
+			...overrides,
+		});
+	}
+
+	it('should parse and describe frequencies', async () => {
+		const { describeFrequency, parseFrequency } = await import('../src/lib/habits');
+
+		expect(parseFrequency('daily')).toEqual({ times: 1, per: 'day' });
+		expect(parseFrequency('3/week')).toEqual({ times: 3, per: 'week' });
+		expect(parseFrequency('2x/day')).toEqual({ times: 2, per: 'day' });
+		expect(parseFrequency('3 per week')).toEqual({ times: 3, per: 'week' });
+		expect(() => parseFrequency('often')).toThrow('Invalid frequency');
+		expect(() => parseFrequency('0/week')).toThrow('Invalid frequency');
+
+		expect(describeFrequency({ times: 1, per: 'week' })).toBe('weekly');
+		expect(describeFrequency({ times: 3, per: 'week' })).toBe('3x/week');
+	});
+
+	it('should count daily streaks without breaking on an unfinished today', async () => {
+		const { habitStats } = await import('../src/lib/habits');
+		const log = [15, 16, 17].map((date) => ({ habitId: 'habit-1', timestamp: day(date) }));
+		const others = [
+			{ habitId: 'habit-2', timestamp: day(14) },
+			{ habitId: 'habit-1', timestamp: day(20) },
+		];
+
+		// 3 of the 17 finished days since it was created
+		const stats = habitStats(habit(), [...log, ...others], now);
+		expect(stats).toMatchObject({ streak: 3, current: 0, periods: 17, lastLogged: day(17) });
+		expect(stats.adherence).toBeCloseTo(3 / 17);
+
+		const done = habitStats(habit(), [...log, { habitId: 'habit-1', timestamp: day(18) }], now);
+		expect(done).toMatchObject({ streak: 4, current: 1, periods: 18 });
+	});
+
+	it('should measure weekly habits against their target', async () => {
+		const { formatHabit, habitStats, summarizeHabits } = await import('../src/lib/habits');
+		const weekly = habit({
+			frequency: { times: 3, per: 'week' },
+			created: new Date(2026, 1, 20).toISOString(),
+		});
+		const log = [3, 5, 9, 10, 12, 17].map((date) => ({ habitId: 'habit-1', timestamp: day(date) }));
+
+		// Last week met, the week before 2/3, the one before that none
+		const stats = habitStats(weekly, log, now);
+		expect(stats).toMatchObject({ streak: 1, current: 1, periods: 3 });
+		expect(stats.adherence).toBeCloseTo(5 / 9);
+
+		const [summary] = summarizeHabits([weekly], log, now);
+		expect(formatHabit(summary)).toBe(
+			'Exercise (3x/week): 1/3 this week, 1-week streak, 56% adherence'
+		);
+	});
+
+	it('should add, find, update and remove habits', async () => {
+		const { addHabit, findHabit, removeHabit, updateHabit } = await import(
+			'../src/lib/identity-editor'
+		);
+
+		const added = addHabit(IdentitySchema.parse(createMockIdentity()), {
+			title: 'Read',
+			frequency: { times: 1, per: 'day' },
+		});
+		expect(added.habit).toMatchObject({ status: 'active', related_goals: [] });
+		expect(findHabit(added.identity, 'read')).toEqual(added.habit);
+
+		const paused = updateHabit(added.identity, added.habit.id, { status: 'paused' });
+		expect(paused.identity.habits[0].status).toBe('paused');
+
+		const removed = removeHabit(paused.identity, 'Read');
+		expect(removed.identity.habits).toEqual([]);
+		expect(() => findHabit(removed.identity, 'Read')).toThrow('Habit not found');
+	});
+
+	it('should log habits and read the log back', async () => {
+		const { getHabitLog, recordHabit } = await import('../src/lib/memory/state-manager');
+
+		await recordHabit('habit-1', { note: 'Morning run' });
+		await recordHabit('habit-2', { checkin: true });
+
+		expect(await getHabitLog()).toHaveLength(2);
+		expect(await getHabitLog('habit-1')).toMatchObject([
+			{ habitId: 'habit-1', note: 'Morning run' },
+		]);
+	});
+
+	it('should add habits to 1.2 identity files', async () => {
+		const { migrateIdentity } = await import('../src/lib/identity-migrations');
+		const { habits, ...data } = createMockIdentity({ version: '1.2' });
+
+		const result = migrateIdentity(data);
+		expect(result.from).toBe('1.2');
+		expect(result.identity.habits).toEqual([]);
+	});
+});
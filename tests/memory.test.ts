@@ -4,13 +4,21 @@
  * Tests for:
  * - Work Manager
  * - Learning Manager
+ * - Implicit ratings
+ * - Lesson distillation
+ * - Embeddings
+ * - Learning lifecycle
+ * - Chat sessions
  * - State Manager
+ * - Check-in scheduler
+ * - Check-in coach
+ * - Check-in goal updates
  */
 
 import { existsSync } from 'node:fs';
-import { mkdir, readFile, rm } from 'node:fs/promises';
-import { beforeEach, describe, expect, it } from 'vitest';
-import { TEST_YXHYX_DIR, resetTestEnvironment } from './setup';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TEST_YXHYX_DIR, createMockIdentity, resetTestEnvironment } from './setup';
 
 // ============================================
 // Work Manager Tests
@@ -126,6 +134,31 @@ describe('Work Manager', () => {
 		});
 	});
 
+	describe('recordResponse', () => {
+		it('should fill in the prompt item, then add items for later turns', async () => {
+			const { workManager } = await import('../src/lib/memory/work-manager');
+
+			const id = await workManager.createWork('First question', 'STANDARD');
+			await workManager.recordResponse(id, 'First question', {
+				response_summary: 'First answer',
+				model_used: 'kimi-8k',
+			});
+			await workManager.recordResponse(id, 'Second question', {
+				response_summary: 'Second answer',
+			});
+
+			const items = await workManager.getItems(id);
+			expect(items).toHaveLength(2);
+			expect(items[0]).toMatchObject({
+				prompt: 'First question',
+				response_summary: 'First answer',
+				model_used: 'kimi-8k',
+				status: 'completed',
+			});
+			expect(items[1].response_summary).toBe('Second answer');
+		});
+	});
+
 	describe('getRecentWork', () => {
 		it('should return recent work sessions', async () => {
 			const { workManager } = await import('../src/lib/memory/work-manager');
@@ -241,6 +274,34 @@ describe('Learning Manager', () => {
 			const successes = learnings.filter((l) => l.type === 'success');
 			expect(successes.length).toBeGreaterThanOrEqual(1);
 		});
+
+		it('should attach the last interaction to ratings without a model', async () => {
+			const { learningManager } = await import('../src/lib/memory/learning-manager');
+			const { setState } = await import('../src/lib/memory/state-manager');
+
+			await setState({
+				lastInteraction: {
+					timestamp: new Date().toISOString(),
+					model: 'kimi-8k',
+					complexity: 'QUICK',
+					prompt_snippet: 'What is a monad?',
+					response_snippet: 'A monoid in the category of endofunctors.',
+					cost: 0.0002,
+				},
+			});
+
+			await learningManager.captureRating({
+				id: 'joined-rating',
+				timestamp: new Date().toISOString(),
+				rating: 4,
+				source: 'explicit',
+			});
+
+			const [rating] = await learningManager.getRecentRatings();
+			expect(rating.model_used).toBe('kimi-8k');
+			expect(rating.complexity).toBe('QUICK');
+			expect(rating.prompt_snippet).toBe('What is a monad?');
+		});
 	});
 
 	describe('getRecentRatings', () => {
@@ -355,6 +416,674 @@ describe('Learning Manager', () => {
 	});
 });
 
+// ============================================
+// Implicit Rating Tests
+// ============================================
+
+describe('Implicit Ratings', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		vi.resetModules();
+
+		const { setState } = await import('../src/lib/memory/state-manager');
+		await setState({
+			lastInteraction: {
+				timestamp: new Date().toISOString(),
+				model: 'kimi-8k',
+				complexity: 'QUICK',
+				prompt_snippet: 'How do I paginate results in the GitHub GraphQL API?',
+				response_snippet: 'Use the page parameter.',
+				cost: 0.0002,
+				work_id: 'work-1',
+			},
+		});
+	});
+
+	it('should classify follow-ups for satisfaction', async () => {
+		const { classifyFollowUp } = await import('../src/lib/memory/implicit-rating');
+
+		expect(classifyFollowUp("That's wrong, there is no page parameter")?.rating).toBe(2);
+		expect(classifyFollowUp('Perfect, thanks!')?.rating).toBe(9);
+		expect(classifyFollowUp('thanks, it worked')?.rating).toBe(8);
+		expect(classifyFollowUp("Thanks but that's wrong")?.rating).toBe(2);
+		expect(classifyFollowUp('That was not helpful')?.rating).toBe(2);
+		expect(classifyFollowUp('Now tell me about Rust lifetimes')).toBeNull();
+		expect(classifyFollowUp('Nope.')?.rating).toBe(3);
+		// Friendly follow-ups that start with "no" aren't rejections
+		expect(classifyFollowUp('no worries, thanks')?.rating).toBe(8);
+		expect(classifyFollowUp("No, that's perfect")?.rating).toBe(9);
+		expect(classifyFollowUp('no problem')).toBeNull();
+		// Praise words only count at the start or in a short remark
+		expect(classifyFollowUp('Great, now how do I deploy it?')?.rating).toBe(8);
+		expect(classifyFollowUp('ok that works great')?.rating).toBe(8);
+		expect(classifyFollowUp('what would a great answer look like?')).toBeNull();
+		expect(classifyFollowUp('is there a perfect solution?')).toBeNull();
+		expect(classifyFollowUp('Can you explain why the awesome-lint rule fires here')).toBeNull();
+		expect(classifyFollowUp('Should I send thanks emails to every new signup')).toBeNull();
+
+		const reask = classifyFollowUp(
+			'How do I paginate results in the GitHub GraphQL API',
+			'How do I paginate results in the GitHub GraphQL API?'
+		);
+		expect(reask?.rating).toBe(4);
+		expect(reask?.confidence).toBeCloseTo(0.9);
+		expect(
+			classifyFollowUp('How do I authenticate with the GitHub API?', 'Paginate GraphQL results')
+		).toBeNull();
+	});
+
+	it('should rate the previous response from a confident follow-up', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		const { getState } = await import('../src/lib/memory/state-manager');
+
+		const rating = await learningManager.captureImplicitRating(
+			"that's wrong, GraphQL uses cursors"
+		);
+		expect(rating?.rating).toBe(2);
+
+		const [stored] = await learningManager.getRecentRatings();
+		expect(stored).toMatchObject({
+			source: 'implicit',
+			rating: 2,
+			confidence: 0.9,
+			work_id: 'work-1',
+			model_used: 'kimi-8k',
+			complexity: 'QUICK',
+		});
+		expect(stored.sentiment_summary).toContain('GraphQL uses cursors');
+		expect((await getState()).lastInteraction?.rated).toBe(true);
+
+		// The same response isn't rated twice
+		expect(await learningManager.captureImplicitRating('perfect')).toBeNull();
+	});
+
+	it('should not rate implicitly after an explicit rating or for neutral messages', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+
+		expect(await learningManager.captureImplicitRating('What about REST?')).toBeNull();
+
+		await learningManager.captureRating({
+			id: 'explicit',
+			timestamp: new Date().toISOString(),
+			rating: 6,
+			source: 'explicit',
+		});
+		expect(await learningManager.captureImplicitRating('perfect, thanks')).toBeNull();
+		expect(await learningManager.getRecentRatings()).toHaveLength(1);
+	});
+
+	it('should honour the setting and confidence threshold', async () => {
+		const configPath = `${TEST_YXHYX_DIR}/config/models.yaml`;
+		await mkdir(`${TEST_YXHYX_DIR}/config`, { recursive: true });
+		await writeFile(
+			configPath,
+			'models: {}\nrouting: {}\nlearning:\n  implicitRatings:\n    minConfidence: 0.8\n'
+		);
+
+		let { learningManager } = await import('../src/lib/memory/learning-manager');
+		expect(await learningManager.captureImplicitRating('thanks')).toBeNull(); // 0.75
+		expect((await learningManager.captureImplicitRating('perfect'))?.rating).toBe(9);
+
+		await writeFile(
+			configPath,
+			'models: {}\nrouting: {}\nlearning:\n  implicitRatings:\n    enabled: false\n'
+		);
+		vi.resetModules();
+		({ learningManager } = await import('../src/lib/memory/learning-manager'));
+		const { setState, getState } = await import('../src/lib/memory/state-manager');
+		const last = (await getState()).lastInteraction;
+		await setState({ lastInteraction: last && { ...last, rated: false } });
+
+		expect(await learningManager.captureImplicitRating("that's wrong")).toBeNull();
+	});
+});
+
+// ============================================
+// Lesson Distillation Tests
+// ============================================
+
+describe('Lesson Distillation', () => {
+	const lesson = {
+		situation: 'Asking for a deployment checklist for a web service',
+		lesson: 'Include rollback steps and health checks, not just the deploy command',
+		action_items: ['List rollback steps', 'Add a post-deploy health check'],
+		tags: ['Deployment', 'checklists'],
+	};
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		vi.resetModules();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		process.env.KIMI_API_KEY = '';
+	});
+
+	/**
+	 * Create a work item with a recorded response, then rate it
+	 */
+	async function rateWork(rating: number, comment?: string) {
+		const { workManager } = await import('../src/lib/memory/work-manager');
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+
+		const workId = await workManager.createWork('Give me a deployment checklist', 'QUICK');
+		await workManager.recordResponse(workId, 'Give me a deployment checklist', {
+			response_summary: 'Run `bun run deploy`.',
+		});
+		await learningManager.captureRating({
+			id: 'r1',
+			timestamp: new Date().toISOString(),
+			rating,
+			source: 'explicit',
+			work_id: workId,
+			prompt_snippet: 'Give me a deployment checklist',
+			comment,
+		});
+
+		const [learning] = await learningManager.getAllLearnings();
+		return learning;
+	}
+
+	it('should distill a lesson from the rated work item', async () => {
+		process.env.KIMI_API_KEY = 'test-key';
+		const fetchMock = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({
+						choices: [{ message: { content: JSON.stringify(lesson) } }],
+						usage: { prompt_tokens: 200, completion_tokens: 60 },
+					}),
+					{ status: 200 }
+				)
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const learning = await rateWork(3, 'too thin');
+
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+		expect(body.max_tokens).toBe(400);
+		expect(body.messages[0].content).toContain('Run `bun run deploy`.');
+		expect(body.messages[0].content).toContain('too thin');
+
+		expect(learning.type).toBe('failure');
+		expect(learning.situation).toBe(lesson.situation);
+		expect(learning.lesson).toBe(lesson.lesson);
+		expect(learning.action_items).toEqual(lesson.action_items);
+		expect(learning.tags).toEqual([
+			'auto-captured',
+			'improvement-needed',
+			'distilled',
+			'deployment',
+			'checklists',
+		]);
+		expect(learning.what_went_wrong).toBe('too thin');
+	});
+
+	it('should fall back to the heuristic lesson without a model', async () => {
+		const learning = await rateWork(9, 'clear steps');
+
+		expect(learning.lesson).toBe('Replicate: clear steps');
+		expect(learning.situation).toBe('Give me a deployment checklist');
+		expect(learning.tags).not.toContain('distilled');
+	});
+
+	it('should fall back to the heuristic lesson on unusable output', async () => {
+		process.env.KIMI_API_KEY = 'test-key';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(
+				async () =>
+					new Response(
+						JSON.stringify({ choices: [{ message: { content: 'Be more thorough.' } }] }),
+						{ status: 200 }
+					)
+			)
+		);
+
+		const learning = await rateWork(2);
+
+		expect(learning.lesson).toBe('Review approach for similar tasks');
+	});
+
+	it('should not call a model when distillation is disabled', async () => {
+		process.env.KIMI_API_KEY = 'test-key';
+		await mkdir(`${TEST_YXHYX_DIR}/config`, { recursive: true });
+		await writeFile(
+			`${TEST_YXHYX_DIR}/config/models.yaml`,
+			'models: {}\nrouting: {}\nlearning:\n  distill: false\n'
+		);
+		const fetchMock = vi.fn();
+		vi.stubGlobal('fetch', fetchMock);
+
+		const learning = await rateWork(2, 'wrong tool');
+
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(learning.lesson).toBe('Avoid: wrong tool');
+	});
+});
+
+// ============================================
+// Embedding Tests
+// ============================================
+
+describe('Embeddings', () => {
+	const month = new Date().toISOString().substring(0, 7);
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.resetModules();
+	});
+
+	it('should embed word forms close together and unrelated text apart', async () => {
+		const { HashedNgramEmbedder, cosineSimilarity } = await import('../src/lib/memory/embeddings');
+
+		const embedder = new HashedNgramEmbedder();
+		const [deploying, deployment, python] = await embedder.embed([
+			'Deploying the billing service',
+			'billing service deployment',
+			'Python script help',
+		]);
+
+		expect(deploying).toHaveLength(512);
+		expect(cosineSimilarity(deploying, deployment)).toBeGreaterThan(0.5);
+		expect(cosineSimilarity(deploying, python)).toBeLessThan(0.1);
+		expect(await embedder.embed(['Deploying the billing service'])).toEqual([deploying]);
+	});
+
+	it('should embed learnings when they are saved', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+
+		await learningManager.captureRating({
+			id: 'r1',
+			timestamp: new Date().toISOString(),
+			rating: 9,
+			source: 'explicit',
+			prompt_snippet: 'Deploying the billing service',
+		});
+
+		const [learning] = await learningManager.getAllLearnings();
+		expect(learning.embeddings).toHaveLength(512);
+		expect(learning.embedding_model).toBe('local-ngram-512');
+	});
+
+	it('should retrieve learnings that share no keywords but are similar', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+
+		for (const [id, prompt, comment] of [
+			['r1', 'Python script help', 'Good Python assistance'],
+			['r2', 'Deploying the billing service to production', 'Careful rollout plan'],
+		]) {
+			await learningManager.captureRating({
+				id,
+				timestamp: new Date().toISOString(),
+				rating: 9,
+				source: 'explicit',
+				prompt_snippet: prompt,
+				comment,
+			});
+		}
+
+		// "deployment" never matches "deploying" as a keyword
+		const [top] = await learningManager.retrieveRelevantLearnings(
+			'Write a deployment checklist',
+			1
+		);
+		expect(top.situation).toContain('Deploying');
+	});
+
+	it('should backfill embeddings for existing learnings', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+
+		const dir = `${TEST_YXHYX_DIR}/memory/learning/patterns/${month}`;
+		await mkdir(dir, { recursive: true });
+		const old = {
+			id: 'learning-old',
+			timestamp: new Date().toISOString(),
+			type: 'failure',
+			situation: 'Release notes were too long',
+			lesson: 'Keep release notes short',
+			action_items: [],
+			tags: [],
+		};
+		await writeFile(`${dir}/failures.jsonl`, `${JSON.stringify(old)}\n`);
+
+		const first = await learningManager.backfillEmbeddings();
+		expect(first).toEqual({ backend: 'local-ngram-512', embedded: 1, skipped: 0, failed: 0 });
+
+		const [learning] = await learningManager.getAllLearnings();
+		expect(learning.id).toBe('learning-old');
+		expect(learning.embeddings).toHaveLength(512);
+
+		const second = await learningManager.backfillEmbeddings();
+		expect(second.embedded).toBe(0);
+		expect(second.skipped).toBe(1);
+		expect((await learningManager.backfillEmbeddings({ force: true })).embedded).toBe(1);
+	});
+
+	it('should use a provider embedding model when configured', async () => {
+		await mkdir(`${TEST_YXHYX_DIR}/config`, { recursive: true });
+		await writeFile(
+			`${TEST_YXHYX_DIR}/config/models.yaml`,
+			[
+				'models: {}',
+				'routing: {}',
+				'embeddings:',
+				'  backend: provider',
+				'  model: test-embed',
+				'  base_url: http://localhost:9999/v1',
+				'  inputCostPer1M: 0.02',
+			].join('\n')
+		);
+		const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+			const { input } = JSON.parse(init.body as string) as { input: string[] };
+			return new Response(
+				JSON.stringify({
+					data: input.map((_text, index) => ({ index, embedding: [3, 4] })),
+					usage: { prompt_tokens: 7 },
+				}),
+				{ status: 200 }
+			);
+		});
+		vi.stubGlobal('fetch', fetchMock);
+		vi.resetModules();
+
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		const { getUsageRecords } = await import('../src/lib/memory/state-manager');
+
+		await learningManager.captureRating({
+			id: 'r1',
+			timestamp: new Date().toISOString(),
+			rating: 2,
+			source: 'explicit',
+			prompt_snippet: 'Release checklist',
+		});
+
+		const [learning] = await learningManager.getAllLearnings();
+		expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:9999/v1/embeddings');
+		expect(learning.embedding_model).toBe('provider:test-embed');
+		expect(learning.embeddings).toEqual([0.6, 0.8]);
+
+		const [usage] = await getUsageRecords();
+		expect(usage.model).toBe('test-embed');
+		expect(usage.input_tokens).toBe(7);
+	});
+});
+
+// ============================================
+// Learning Lifecycle Tests
+// ============================================
+
+describe('Learning Lifecycle', () => {
+	const month = new Date().toISOString().substring(0, 7);
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	/** Write failure learnings (without lifecycle fields, as older files have) */
+	async function seedLearnings(
+		...learnings: Array<{ id: string; situation: string; lesson: string }>
+	) {
+		const dir = `${TEST_YXHYX_DIR}/memory/learning/patterns/${month}`;
+		await mkdir(dir, { recursive: true });
+		const lines = learnings.map((l, i) =>
+			JSON.stringify({
+				...l,
+				timestamp: new Date(Date.now() - i * 60_000).toISOString(),
+				type: 'failure',
+				action_items: [`Step for ${l.id}`],
+				tags: [l.id],
+			})
+		);
+		await writeFile(`${dir}/failures.jsonl`, `${lines.join('\n')}\n`);
+	}
+
+	it('should read older learnings as active', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		await seedLearnings({ id: 'l1', situation: 'Release notes', lesson: 'Keep them short' });
+
+		const learning = await learningManager.getLearning('l1');
+		expect(learning.status).toBe('active');
+		expect(learning.task_types).toEqual([]);
+	});
+
+	it('should always retrieve pinned learnings for their task type and never retired ones', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		await seedLearnings(
+			{ id: 'pinned', situation: 'Morning planning', lesson: 'Ask about sleep first' },
+			{ id: 'retired', situation: 'Python scripts', lesson: 'Prefer pathlib for Python' },
+			{ id: 'active', situation: 'Python scripts', lesson: 'Use type hints in Python' }
+		);
+		await learningManager.pinLearning('pinned', ['checkin']);
+		await learningManager.retireLearning('retired');
+
+		const forCheckin = await learningManager.retrieveRelevantLearnings('Python help', 5, 'checkin');
+		expect(forCheckin.map((l) => l.id)).toEqual(['pinned', 'active']);
+
+		const forChat = await learningManager.retrieveRelevantLearnings('Python help', 5, 'chat');
+		expect(forChat.map((l) => l.id)).toEqual(['active']);
+	});
+
+	it('should edit, re-embed and delete learnings', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		const { ValidationError } = await import('../src/lib/errors');
+		await seedLearnings({ id: 'l1', situation: 'Release notes', lesson: 'Keep them short' });
+
+		const edited = await learningManager.updateLearning('l1', {
+			lesson: 'Lead with breaking changes',
+		});
+		expect(edited.lesson).toBe('Lead with breaking changes');
+		expect(edited.updated).toBeDefined();
+		expect(edited.embedding_model).toBe('local-ngram-512');
+		expect((await learningManager.getLearning('l1')).lesson).toBe('Lead with breaking changes');
+
+		await learningManager.deleteLearning('l1');
+		expect(await learningManager.getAllLearnings()).toEqual([]);
+		await expect(learningManager.deleteLearning('l1')).rejects.toBeInstanceOf(ValidationError);
+	});
+
+	it('should merge learnings into the first one', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		await seedLearnings(
+			{ id: 'a', situation: 'Release notes', lesson: 'Keep them short' },
+			{ id: 'b', situation: 'Release notes', lesson: 'Keep release notes brief' }
+		);
+		await learningManager.pinLearning('b');
+
+		const merged = await learningManager.mergeLearnings('a', ['b']);
+
+		expect(merged.lesson).toBe('Keep them short');
+		expect(merged.action_items).toEqual(['Step for a', 'Step for b']);
+		expect(merged.tags).toEqual(['a', 'b']);
+		expect(merged.merged_from).toEqual(['b']);
+		expect(merged.status).toBe('pinned');
+		expect((await learningManager.getAllLearnings()).map((l) => l.id)).toEqual(['a']);
+	});
+
+	it('should cluster near-duplicate learnings with the newest first', async () => {
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		await seedLearnings(
+			{
+				id: 'newer',
+				situation: 'Writing release notes for the billing service',
+				lesson: 'Keep release notes short and lead with breaking changes',
+			},
+			{
+				id: 'older',
+				situation: 'Writing the release notes for billing service',
+				lesson: 'Keep the release notes short, leading with breaking changes',
+			},
+			{
+				id: 'other',
+				situation: 'Debugging a flaky Python test',
+				lesson: 'Pin the random seed before rerunning',
+			}
+		);
+		await learningManager.backfillEmbeddings();
+
+		const clusters = await learningManager.findDuplicates();
+		expect(clusters.map((c) => c.map((l) => l.id))).toEqual([['newer', 'older']]);
+	});
+});
+
+// ============================================
+// Chat Session Tests
+// ============================================
+
+describe('Chat Sessions', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	it('should save a transcript linked to the work session and resume it', async () => {
+		const { chatSessions } = await import('../src/lib/memory/chat-sessions');
+		const { workManager } = await import('../src/lib/memory/work-manager');
+
+		const id = await chatSessions.startSession('Plan my week');
+		const first = await chatSessions.appendMessages(
+			id,
+			[
+				{ role: 'system', content: 'You are Yxhyx' },
+				{ role: 'user', content: 'Plan my week' },
+				{
+					role: 'assistant',
+					content: '',
+					toolCalls: [{ id: 'c1', name: 'add_goal', arguments: { title: 'Rest' } }],
+				},
+				{ role: 'tool', content: 'Added goal', toolCallId: 'c1' },
+				{ role: 'assistant', content: 'Here is your plan' },
+			],
+			{ model: 'kimi-8k', cost: 0.002 }
+		);
+		await chatSessions.appendMessages(
+			id,
+			[
+				{ role: 'user', content: 'Thanks' },
+				{ role: 'assistant', content: 'Any time' },
+			],
+			{ model: 'kimi-8k', cost: 0.001 }
+		);
+
+		expect(first.map((e) => e.id)).toEqual(['turn-1', 'turn-2', 'turn-3', 'turn-4', 'turn-5']);
+		expect(first[2].model_used).toBeUndefined();
+		expect(first[4].model_used).toBe('kimi-8k');
+
+		const meta = await workManager.getMeta(id);
+		expect(meta?.transcript).toBe('transcript.jsonl');
+		expect(meta?.total_cost_usd).toBeCloseTo(0.003);
+
+		const messages = await chatSessions.resumeSession(id);
+		expect(messages).toHaveLength(7);
+		expect(messages[2].toolCalls?.[0].name).toBe('add_goal');
+		expect(messages[3]).toEqual({ role: 'tool', content: 'Added goal', toolCallId: 'c1' });
+		expect(messages[6]).toEqual({ role: 'assistant', content: 'Any time' });
+	});
+
+	it('should list sessions with responses, most recently used first', async () => {
+		const { chatSessions } = await import('../src/lib/memory/chat-sessions');
+
+		const older = await chatSessions.startSession('Older chat');
+		await chatSessions.appendMessages(older, [
+			{ role: 'user', content: 'Older chat' },
+			{ role: 'assistant', content: 'Hi' },
+		]);
+		await chatSessions.startSession('Never answered');
+		const newer = await chatSessions.startSession('Newer chat');
+		await chatSessions.appendMessages(newer, [
+			{ role: 'user', content: 'Newer chat' },
+			{ role: 'assistant', content: 'Hello' },
+		]);
+		// Resuming the older session makes it the most recent
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await chatSessions.appendMessages(older, [
+			{ role: 'user', content: 'Back again' },
+			{ role: 'assistant', content: 'Welcome back' },
+		]);
+
+		const sessions = await chatSessions.listSessions();
+		expect(sessions.map((s) => s.title)).toEqual(['Older chat', 'Newer chat']);
+		expect(sessions[0].turns).toBe(2);
+		expect((await chatSessions.getLastSession())?.id).toBe(older);
+	});
+
+	it('should attach ratings to the rated assistant turn', async () => {
+		const { chatSessions } = await import('../src/lib/memory/chat-sessions');
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		const { setState } = await import('../src/lib/memory/state-manager');
+
+		const id = await chatSessions.startSession('Explain closures');
+		const entries = await chatSessions.appendMessages(
+			id,
+			[
+				{ role: 'user', content: 'Explain closures' },
+				{ role: 'assistant', content: 'A closure captures variables' },
+			],
+			{ model: 'kimi-8k', cost: 0.001 }
+		);
+		await setState({
+			lastInteraction: {
+				timestamp: new Date().toISOString(),
+				model: 'kimi-8k',
+				prompt_snippet: 'Explain closures',
+				response_snippet: 'A closure captures variables',
+				cost: 0.001,
+				work_id: id,
+				turn_id: entries[1].id,
+			},
+		});
+
+		await learningManager.captureRating({
+			id: 'rating-closures',
+			timestamp: new Date().toISOString(),
+			rating: 9,
+			source: 'explicit',
+			work_id: id,
+		});
+
+		const [rating] = await learningManager.getRecentRatings();
+		expect(rating.turn_id).toBe('turn-2');
+
+		const transcript = await chatSessions.getTranscript(id);
+		expect(transcript[1].rating).toBe(9);
+		expect(transcript[1].rating_id).toBe('rating-closures');
+	});
+
+	it('should export and delete sessions', async () => {
+		const { chatSessions } = await import('../src/lib/memory/chat-sessions');
+		const { ValidationError } = await import('../src/lib/errors');
+
+		const id = await chatSessions.startSession('Name my cat');
+		await chatSessions.appendMessages(
+			id,
+			[
+				{ role: 'system', content: 'Secret context' },
+				{ role: 'user', content: 'Name my cat' },
+				{ role: 'assistant', content: 'Try Miso' },
+			],
+			{ model: 'kimi-8k', cost: 0.001 }
+		);
+
+		const markdown = await chatSessions.exportSession(id);
+		expect(markdown).toContain('# Name my cat');
+		expect(markdown).toContain('## Yxhyx (turn-3, kimi-8k)');
+		expect(markdown).toContain('Try Miso');
+		expect(markdown).not.toContain('Secret context');
+
+		const json = JSON.parse(await chatSessions.exportSession(id, 'json'));
+		expect(json.session.id).toBe(id);
+		expect(json.transcript).toHaveLength(3);
+
+		await chatSessions.deleteSession(id);
+		expect(existsSync(`${TEST_YXHYX_DIR}/memory/work/${id}`)).toBe(false);
+		await expect(chatSessions.getTranscript(id)).rejects.toBeInstanceOf(ValidationError);
+	});
+});
+
 // ============================================
 // State Manager Tests
 // ============================================
@@ -466,6 +1195,70 @@ describe('State Manager', () => {
 			// Projected should be current * (days in month / current day)
 			expect(projected).toBeGreaterThanOrEqual(1.0);
 		});
+
+		it('should log one usage record per call', async () => {
+			const { recordUsage, getUsageRecords, getCommandCost } = await import(
+				'../src/lib/memory/state-manager'
+			);
+
+			await recordUsage({
+				command: 'chat',
+				work_id: 'work-1',
+				model: 'kimi-8k',
+				provider: 'kimi',
+				input_tokens: 120,
+				output_tokens: 40,
+				cost_usd: 0.0002,
+				latency_ms: 850,
+				success: true,
+			});
+			await recordUsage({
+				command: 'news',
+				model: 'gemini-flash',
+				provider: 'openrouter',
+				input_tokens: 0,
+				output_tokens: 0,
+				cost_usd: 0,
+				latency_ms: 120,
+				success: false,
+				error: 'OpenRouter API error: 503',
+			});
+
+			const records = await getUsageRecords();
+			expect(records).toHaveLength(2);
+			expect(records[0]).toMatchObject({ model: 'kimi-8k', work_id: 'work-1', success: true });
+			expect(records[1].error).toContain('503');
+			expect(records[0].timestamp).toBeDefined();
+
+			expect(await getCommandCost('chat')).toBeCloseTo(0.0002, 6);
+			expect(await getCommandCost('news')).toBe(0);
+		});
+
+		it('should import the legacy cost-tracking.json once', async () => {
+			const { getMonthlyCost, getCostBreakdown, getUsageRecords } = await import(
+				'../src/lib/memory/state-manager'
+			);
+
+			const stateDir = `${TEST_YXHYX_DIR}/memory/state`;
+			await mkdir(stateDir, { recursive: true });
+			await writeFile(
+				`${stateDir}/cost-tracking.json`,
+				JSON.stringify({
+					'2025-01:kimi-8k': 0.5,
+					'2025-01:claude-sonnet': 1.5,
+					'2025-01:total': 2.0,
+				})
+			);
+
+			expect(await getMonthlyCost('2025-01')).toBeCloseTo(2.0, 4);
+			expect(await getCostBreakdown('2025-01')).toEqual({ 'kimi-8k': 0.5, 'claude-sonnet': 1.5 });
+			expect(existsSync(`${stateDir}/cost-tracking.json`)).toBe(false);
+
+			// Second read must not import again
+			const records = await getUsageRecords('2025-01');
+			expect(records).toHaveLength(2);
+			expect(records.every((r) => r.legacy)).toBe(true);
+		});
 	});
 
 	describe('Utility Functions', () => {
@@ -501,3 +1294,456 @@ describe('State Manager', () => {
 		});
 	});
 });
+
+// ============================================
+// Check-in Scheduler Tests
+// ============================================
+
+describe('Check-in Scheduler', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	async function defaultSchedule() {
+		const { ScheduleConfigSchema } = await import('../src/lib/schemas/schedule');
+		return ScheduleConfigSchema.parse({});
+	}
+
+	it('should read the wall clock in a timezone', async () => {
+		const { localTime } = await import('../src/lib/checkin/scheduler');
+
+		// 23:30 UTC on a Saturday is already Sunday morning in Tokyo
+		const at = new Date('2026-03-14T23:30:00Z');
+		expect(localTime(at, 'UTC')).toEqual({
+			date: '2026-03-14',
+			time: '23:30',
+			weekday: 'saturday',
+		});
+		expect(localTime(at, 'Asia/Tokyo')).toEqual({
+			date: '2026-03-15',
+			time: '08:30',
+			weekday: 'sunday',
+		});
+	});
+
+	it('should find check-ins due since their scheduled time', async () => {
+		const { dueCheckins } = await import('../src/lib/checkin/scheduler');
+		const config = await defaultSchedule();
+
+		// Sunday 08:30 in Tokyo
+		const now = new Date('2026-03-14T23:30:00Z');
+		expect(dueCheckins(config, 'Asia/Tokyo', now, {}, [])).toEqual(['morning']);
+		expect(dueCheckins(config, 'Asia/Tokyo', now, { morning: '2026-03-15' }, [])).toEqual([]);
+		expect(dueCheckins(config, 'Asia/Tokyo', now, {}, ['morning'])).toEqual([]);
+		// In UTC it's still Saturday evening
+		expect(dueCheckins(config, 'UTC', now, {}, [])).toEqual(['evening']);
+
+		// Sunday 18:05 UTC: evening isn't until 21:00, the weekly review is due
+		const sunday = new Date('2026-03-15T18:05:00Z');
+		expect(dueCheckins(config, 'UTC', sunday, {}, [])).toEqual(['weekly']);
+
+		config.checkins.weekly.enabled = false;
+		expect(dueCheckins(config, 'UTC', sunday, {}, [])).toEqual([]);
+	});
+
+	it('should skip reminders missed by more than a few hours', async () => {
+		const { dueCheckins } = await import('../src/lib/checkin/scheduler');
+		const config = await defaultSchedule();
+
+		expect(dueCheckins(config, 'UTC', new Date('2026-03-16T10:59:00Z'), {}, [])).toEqual([
+			'morning',
+		]);
+		expect(dueCheckins(config, 'UTC', new Date('2026-03-16T11:00:00Z'), {}, [])).toEqual([]);
+	});
+
+	it('should count check-ins done today, and weekly reviews this week', async () => {
+		const { completedCheckins } = await import('../src/lib/checkin/scheduler');
+		const now = new Date('2026-03-15T20:00:00Z');
+
+		const completed = completedCheckins(
+			[
+				{ type: 'morning', timestamp: '2026-03-15T07:00:00Z' },
+				{ type: 'evening', timestamp: '2026-03-14T21:00:00Z' },
+				{ type: 'weekly', timestamp: '2026-03-11T18:00:00Z' },
+			],
+			'UTC',
+			now
+		);
+		expect(completed).toEqual(['morning', 'weekly']);
+	});
+
+	it('should generate crontab entries and systemd timers', async () => {
+		const { generateCrontab, generateSystemdUnits, mergeCrontab } = await import(
+			'../src/lib/checkin/scheduler'
+		);
+		const config = await defaultSchedule();
+		config.checkins.evening.enabled = false;
+
+		const block = generateCrontab(config, 'Europe/Berlin', '/usr/bin/yxhyx', 'UTC');
+		expect(block).toContain('CRON_TZ=Europe/Berlin');
+		expect(block).toContain('0 8 * * * /usr/bin/yxhyx schedule remind morning');
+		expect(block).toContain('0 18 * * 0 /usr/bin/yxhyx schedule remind weekly');
+		expect(block).not.toContain('evening');
+		// The timezone is switched back for entries after the block
+		expect(block).toMatch(/CRON_TZ=UTC\n# END yxhyx/);
+
+		// Installing again replaces the block and keeps other entries
+		const crontab = mergeCrontab('MAILTO=me\n', block);
+		expect(mergeCrontab(crontab, block)).toBe(crontab);
+		expect(crontab.startsWith('MAILTO=me\n')).toBe(true);
+
+		// An earlier CRON_TZ is the one restored
+		const zoned = mergeCrontab('CRON_TZ=America/New_York\n0 9 * * * backup\n', block);
+		expect(zoned).toMatch(/CRON_TZ=America\/New_York\n# END yxhyx/);
+		expect(mergeCrontab(`${zoned}0 7 * * * later\n`, block)).toBe(`${zoned}0 7 * * * later\n`);
+
+		const units = generateSystemdUnits(config, 'Europe/Berlin', '/usr/bin/yxhyx');
+		expect(Object.keys(units).sort()).toEqual([
+			'yxhyx-checkin-morning.timer',
+			'yxhyx-checkin-weekly.timer',
+			'yxhyx-checkin@.service',
+		]);
+		expect(units['yxhyx-checkin-weekly.timer']).toContain(
+			'OnCalendar=Sun *-*-* 18:00:00 Europe/Berlin'
+		);
+		expect(units['yxhyx-checkin@.service']).toContain(
+			'ExecStart=/usr/bin/yxhyx schedule remind %i'
+		);
+	});
+
+	it('should quote an install path with spaces', async () => {
+		const { yxhyxCommand } = await import('../src/lib/checkin/scheduler');
+		const argv = process.argv;
+		process.argv = [argv[0], '/opt/my apps/yxhyx'];
+
+		try {
+			expect(yxhyxCommand()).toBe('"/opt/my apps/yxhyx"');
+			process.argv = [argv[0], '/opt/bin/yxhyx'];
+			expect(yxhyxCommand()).toBe('/opt/bin/yxhyx');
+		} finally {
+			process.argv = argv;
+		}
+	});
+
+	it('should remind once a day through the configured command', async () => {
+		const { runScheduledReminders, saveScheduleConfig } = await import(
+			'../src/lib/checkin/scheduler'
+		);
+		const config = await defaultSchedule();
+		const log = `${TEST_YXHYX_DIR}/reminders.log`;
+		await saveScheduleConfig({
+			...config,
+			timezone: 'UTC',
+			reminder: { method: 'command', command: `echo {type} >> ${log}` },
+		});
+
+		const now = new Date('2026-03-16T08:10:00Z');
+		expect(await runScheduledReminders(now)).toEqual([{ type: 'morning', method: 'command' }]);
+		expect(await runScheduledReminders(now)).toEqual([]);
+		expect(await readFile(log, 'utf-8')).toBe('morning\n');
+	});
+});
+
+// ============================================
+// Check-in Coach Tests
+// ============================================
+
+describe('Check-in Coach', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const { saveIdentity } = await import('../src/lib/context-loader');
+		await saveIdentity(
+			createMockIdentity({
+				challenges: [
+					{
+						id: 'challenge-1',
+						title: 'Flaky CI',
+						description: 'Builds fail at random',
+						status: 'active',
+						related_goals: [],
+					},
+				],
+			}) as Parameters<typeof saveIdentity>[0]
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should ground the coach in goals, recent check-ins and challenges', async () => {
+		const { buildCoachingContext } = await import('../src/lib/checkin/coach');
+		const { recordCheckin } = await import('../src/lib/memory/state-manager');
+
+		await recordCheckin('morning', {
+			priorities: ['Fix the API tests'],
+			responses: { 'Any blockers or challenges you anticipate?': 'Waiting on API keys' },
+		});
+
+		const context = await buildCoachingContext();
+		expect(context).toContain('- Complete tests (50%)');
+		expect(context).toContain('Priorities: Fix the API tests');
+		expect(context).toContain('Any blockers or challenges you anticipate? Waiting on API keys');
+		expect(context).toContain('- Flaky CI: Builds fail at random');
+	});
+
+	it('should ask a follow-up only when the model has one', async () => {
+		const { generateFollowUp } = await import('../src/lib/checkin/coach');
+		const { modelRouter } = await import('../src/lib/model-router');
+		vi.spyOn(modelRouter, 'hasAvailableProvider').mockReturnValue(true);
+		const complete = vi
+			.spyOn(modelRouter, 'complete')
+			.mockResolvedValueOnce({
+				content: '"You were blocked on keys yesterday too - why?"',
+			} as never)
+			.mockResolvedValueOnce({ content: 'NONE' } as never)
+			.mockRejectedValueOnce(new Error('rate limited'));
+
+		const exchanges = [{ question: 'Any blockers?', answer: 'Still waiting on API keys' }];
+		expect(await generateFollowUp('morning', 'context', exchanges)).toBe(
+			'You were blocked on keys yesterday too - why?'
+		);
+		expect(await generateFollowUp('morning', 'context', exchanges)).toBeNull();
+		expect(await generateFollowUp('morning', 'context', exchanges)).toBeNull();
+
+		const prompt = complete.mock.calls[0][0].messages.map((m) => m.content).join('\n');
+		expect(prompt).toContain('Still waiting on API keys');
+		expect(prompt).toContain('context');
+	});
+
+	it('should skip coaching without a provider', async () => {
+		const { generateReflection } = await import('../src/lib/checkin/coach');
+		const { modelRouter } = await import('../src/lib/model-router');
+		vi.spyOn(modelRouter, 'hasAvailableProvider').mockReturnValue(false);
+		const complete = vi.spyOn(modelRouter, 'complete');
+
+		expect(await generateReflection('evening', 'context', [])).toBeNull();
+		expect(complete).not.toHaveBeenCalled();
+	});
+});
+
+// ============================================
+// Priority Review Tests
+// ============================================
+
+describe('Priority Review', () => {
+	const at = (day: number, hour: number) => new Date(2026, 2, day, hour).toISOString();
+
+	it('should carry over partly done priorities from the last reviewed morning', async () => {
+		const { findCarryOver } = await import('../src/lib/checkin/priorities');
+
+		const history = [
+			{ type: 'morning' as const, timestamp: at(10, 8), priorities: ['Write docs', 'Ship API'] },
+			{
+				type: 'evening' as const,
+				timestamp: at(10, 21),
+				priorityStatus: [
+					{ priority: 'Write docs', status: 'done' as const },
+					{ priority: 'Ship API', status: 'partial' as const },
+				],
+			},
+		];
+
+		expect(findCarryOver(history, new Date(2026, 2, 11, 8))).toEqual({
+			from: at(10, 8),
+			items: [{ priority: 'Ship API', reason: 'partial' }],
+		});
+		// Not on the same day the priorities were set
+		expect(findCarryOver(history, new Date(2026, 2, 10, 22))).toBeNull();
+	});
+
+	it('should carry over every priority the evening never reviewed, but not dropped ones', async () => {
+		const { findCarryOver } = await import('../src/lib/checkin/priorities');
+
+		const unreviewed = [
+			{ type: 'morning' as const, timestamp: at(10, 8), priorities: ['Write docs'] },
+			{ type: 'evening' as const, timestamp: at(10, 21), accomplishments: ['Something else'] },
+		];
+		expect(findCarryOver(unreviewed, new Date(2026, 2, 11, 8))?.items).toEqual([
+			{ priority: 'Write docs', reason: 'unreviewed' },
+		]);
+
+		const dropped = [
+			{ type: 'morning' as const, timestamp: at(10, 8), priorities: ['Write docs'] },
+			{
+				type: 'evening' as const,
+				timestamp: at(10, 21),
+				priorityStatus: [{ priority: 'Write docs', status: 'dropped' as const }],
+			},
+		];
+		expect(findCarryOver(dropped, new Date(2026, 2, 11, 8))).toBeNull();
+	});
+
+	it('should compute completion rates since a date', async () => {
+		const { formatCompletion, priorityCompletion } = await import('../src/lib/checkin/priorities');
+
+		const history = [
+			{
+				type: 'evening' as const,
+				timestamp: at(1, 21),
+				priorityStatus: [{ priority: 'Old', status: 'dropped' as const }],
+			},
+			{
+				type: 'evening' as const,
+				timestamp: at(10, 21),
+				priorityStatus: [
+					{ priority: 'A', status: 'done' as const },
+					{ priority: 'B', status: 'done' as const },
+					{ priority: 'C', status: 'partial' as const },
+					{ priority: 'D', status: 'dropped' as const },
+				],
+			},
+		];
+
+		const completion = priorityCompletion(history, new Date(2026, 2, 5));
+		expect(completion).toEqual({ total: 4, done: 2, partial: 1, dropped: 1, rate: 0.5 });
+		expect(formatCompletion(completion)).toBe('50% done (2 of 4, 1 partly, 1 dropped)');
+		expect(priorityCompletion(history).total).toBe(5);
+		expect(formatCompletion(priorityCompletion([]))).toBe('no priorities reviewed');
+	});
+});
+
+// ============================================
+// Check-in Goal Update Tests
+// ============================================
+
+describe('Check-in Goal Updates', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const { saveIdentity } = await import('../src/lib/context-loader');
+		const identity = createMockIdentity();
+		identity.goals.medium_term.push({
+			id: 'goal-book',
+			title: 'Write a book',
+			progress: 0,
+			related_projects: [],
+			milestones: [{ id: 'm1', title: 'Chapters', target: 10, current: 2 }],
+		} as never);
+		await saveIdentity(identity as Parameters<typeof saveIdentity>[0]);
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should skip goals that get their progress from milestones', async () => {
+		const { CheckinRunner } = await import('../src/lib/checkin/runner');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+		const { getCheckinHistory } = await import('../src/lib/memory/state-manager');
+		const { modelRouter } = await import('../src/lib/model-router');
+		const inquirer = (await import('inquirer')).default;
+
+		vi.spyOn(inquirer, 'prompt').mockResolvedValue({
+			response: 'Finished the tests and wrote half the book',
+		} as never);
+		vi.spyOn(modelRouter, 'hasAvailableProvider').mockReturnValue(true);
+		const complete = vi.spyOn(modelRouter, 'complete').mockResolvedValue({
+			content: JSON.stringify([
+				{ goalId: 'goal-short-1', progress: 1 },
+				{ goalId: 'goal-book', progress: 0.5 },
+			]),
+		} as never);
+
+		const result = await new CheckinRunner().runWeekly();
+
+		// Only goals it can update are offered to the model
+		const prompt = complete.mock.calls[0][0].messages[0].content;
+		expect(prompt).toContain('goal-short-1');
+		expect(prompt).not.toContain('goal-book');
+
+		expect(result.goalUpdates).toEqual([{ goalId: 'goal-short-1', progress: 1 }]);
+		const identity = await loadIdentity();
+		expect(identity.goals.short_term[0].progress).toBe(1);
+		expect(identity.goals.medium_term[0].progress).toBe(0.2);
+		expect((await getCheckinHistory(1))[0].goalUpdates).toEqual(result.goalUpdates);
+	});
+});
+
+// ============================================
+// Review Tests
+// ============================================
+
+describe('Reviews', () => {
+	// Wednesday 11 March 2026, in the week of Monday the 9th
+	const now = new Date(2026, 2, 11, 20);
+	const at = (day: number, hour: number) => new Date(2026, 2, day, hour).toISOString();
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	it('should cover the current or an earlier week and month', async () => {
+		const { reviewRange } = await import('../src/lib/checkin/reviews');
+
+		const week = reviewRange('weekly', now);
+		expect(week.label).toBe('2026-03-09');
+		expect(week.start).toEqual(new Date(2026, 2, 9));
+		expect(week.end).toEqual(new Date(2026, 2, 16));
+		expect(reviewRange('weekly', now, 1).label).toBe('2026-03-02');
+
+		const month = reviewRange('monthly', now);
+		expect(month.label).toBe('2026-03');
+		expect(month.end).toEqual(new Date(2026, 3, 1));
+		expect(reviewRange('monthly', new Date(2026, 0, 15), 1).label).toBe('2025-12');
+	});
+
+	it('should compile and render what happened in the period', async () => {
+		const { compileReview, renderReview } = await import('../src/lib/checkin/reviews');
+		const { recordCheckin, recordUsage } = await import('../src/lib/memory/state-manager');
+
+		await recordCheckin('morning', { timestamp: at(2, 8), priorities: ['Last week'] });
+		await recordCheckin('morning', { timestamp: at(9, 8), priorities: ['Ship API', 'Write docs'] });
+		await recordCheckin('evening', {
+			timestamp: at(9, 21),
+			accomplishments: ['Shipped the API'],
+			learnings: ['Small PRs merge faster'],
+			priorityStatus: [
+				{ priority: 'Ship API', status: 'done' },
+				{ priority: 'Write docs', status: 'dropped' },
+			],
+		});
+		await recordUsage({
+			timestamp: at(10, 12),
+			model: 'kimi-8k',
+			provider: 'kimi',
+			input_tokens: 100,
+			output_tokens: 50,
+			cost_usd: 0.25,
+			latency_ms: 300,
+			success: true,
+		});
+
+		const data = await compileReview('weekly', { now });
+		expect(data.checkins).toEqual({ morning: 1, evening: 1, weekly: 0 });
+		expect(data.accomplishments).toEqual(['Shipped the API']);
+		expect(data.missed).toEqual([{ priority: 'Write docs', set: at(9, 8), status: 'dropped' }]);
+		expect(data.completion.rate).toBe(0.5);
+		expect(data.learnings).toEqual(['Small PRs merge faster']);
+		expect(data.spend).toEqual({ total: 0.25, calls: 1, byModel: { 'kimi-8k': 0.25 } });
+
+		const report = renderReview(data);
+		expect(report).toContain('# Weekly Review: 2026-03-09 to 2026-03-15');
+		expect(report).toContain('- Priorities: 50% done (1 of 2, 0 partly, 1 dropped)');
+		expect(report).toContain('- Write docs (dropped, 2026-03-09)');
+		expect(report).toContain('- kimi-8k: $0.2500');
+		expect(report).not.toContain('Last week');
+	});
+
+	it('should save, list and load reports by period', async () => {
+		const { compileReview, listReviews, loadReview, saveReview } = await import(
+			'../src/lib/checkin/reviews'
+		);
+
+		await saveReview(await compileReview('weekly', { now }));
+		await saveReview(await compileReview('monthly', { now, offset: 1 }));
+
+		const reviews = await listReviews();
+		expect(reviews.map((r) => r.name)).toEqual(['weekly-2026-03-09', 'monthly-2026-02']);
+		expect(await loadReview('monthly-2026-02')).toContain('# Monthly Review: 2026-02');
+		await expect(loadReview('weekly-2020-01-06')).rejects.toThrow('Review not found');
+		// Names outside the reviews directory aren't read
+		await writeFile(`${TEST_YXHYX_DIR}/memory/secret.md`, 'secret');
+		await expect(loadReview('../secret')).rejects.toThrow('Review not found');
+	});
+});
@@ -5,10 +5,18 @@
  * - Complexity classification
  * - Model routing logic
  * - Cost estimation
+ * - Streaming completions
+ * - Provider failover
+ * - OpenAI-compatible providers
+ * - Budget enforcement
+ * - Completion cache
+ * - Record / replay
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
-import { resetTestEnvironment } from './setup';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { stringify } from 'yaml';
+import { getTestYxhyxDir, resetTestEnvironment } from './setup';
 
 // ============================================
 // Complexity Classification Tests
@@ -259,6 +267,1338 @@ describe('Model Router', () => {
 	});
 });
 
+// ============================================
+// Streaming Tests
+// ============================================
+
+/**
+ * Build a fetch Response whose body streams the given SSE events
+ */
+function sseResponse(events: string[]): Response {
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(encoder.encode(`${event}\n\n`));
+			}
+			controller.close();
+		},
+	});
+	return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('Model Router Streaming', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = '';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = '';
+		process.env.ANTHROPIC_API_KEY = '';
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should stream tokens from OpenAI-style providers with final usage', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.KIMI_API_KEY = 'test-key';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				sseResponse([
+					'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+					'data: {"choices":[{"delta":{"content":"lo"}}]}',
+					'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2}}',
+					'data: [DONE]',
+				])
+			)
+		);
+
+		const router = new ModelRouter();
+		const tokens: string[] = [];
+		let result: { content: string; inputTokens: number; outputTokens: number } | undefined;
+
+		for await (const event of router.stream({
+			model: 'kimi-8k',
+			messages: [{ role: 'user', content: 'Say hello' }],
+		})) {
+			if (event.type === 'token') tokens.push(event.content);
+			else result = event.result;
+		}
+
+		expect(tokens).toEqual(['Hel', 'lo']);
+		expect(result?.content).toBe('Hello');
+		expect(result?.inputTokens).toBe(12);
+		expect(result?.outputTokens).toBe(2);
+	});
+
+	it('should stream tokens from Anthropic SSE events', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.ANTHROPIC_API_KEY = 'test-key';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				sseResponse([
+					'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}',
+					'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi "}}',
+					'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"there"}}',
+					'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":3}}',
+					'event: message_stop\ndata: {"type":"message_stop"}',
+				])
+			)
+		);
+
+		const router = new ModelRouter();
+		const tokens: string[] = [];
+		let result: { content: string; cost: number; outputTokens: number } | undefined;
+
+		for await (const event of router.stream({
+			model: 'claude-sonnet',
+			messages: [{ role: 'user', content: 'Greet me' }],
+		})) {
+			if (event.type === 'token') tokens.push(event.content);
+			else result = event.result;
+		}
+
+		expect(tokens.join('')).toBe('Hi there');
+		expect(result?.outputTokens).toBe(3);
+		expect(result?.cost).toBeGreaterThan(0);
+	});
+
+	it('should throw on provider errors before streaming', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.KIMI_API_KEY = 'test-key';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('bad key', { status: 401 }))
+		);
+
+		const router = new ModelRouter();
+		const consume = async () => {
+			for await (const _event of router.stream({
+				model: 'kimi-8k',
+				messages: [{ role: 'user', content: 'Hi' }],
+			})) {
+				// drain
+			}
+		};
+
+		await expect(consume()).rejects.toThrow('Kimi API error: 401');
+	});
+});
+
+// ============================================
+// Failover Tests
+// ============================================
+
+/**
+ * Build a non-streaming OpenAI-style completion response
+ */
+function completionResponse(content: string): Response {
+	return new Response(
+		JSON.stringify({
+			choices: [{ message: { content } }],
+			usage: { prompt_tokens: 10, completion_tokens: 5 },
+		}),
+		{ status: 200, headers: { 'Content-Type': 'application/json' } }
+	);
+}
+
+describe('Model Router Failover', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = 'test-key';
+		process.env.ANTHROPIC_API_KEY = '';
+
+		// Skip retry backoff so tests stay fast
+		const { DEFAULT_ROUTING_CONFIG } = await import('../src/lib/model-router/router');
+		const configDir = `${getTestYxhyxDir()}/config`;
+		await mkdir(configDir, { recursive: true });
+		await writeFile(
+			`${configDir}/models.yaml`,
+			stringify({ ...DEFAULT_ROUTING_CONFIG, retry: { maxAttempts: 2, initialDelayMs: 0 } })
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should fail over to the next candidate on rate limits', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async (url: string) =>
+			url.includes('moonshot')
+				? new Response('rate limited', { status: 429 })
+				: completionResponse('from openrouter')
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'cheapest',
+			messages: [{ role: 'user', content: 'Hi' }],
+		});
+
+		expect(result.content).toBe('from openrouter');
+		expect(result.model).toBe('gemini-flash');
+		expect(result.attempts).toHaveLength(2);
+		expect(result.attempts[0]).toMatchObject({
+			model: 'kimi-8k',
+			success: false,
+			statusCode: 429,
+		});
+		expect(result.attempts[0].error).toContain('rate limited');
+		expect(result.attempts[1]).toMatchObject({ model: 'gemini-flash', success: true });
+
+		// Kimi retried once before failing over
+		const kimiCalls = fetchMock.mock.calls.filter(([url]) => url.includes('moonshot'));
+		expect(kimiCalls).toHaveLength(2);
+	});
+
+	it('should log every attempt to the usage log', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { getUsageRecords } = await import('../src/lib/memory/state-manager');
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (url: string) =>
+				url.includes('moonshot')
+					? new Response('overloaded', { status: 503 })
+					: completionResponse('ok')
+			)
+		);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'cheapest',
+			command: 'news',
+			workId: 'work-42',
+			messages: [{ role: 'user', content: 'Hi' }],
+		});
+
+		const records = await getUsageRecords();
+		expect(records).toHaveLength(2);
+		expect(records[0]).toMatchObject({
+			model: 'kimi-8k',
+			provider: 'kimi',
+			success: false,
+			cost_usd: 0,
+			command: 'news',
+		});
+		expect(records[1]).toMatchObject({
+			model: 'gemini-flash',
+			provider: 'openrouter',
+			success: true,
+			input_tokens: 10,
+			output_tokens: 5,
+			command: 'news',
+			work_id: 'work-42',
+		});
+		expect(records[1].cost_usd).toBeCloseTo(result.cost, 10);
+		expect(records[1].latency_ms).toBeGreaterThanOrEqual(0);
+	});
+
+	it('should not fail over on non-recoverable errors', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async () => new Response('bad key', { status: 401 }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		await expect(
+			router.complete({ model: 'cheapest', messages: [{ role: 'user', content: 'Hi' }] })
+		).rejects.toThrow('Kimi API error: 401');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should throw AllModelsFailedError when every candidate fails', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { AllModelsFailedError } = await import('../src/lib/errors');
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('overloaded', { status: 503 }))
+		);
+
+		const router = new ModelRouter();
+		const error = await router
+			.complete({ model: 'cheapest', messages: [{ role: 'user', content: 'Hi' }] })
+			.catch((e) => e);
+
+		expect(error).toBeInstanceOf(AllModelsFailedError);
+		expect(error.attempts.map((a: { model: string }) => a.model)).toEqual([
+			'kimi-8k',
+			'gemini-flash',
+			'llama-70b',
+		]);
+	});
+});
+
+// ============================================
+// OpenAI-Compatible Provider Tests
+// ============================================
+
+describe('OpenAI-Compatible Providers', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = '';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = '';
+		process.env.ANTHROPIC_API_KEY = '';
+		process.env.GATEWAY_API_KEY = '';
+
+		const configDir = `${getTestYxhyxDir()}/config`;
+		await mkdir(configDir, { recursive: true });
+		await writeFile(
+			`${configDir}/models.yaml`,
+			stringify({
+				models: {
+					'llama-local': {
+						provider: 'openai-compatible',
+						model: 'llama3.1:8b',
+						base_url: 'http://localhost:11434/v1/',
+						inputCostPer1M: 0,
+						outputCostPer1M: 0,
+						maxContext: 8000,
+					},
+					'gateway-gpt': {
+						provider: 'openai-compatible',
+						model: 'gpt-4o-mini',
+						base_url: 'https://gateway.example/v1',
+						api_key_env: 'GATEWAY_API_KEY',
+						headers: { 'X-Team': 'personal' },
+						inputCostPer1M: 0.15,
+						outputCostPer1M: 0.6,
+						maxContext: 128000,
+					},
+				},
+				routing: {
+					TRIVIAL: ['llama-local'],
+					QUICK: ['llama-local'],
+					STANDARD: ['gateway-gpt', 'llama-local'],
+					COMPLEX: ['gateway-gpt'],
+					CRITICAL: ['gateway-gpt'],
+				},
+			})
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should treat keyless local models as available', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const router = new ModelRouter();
+		expect(router.getAvailableProviders()).toEqual(['openai-compatible']);
+		expect(router.hasAvailableProvider()).toBe(true);
+
+		// gateway-gpt needs GATEWAY_API_KEY, so STANDARD falls through to the local model
+		const result = await router.route({ complexity: 'STANDARD' });
+		expect(result.modelName).toBe('llama-local');
+	});
+
+	it('should route to keyed models once their env var is set', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.GATEWAY_API_KEY = 'gw-key';
+
+		const router = new ModelRouter();
+		const result = await router.route({ complexity: 'STANDARD' });
+		expect(result.modelName).toBe('gateway-gpt');
+	});
+
+	it('should call the configured base_url at zero cost for local models', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+			completionResponse('local reply')
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'llama-local',
+			messages: [{ role: 'user', content: 'Hi' }],
+		});
+
+		expect(result.content).toBe('local reply');
+		expect(result.cost).toBe(0);
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('http://localhost:11434/v1/chat/completions');
+		expect(init.headers).not.toHaveProperty('Authorization');
+		expect(JSON.parse(init.body as string).model).toBe('llama3.1:8b');
+	});
+
+	it('should send the API key and extra headers', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.GATEWAY_API_KEY = 'gw-key';
+		const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+			completionResponse('gateway reply')
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'gateway-gpt',
+			messages: [{ role: 'user', content: 'Hi' }],
+		});
+
+		expect(result.cost).toBeGreaterThan(0);
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('https://gateway.example/v1/chat/completions');
+		expect(init.headers).toMatchObject({
+			Authorization: 'Bearer gw-key',
+			'X-Team': 'personal',
+		});
+	});
+});
+
+// ============================================
+// Budget Tests
+// ============================================
+
+describe('Budget Enforcement', () => {
+	/**
+	 * Write models.yaml with the default routing plus the given budget
+	 */
+	async function writeBudget(budget: Record<string, unknown>, extraModels = {}): Promise<void> {
+		const { DEFAULT_ROUTING_CONFIG } = await import('../src/lib/model-router/router');
+		const configDir = `${getTestYxhyxDir()}/config`;
+		await mkdir(configDir, { recursive: true });
+		await writeFile(
+			`${configDir}/models.yaml`,
+			stringify({
+				...DEFAULT_ROUTING_CONFIG,
+				models: { ...DEFAULT_ROUTING_CONFIG.models, ...extraModels },
+				budget,
+			})
+		);
+	}
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = 'test-key';
+		process.env.ANTHROPIC_API_KEY = 'test-key';
+	});
+
+	it('should route normally while under budget', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		await writeBudget({ monthly: 10 });
+
+		const router = new ModelRouter();
+		const result = await router.route({ complexity: 'COMPLEX' });
+		expect(result.modelName).toBe('claude-haiku');
+		expect(result.complexity).toBe('COMPLEX');
+	});
+
+	it('should downgrade to cheaper models when a budget is nearly used up', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { recordCost } = await import('../src/lib/memory/state-manager');
+
+		await writeBudget({ monthly: 10, downgradeAt: 0.8 });
+		await recordCost('claude-sonnet', 8.5);
+
+		const router = new ModelRouter();
+		const result = await router.route({ complexity: 'COMPLEX' });
+
+		expect(result.complexity).toBe('STANDARD');
+		expect(result.modelName).toBe('llama-70b'); // cheapest STANDARD model
+		expect(result.reason).toContain('monthly budget 85% used');
+	});
+
+	it('should refuse calls once the daily budget is exceeded', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { recordCost } = await import('../src/lib/memory/state-manager');
+		const { BudgetExceededError } = await import('../src/lib/errors');
+
+		await writeBudget({ daily: 1 });
+		await recordCost('claude-sonnet', 1.2);
+
+		const router = new ModelRouter();
+		const error = await router.route({ complexity: 'STANDARD' }).catch((e) => e);
+
+		expect(error).toBeInstanceOf(BudgetExceededError);
+		expect(error.message).toContain('Daily budget exceeded');
+	});
+
+	it('should only apply per-command budgets to that command', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { recordCost } = await import('../src/lib/memory/state-manager');
+		const { BudgetExceededError } = await import('../src/lib/errors');
+
+		await writeBudget({ commands: { news: 0.5 } });
+		await recordCost('kimi-8k', 0.6, 'news');
+
+		const router = new ModelRouter();
+		await expect(router.route({ complexity: 'QUICK', command: 'news' })).rejects.toBeInstanceOf(
+			BudgetExceededError
+		);
+		await expect(router.route({ complexity: 'QUICK', command: 'chat' })).resolves.toBeDefined();
+	});
+
+	it('should still allow zero-cost models after a budget is exceeded', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { recordCost } = await import('../src/lib/memory/state-manager');
+
+		await writeBudget(
+			{ monthly: 1 },
+			{
+				'llama-local': {
+					provider: 'openai-compatible',
+					model: 'llama3.1:8b',
+					base_url: 'http://localhost:11434/v1',
+					inputCostPer1M: 0,
+					outputCostPer1M: 0,
+					maxContext: 8000,
+				},
+			}
+		);
+		await recordCost('claude-sonnet', 2);
+
+		const router = new ModelRouter();
+		const result = await router.route({ preferredModel: 'llama-local' });
+		expect(result.modelName).toBe('llama-local');
+	});
+
+	it('should report remaining budget', async () => {
+		const { getBudgetStatus } = await import('../src/lib/model-router/budget');
+		const { recordCost } = await import('../src/lib/memory/state-manager');
+
+		await recordCost('kimi-8k', 1.5, 'chat');
+
+		const statuses = await getBudgetStatus({ monthly: 10, commands: { chat: 2 } });
+		expect(statuses).toEqual([
+			{ scope: 'monthly', limit: 10, spent: 1.5, remaining: 8.5, used: 0.15 },
+			{ scope: 'chat', limit: 2, spent: 1.5, remaining: 0.5, used: 0.75 },
+		]);
+	});
+});
+
+// ============================================
+// Completion Cache Tests
+// ============================================
+
+describe('Completion Cache', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = '';
+		process.env.ANTHROPIC_API_KEY = '';
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const request = {
+		model: 'kimi-8k',
+		messages: [{ role: 'user' as const, content: 'Define idempotent' }],
+		temperature: 0.3,
+	};
+
+	it('should serve repeat requests from the cache at zero cost', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { getUsageRecords } = await import('../src/lib/memory/state-manager');
+
+		const fetchMock = vi.fn(async () => completionResponse('Same result every time'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const first = await router.complete({ ...request, cache: true });
+		const second = await router.complete({ ...request, cache: true });
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(first.cached).toBeUndefined();
+		expect(first.cost).toBeGreaterThan(0);
+		expect(second).toMatchObject({
+			content: 'Same result every time',
+			cost: 0,
+			model: 'kimi-8k',
+			cached: true,
+		});
+
+		const records = await getUsageRecords();
+		expect(records).toHaveLength(2);
+		expect(records[1]).toMatchObject({ cached: true, cost_usd: 0, model: 'kimi-8k' });
+	});
+
+	it('should key on temperature and skip the cache unless asked', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async () => completionResponse('fresh'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		await router.complete({ ...request, cache: true });
+		await router.complete({ ...request, temperature: 0.9, cache: true });
+		await router.complete(request);
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it('should expire entries after their TTL', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async () => completionResponse('fresh'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		await router.complete({ ...request, cache: { ttlSeconds: 0 } });
+		await router.complete({ ...request, cache: { ttlSeconds: 0 } });
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should report stats and clear entries', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { getCacheStats, clearCache } = await import('../src/lib/model-router/cache');
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => completionResponse('cached'))
+		);
+
+		const router = new ModelRouter();
+		await router.complete({ ...request, cache: true });
+		await router.complete({ ...request, temperature: 0, cache: { ttlSeconds: 0 } });
+
+		const stats = await getCacheStats();
+		expect(stats.entries).toBe(2);
+		expect(stats.expired).toBe(1);
+		expect(stats.sizeBytes).toBeGreaterThan(0);
+
+		expect(await clearCache({ expiredOnly: true })).toBe(1);
+		expect(await clearCache()).toBe(1);
+		expect((await getCacheStats()).entries).toBe(0);
+	});
+});
+
+// ============================================
+// Adaptive Classification Tests
+// ============================================
+
+describe('Adaptive Classification', () => {
+	const PROMPT = 'summarize the quarterly sales report for the team';
+
+	/**
+	 * Build a rating for a prompt similar to PROMPT
+	 */
+	function rating(score: number, model: string, complexity: string, prompt = PROMPT) {
+		return {
+			id: `rating-${Math.random()}`,
+			timestamp: new Date().toISOString(),
+			rating: score,
+			source: 'explicit' as const,
+			model_used: model,
+			prompt_snippet: prompt,
+			complexity: complexity as 'QUICK',
+		};
+	}
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = 'test-key';
+		process.env.ANTHROPIC_API_KEY = 'test-key';
+
+		// Ratings distill lessons through the router; keep those calls offline
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => completionResponse('not a lesson'))
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should keep the heuristic result without rating history', async () => {
+		const { adaptiveClassify } = await import('../src/lib/model-router/adaptive');
+		const { classify } = await import('../src/lib/model-router/complexity');
+
+		const result = await adaptiveClassify(PROMPT, { ratings: [] });
+
+		expect(result.complexity).toBe(classify(PROMPT));
+		expect(result.adjustment).toBe('none');
+		expect(result.similar).toHaveLength(0);
+	});
+
+	it('should escalate when similar prompts were rated poorly at the same tier', async () => {
+		const { adaptiveClassify } = await import('../src/lib/model-router/adaptive');
+		const { classify, COMPLEXITY_LEVELS } = await import('../src/lib/model-router/complexity');
+
+		const heuristic = classify(PROMPT);
+		const result = await adaptiveClassify(PROMPT, {
+			ratings: [rating(3, 'kimi-8k', heuristic), rating(4, 'kimi-8k', heuristic)],
+		});
+
+		expect(result.adjustment).toBe('escalated');
+		expect(result.complexity).toBe(COMPLEXITY_LEVELS[COMPLEXITY_LEVELS.indexOf(heuristic) + 1]);
+		expect(result.reason).toContain('kimi-8k');
+	});
+
+	it('should ignore ratings for unrelated prompts', async () => {
+		const { adaptiveClassify } = await import('../src/lib/model-router/adaptive');
+		const { classify } = await import('../src/lib/model-router/complexity');
+
+		const heuristic = classify(PROMPT);
+		const unrelated = 'write a haiku about autumn leaves';
+		const result = await adaptiveClassify(PROMPT, {
+			ratings: [
+				rating(2, 'kimi-8k', heuristic, unrelated),
+				rating(1, 'kimi-8k', heuristic, unrelated),
+			],
+		});
+
+		expect(result.adjustment).toBe('none');
+	});
+
+	it("should de-escalate when the lower tier's models were rated well", async () => {
+		const { adaptiveClassify } = await import('../src/lib/model-router/adaptive');
+		const { DEFAULT_ROUTING_CONFIG } = await import('../src/lib/model-router/router');
+
+		const task = 'explain the quarterly sales report in detail with analysis';
+		const { classify, COMPLEXITY_LEVELS } = await import('../src/lib/model-router/complexity');
+		const heuristic = classify(task);
+		const lower = COMPLEXITY_LEVELS[COMPLEXITY_LEVELS.indexOf(heuristic) - 1];
+		const cheapModel = DEFAULT_ROUTING_CONFIG.routing[lower][0];
+
+		const result = await adaptiveClassify(task, {
+			routing: DEFAULT_ROUTING_CONFIG.routing,
+			ratings: [9, 8, 9].map((score) => rating(score, cheapModel, lower, task)),
+		});
+
+		expect(result.adjustment).toBe('de-escalated');
+		expect(result.complexity).toBe(lower);
+	});
+
+	it('should escalate routing using ratings joined from the last interaction', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { classify } = await import('../src/lib/model-router/complexity');
+		const { learningManager } = await import('../src/lib/memory/learning-manager');
+		const { setState } = await import('../src/lib/memory/state-manager');
+
+		const heuristic = classify(PROMPT);
+		for (const score of [2, 3]) {
+			await setState({
+				lastInteraction: {
+					timestamp: new Date().toISOString(),
+					model: 'kimi-8k',
+					complexity: heuristic,
+					prompt_snippet: PROMPT,
+					response_snippet: 'Sales were up.',
+					cost: 0.0001,
+				},
+			});
+			await learningManager.captureRating({
+				id: `rating-${score}`,
+				timestamp: new Date().toISOString(),
+				rating: score,
+				source: 'explicit',
+			});
+		}
+
+		const router = new ModelRouter();
+		const result = await router.route({ task: PROMPT });
+
+		expect(result.adaptive?.adjustment).toBe('escalated');
+		expect(result.adaptive?.heuristic).toBe(heuristic);
+		expect(result.reason).toContain(`escalated from ${heuristic}`);
+	});
+
+	it('should not adapt when disabled in models.yaml', async () => {
+		const { ModelRouter, DEFAULT_ROUTING_CONFIG } = await import('../src/lib/model-router/router');
+
+		const configDir = `${getTestYxhyxDir()}/config`;
+		await mkdir(configDir, { recursive: true });
+		await writeFile(
+			`${configDir}/models.yaml`,
+			stringify({ ...DEFAULT_ROUTING_CONFIG, adaptive: false })
+		);
+
+		const router = new ModelRouter();
+		const result = await router.route({ task: PROMPT });
+
+		expect(result.adaptive).toBeUndefined();
+	});
+});
+
+// ============================================
+// Tool Calling Tests
+// ============================================
+
+describe('Tool Calling', () => {
+	const ADD_GOAL = {
+		name: 'add_goal',
+		description: 'Add a goal',
+		parameters: {
+			type: 'object' as const,
+			properties: { title: { type: 'string' as const } },
+			required: ['title'],
+		},
+	};
+
+	/**
+	 * Parse the JSON body of the nth fetch call
+	 */
+	function requestBody(fetchMock: ReturnType<typeof vi.fn>, call = 0) {
+		return JSON.parse((fetchMock.mock.calls[call][1] as RequestInit).body as string);
+	}
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = '';
+		process.env.ANTHROPIC_API_KEY = 'test-key';
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should send OpenAI functions and parse tool_calls', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({
+						choices: [
+							{
+								message: {
+									content: null,
+									tool_calls: [
+										{
+											id: 'call_1',
+											type: 'function',
+											function: { name: 'add_goal', arguments: '{"title":"Run a marathon"}' },
+										},
+									],
+								},
+							},
+						],
+						usage: { prompt_tokens: 20, completion_tokens: 8 },
+					}),
+					{ status: 200 }
+				)
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'kimi-8k',
+			messages: [{ role: 'user', content: 'Add a marathon goal' }],
+			tools: [ADD_GOAL],
+		});
+
+		expect(requestBody(fetchMock).tools).toEqual([
+			{
+				type: 'function',
+				function: {
+					name: 'add_goal',
+					description: 'Add a goal',
+					parameters: ADD_GOAL.parameters,
+				},
+			},
+		]);
+		expect(result.content).toBe('');
+		expect(result.toolCalls).toEqual([
+			{ id: 'call_1', name: 'add_goal', arguments: { title: 'Run a marathon' } },
+		]);
+	});
+
+	it('should send tool results back in OpenAI format', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(async () => completionResponse('Done'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'kimi-8k',
+			messages: [
+				{ role: 'user', content: 'Add a marathon goal' },
+				{
+					role: 'assistant',
+					content: '',
+					toolCalls: [{ id: 'call_1', name: 'add_goal', arguments: { title: 'Marathon' } }],
+				},
+				{ role: 'tool', content: 'Added goal', toolCallId: 'call_1' },
+			],
+			tools: [ADD_GOAL],
+		});
+
+		const { messages } = requestBody(fetchMock);
+		expect(messages[1].tool_calls[0]).toEqual({
+			id: 'call_1',
+			type: 'function',
+			function: { name: 'add_goal', arguments: '{"title":"Marathon"}' },
+		});
+		expect(messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'Added goal' });
+		expect(result.toolCalls).toBeUndefined();
+	});
+
+	it('should use Anthropic tool_use and tool_result blocks', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const fetchMock = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({
+						content: [
+							{ type: 'text', text: 'Adding it.' },
+							{ type: 'tool_use', id: 'toolu_2', name: 'add_goal', input: { title: 'Swim' } },
+						],
+						usage: { input_tokens: 30, output_tokens: 12 },
+					}),
+					{ status: 200 }
+				)
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const router = new ModelRouter();
+		const result = await router.complete({
+			model: 'claude-sonnet',
+			messages: [
+				{ role: 'system', content: 'You are helpful' },
+				{ role: 'user', content: 'Add two goals' },
+				{
+					role: 'assistant',
+					content: '',
+					toolCalls: [
+						{ id: 'toolu_0', name: 'add_goal', arguments: { title: 'Run' } },
+						{ id: 'toolu_1', name: 'add_goal', arguments: { title: 'Bike' } },
+					],
+				},
+				{ role: 'tool', content: 'Added Run', toolCallId: 'toolu_0' },
+				{ role: 'tool', content: 'Added Bike', toolCallId: 'toolu_1' },
+			],
+			tools: [ADD_GOAL],
+		});
+
+		const body = requestBody(fetchMock);
+		expect(body.system).toBe('You are helpful');
+		expect(body.tools[0]).toEqual({
+			name: 'add_goal',
+			description: 'Add a goal',
+			input_schema: ADD_GOAL.parameters,
+		});
+		expect(body.messages[1].content[0]).toEqual({
+			type: 'tool_use',
+			id: 'toolu_0',
+			name: 'add_goal',
+			input: { title: 'Run' },
+		});
+		// Consecutive results are merged into one user message
+		expect(body.messages).toHaveLength(3);
+		expect(body.messages[2].role).toBe('user');
+		expect(body.messages[2].content).toHaveLength(2);
+		expect(body.messages[2].content[1]).toEqual({
+			type: 'tool_result',
+			tool_use_id: 'toolu_1',
+			content: 'Added Bike',
+		});
+
+		expect(result.content).toBe('Adding it.');
+		expect(result.toolCalls).toEqual([
+			{ id: 'toolu_2', name: 'add_goal', arguments: { title: 'Swim' } },
+		]);
+	});
+
+	it('should assemble streamed OpenAI tool call fragments', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				sseResponse([
+					'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_9","function":{"name":"add_goal","arguments":""}}]}}]}',
+					'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"title\\":"}}]}}]}',
+					'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"Read more\\"}"}}]}}]}',
+					'data: [DONE]',
+				])
+			)
+		);
+
+		const router = new ModelRouter();
+		let toolCalls: unknown;
+		for await (const event of router.stream({
+			model: 'kimi-8k',
+			messages: [{ role: 'user', content: 'Goal: read more' }],
+			tools: [ADD_GOAL],
+		})) {
+			if (event.type === 'done') toolCalls = event.result.toolCalls;
+		}
+
+		expect(toolCalls).toEqual([
+			{ id: 'call_9', name: 'add_goal', arguments: { title: 'Read more' } },
+		]);
+	});
+
+	it('should assemble streamed Anthropic tool_use input', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				sseResponse([
+					'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":15,"output_tokens":1}}}',
+					'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"tool_use","id":"toolu_5","name":"add_goal","input":{}}}',
+					'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"{\\"title\\": \\"Sl"}}',
+					'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"input_json_delta","partial_json":"eep\\"}"}}',
+					'event: content_block_stop\ndata: {"type":"content_block_stop","index":0}',
+					'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":9}}',
+				])
+			)
+		);
+
+		const router = new ModelRouter();
+		let toolCalls: unknown;
+		for await (const event of router.stream({
+			model: 'claude-sonnet',
+			messages: [{ role: 'user', content: 'Goal: sleep' }],
+			tools: [ADD_GOAL],
+		})) {
+			if (event.type === 'done') toolCalls = event.result.toolCalls;
+		}
+
+		expect(toolCalls).toEqual([{ id: 'toolu_5', name: 'add_goal', arguments: { title: 'Sleep' } }]);
+	});
+});
+
+// ============================================
+// Record / Replay Tests
+// ============================================
+
+describe('Record / Replay', () => {
+	const FIXTURES = new URL('./fixtures/replay', import.meta.url).pathname;
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = '';
+		process.env.ANTHROPIC_API_KEY = '';
+		process.env.YXHYX_FIXTURES_DIR = `${getTestYxhyxDir()}/fixtures`;
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		process.env.YXHYX_PROVIDER_MODE = '';
+		process.env.YXHYX_FIXTURES_DIR = '';
+	});
+
+	const request = {
+		model: 'kimi-8k',
+		messages: [{ role: 'user' as const, content: 'Say hello' }],
+	};
+
+	it('should replay recorded completions without the network', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { readdir } = await import('node:fs/promises');
+
+		process.env.YXHYX_PROVIDER_MODE = 'record';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => completionResponse('Hello from the fixture'))
+		);
+		const recorded = await new ModelRouter().complete(request);
+		expect(await readdir(`${getTestYxhyxDir()}/fixtures`)).toHaveLength(1);
+
+		process.env.YXHYX_PROVIDER_MODE = 'replay';
+		process.env.KIMI_API_KEY = '';
+		const fetchMock = vi.fn(async () => {
+			throw new Error('network disabled');
+		});
+		vi.stubGlobal('fetch', fetchMock);
+		const replayed = await new ModelRouter().complete(request);
+
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(replayed.content).toBe('Hello from the fixture');
+		expect(replayed.model).toBe(recorded.model);
+		expect(replayed.inputTokens).toBe(10);
+		expect(replayed.outputTokens).toBe(5);
+		expect(replayed.cost).toBe(recorded.cost);
+	});
+
+	it('should replay recorded streams including tool calls', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const tools = [
+			{
+				name: 'list_feeds',
+				description: 'List feeds',
+				parameters: { type: 'object' as const, properties: {} },
+			},
+		];
+
+		process.env.YXHYX_PROVIDER_MODE = 'record';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () =>
+				sseResponse([
+					'data: {"choices":[{"delta":{"content":"Checking"}}]}',
+					'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_1","function":{"name":"list_feeds","arguments":"{}"}}]}}]}',
+					'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3}}',
+					'data: [DONE]',
+				])
+			)
+		);
+		for await (const _event of new ModelRouter().stream({ ...request, tools })) {
+			// drain
+		}
+
+		process.env.YXHYX_PROVIDER_MODE = 'replay';
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new Error('network disabled');
+			})
+		);
+		const tokens: string[] = [];
+		let result:
+			| { content: string; toolCalls?: Array<{ name: string }>; inputTokens: number }
+			| undefined;
+		for await (const event of new ModelRouter().stream({ ...request, tools })) {
+			if (event.type === 'token') tokens.push(event.content);
+			else result = event.result;
+		}
+
+		expect(tokens.join('')).toBe('Checking');
+		expect(result?.toolCalls?.map((c) => c.name)).toEqual(['list_feeds']);
+		expect(result?.inputTokens).toBe(12);
+	});
+
+	it('should fail on a missing fixture instead of calling the provider', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { ReplayFixtureMissingError } = await import('../src/lib/errors');
+
+		process.env.YXHYX_PROVIDER_MODE = 'replay';
+		const fetchMock = vi.fn(async () => completionResponse('live'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(new ModelRouter().complete(request)).rejects.toThrow(ReplayFixtureMissingError);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('should read the mode from models.yaml unless the environment overrides it', async () => {
+		const { ModelRouter, DEFAULT_ROUTING_CONFIG } = await import('../src/lib/model-router/router');
+
+		const configDir = `${getTestYxhyxDir()}/config`;
+		await mkdir(configDir, { recursive: true });
+		await writeFile(
+			`${configDir}/models.yaml`,
+			stringify({ ...DEFAULT_ROUTING_CONFIG, providerMode: 'replay' })
+		);
+		const fetchMock = vi.fn(async () => completionResponse('live'));
+		vi.stubGlobal('fetch', fetchMock);
+
+		await expect(new ModelRouter().complete(request)).rejects.toThrow('No recorded fixture');
+
+		process.env.YXHYX_PROVIDER_MODE = 'live';
+		const live = await new ModelRouter().complete(request);
+		expect(live.content).toBe('live');
+	});
+
+	it('should make every configured model available in replay mode', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.KIMI_API_KEY = '';
+		process.env.YXHYX_PROVIDER_MODE = 'replay';
+		const router = new ModelRouter();
+
+		expect((await router.route({ preferredModel: 'claude-sonnet' })).modelName).toBe(
+			'claude-sonnet'
+		);
+		expect(router.getAvailableProviders()).toContain('anthropic');
+	});
+
+	it('should run AI features offline from checked-in fixtures', async () => {
+		const { quickDefine } = await import('../src/lib/research/quick-research');
+
+		process.env.KIMI_API_KEY = '';
+		process.env.YXHYX_PROVIDER_MODE = 'replay';
+		process.env.YXHYX_FIXTURES_DIR = FIXTURES;
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => {
+				throw new Error('network disabled');
+			})
+		);
+
+		const result = await quickDefine('idempotency');
+
+		expect(result.definition).toContain('same effect');
+		expect(result.relatedTerms).toContain('retry');
+	});
+});
+
+// ============================================
+// Context Window Tests
+// ============================================
+
+describe('Context Window', () => {
+	/**
+	 * Build a conversation of roughly the given number of characters
+	 */
+	function longConversation(chars: number, turns = 10) {
+		const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+			{ role: 'system', content: 'You are Yxhyx.' },
+		];
+		for (let i = 0; i < turns; i++) {
+			messages.push({
+				role: i % 2 === 0 ? 'user' : 'assistant',
+				content: `${i} ${'x'.repeat(chars / turns)}`,
+			});
+		}
+		messages.push({ role: 'user', content: 'What now?' });
+		return messages;
+	}
+
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		process.env.KIMI_API_KEY = 'test-key';
+		process.env.MOONSHOT_API_KEY = '';
+		process.env.OPENROUTER_API_KEY = 'test-key';
+		process.env.ANTHROPIC_API_KEY = '';
+	});
+
+	it('should estimate tokens per provider', async () => {
+		const { estimateTokens, estimateMessagesTokens } = await import(
+			'../src/lib/model-router/tokens'
+		);
+
+		const text = 'a'.repeat(700);
+		expect(estimateTokens(text)).toBe(175);
+		expect(estimateTokens(text, { provider: 'anthropic' })).toBe(200);
+		expect(estimateTokens(text, { provider: 'kimi', charsPerToken: 2 })).toBe(350);
+		expect(estimateMessagesTokens([{ role: 'user', content: text }])).toBe(179);
+	});
+
+	it('should keep the routed model when the conversation fits', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const router = new ModelRouter();
+		const result = await router.route({
+			complexity: 'TRIVIAL',
+			messages: [{ role: 'user', content: 'hi' }],
+		});
+
+		expect(result.modelName).toBe('kimi-8k');
+	});
+
+	it('should upgrade to a larger-context model when the prompt will not fit', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		const router = new ModelRouter();
+		const candidates = await router.routeCandidates({
+			complexity: 'TRIVIAL',
+			messages: longConversation(40_000),
+		});
+
+		// ~10k tokens skips kimi-8k; gemini-flash in the same tier fits
+		expect(candidates.map((c) => c.modelName)).not.toContain('kimi-8k');
+		expect(candidates[0].modelName).toBe('gemini-flash');
+		expect(candidates[0].reason).toContain("exceeds kimi-8k's 8000");
+	});
+
+	it('should look beyond the tier when nothing in it fits', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.OPENROUTER_API_KEY = '';
+		const router = new ModelRouter();
+		const result = await router.route({
+			complexity: 'TRIVIAL',
+			messages: longConversation(40_000),
+		});
+
+		expect(result.modelName).toBe('kimi-32k');
+		expect(result.reason).toContain('Upgraded to kimi-32k for context');
+	});
+
+	it('should refuse when a user-specified model is too small', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+		const { ContextWindowError } = await import('../src/lib/errors');
+
+		const router = new ModelRouter();
+		await expect(
+			router.route({ preferredModel: 'kimi-8k', messages: longConversation(40_000) })
+		).rejects.toThrow(ContextWindowError);
+	});
+
+	it('should refuse when no available model fits', async () => {
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.OPENROUTER_API_KEY = '';
+		const router = new ModelRouter();
+		await expect(
+			router.route({ complexity: 'QUICK', messages: longConversation(200_000) })
+		).rejects.toThrow('the largest available model allows 32000');
+	});
+
+	it('should summarize older turns past the threshold and keep recent ones', async () => {
+		const { packConversation } = await import('../src/lib/model-router/context');
+
+		const messages = longConversation(30_000);
+		const summarize = vi.fn(async () => 'They talked about x.');
+		const result = await packConversation(messages, {
+			maxContext: 8000,
+			keepRecentMessages: 4,
+			summarize,
+		});
+
+		expect(result.summarized).toBeGreaterThan(0);
+		expect(result.messages[0].role).toBe('system');
+		expect(result.messages[0].content).toContain('You are Yxhyx.');
+		expect(result.messages[0].content).toContain('They talked about x.');
+		expect(result.messages[1].role).toBe('user');
+		expect(result.messages.at(-1)?.content).toBe('What now?');
+		expect(result.tokens).toBeLessThan(8000 * 0.75);
+	});
+
+	it('should leave short conversations and replace rather than stack summaries', async () => {
+		const { packConversation } = await import('../src/lib/model-router/context');
+
+		const short = longConversation(200);
+		const unchanged = await packConversation(short, { maxContext: 8000 });
+		expect(unchanged.summarized).toBe(0);
+		expect(unchanged.messages).toBe(short);
+
+		const first = await packConversation(longConversation(30_000), {
+			maxContext: 8000,
+			keepRecentMessages: 2,
+			summarize: async () => 'First summary',
+		});
+		const summarize = vi.fn(async () => 'Second summary');
+		const second = await packConversation(
+			[...first.messages, ...longConversation(30_000).slice(1)],
+			{ maxContext: 8000, keepRecentMessages: 2, summarize }
+		);
+
+		expect(summarize).toHaveBeenCalledWith(expect.any(Array), 'First summary');
+		expect(second.messages[0].content).toContain('Second summary');
+		expect(second.messages[0].content).not.toContain('First summary');
+	});
+});
+
 // ============================================
 // Default Config Tests
 // ============================================
@@ -17,6 +17,11 @@ const TEST_HOME = `/tmp/yxhyx-test-${process.pid}`;
 // Override HOME for tests - MUST happen before any imports
 process.env.HOME = TEST_HOME;
 
+// Never call real providers with the developer's keys - tests set the keys they need
+for (const key of ['KIMI_API_KEY', 'MOONSHOT_API_KEY', 'OPENROUTER_API_KEY', 'ANTHROPIC_API_KEY']) {
+	process.env[key] = '';
+}
+
 // Override HOME for tests
 beforeAll(async () => {
 	// Ensure HOME is set
@@ -149,6 +154,7 @@ export function createMockIdentity(overrides: Record<string, unknown> = {}) {
 			low_priority: [],
 		},
 		challenges: [],
+		habits: [],
 		preferences: {
 			communication: {
 				style: 'direct',
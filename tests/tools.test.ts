@@ -0,0 +1,420 @@
+/**
+ * Tools Tests
+ *
+ * Tests for the tool registry, built-in tools, the agent loop and the chat
+ * slash commands built on them.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatSessionState } from '../src/commands/slash-commands';
+import { createMockIdentity, resetTestEnvironment } from './setup';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Build a completion result for the fake agent model
+ */
+function completion(content: string, toolCalls?: Array<{ name: string; arguments: object }>) {
+	return {
+		content,
+		cost: 0.001,
+		model: 'kimi-8k',
+		inputTokens: 10,
+		outputTokens: 5,
+		attempts: [],
+		toolCalls: toolCalls?.map((call, i) => ({
+			id: `call_${i}`,
+			name: call.name,
+			arguments: call.arguments as Record<string, unknown>,
+		})),
+	};
+}
+
+// ============================================
+// Registry Tests
+// ============================================
+
+describe('Tool Registry', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+	});
+
+	it('should expose built-in tool definitions', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+
+		const names = toolRegistry.definitions().map((d) => d.name);
+		expect(names).toContain('get_identity');
+		expect(names).toContain('add_goal');
+		expect(names).toContain('add_feed');
+		expect(names).toContain('record_work_item');
+	});
+
+	it('should only require confirmation for tools that change data', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+
+		const call = (name: string) => ({ id: 'x', name, arguments: {} });
+		expect(toolRegistry.requiresConfirmation(call('get_identity'))).toBe(false);
+		expect(toolRegistry.requiresConfirmation(call('add_goal'))).toBe(true);
+	});
+
+	it('should reject unknown tools and invalid arguments', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+		const { ValidationError } = await import('../src/lib/errors');
+
+		await expect(
+			toolRegistry.execute({ id: '1', name: 'delete_everything', arguments: {} })
+		).rejects.toThrow(ValidationError);
+		await expect(
+			toolRegistry.execute({ id: '2', name: 'add_goal', arguments: { term: 'short' } })
+		).rejects.toThrow('missing required argument "title"');
+		await expect(
+			toolRegistry.execute({
+				id: '3',
+				name: 'add_goal',
+				arguments: { title: 'X', term: 'forever' },
+			})
+		).rejects.toThrow('must be one of short, medium, long');
+		await expect(
+			toolRegistry.execute({
+				id: '4',
+				name: 'update_goal_progress',
+				arguments: { goal_id: 'g', percent: '50' },
+			})
+		).rejects.toThrow('should be number');
+	});
+});
+
+// ============================================
+// Built-in Tool Tests
+// ============================================
+
+describe('Built-in Tools', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const { saveIdentity } = await import('../src/lib/context-loader');
+		await saveIdentity(createMockIdentity() as Parameters<typeof saveIdentity>[0]);
+	});
+
+	it('should add goals and update their progress', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+
+		await toolRegistry.execute({
+			id: '1',
+			name: 'add_goal',
+			arguments: { title: 'Ship v2', term: 'medium' },
+		});
+		const output = await toolRegistry.execute({
+			id: '2',
+			name: 'update_goal_progress',
+			arguments: { goal_id: 'goal-short-1', percent: 80 },
+		});
+
+		const identity = await loadIdentity();
+		expect(identity.goals.medium_term.map((g) => g.title)).toContain('Ship v2');
+		expect(identity.goals.short_term[0].progress).toBe(0.8);
+		expect(output).toContain('80%');
+	});
+
+	it('should fail clearly for unknown goal IDs', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+
+		await expect(
+			toolRegistry.execute({
+				id: '1',
+				name: 'update_goal_progress',
+				arguments: { goal_id: 'goal-missing', percent: 10 },
+			})
+		).rejects.toThrow('Goal not found: goal-missing');
+	});
+
+	it('should update projects', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+
+		await toolRegistry.execute({
+			id: '1',
+			name: 'update_project',
+			arguments: { project_id: 'project-1', status: 'paused', next_action: 'Write docs' },
+		});
+
+		const [project] = (await loadIdentity()).projects;
+		expect(project.status).toBe('paused');
+		expect(project.next_actions).toEqual(['Write docs']);
+	});
+
+	it('should read a single identity section', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+
+		const output = await toolRegistry.execute({
+			id: '1',
+			name: 'get_identity',
+			arguments: { section: 'projects' },
+		});
+
+		expect(output).toContain('Test Project');
+		expect(output).not.toContain('Test mission');
+	});
+
+	it('should read habits', async () => {
+		const { toolRegistry } = await import('../src/lib/tools');
+		const { updateIdentity } = await import('../src/lib/context-loader');
+		const { addHabit } = await import('../src/lib/identity-editor');
+
+		await updateIdentity(
+			(identity) =>
+				addHabit(identity, { title: 'Stretch', frequency: { times: 1, per: 'day' } }).identity
+		);
+
+		const output = await toolRegistry.execute({
+			id: '1',
+			name: 'get_identity',
+			arguments: { section: 'habits' },
+		});
+
+		expect(output).toContain('Stretch');
+		expect(output).not.toContain('Test Project');
+	});
+});
+
+// ============================================
+// Agent Loop Tests
+// ============================================
+
+describe('Agent Loop', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const { saveIdentity } = await import('../src/lib/context-loader');
+		await saveIdentity(createMockIdentity() as Parameters<typeof saveIdentity>[0]);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should run confirmed tool calls and return the final answer', async () => {
+		const { runAgent } = await import('../src/lib/tools');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+
+		const complete = vi
+			.fn()
+			.mockResolvedValueOnce(
+				completion('', [{ name: 'add_goal', arguments: { title: 'Learn Rust', term: 'long' } }])
+			)
+			.mockResolvedValueOnce(completion('Added your Rust goal.'));
+		const confirm = vi.fn(async () => true);
+
+		const agent = await runAgent({
+			completion: { messages: [{ role: 'user', content: 'I want to learn Rust' }] },
+			confirm,
+			complete,
+		});
+
+		expect(confirm).toHaveBeenCalledOnce();
+		expect(agent.result.content).toBe('Added your Rust goal.');
+		expect(agent.cost).toBeCloseTo(0.002);
+		expect(agent.toolCalls[0].status).toBe('ran');
+		expect((await loadIdentity()).goals.long_term.map((g) => g.title)).toEqual(['Learn Rust']);
+
+		// The second call carries the tool call and its result
+		const secondMessages = complete.mock.calls[1][0].messages;
+		expect(secondMessages.map((m: { role: string }) => m.role)).toEqual([
+			'user',
+			'assistant',
+			'tool',
+		]);
+		expect(agent.messages.map((m) => m.role)).toEqual(['assistant', 'tool', 'assistant']);
+	});
+
+	it('should not run tool calls the user declines', async () => {
+		const { runAgent } = await import('../src/lib/tools');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+
+		const complete = vi
+			.fn()
+			.mockResolvedValueOnce(
+				completion('', [{ name: 'add_goal', arguments: { title: 'Nope', term: 'short' } }])
+			)
+			.mockResolvedValueOnce(completion('Okay, I left your goals alone.'));
+
+		const agent = await runAgent({
+			completion: { messages: [{ role: 'user', content: 'Maybe add a goal' }] },
+			confirm: async () => false,
+			complete,
+		});
+
+		expect(agent.toolCalls[0].status).toBe('declined');
+		expect(complete.mock.calls[1][0].messages[2].content).toContain('declined');
+		expect((await loadIdentity()).goals.short_term).toHaveLength(1);
+	});
+
+	it('should run read-only tools without asking and report failures to the model', async () => {
+		const { runAgent } = await import('../src/lib/tools');
+
+		const complete = vi
+			.fn()
+			.mockResolvedValueOnce(
+				completion('', [
+					{ name: 'get_identity', arguments: { section: 'goals' } },
+					{ name: 'update_goal_progress', arguments: { goal_id: 'nope', percent: 10 } },
+				])
+			)
+			.mockResolvedValueOnce(completion('Here are your goals.'));
+		const confirm = vi.fn(async () => true);
+
+		const agent = await runAgent({
+			completion: { messages: [{ role: 'user', content: 'Show my goals' }] },
+			confirm,
+			complete,
+		});
+
+		expect(confirm).toHaveBeenCalledOnce(); // only for update_goal_progress
+		expect(agent.toolCalls.map((t) => t.status)).toEqual(['ran', 'failed']);
+		expect(agent.toolCalls[1].output).toContain('Goal not found');
+	});
+
+	it('should forbid tool calls once the step limit is reached', async () => {
+		const { runAgent } = await import('../src/lib/tools');
+
+		const complete = vi
+			.fn()
+			.mockResolvedValueOnce(completion('', [{ name: 'list_feeds', arguments: {} }]))
+			// A provider that ignores toolChoice still doesn't get another step
+			.mockResolvedValueOnce(completion('Final answer', [{ name: 'list_feeds', arguments: {} }]));
+
+		const agent = await runAgent({
+			completion: { messages: [{ role: 'user', content: 'Feeds?' }] },
+			confirm: async () => true,
+			complete,
+			maxSteps: 1,
+		});
+
+		expect(complete.mock.calls[0][0].toolChoice).toBeUndefined();
+		expect(complete.mock.calls[1][0].tools).toBeDefined();
+		expect(complete.mock.calls[1][0].toolChoice).toBe('none');
+		expect(complete).toHaveBeenCalledTimes(2);
+		expect(agent.result.content).toBe('Final answer');
+		expect(agent.result.toolCalls).toBeUndefined();
+	});
+
+	it('should keep tools in the final Anthropic request alongside earlier tool calls', async () => {
+		const { runAgent } = await import('../src/lib/tools');
+		const { ModelRouter } = await import('../src/lib/model-router/router');
+
+		process.env.ANTHROPIC_API_KEY = 'test-key';
+		const reply = (content: unknown[]) =>
+			new Response(JSON.stringify({ content, usage: { input_tokens: 20, output_tokens: 5 } }), {
+				status: 200,
+			});
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(
+				reply([{ type: 'tool_use', id: 'toolu_1', name: 'list_feeds', input: {} }])
+			)
+			.mockResolvedValueOnce(reply([{ type: 'text', text: 'You follow no feeds yet.' }]));
+		vi.stubGlobal('fetch', fetchMock);
+
+		try {
+			const router = new ModelRouter();
+			const agent = await runAgent({
+				completion: {
+					model: 'claude-sonnet',
+					messages: [{ role: 'user', content: 'Feeds?' }],
+				},
+				confirm: async () => true,
+				complete: (options) => router.complete(options),
+				maxSteps: 1,
+			});
+
+			const body = JSON.parse((fetchMock.mock.calls[1][1] as RequestInit).body as string);
+			expect(body.tools.map((t: { name: string }) => t.name)).toContain('list_feeds');
+			expect(body.tool_choice).toEqual({ type: 'none' });
+			expect(body.messages[1].content[0]).toMatchObject({ type: 'tool_use', id: 'toolu_1' });
+			expect(body.messages[2].content[0]).toMatchObject({
+				type: 'tool_result',
+				tool_use_id: 'toolu_1',
+			});
+			expect(agent.result.content).toBe('You follow no feeds yet.');
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+});
+
+// ============================================
+// Slash Command Tests
+// ============================================
+
+describe('Slash Commands', () => {
+	beforeEach(async () => {
+		await resetTestEnvironment();
+		const { saveIdentity } = await import('../src/lib/context-loader');
+		await saveIdentity(createMockIdentity() as Parameters<typeof saveIdentity>[0]);
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	function newSession(): ChatSessionState {
+		return { history: [], workId: null, unsaved: [], cost: 0 };
+	}
+
+	it('should parse slash commands and ignore other input', async () => {
+		const { parseSlashCommand } = await import('../src/commands/slash-commands');
+
+		expect(parseSlashCommand('/goal add Ship v2 --term medium')).toEqual({
+			name: 'goal',
+			args: 'add Ship v2 --term medium',
+		});
+		expect(parseSlashCommand('/HELP')).toEqual({ name: 'help', args: '' });
+		expect(parseSlashCommand('what is /usr/bin?')).toBeNull();
+		expect(parseSlashCommand('/ not a command')).toBeNull();
+	});
+
+	it('should update goals and lessons through the built-in tools', async () => {
+		const { runSlashCommand } = await import('../src/commands/slash-commands');
+		const { loadIdentity } = await import('../src/lib/context-loader');
+		const session = newSession();
+
+		expect(await runSlashCommand('/goal add Ship v2 --term medium', session)).toBe(true);
+		await runSlashCommand('/progress complete tests 40%', session);
+		await runSlashCommand('/lesson Small commits review faster', session);
+
+		const identity = await loadIdentity();
+		expect(identity.goals.medium_term.map((g) => g.title)).toEqual(['Ship v2']);
+		expect(identity.goals.short_term[0].progress).toBe(0.4);
+		expect(identity.learned.map((l) => l.lesson)).toEqual(['Small commits review faster']);
+	});
+
+	it('should report errors without throwing', async () => {
+		const { runSlashCommand } = await import('../src/commands/slash-commands');
+		const session = newSession();
+
+		expect(await runSlashCommand('/progress nonexistent goal 10', session)).toBe(true);
+		expect(await runSlashCommand('/model not-a-model', session)).toBe(true);
+		expect(await runSlashCommand('/bogus', session)).toBe(true);
+		expect(session.model).toBeUndefined();
+		expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Goal not found'));
+	});
+
+	it('should switch models and clear the session', async () => {
+		const { runSlashCommand } = await import('../src/commands/slash-commands');
+		const session = newSession();
+		session.history.push({ role: 'system', content: 'context' }, { role: 'user', content: 'hi' });
+		session.cost = 0.01;
+
+		await runSlashCommand('/model kimi-8k', session);
+		expect(session.model).toBe('kimi-8k');
+		await runSlashCommand('/model auto', session);
+		expect(session.model).toBeUndefined();
+
+		await runSlashCommand('/clear', session);
+		expect(session.history).toEqual([]);
+		expect(session.cost).toBe(0);
+	});
+});